@@ -20,9 +20,11 @@ const schemaOrgFields = [
     isCore: true,
     displayOrder: 1,
     category: 'basic',
+    weight: 3,
   },
   {
     name: 'description',
+    isLocalized: true,
     displayName: { de: 'Beschreibung', en: 'Description' },
     description: { de: 'Eine kurze Beschreibung des POI', en: 'A short description of the POI' },
     schemaOrgType: 'Place',
@@ -41,11 +43,12 @@ const schemaOrgFields = [
     description: { de: 'Straße und Hausnummer', en: 'Street and house number' },
     schemaOrgType: 'PostalAddress',
     schemaOrgProp: 'streetAddress',
-    dataType: DataType.STRING,
+    dataType: DataType.ADDRESS,
     isRequired: true,
     isCore: true,
     displayOrder: 10,
     category: 'address',
+    weight: 2,
   },
   {
     name: 'postalCode',
@@ -96,31 +99,19 @@ const schemaOrgFields = [
     category: 'address',
   },
   
-  // Coordinates
+  // Coordinates (compared by distance; sources keep latitude and longitude)
   {
-    name: 'latitude',
-    displayName: { de: 'Breitengrad', en: 'Latitude' },
-    description: { de: 'Geografischer Breitengrad', en: 'Geographic latitude' },
-    schemaOrgType: 'GeoCoordinates',
-    schemaOrgProp: 'latitude',
-    dataType: DataType.NUMBER,
+    name: 'geo',
+    displayName: { de: 'Koordinaten', en: 'Coordinates' },
+    description: { de: 'Geografische Breite und Länge', en: 'Geographic latitude and longitude' },
+    schemaOrgType: 'Place',
+    schemaOrgProp: 'geo',
+    dataType: DataType.COORDINATES,
     isRequired: false,
     isCore: true,
     displayOrder: 15,
     category: 'address',
   },
-  {
-    name: 'longitude',
-    displayName: { de: 'Längengrad', en: 'Longitude' },
-    description: { de: 'Geografischer Längengrad', en: 'Geographic longitude' },
-    schemaOrgType: 'GeoCoordinates',
-    schemaOrgProp: 'longitude',
-    dataType: DataType.NUMBER,
-    isRequired: false,
-    isCore: true,
-    displayOrder: 16,
-    category: 'address',
-  },
   
   // Contact
   {
@@ -134,6 +125,7 @@ const schemaOrgFields = [
     isCore: true,
     displayOrder: 20,
     category: 'contact',
+    weight: 2,
   },
   {
     name: 'email',
@@ -158,6 +150,21 @@ const schemaOrgFields = [
     isCore: true,
     displayOrder: 22,
     category: 'contact',
+    weight: 2,
+  },
+  {
+    name: 'websiteHealth',
+    displayName: { de: 'Website-Zustand', en: 'Website Health' },
+    description: {
+      de: 'Erreichbarkeit, TLS, Weiterleitungen und defekte Links der Website',
+      en: 'Availability, TLS, redirects and dead links of the website',
+    },
+    dataType: DataType.NUMBER,
+    isRequired: false,
+    isCore: false, // Measured by the crawler, not compared between sources
+    displayOrder: 23,
+    category: 'contact',
+    weight: 2,
   },
   
   // Business Details
@@ -172,6 +179,9 @@ const schemaOrgFields = [
     isCore: true,
     displayOrder: 30,
     category: 'business',
+    weight: 2,
+    categoryWeights: { Museum: 3, Restaurant: 3, Café: 3 },
+    extractionPrompt: 'Regular weekly opening hours (Öffnungszeiten). Ignore seasonal exceptions and holiday closures.',
     normalization: {
       format: 'Mo-Fr 09:00-18:00',
       examples: ['Mo-Fr 9-18', 'Monday-Friday 9am-6pm', 'Montag bis Freitag 9-18 Uhr'],
@@ -188,6 +198,9 @@ const schemaOrgFields = [
     isCore: true,
     displayOrder: 31,
     category: 'business',
+    weight: 0.5,
+    categoryWeights: { Restaurant: 1, Hotel: 1 },
+    extractionPrompt: 'Price level or typical price range (Preise, Eintritt, Tarife) stated on the website.',
   },
   {
     name: 'paymentAccepted',
@@ -200,6 +213,7 @@ const schemaOrgFields = [
     isCore: true,
     displayOrder: 32,
     category: 'business',
+    extractionPrompt: 'Accepted payment methods (e.g. Bargeld, EC-Karte, Kreditkarte, PayPal).',
   },
   
   // Restaurant-specific
@@ -226,6 +240,7 @@ const schemaOrgFields = [
     isCore: false,
     displayOrder: 41,
     category: 'restaurant',
+    extractionPrompt: 'URL of the menu (Speisekarte), either a page or a linked PDF document.',
   },
   {
     name: 'acceptsReservations',
@@ -241,6 +256,13 @@ const schemaOrgFields = [
   },
 ];
 
+/**
+ * Fields replaced by newer ones (latitude/longitude by geo). Existing
+ * databases keep the rows for their extracted values, but they are no
+ * longer audited or scored.
+ */
+const retiredFields = ['latitude', 'longitude'];
+
 /**
  * Default Retention Configurations
  */
@@ -371,6 +393,11 @@ async function main() {
     });
   }
   console.log(`   ✓ Created ${schemaOrgFields.length} data fields`);
+  const retired = await prisma.dataField.updateMany({
+    where: { name: { in: retiredFields } },
+    data: { isCore: false, weight: 0 },
+  });
+  console.log(`   ✓ Retired ${retired.count} data fields`);
   
   // Create retention configs
   console.log('🗄️ Creating retention configurations...');
@@ -9,7 +9,8 @@ import {
   TableHeader, 
   TableRow 
 } from '@/components/ui/table';
-import { DollarSign, TrendingUp, TrendingDown, AlertTriangle, Bot, Map, Globe, Mail } from 'lucide-react';
+import { DollarSign, TrendingUp, TrendingDown, AlertTriangle, Bot, Map, Globe, Mail, PiggyBank } from 'lucide-react';
+import { getAuditSavings } from '@/lib/cost-tracker';
 
 // Mock cost data
 const mockCostSummary = {
@@ -60,6 +61,14 @@ export default async function CostsPage({ params }: CostsPageProps) {
   const percentChange = ((mockCostSummary.currentMonth - mockCostSummary.lastMonth) / mockCostSummary.lastMonth) * 100;
   const budgetUsed = (mockCostSummary.currentMonth / mockCostSummary.budget) * 100;
 
+  // Audits of the current month carried forward because their inputs were unchanged
+  const now = new Date();
+  const savings = await getAuditSavings(new Date(now.getFullYear(), now.getMonth(), 1), now).catch((error) => {
+    console.error('Audit savings error:', error);
+    return null;
+  });
+  const skippedShare = savings && savings.audits > 0 ? (savings.skippedAudits / savings.audits) * 100 : 0;
+
   const typeIcons = {
     OPENAI: Bot,
     GOOGLE_PLACES: Map,
@@ -239,6 +248,38 @@ export default async function CostsPage({ params }: CostsPageProps) {
         </Card>
       </div>
 
+      {/* Savings from skipped audits */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <div>
+            <CardTitle>{isGerman ? 'Eingespart durch übersprungene Audits' : 'Saved by Skipped Audits'}</CardTitle>
+            <CardDescription>
+              {isGerman
+                ? 'Unveränderte Eingangsdaten: das letzte Audit wird übernommen, ohne das LLM aufzurufen'
+                : 'Unchanged inputs: the last audit is carried forward without calling the LLM'}
+            </CardDescription>
+          </div>
+          <PiggyBank className="h-5 w-5 text-muted-foreground" />
+        </CardHeader>
+        <CardContent>
+          {savings ? (
+            <>
+              <div className="text-2xl font-bold text-green-600">{formatCurrency(savings.total)}</div>
+              <p className="text-xs text-muted-foreground">
+                {savings.skippedAudits.toLocaleString(isGerman ? 'de-DE' : 'en-US')}{' '}
+                {isGerman ? 'von' : 'of'}{' '}
+                {savings.audits.toLocaleString(isGerman ? 'de-DE' : 'en-US')}{' '}
+                {isGerman ? 'Audits in diesem Monat übersprungen' : 'audits skipped this month'} ({skippedShare.toFixed(1)}%)
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {isGerman ? 'Einsparungen konnten nicht geladen werden' : 'Savings could not be loaded'}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Daily Costs Chart (Simple Bar Representation) */}
       <Card>
         <CardHeader>
@@ -13,6 +13,8 @@ import {
 } from '@/components/ui/table';
 import { ArrowLeft, RefreshCw, ExternalLink, MapPin, Phone, Mail, Globe } from 'lucide-react';
 import Link from 'next/link';
+import Image from 'next/image';
+import { getPoiScreenshots } from '@/lib/db-utils';
 
 // Mock POI data
 const mockPoi = {
@@ -45,7 +47,7 @@ const mockComparison = [
     status: 'match',
   },
   {
-    field: 'street',
+    field: 'streetAddress',
     displayName: 'Straße',
     tldb: 'Hafenstraße 42',
     website: 'Hafenstr. 42',
@@ -53,7 +55,7 @@ const mockComparison = [
     status: 'partial_match',
   },
   {
-    field: 'phone',
+    field: 'telephone',
     displayName: 'Telefon',
     tldb: '+49 431 12345678',
     website: '0431 12345678',
@@ -100,6 +102,12 @@ export default async function POIDetailPage({ params }: POIDetailPageProps) {
     notFound();
   }
 
+  // Screenshots of the pages the website values were found on
+  const screenshots = await getPoiScreenshots(id).catch((error) => {
+    console.error('Screenshots error:', error);
+    return {} as Awaited<ReturnType<typeof getPoiScreenshots>>;
+  });
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -209,26 +217,52 @@ export default async function POIDetailPage({ params }: POIDetailPageProps) {
                 <TableHead>{t('websiteData')}</TableHead>
                 <TableHead>{t('mapsData')}</TableHead>
                 <TableHead className="w-20 text-center">Status</TableHead>
+                <TableHead className="w-32">{t('evidence')}</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {mockComparison.map((row) => (
-                <TableRow key={row.field}>
-                  <TableCell className="font-medium">{row.displayName}</TableCell>
-                  <TableCell>{row.tldb || '-'}</TableCell>
-                  <TableCell className={row.status === 'mismatch' && row.website ? 'bg-red-50 dark:bg-red-950' : ''}>
-                    {row.website || '-'}
-                  </TableCell>
-                  <TableCell className={row.status === 'mismatch' && row.maps ? 'bg-red-50 dark:bg-red-950' : ''}>
-                    {row.maps || '-'}
-                  </TableCell>
-                  <TableCell className="text-center">
-                    <span className={statusIcons[row.status]?.color}>
-                      {statusIcons[row.status]?.icon}
-                    </span>
-                  </TableCell>
-                </TableRow>
-              ))}
+              {mockComparison.map((row) => {
+                const screenshot = screenshots[row.field];
+                return (
+                  <TableRow key={row.field}>
+                    <TableCell className="font-medium">{row.displayName}</TableCell>
+                    <TableCell>{row.tldb || '-'}</TableCell>
+                    <TableCell className={row.status === 'mismatch' && row.website ? 'bg-red-50 dark:bg-red-950' : ''}>
+                      {row.website || '-'}
+                    </TableCell>
+                    <TableCell className={row.status === 'mismatch' && row.maps ? 'bg-red-50 dark:bg-red-950' : ''}>
+                      {row.maps || '-'}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <span className={statusIcons[row.status]?.color}>
+                        {statusIcons[row.status]?.icon}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      {screenshot ? (
+                        <a
+                          href={`/api/v1/${screenshot.key}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          title={screenshot.url}
+                        >
+                          {/* Served by the authenticated screenshot route, not the image optimizer */}
+                          <Image
+                            src={`/api/v1/${screenshot.key}`}
+                            alt={screenshot.url}
+                            width={96}
+                            height={64}
+                            unoptimized
+                            className="h-16 w-24 rounded border object-cover object-top"
+                          />
+                        </a>
+                      ) : (
+                        '-'
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
             </TableBody>
           </Table>
         </CardContent>
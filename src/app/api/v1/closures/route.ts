@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { CLOSURE_CONFIG } from '@/lib/closure-detection';
+import { z } from 'zod';
+
+const decisionSchema = z.object({
+  suspicionId: z.string().min(1),
+  action: z.enum(['confirm', 'dismiss']),
+  suppressDays: z.number().int().min(1).max(365).optional(), // Dismiss only
+  note: z.string().max(1000).optional(),
+});
+
+// GET /api/v1/closures - Open closure suspicions, most confident first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const kind = searchParams.get('kind');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10), 200);
+
+    const suspicions = await prisma.closureSuspicion.findMany({
+      where: {
+        status: 'OPEN',
+        ...(kind === 'PERMANENT' || kind === 'TEMPORARY' ? { kind } : {}),
+        poi: { isActive: true, deletedAt: null },
+      },
+      include: {
+        poi: { select: { id: true, name: true, category: true, city: true, region: true, website: true } },
+      },
+      orderBy: [{ confidence: 'desc' }, { createdAt: 'asc' }],
+      take: limit,
+    });
+
+    return NextResponse.json({ data: suspicions });
+  } catch (error) {
+    console.error('Closures GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/v1/closures - Confirm a closure (deactivates the POI) or dismiss it
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'EDITOR') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validation = decisionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation error', details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { suspicionId, action, suppressDays, note } = validation.data;
+
+    const suspicion = await prisma.closureSuspicion.findUnique({
+      where: { id: suspicionId },
+      select: { id: true, poiId: true, status: true, kind: true, evidence: true },
+    });
+
+    if (!suspicion) {
+      return NextResponse.json({ error: 'Closure suspicion not found' }, { status: 404 });
+    }
+
+    if (suspicion.status !== 'OPEN') {
+      return NextResponse.json({ error: `Closure suspicion already ${suspicion.status.toLowerCase()}` }, { status: 409 });
+    }
+
+    const decided = { decidedBy: session.user.id, decidedAt: new Date(), note };
+
+    if (action === 'dismiss') {
+      const days = suppressDays ?? CLOSURE_CONFIG.dismissDays;
+      const updated = await prisma.closureSuspicion.update({
+        where: { id: suspicionId },
+        data: { ...decided, status: 'DISMISSED', suppressedUntil: new Date(Date.now() + days * 24 * 60 * 60 * 1000) },
+      });
+
+      return NextResponse.json({ data: updated });
+    }
+
+    const [updated] = await prisma.$transaction([
+      prisma.closureSuspicion.update({
+        where: { id: suspicionId },
+        data: { ...decided, status: 'CONFIRMED' },
+      }),
+      prisma.pOI.update({
+        where: { id: suspicion.poiId },
+        data: { isActive: false },
+      }),
+      prisma.auditLog.create({
+        data: {
+          userId: session.user.id,
+          action: 'UPDATE',
+          resource: 'POI',
+          resourceId: suspicion.poiId,
+          oldValue: { isActive: true },
+          newValue: { isActive: false },
+          changes: JSON.parse(JSON.stringify({
+            isActive: { from: true, to: false },
+            reason: { closure: suspicion.kind, suspicionId, evidence: suspicion.evidence, note },
+          })),
+          ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip'),
+          userAgent: request.headers.get('user-agent'),
+        },
+      }),
+    ]);
+
+    return NextResponse.json({ data: updated });
+  } catch (error) {
+    console.error('Closures POST error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
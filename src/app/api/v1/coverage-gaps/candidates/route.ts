@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { getMapsQueue, addJob } from '@/lib/queue';
+import { z } from 'zod';
+
+const decisionSchema = z.object({
+  candidateId: z.string().min(1),
+  action: z.enum(['import', 'dismiss']),
+  category: z.string().min(1).max(100).optional(), // Overrides the suggested category
+});
+
+// GET /api/v1/coverage-gaps/candidates - Candidate new POIs of a scan
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const scanId = searchParams.get('scanId');
+    const status = searchParams.get('status') || 'OPEN';
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100', 10), 500);
+
+    if (!scanId) {
+      return NextResponse.json({ error: 'scanId is required' }, { status: 400 });
+    }
+
+    if (!['OPEN', 'IMPORTED', 'DISMISSED'].includes(status)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+
+    const candidates = await prisma.coverageCandidate.findMany({
+      where: { scanId, status: status as 'OPEN' | 'IMPORTED' | 'DISMISSED' },
+      orderBy: [{ suggestedCategory: 'asc' }, { name: 'asc' }],
+      take: limit,
+    });
+
+    return NextResponse.json({ data: candidates });
+  } catch (error) {
+    console.error('Coverage candidates GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/v1/coverage-gaps/candidates - Import a candidate as a new POI or dismiss it
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'EDITOR') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validation = decisionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation error', details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { candidateId, action, category } = validation.data;
+
+    const candidate = await prisma.coverageCandidate.findUnique({
+      where: { id: candidateId },
+      include: { scan: { select: { region: true } } },
+    });
+
+    if (!candidate) {
+      return NextResponse.json({ error: 'Candidate not found' }, { status: 404 });
+    }
+
+    if (candidate.status !== 'OPEN') {
+      return NextResponse.json({ error: `Candidate already ${candidate.status.toLowerCase()}` }, { status: 409 });
+    }
+
+    // Nearby search addresses are "street, city"
+    const parts = (candidate.address || '').split(',').map((part) => part.trim()).filter(Boolean);
+    const data = {
+      name: candidate.name,
+      category: category ?? candidate.suggestedCategory ?? undefined,
+      street: parts.length > 1 ? parts[0] : undefined,
+      city: parts.length > 0 ? parts[parts.length - 1] : undefined,
+      region: candidate.scan.region,
+      latitude: candidate.latitude,
+      longitude: candidate.longitude,
+    };
+
+    const { claimed, poi } = await prisma.$transaction(async (tx) => {
+      // Claim the place first: the decision applies to it in every scan that
+      // listed it, and a concurrent decision then finds nothing open
+      const claim = await tx.coverageCandidate.updateMany({
+        where: { placeId: candidate.placeId, status: 'OPEN' },
+        data: {
+          status: action === 'import' ? 'IMPORTED' : 'DISMISSED',
+          decidedBy: session.user.id,
+          decidedAt: new Date(),
+        },
+      });
+
+      if (claim.count === 0 || action !== 'import') return { claimed: claim.count > 0, poi: null };
+
+      const poi = await tx.pOI.create({
+        data: {
+          ...data,
+          tldbData: JSON.parse(JSON.stringify(data)),
+          placeId: candidate.placeId,
+          placeMatchStatus: 'CONFIRMED',
+          placeMatchConfidence: 1,
+          placeMatchedAt: new Date(),
+        },
+      });
+
+      await tx.coverageCandidate.updateMany({
+        where: { placeId: candidate.placeId, status: 'IMPORTED', importedPoiId: null },
+        data: { importedPoiId: poi.id },
+      });
+
+      return { claimed: true, poi };
+    });
+
+    if (!claimed) {
+      return NextResponse.json({ error: 'Candidate already decided' }, { status: 409 });
+    }
+
+    const poiId = poi?.id ?? null;
+
+    if (poi) {
+      // Fetch the place details and run the first audit
+      await addJob(getMapsQueue(), {
+        poiId: poi.id,
+        name: poi.name,
+        address: candidate.address || '',
+        latitude: candidate.latitude,
+        longitude: candidate.longitude,
+      });
+    }
+
+    // Log admin action
+    await prisma.adminAuditLog.create({
+      data: {
+        userId: session.user.id,
+        action: action === 'import' ? 'IMPORT_COVERAGE_CANDIDATE' : 'DISMISS_COVERAGE_CANDIDATE',
+        details: JSON.parse(JSON.stringify({ candidateId, placeId: candidate.placeId, name: candidate.name, poiId })),
+      },
+    });
+
+    return NextResponse.json({ data: { candidateId, action, poiId } });
+  } catch (error) {
+    console.error('Coverage candidates POST error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
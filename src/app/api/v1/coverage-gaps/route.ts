@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { getCoverageQueue, addJob } from '@/lib/queue';
+import { COVERAGE_PLACE_TYPES } from '@/lib/coverage-gaps';
+import { z } from 'zod';
+
+const scanSchema = z.object({
+  region: z.string().min(1).max(100),
+  types: z.array(z.string().regex(/^[a-z_]+$/)).min(1).max(20).optional(),
+  costCap: z.number().positive().max(100).optional(), // USD; the worker default applies when missing
+});
+
+// GET /api/v1/coverage-gaps - Coverage gap scans, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const region = searchParams.get('region');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10), 100);
+
+    const scans = await prisma.coverageScan.findMany({
+      where: region ? { region } : undefined,
+      include: { _count: { select: { candidates: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return NextResponse.json({ data: scans });
+  } catch (error) {
+    console.error('Coverage GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/v1/coverage-gaps - Start a coverage gap scan for a region
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'EDITOR') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validation = scanSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation error', details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { region, types, costCap } = validation.data;
+
+    const running = await prisma.coverageScan.findFirst({
+      where: { region, status: { in: ['PENDING', 'RUNNING'] } },
+      select: { id: true },
+    });
+
+    if (running) {
+      return NextResponse.json(
+        { error: 'A scan of this region is already running', scanId: running.id },
+        { status: 409 }
+      );
+    }
+
+    const scan = await prisma.coverageScan.create({
+      data: {
+        region,
+        types: types ?? COVERAGE_PLACE_TYPES,
+        costCap,
+        requestedBy: session.user.id,
+      },
+    });
+
+    await addJob(getCoverageQueue(), { scanId: scan.id }, { jobId: scan.id });
+
+    // Log admin action
+    await prisma.adminAuditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'START_COVERAGE_SCAN',
+        details: JSON.parse(JSON.stringify({ scanId: scan.id, region, types: scan.types, costCap })),
+      },
+    });
+
+    return NextResponse.json({ data: scan }, { status: 201 });
+  } catch (error) {
+    console.error('Coverage POST error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
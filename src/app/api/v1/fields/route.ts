@@ -14,6 +14,8 @@ const createFieldSchema = z.object({
   isCore: z.boolean().default(true),
   extractionPrompt: z.string().max(1000).optional(),
   category: z.string().max(50).optional(),
+  weight: z.number().min(0).max(10).default(1),
+  categoryWeights: z.record(z.number().min(0).max(10)).optional(), // POI category -> weight
 });
 
 // GET /api/v1/fields - List data fields
@@ -94,6 +96,8 @@ export async function POST(request: NextRequest) {
         isCore: validation.data.isCore,
         extractionPrompt: validation.data.extractionPrompt,
         category: validation.data.category,
+        weight: validation.data.weight,
+        categoryWeights: validation.data.categoryWeights,
         displayOrder: (maxOrder._max.displayOrder || 0) + 1,
       },
     });
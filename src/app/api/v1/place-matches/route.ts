@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { getMapsQueue, addJob } from '@/lib/queue';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+const decisionSchema = z.object({
+  poiId: z.string().min(1),
+  placeId: z.string().min(1).nullable(), // null: no Google place belongs to the POI
+});
+
+// GET /api/v1/place-matches - Low-confidence place matches awaiting confirmation
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10), 200);
+
+    const pois = await prisma.pOI.findMany({
+      where: { placeMatchStatus: 'PENDING_REVIEW', deletedAt: null },
+      select: {
+        id: true,
+        name: true,
+        category: true,
+        street: true,
+        postalCode: true,
+        city: true,
+        latitude: true,
+        longitude: true,
+        placeMatchConfidence: true,
+        placeMatchedAt: true,
+        placeCandidates: true,
+      },
+      orderBy: [{ priority: 'desc' }, { placeMatchedAt: 'asc' }],
+      take: limit,
+    });
+
+    return NextResponse.json({ data: pois });
+  } catch (error) {
+    console.error('Place matches GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/v1/place-matches - Confirm a candidate or reject all of them
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'EDITOR') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validation = decisionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation error', details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { poiId, placeId } = validation.data;
+
+    const poi = await prisma.pOI.findFirst({
+      where: { id: poiId, deletedAt: null },
+      select: { id: true, name: true, street: true, city: true, latitude: true, longitude: true, placeCandidates: true },
+    });
+
+    if (!poi) {
+      return NextResponse.json({ error: 'POI not found' }, { status: 404 });
+    }
+
+    const candidates = (poi.placeCandidates as Array<{ placeId: string; confidence: number }> | null) ?? [];
+    const candidate = candidates.find((c) => c.placeId === placeId);
+
+    const updated = await prisma.pOI.update({
+      where: { id: poiId },
+      data: placeId
+        ? {
+            placeId,
+            placeMatchStatus: 'CONFIRMED',
+            placeMatchConfidence: candidate?.confidence ?? null,
+            placeMatchedAt: new Date(),
+          }
+        : {
+            placeId: null,
+            placeMatchStatus: 'REJECTED',
+            placeMatchConfidence: null,
+            placeMatchedAt: new Date(),
+            mapsData: Prisma.DbNull, // Maps data of the wrong place must not be audited
+          },
+      select: { id: true, placeId: true, placeMatchStatus: true, placeMatchConfidence: true },
+    });
+
+    // Fetch the place details (or audit without them)
+    await addJob(getMapsQueue(), {
+      poiId,
+      name: poi.name,
+      address: `${poi.street || ''}, ${poi.city || ''}`.trim(),
+      latitude: poi.latitude || undefined,
+      longitude: poi.longitude || undefined,
+    });
+
+    // Log admin action
+    await prisma.adminAuditLog.create({
+      data: {
+        userId: session.user.id,
+        action: placeId ? 'CONFIRM_PLACE_MATCH' : 'REJECT_PLACE_MATCH',
+        details: JSON.parse(JSON.stringify({ poiId, placeId, candidate: Boolean(candidate) })),
+      },
+    });
+
+    return NextResponse.json({ data: updated });
+  } catch (error) {
+    console.error('Place matches POST error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getBlobStore, assertValidKey } from '@/lib/blob-store';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('api-screenshots');
+
+/**
+ * GET /api/v1/screenshots/:key
+ * Serve a crawl screenshot from the blob store
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  try {
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const key = ['screenshots', ...(await params).key].join('/');
+
+    try {
+      assertValidKey(key);
+    } catch {
+      return NextResponse.json({ error: 'Invalid key', code: 'VALIDATION_ERROR' }, { status: 400 });
+    }
+
+    const blob = await getBlobStore().get(key);
+    if (!blob) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(blob.data), {
+      headers: {
+        'Content-Type': blob.contentType,
+        // Keys include the capture time, so the content never changes
+        'Cache-Control': 'private, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    logger.error({ error }, 'Failed to serve screenshot');
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
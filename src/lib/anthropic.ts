@@ -0,0 +1,62 @@
+import type { LlmProvider } from './llm-provider';
+
+/**
+ * Anthropic Messages API client
+ */
+
+const API_KEY = process.env.ANTHROPIC_API_KEY || '';
+const BASE_URL = process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com';
+const API_VERSION = '2023-06-01';
+
+interface AnthropicResponse {
+  model: string;
+  content: Array<{ type: string; text?: string }>;
+  stop_reason: string | null;
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+/**
+ * Anthropic has no JSON schema response format; structured output is
+ * requested via prompt and validated by the caller
+ */
+export const anthropicLlmProvider: LlmProvider = {
+  name: 'anthropic',
+  defaultModel: process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5',
+  supportsJsonSchema: false,
+  async complete({ messages, model, maxTokens, temperature, signal }) {
+    // System prompts are a separate parameter
+    const system = messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n\n');
+
+    const response = await fetch(`${BASE_URL}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': API_KEY,
+        'anthropic-version': API_VERSION,
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: maxTokens,
+        temperature,
+        ...(system ? { system } : {}),
+        messages: messages
+          .filter((m) => m.role !== 'system')
+          .map((m) => ({ role: m.role, content: m.content })),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error: ${response.status} ${(await response.text()).slice(0, 500)}`);
+    }
+
+    const data = (await response.json()) as AnthropicResponse;
+
+    return {
+      content: data.content.filter((block) => block.type === 'text').map((block) => block.text).join(''),
+      model: data.model || model,
+      inputTokens: data.usage?.input_tokens ?? 0,
+      outputTokens: data.usage?.output_tokens ?? 0,
+    };
+  },
+};
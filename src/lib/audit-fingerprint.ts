@@ -0,0 +1,98 @@
+import { createHash } from 'crypto';
+
+/**
+ * Audit input fingerprint
+ * A hash of everything an audit result depends on: the normalized source
+ * data, the field set and weights, the POI category, the website health,
+ * the prompt version and the models of the audit chain. When it equals
+ * the fingerprint of the last completed audit, the result is carried
+ * forward instead of asking the model again.
+ */
+
+/**
+ * Bump when rules or scoring change what an audit of the same inputs yields
+ */
+export const AUDIT_FINGERPRINT_VERSION = 2;
+
+/**
+ * Bookkeeping keys that change on every run without changing the data
+ */
+const VOLATILE_KEYS = new Set([
+  'scrapedAt',
+  'fetchedAt',
+  'checkedAt',
+  'updatedAt',
+  'crawlStats',
+  'pageUrls',
+  'crawlArchive',
+  'replayedFrom',
+  'screenshots',
+]);
+
+export interface AuditFingerprintInput {
+  tldbData: Record<string, unknown>;
+  websiteData: Record<string, unknown>;
+  mapsData: Record<string, unknown>;
+  fields: Array<{
+    name: string;
+    dataType: string;
+    isLocalized: boolean;
+    weight: number;
+    categoryWeights?: unknown;
+  }>;
+  category: string | null;
+  websiteHealth: { status: string; score: number; issues: string[] } | null;
+  promptVersion: string;
+  models: string[]; // provider:model of each audit chain entry
+}
+
+/**
+ * Canonical form of a JSON value: keys sorted, strings trimmed, volatile
+ * keys and empty values (null, '', [], {}) dropped
+ */
+export function canonicalize(value: unknown): unknown {
+  if (value === null || value === undefined) return undefined;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return value.trim() || undefined;
+
+  if (Array.isArray(value)) {
+    const items = value.map(canonicalize).filter((item) => item !== undefined);
+    return items.length > 0 ? items : undefined;
+  }
+
+  if (typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter((key) => !VOLATILE_KEYS.has(key))
+      .sort()
+      .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])] as const)
+      .filter(([, item]) => item !== undefined);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+
+  return value;
+}
+
+/**
+ * SHA-256 of the canonical audit inputs
+ */
+export function auditFingerprint(input: AuditFingerprintInput): string {
+  const canonical = canonicalize({
+    version: AUDIT_FINGERPRINT_VERSION,
+    tldb: input.tldbData,
+    website: input.websiteData,
+    maps: input.mapsData,
+    fields: input.fields.map(({ name, dataType, isLocalized, weight, categoryWeights }) => ({
+      name,
+      dataType,
+      isLocalized,
+      weight,
+      categoryWeights,
+    })),
+    category: input.category?.toLowerCase(),
+    websiteHealth: input.websiteHealth,
+    promptVersion: input.promptVersion,
+    models: input.models,
+  });
+
+  return createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+}
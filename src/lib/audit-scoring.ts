@@ -0,0 +1,175 @@
+/**
+ * Audit scoring
+ * Field and overall scores are computed from the match status and
+ * confidence of each field comparison, weighted per DataField (with
+ * per POI category overrides). Website health is scored as a measured
+ * field with its own weight. The LLM only judges whether values are
+ * equivalent; it never chooses a score, so identical data always
+ * scores the same.
+ */
+
+export type MatchStatus = 'match' | 'partial_match' | 'mismatch' | 'missing_data';
+
+/**
+ * Score of a field by match status at full confidence
+ */
+export const STATUS_SCORES: Record<MatchStatus, number> = {
+  match: 100,
+  partial_match: 70,
+  missing_data: 50,
+  mismatch: 0,
+};
+
+/**
+ * Score an uncertain verdict tends towards: at confidence 0 nothing is
+ * known about the field
+ */
+export const NEUTRAL_SCORE = 50;
+
+/**
+ * DataField carrying the weight of the website health score. It holds no
+ * values and is never compared between sources.
+ */
+export const WEBSITE_HEALTH_FIELD = 'websiteHealth';
+
+/**
+ * Score of a field measured directly instead of compared (website health)
+ */
+export interface MeasuredScore {
+  field: string;
+  score: number; // 0-100
+}
+
+export interface ScoredComparison {
+  fieldName: string;
+  tldbValue: string | null;
+  websiteValue: string | null;
+  mapsValue: string | null;
+  matchStatus: MatchStatus;
+  confidence: number;
+}
+
+export interface ScoringField {
+  name: string;
+  weight: number;
+  categoryWeights?: unknown; // DataField.categoryWeights (Json)
+}
+
+export interface ScoreBreakdownEntry {
+  field: string;
+  matchStatus: MatchStatus | null; // null for measured scores
+  confidence: number;
+  statusScore: number;
+  fieldScore: number;
+  weight: number;
+  contribution: number; // Points of the overall score
+}
+
+export interface ScoreBreakdown {
+  overallScore: number;
+  totalWeight: number;
+  category: string | null;
+  fields: ScoreBreakdownEntry[];
+  excluded: Array<{ field: string; reason: 'no_data' | 'zero_weight' }>;
+}
+
+/**
+ * Weight of a field for a POI category; category overrides are matched
+ * case-insensitively
+ */
+export function fieldWeight(field: ScoringField, category?: string | null): number {
+  const overrides = field.categoryWeights;
+  if (category && overrides && typeof overrides === 'object' && !Array.isArray(overrides)) {
+    const entries = overrides as Record<string, unknown>;
+    const match = Object.keys(entries).find((key) => key.toLowerCase() === category.toLowerCase());
+    if (match && typeof entries[match] === 'number' && entries[match] >= 0) return entries[match] as number;
+  }
+  return field.weight >= 0 ? field.weight : 0;
+}
+
+/**
+ * Score of one field: the status score, pulled towards the neutral
+ * score as confidence drops
+ */
+export function scoreField(matchStatus: MatchStatus, confidence: number): number {
+  const certainty = Math.min(1, Math.max(0, confidence));
+  return Math.round(NEUTRAL_SCORE + (STATUS_SCORES[matchStatus] - NEUTRAL_SCORE) * certainty);
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Field scores and weighted overall score of an audit. Fields without a
+ * value in any source and fields weighted 0 are left out; fields not
+ * configured as DataField count with weight 1. Measured scores are
+ * weighted like compared fields.
+ */
+export function scoreAudit(
+  comparisons: ScoredComparison[],
+  fields: ScoringField[],
+  category?: string | null,
+  measured: MeasuredScore[] = []
+): ScoreBreakdown {
+  const excluded: ScoreBreakdown['excluded'] = [];
+  const scored: Array<Omit<ScoreBreakdownEntry, 'contribution'>> = [];
+
+  for (const comparison of comparisons) {
+    if (comparison.tldbValue === null && comparison.websiteValue === null && comparison.mapsValue === null) {
+      excluded.push({ field: comparison.fieldName, reason: 'no_data' });
+      continue;
+    }
+
+    const field = fields.find((f) => f.name === comparison.fieldName);
+    const weight = field ? fieldWeight(field, category) : 1;
+    if (weight === 0) {
+      excluded.push({ field: comparison.fieldName, reason: 'zero_weight' });
+      continue;
+    }
+
+    scored.push({
+      field: comparison.fieldName,
+      matchStatus: comparison.matchStatus,
+      confidence: comparison.confidence,
+      statusScore: STATUS_SCORES[comparison.matchStatus],
+      fieldScore: scoreField(comparison.matchStatus, comparison.confidence),
+      weight,
+    });
+  }
+
+  for (const measure of measured) {
+    const field = fields.find((f) => f.name === measure.field);
+    const weight = field ? fieldWeight(field, category) : 1;
+    if (weight === 0) {
+      excluded.push({ field: measure.field, reason: 'zero_weight' });
+      continue;
+    }
+
+    const score = Math.min(100, Math.max(0, Math.round(measure.score)));
+    scored.push({ field: measure.field, matchStatus: null, confidence: 1, statusScore: score, fieldScore: score, weight });
+  }
+
+  const totalWeight = scored.reduce((sum, entry) => sum + entry.weight, 0);
+  const entries = scored.map((entry) => ({
+    ...entry,
+    contribution: totalWeight > 0 ? round((entry.fieldScore * entry.weight) / totalWeight) : 0,
+  }));
+  const weighted = scored.reduce((sum, entry) => sum + entry.fieldScore * entry.weight, 0);
+
+  return {
+    overallScore: totalWeight > 0 ? Math.round(weighted / totalWeight) : 0,
+    totalWeight: round(totalWeight, 2),
+    category: category ?? null,
+    fields: entries,
+    excluded,
+  };
+}
+
+/**
+ * Per-field scores of a breakdown, as stored on Audit.fieldScores
+ */
+export function breakdownFieldScores(breakdown: ScoreBreakdown): Record<string, number> {
+  return Object.fromEntries(breakdown.fields.map((entry) => [entry.field, entry.fieldScore]));
+}
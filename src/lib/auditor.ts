@@ -1,102 +1,45 @@
-import { z } from 'zod';
-import { chatCompletion } from './openai';
+import { llmChainModels, structuredCompletion } from './llm';
 import { createLogger } from './logger';
 import prisma from './db';
+import { pairLocalizedValues } from './page-language';
+import { omitFields, settleFieldsByRules, summarizeVerdicts } from './field-comparators';
+import { breakdownFieldScores, scoreAudit, WEBSITE_HEALTH_FIELD } from './audit-scoring';
+import { auditFingerprint } from './audit-fingerprint';
+import { auditComparisonSchema, auditPromptMessages, getAuditPrompt } from './prompts';
 import type { AuditResult } from './validators';
 
 const logger = createLogger('auditor');
 
 /**
- * AI Auditor for POI data comparison
+ * Whether unchanged inputs reuse the last audit instead of calling the LLM
  */
+const CARRY_FORWARD = process.env.AUDIT_CARRY_FORWARD !== 'false';
 
 /**
- * Audit comparison schema (for LLM structured output)
+ * AI Auditor for POI data comparison
  */
-const auditComparisonSchema = z.object({
-  overallScore: z.number().min(0).max(100).describe('Overall quality score 0-100'),
-  fieldComparisons: z.array(
-    z.object({
-      fieldName: z.string(),
-      tldbValue: z.string().nullable(),
-      websiteValue: z.string().nullable(),
-      mapsValue: z.string().nullable(),
-      normalizedTldb: z.string().nullable(),
-      normalizedWebsite: z.string().nullable(),
-      normalizedMaps: z.string().nullable(),
-      matchStatus: z.enum(['match', 'partial_match', 'mismatch', 'missing_data']),
-      confidence: z.number().min(0).max(1),
-      discrepancy: z.string().nullable(),
-      fieldScore: z.number().min(0).max(100),
-    })
-  ),
-  summary: z.string().describe('Summary of the audit findings'),
-  recommendations: z.array(z.string()).describe('Recommendations for fixing discrepancies'),
-});
-
-type AuditComparison = z.infer<typeof auditComparisonSchema>;
 
 /**
- * Build audit prompt
- */
-function buildAuditPrompt(
-  poiName: string,
-  tldbData: Record<string, unknown>,
-  websiteData: Record<string, unknown>,
-  mapsData: Record<string, unknown>,
-  fields: Array<{ name: string; displayName: Record<string, string>; dataType: string }>
-): string {
-  return `
-You are an expert data quality auditor for tourism POI (Points of Interest) data.
-
-Compare the following data sources for "${poiName}" and assess data quality:
-
-## TLDB (Master Database) Data:
-${JSON.stringify(tldbData, null, 2)}
-
-## Website Scraped Data:
-${JSON.stringify(websiteData, null, 2)}
-
-## Google Maps Data:
-${JSON.stringify(mapsData, null, 2)}
-
-## Fields to Compare:
-${fields.map(f => `- ${f.name} (${f.displayName.en}): ${f.dataType}`).join('\n')}
-
-## Instructions:
-1. Compare each field across all three sources
-2. Normalize values for fair comparison (e.g., phone formats, address formats, opening hours)
-3. Identify discrepancies and their severity
-4. Calculate a field score (0-100) based on agreement
-5. Calculate an overall score (0-100) where:
-   - 100 = Perfect agreement across all sources
-   - 80-99 = Minor discrepancies
-   - 60-79 = Moderate discrepancies
-   - 40-59 = Significant discrepancies
-   - 0-39 = Major data quality issues
-6. Provide actionable recommendations
-
-Be strict but fair. Missing data from one source shouldn't severely penalize the score if other sources agree.
-`.trim();
-}
-
-/**
- * Compare POI data from multiple sources
+ * Compare POI data from multiple sources. A replay (of a recorded crawl)
+ * only returns the result: no audit, extracted values or POI score are
+ * written, and the last audit is never reused.
  */
 export async function auditPoi(
   poiId: string,
   tldbData: Record<string, unknown>,
   websiteData: Record<string, unknown>,
-  mapsData: Record<string, unknown>
+  mapsData: Record<string, unknown>,
+  options: { replay?: boolean } = {}
 ): Promise<AuditResult> {
+  const { replay = false } = options;
   const startTime = Date.now();
   
-  logger.info({ poiId }, 'Starting POI audit');
+  logger.info({ poiId, replay }, 'Starting POI audit');
   
   // Get POI name
   const poi = await prisma.pOI.findUnique({
     where: { id: poiId },
-    select: { name: true },
+    select: { name: true, country: true, category: true },
   });
   
   if (!poi) {
@@ -109,97 +52,200 @@ export async function auditPoi(
     orderBy: { displayOrder: 'asc' },
   });
   
+  // Website health from the latest crawl is scored as its own field,
+  // weighted by its (never compared) DataField
+  const health = await prisma.websiteHealth.findFirst({
+    where: { poiId },
+    orderBy: { checkedAt: 'desc' },
+    select: { finalUrl: true, score: true, status: true, issues: true },
+  });
+  const healthField = await prisma.dataField.findUnique({ where: { name: WEBSITE_HEALTH_FIELD } });
+  const scoringFields = healthField ? [...dataFields, healthField] : dataFields;
+  
+  // Unchanged inputs give the same result; reuse the last audit
+  const prompt = getAuditPrompt();
+  const inputFingerprint = auditFingerprint({
+    tldbData,
+    websiteData,
+    mapsData,
+    fields: scoringFields,
+    category: poi.category,
+    websiteHealth: health && { status: health.status, score: health.score, issues: health.issues },
+    promptVersion: prompt.version,
+    models: llmChainModels('audit'),
+  });
+  
+  if (CARRY_FORWARD && !replay) {
+    const previous = await prisma.audit.findFirst({
+      where: { poiId, status: 'COMPLETED' },
+      orderBy: { createdAt: 'desc' },
+    });
+    
+    if (previous?.inputFingerprint === inputFingerprint) {
+      return carryForwardAudit(previous, inputFingerprint, startTime);
+    }
+  }
+  
   const fields = dataFields.map(f => ({
     name: f.name,
     displayName: f.displayName as Record<string, string>,
     dataType: f.dataType,
   }));
   
-  // Build prompt
-  const prompt = buildAuditPrompt(poi.name, tldbData, websiteData, mapsData, fields);
+  // Localized fields (description) are paired by language
+  const localized = pairLocalizedValues(
+    dataFields.filter(f => f.isLocalized).map(f => f.name),
+    tldbData,
+    websiteData
+  );
   
-  // Get AI comparison
-  const comparison = await chatCompletion({
-    messages: [
-      {
-        role: 'system',
-        content: 'You are an expert data quality auditor. Analyze data discrepancies accurately and provide structured output.',
-      },
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
-    schema: auditComparisonSchema,
-    schemaName: 'audit_comparison',
-    poiId,
-  });
+  // Fields the rules can settle (by DataType) are not sent to the LLM
+  const verdicts = settleFieldsByRules(
+    dataFields,
+    { tldb: tldbData, website: websiteData, maps: mapsData },
+    { country: poi.country }
+  );
+  
+  const settled = verdicts.map(v => v.fieldName);
+  const openFields = fields.filter(f => !settled.includes(f.name));
+  
+  // Get AI comparison of the remaining fields
+  const llm = openFields.length > 0
+    ? await structuredCompletion({
+        messages: auditPromptMessages(prompt, {
+          poiName: poi.name,
+          tldbData: omitFields(tldbData, settled),
+          websiteData: omitFields(websiteData, settled),
+          mapsData: omitFields(mapsData, settled),
+          fields: openFields,
+          localized,
+        }),
+        schema: auditComparisonSchema,
+        schemaName: 'audit_comparison',
+        task: 'audit',
+        poiId,
+      })
+    : null;
+  const comparison = llm?.data ?? null;
+  
+  // Rule verdicts are final; the LLM only decides the fields it was given
+  const fieldComparisons = [
+    ...verdicts.map(v => ({ ...v, decidedBy: 'rules' as const })),
+    ...(comparison?.fieldComparisons ?? [])
+      .filter(f => openFields.some(o => o.name === f.fieldName))
+      .map(f => ({ ...f, decidedBy: 'llm' as const })),
+  ];
+  
+  // Scores follow from status, confidence and the field weights
+  const scoreBreakdown = scoreAudit(
+    fieldComparisons,
+    scoringFields,
+    poi.category,
+    health ? [{ field: WEBSITE_HEALTH_FIELD, score: health.score }] : []
+  );
+  const { overallScore } = scoreBreakdown;
+  
+  const rules = summarizeVerdicts(verdicts);
+  const summary = comparison ? `${rules.summary} ${comparison.summary}` : rules.summary;
+  const recommendations = [...rules.recommendations, ...(comparison?.recommendations ?? [])];
   
   const duration = Date.now() - startTime;
   
-  // Store extracted values
-  for (const fieldComparison of comparison.fieldComparisons) {
-    const field = dataFields.find(f => f.name === fieldComparison.fieldName);
-    if (!field) continue;
+  // Store extracted values (not for a replay)
+  if (!replay) {
+    for (const fieldComparison of fieldComparisons) {
+      const field = dataFields.find(f => f.name === fieldComparison.fieldName);
+      if (!field) continue;
     
-    await prisma.extractedValue.upsert({
-      where: {
-        poiId_fieldId: {
+      await prisma.extractedValue.upsert({
+        where: {
+          poiId_fieldId: {
+            poiId,
+            fieldId: field.id,
+          },
+        },
+        create: {
           poiId,
           fieldId: field.id,
+          tldbValue: fieldComparison.tldbValue,
+          websiteValue: fieldComparison.websiteValue,
+          mapsValue: fieldComparison.mapsValue,
+          normalizedTldb: fieldComparison.normalizedTldb,
+          normalizedWebsite: fieldComparison.normalizedWebsite,
+          normalizedMaps: fieldComparison.normalizedMaps,
+          matchStatus: fieldComparison.matchStatus.toUpperCase().replace(' ', '_') as 'MATCH' | 'PARTIAL_MATCH' | 'MISMATCH' | 'MISSING_DATA',
+          confidence: fieldComparison.confidence,
+          discrepancy: fieldComparison.discrepancy,
+          aiAnalysis: fieldComparison,
         },
-      },
-      create: {
-        poiId,
-        fieldId: field.id,
-        tldbValue: fieldComparison.tldbValue,
-        websiteValue: fieldComparison.websiteValue,
-        mapsValue: fieldComparison.mapsValue,
-        normalizedTldb: fieldComparison.normalizedTldb,
-        normalizedWebsite: fieldComparison.normalizedWebsite,
-        normalizedMaps: fieldComparison.normalizedMaps,
-        matchStatus: fieldComparison.matchStatus.toUpperCase().replace(' ', '_') as 'MATCH' | 'PARTIAL_MATCH' | 'MISMATCH' | 'MISSING_DATA',
-        confidence: fieldComparison.confidence,
-        discrepancy: fieldComparison.discrepancy,
-        aiAnalysis: fieldComparison,
-      },
-      update: {
-        tldbValue: fieldComparison.tldbValue,
-        websiteValue: fieldComparison.websiteValue,
-        mapsValue: fieldComparison.mapsValue,
-        normalizedTldb: fieldComparison.normalizedTldb,
-        normalizedWebsite: fieldComparison.normalizedWebsite,
-        normalizedMaps: fieldComparison.normalizedMaps,
-        matchStatus: fieldComparison.matchStatus.toUpperCase().replace(' ', '_') as 'MATCH' | 'PARTIAL_MATCH' | 'MISMATCH' | 'MISSING_DATA',
-        confidence: fieldComparison.confidence,
-        discrepancy: fieldComparison.discrepancy,
-        aiAnalysis: fieldComparison,
-      },
+        update: {
+          tldbValue: fieldComparison.tldbValue,
+          websiteValue: fieldComparison.websiteValue,
+          mapsValue: fieldComparison.mapsValue,
+          normalizedTldb: fieldComparison.normalizedTldb,
+          normalizedWebsite: fieldComparison.normalizedWebsite,
+          normalizedMaps: fieldComparison.normalizedMaps,
+          matchStatus: fieldComparison.matchStatus.toUpperCase().replace(' ', '_') as 'MATCH' | 'PARTIAL_MATCH' | 'MISMATCH' | 'MISSING_DATA',
+          confidence: fieldComparison.confidence,
+          discrepancy: fieldComparison.discrepancy,
+          aiAnalysis: fieldComparison,
+        },
+      });
+    }
+  }
+  
+  const fieldScores: AuditResult['fieldScores'] = breakdownFieldScores(scoreBreakdown);
+  // Fields weighted 0 are still reported, as low severity
+  const severity = (score: number | undefined) =>
+    score === undefined || score >= 75 ? 'low' as const : score >= 50 ? 'medium' as const : 'high' as const;
+  const discrepancies: AuditResult['discrepancies'] = fieldComparisons
+    .filter(f => f.matchStatus !== 'match' && !scoreBreakdown.excluded.some(e => e.field === f.fieldName && e.reason === 'no_data'))
+    .map(f => ({
+      field: f.fieldName,
+      tldbValue: f.tldbValue,
+      websiteValue: f.websiteValue,
+      mapsValue: f.mapsValue,
+      severity: severity(fieldScores[f.fieldName]),
+      recommendation: f.discrepancy || '',
+    }));
+  
+  if (health && health.status !== 'HEALTHY') {
+    discrepancies.push({
+      field: WEBSITE_HEALTH_FIELD,
+      tldbValue: null,
+      websiteValue: health.finalUrl,
+      mapsValue: null,
+      severity: health.status === 'DOWN' ? 'high' : 'medium',
+      recommendation: health.issues.join(', '),
     });
   }
   
+  // A replay is a debugging run: no audit row (so nothing to carry forward) and no POI score
+  if (replay) {
+    logger.info(
+      { poiId, score: overallScore, duration, ruleFields: verdicts.length, llmFields: openFields.length, discrepancies },
+      'POI replay audit completed, nothing stored'
+    );
+    return { overallScore, fieldScores, discrepancies, summary };
+  }
+  
   // Create audit record
   const audit = await prisma.audit.create({
     data: {
       poiId,
-      overallScore: comparison.overallScore,
-      fieldScores: Object.fromEntries(
-        comparison.fieldComparisons.map(f => [f.fieldName, f.fieldScore])
-      ),
-      summary: comparison.summary,
-      discrepancies: comparison.fieldComparisons
-        .filter(f => f.matchStatus !== 'match')
-        .map(f => ({
-          field: f.fieldName,
-          tldbValue: f.tldbValue,
-          websiteValue: f.websiteValue,
-          mapsValue: f.mapsValue,
-          severity: f.fieldScore < 50 ? 'high' : f.fieldScore < 75 ? 'medium' : 'low',
-          recommendation: f.discrepancy || '',
-        })),
-      recommendations: comparison.recommendations,
+      overallScore,
+      fieldScores,
+      scoreBreakdown: JSON.parse(JSON.stringify(scoreBreakdown)),
+      summary,
+      discrepancies,
+      recommendations,
       processedAt: new Date(),
       processingTime: duration,
+      promptVersion: llm ? prompt.version : null,
+      llmModel: llm ? `${llm.provider}:${llm.model}` : null,
+      llmTokensUsed: llm ? llm.inputTokens + llm.outputTokens : null,
+      llmCost: llm?.cost ?? null,
+      inputFingerprint,
       status: 'COMPLETED',
     },
   });
@@ -209,32 +255,79 @@ export async function auditPoi(
     where: { id: poiId },
     data: {
       lastAuditAt: new Date(),
-      auditScore: comparison.overallScore,
-      auditStatus: comparison.overallScore >= 80 ? 'COMPLETED' : 'REVIEW_REQUIRED',
+      auditScore: overallScore,
+      auditStatus: overallScore >= 80 ? 'COMPLETED' : 'REVIEW_REQUIRED',
     },
   });
   
   logger.info(
-    { poiId, score: comparison.overallScore, duration },
+    { poiId, score: overallScore, duration, ruleFields: verdicts.length, llmFields: openFields.length, promptVersion: llm ? prompt.version : undefined },
     'POI audit completed'
   );
   
   return {
-    overallScore: comparison.overallScore,
-    fieldScores: Object.fromEntries(
-      comparison.fieldComparisons.map(f => [f.fieldName, f.fieldScore])
-    ),
-    discrepancies: comparison.fieldComparisons
-      .filter(f => f.matchStatus !== 'match')
-      .map(f => ({
-        field: f.fieldName,
-        tldbValue: f.tldbValue,
-        websiteValue: f.websiteValue,
-        mapsValue: f.mapsValue,
-        severity: (f.fieldScore < 50 ? 'high' : f.fieldScore < 75 ? 'medium' : 'low') as 'low' | 'medium' | 'high',
-        recommendation: f.discrepancy || '',
-      })),
-    summary: comparison.summary,
+    overallScore,
+    fieldScores,
+    discrepancies,
+    summary,
+  };
+}
+
+/**
+ * Record a copy of the last completed audit without calling the LLM. The
+ * copy points to the audit the LLM actually ran for and notes its cost as
+ * saved.
+ */
+async function carryForwardAudit(
+  previous: NonNullable<Awaited<ReturnType<typeof prisma.audit.findFirst>>>,
+  inputFingerprint: string,
+  startTime: number
+): Promise<AuditResult> {
+  const { poiId, overallScore } = previous;
+  const llmCostSaved = (previous.carriedForwardFrom ? previous.llmCostSaved : previous.llmCost) ?? 0;
+  
+  const audit = await prisma.audit.create({
+    data: {
+      poiId,
+      overallScore,
+      fieldScores: previous.fieldScores ?? undefined,
+      scoreBreakdown: previous.scoreBreakdown ?? undefined,
+      summary: previous.summary,
+      discrepancies: previous.discrepancies ?? undefined,
+      recommendations: previous.recommendations ?? undefined,
+      processedAt: new Date(),
+      processingTime: Date.now() - startTime,
+      promptVersion: previous.promptVersion,
+      llmModel: previous.llmModel,
+      llmTokensUsed: 0,
+      llmCost: 0,
+      inputFingerprint,
+      carriedForwardFrom: previous.carriedForwardFrom ?? previous.id,
+      llmCostSaved,
+      status: 'COMPLETED',
+    },
+  });
+  
+  await prisma.pOI.update({
+    where: { id: poiId },
+    data: {
+      lastAuditAt: new Date(),
+      auditScore: overallScore,
+      auditStatus: overallScore >= 80 ? 'COMPLETED' : 'REVIEW_REQUIRED',
+    },
+  });
+  
+  logger.info(
+    { poiId, auditId: audit.id, carriedForwardFrom: audit.carriedForwardFrom, score: overallScore, llmCostSaved },
+    'POI audit carried forward, inputs unchanged'
+  );
+  
+  return {
+    overallScore,
+    fieldScores: (previous.fieldScores as AuditResult['fieldScores'] | null) ?? {},
+    discrepancies: (previous.discrepancies as AuditResult['discrepancies'] | null) ?? [],
+    summary: previous.summary ?? '',
+    carriedForward: true,
   };
 }
 
@@ -0,0 +1,115 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createLogger } from './logger';
+
+const logger = createLogger('blob-store');
+
+/**
+ * Pluggable storage for binary evidence (screenshots, crawl archives)
+ * Keys are relative paths like "screenshots/<poiId>/<file>.jpg".
+ */
+
+export interface StoredBlob {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredBlob | null>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Content types by file extension
+ */
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.json': 'application/json',
+  '.gz': 'application/gzip',
+};
+
+/**
+ * Reject keys that could escape the store root
+ */
+export function assertValidKey(key: string): void {
+  if (!key || key.startsWith('/') || key.includes('\\') || key.split('/').some((part) => part === '..' || part === '')) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+}
+
+/**
+ * Blob store on the local file system
+ */
+export class LocalBlobStore implements BlobStore {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private resolve(key: string): string {
+    assertValidKey(key);
+    return path.join(this.root, key);
+  }
+
+  // The content type is derived from the key extension on read
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async get(key: string): Promise<StoredBlob | null> {
+    try {
+      const data = await fs.readFile(this.resolve(key));
+      return { data, contentType: CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream' };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+/**
+ * Registered store drivers; other backends (S3, GCS) register a factory
+ */
+const drivers = new Map<string, () => BlobStore>([
+  ['local', () => new LocalBlobStore(process.env.BLOB_STORE_PATH || './storage/blobs')],
+]);
+
+let store: BlobStore | null = null;
+
+/**
+ * Register a blob store driver selectable via BLOB_STORE_DRIVER
+ */
+export function registerBlobStore(driver: string, factory: () => BlobStore): void {
+  drivers.set(driver, factory);
+  store = null;
+}
+
+/**
+ * Blob store selected by BLOB_STORE_DRIVER (local disk by default)
+ */
+export function getBlobStore(): BlobStore {
+  if (store) return store;
+
+  const driver = process.env.BLOB_STORE_DRIVER || 'local';
+  const factory = drivers.get(driver);
+
+  if (!factory) {
+    throw new Error(`Unknown blob store driver: ${driver}`);
+  }
+
+  store = factory();
+  logger.info({ driver }, 'Blob store initialized');
+
+  return store;
+}
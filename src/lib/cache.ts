@@ -8,7 +8,10 @@ import { logger } from './logger';
 // Redis client singleton
 let redisClient: Redis | null = null;
 
-function getRedisClient(): Redis | null {
+/**
+ * Shared Redis client (null when REDIS_URL is not configured)
+ */
+export function getRedisClient(): Redis | null {
   if (!process.env.REDIS_URL) {
     return null;
   }
@@ -44,6 +47,7 @@ export const CACHE_KEYS = {
   USER_SESSION: 'user_session',
   COST_SUMMARY: 'cost_summary',
   METRICS: 'metrics',
+  ROBOTS: 'robots',
 } as const;
 
 // Default TTL values (in seconds)
@@ -0,0 +1,149 @@
+/**
+ * Closure detection
+ * Combines lifecycle signals across runs (map providers reporting a
+ * closed business, a website that stays unreachable or parked) into a
+ * closure suspicion with evidence. Pure logic; persistence and
+ * notifications live in closure-monitor.
+ */
+
+export type ClosureKind = 'PERMANENT' | 'TEMPORARY';
+
+export type ClosureSignalType =
+  | 'CLOSED_PERMANENTLY'
+  | 'CLOSED_TEMPORARILY'
+  | 'WEBSITE_DOWN'
+  | 'WEBSITE_PARKED';
+
+export interface ClosureSignal {
+  type: ClosureSignalType;
+  source: string; // Map provider (google, osm) or "website"
+  detail: string;
+  since: string; // ISO time the signal was first observed
+}
+
+export interface ClosureAssessment {
+  kind: ClosureKind;
+  confidence: number; // 0-1
+  signals: ClosureSignal[];
+}
+
+export const CLOSURE_CONFIG = {
+  websiteDownCrawls: parseInt(process.env.CLOSURE_WEBSITE_DOWN_CRAWLS || '3', 10), // Consecutive failed crawls
+  dismissDays: parseInt(process.env.CLOSURE_DISMISS_DAYS || '90', 10), // Default suppression after a dismissal
+};
+
+/**
+ * Confidence of a single signal that the business closed for good
+ */
+const SIGNAL_WEIGHTS: Record<ClosureSignalType, number> = {
+  CLOSED_PERMANENTLY: 0.7,
+  WEBSITE_PARKED: 0.6,
+  WEBSITE_DOWN: 0.5,
+  CLOSED_TEMPORARILY: 0.3,
+};
+
+const TEMPORARY_CONFIDENCE = 0.6;
+
+interface HealthRecord {
+  status: string; // HEALTHY, DEGRADED, DOWN
+  parkedReason?: string | null;
+  issues?: string[];
+  url?: string;
+  checkedAt: Date | string;
+}
+
+/**
+ * Lifecycle signals of a POI: the business status in mapsData and the
+ * latest website health records (newest first)
+ */
+export function collectClosureSignals(
+  mapsData: Record<string, unknown> | null | undefined,
+  health: HealthRecord[],
+  now: Date = new Date(),
+  downCrawls: number = CLOSURE_CONFIG.websiteDownCrawls
+): ClosureSignal[] {
+  const signals: ClosureSignal[] = [];
+
+  const businessStatus = mapsData?.businessStatus;
+  if (businessStatus === 'CLOSED_PERMANENTLY' || businessStatus === 'CLOSED_TEMPORARILY') {
+    const sources = (mapsData?.sources as Record<string, string> | undefined) ?? {};
+    const source = sources.businessStatus ?? 'google';
+    signals.push({
+      type: businessStatus,
+      source,
+      detail: `${source}: ${businessStatus}`,
+      since: now.toISOString(),
+    });
+  }
+
+  const firstUp = health.findIndex((record) => record.status !== 'DOWN');
+  const downRun = firstUp < 0 ? health : health.slice(0, firstUp);
+  if (downRun.length > 0 && downRun.length >= downCrawls) {
+    const parked = downRun.find((record) => record.parkedReason);
+    const latest = downRun[0];
+    signals.push({
+      type: parked ? 'WEBSITE_PARKED' : 'WEBSITE_DOWN',
+      source: 'website',
+      detail: `${latest.url ? `${latest.url}: ` : ''}${(latest.issues ?? []).join(', ') || 'down'} (${downRun.length} consecutive crawls)`,
+      since: new Date(downRun[downRun.length - 1].checkedAt).toISOString(),
+    });
+  }
+
+  return signals;
+}
+
+function signalKey(signal: Pick<ClosureSignal, 'type' | 'source'>): string {
+  return `${signal.source}:${signal.type}`;
+}
+
+/**
+ * Keep the first observation time of signals seen in earlier runs
+ */
+export function mergeClosureSignals(previous: ClosureSignal[], current: ClosureSignal[]): ClosureSignal[] {
+  const earlier = new Map(previous.map((signal) => [signalKey(signal), signal]));
+
+  return current.map((signal) => {
+    const known = earlier.get(signalKey(signal));
+    return known && known.since < signal.since ? { ...signal, since: known.since } : signal;
+  });
+}
+
+/**
+ * Signals not covered by a dismissal that is still in effect
+ */
+export function unsuppressedSignals(signals: ClosureSignal[], dismissed: ClosureSignal[]): ClosureSignal[] {
+  const suppressed = new Set(dismissed.map(signalKey));
+  return signals.filter((signal) => !suppressed.has(signalKey(signal)));
+}
+
+/**
+ * Closure suspicion of a set of signals, or null when there is none.
+ * Any permanent signal makes a permanent suspicion; independent signals
+ * raise the confidence (1 - product of the misses).
+ */
+export function assessClosure(signals: ClosureSignal[]): ClosureAssessment | null {
+  if (signals.length === 0) return null;
+
+  const permanent = signals.some((signal) => signal.type !== 'CLOSED_TEMPORARILY');
+  if (!permanent) {
+    return { kind: 'TEMPORARY', confidence: TEMPORARY_CONFIDENCE, signals };
+  }
+
+  const miss = signals.reduce((product, signal) => product * (1 - SIGNAL_WEIGHTS[signal.type]), 1);
+  return { kind: 'PERMANENT', confidence: Math.round((1 - miss) * 100) / 100, signals };
+}
+
+/**
+ * Whether a new assessment is worth a notification compared to the open
+ * suspicion: new, turned permanent, or backed by an additional signal
+ */
+export function isClosureEscalation(
+  open: { kind: ClosureKind; evidence: ClosureSignal[] } | null,
+  assessment: ClosureAssessment
+): boolean {
+  if (!open) return true;
+  if (open.kind === 'TEMPORARY' && assessment.kind === 'PERMANENT') return true;
+
+  const known = new Set(open.evidence.map(signalKey));
+  return assessment.signals.some((signal) => !known.has(signalKey(signal)));
+}
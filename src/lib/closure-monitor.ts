@@ -0,0 +1,123 @@
+import { createLogger } from './logger';
+import {
+  CLOSURE_CONFIG,
+  assessClosure,
+  collectClosureSignals,
+  isClosureEscalation,
+  mergeClosureSignals,
+  unsuppressedSignals,
+  type ClosureAssessment,
+  type ClosureSignal,
+} from './closure-detection';
+import prisma from './db';
+
+const logger = createLogger('closure-monitor');
+
+/**
+ * Track closure suspicions per POI and alert editors
+ */
+
+const KIND_LABELS = {
+  PERMANENT: 'dauerhaft geschlossen',
+  TEMPORARY: 'vorübergehend geschlossen',
+} as const;
+
+/**
+ * Re-assess the lifecycle signals of a POI after a run. Opens, updates or
+ * resolves its open suspicion; dismissed signals stay suppressed until
+ * their suppression ends.
+ */
+export async function detectClosure(poiId: string): Promise<ClosureAssessment | null> {
+  const poi = await prisma.pOI.findUnique({
+    where: { id: poiId },
+    select: { name: true, isActive: true, mapsData: true },
+  });
+
+  if (!poi || !poi.isActive) return null;
+
+  const now = new Date();
+  const [health, dismissed, open] = await Promise.all([
+    prisma.websiteHealth.findMany({
+      where: { poiId },
+      orderBy: { checkedAt: 'desc' },
+      take: CLOSURE_CONFIG.websiteDownCrawls,
+      select: { status: true, parkedReason: true, issues: true, url: true, checkedAt: true },
+    }),
+    prisma.closureSuspicion.findMany({
+      where: { poiId, status: 'DISMISSED', suppressedUntil: { gt: now } },
+      select: { evidence: true },
+    }),
+    prisma.closureSuspicion.findFirst({
+      where: { poiId, status: 'OPEN' },
+      orderBy: { createdAt: 'desc' },
+    }),
+  ]);
+
+  const openEvidence = (open?.evidence as ClosureSignal[] | undefined) ?? [];
+  const signals = unsuppressedSignals(
+    mergeClosureSignals(openEvidence, collectClosureSignals(poi.mapsData as Record<string, unknown> | null, health, now)),
+    dismissed.flatMap((suspicion) => suspicion.evidence as unknown as ClosureSignal[])
+  );
+  const assessment = assessClosure(signals);
+
+  if (!assessment) {
+    if (open) {
+      await prisma.closureSuspicion.update({ where: { id: open.id }, data: { status: 'RESOLVED' } });
+      logger.info({ poiId, suspicionId: open.id }, 'Closure signals gone, suspicion resolved');
+    }
+    return null;
+  }
+
+  const escalation = isClosureEscalation(open ? { kind: open.kind, evidence: openEvidence } : null, assessment);
+  const data = {
+    kind: assessment.kind,
+    confidence: assessment.confidence,
+    evidence: JSON.parse(JSON.stringify(assessment.signals)),
+  };
+
+  const suspicion = open
+    ? await prisma.closureSuspicion.update({ where: { id: open.id }, data })
+    : await prisma.closureSuspicion.create({ data: { poiId, ...data } });
+
+  if (escalation) {
+    await sendClosureNotification(poiId, poi.name, suspicion.id, assessment);
+  }
+
+  logger.info(
+    { poiId, suspicionId: suspicion.id, kind: assessment.kind, confidence: assessment.confidence, signals: assessment.signals.length },
+    'Closure suspected'
+  );
+
+  return assessment;
+}
+
+/**
+ * Notify editors that a POI seems to be closed
+ */
+async function sendClosureNotification(
+  poiId: string,
+  name: string,
+  suspicionId: string,
+  assessment: ClosureAssessment
+): Promise<void> {
+  const editors = await prisma.user.findMany({
+    where: { role: { in: ['ADMIN', 'EDITOR'] }, deletedAt: null },
+    select: { id: true },
+  });
+
+  const evidence = assessment.signals.map((signal) => signal.detail).join('; ');
+
+  for (const editor of editors) {
+    await prisma.notification.create({
+      data: {
+        userId: editor.id,
+        type: 'CLOSURE_SUSPECTED',
+        title: `Möglicherweise ${KIND_LABELS[assessment.kind]}: ${name}`,
+        message: `"${name}" ist möglicherweise ${KIND_LABELS[assessment.kind]} (Konfidenz ${Math.round(assessment.confidence * 100)} %). Hinweise: ${evidence}`,
+        data: { poiId, suspicionId, kind: assessment.kind, confidence: assessment.confidence },
+      },
+    });
+  }
+
+  logger.warn({ poiId, suspicionId, kind: assessment.kind }, 'Closure notification sent');
+}
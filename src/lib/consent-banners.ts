@@ -0,0 +1,185 @@
+import type { Page } from 'playwright';
+
+/**
+ * Cookie consent banners in the browser crawl path
+ * Banners are rejected (only essential cookies), never accepted: the crawler
+ * must not opt in to tracking on behalf of anyone. Sites that only show
+ * their content after full consent stay blocked and are counted as such.
+ */
+
+export interface ConsentHandler {
+  name: string;
+  markers: RegExp; // Script or markup of the consent tool in the page HTML
+  banner: string; // Selector of the visible banner
+  bannerText?: RegExp; // Text the banner must contain (generic selectors)
+  reject: string[]; // "Reject" / "Only essential" buttons, tried in order
+  rejectScript?: string; // JS API call that rejects all optional purposes
+}
+
+/**
+ * Per-domain override from the crawl domain settings
+ */
+export interface ConsentOverride {
+  handler?: string | null; // Handler name to use, or "none" to leave banners alone
+  selector?: string | null; // Custom reject button selector
+}
+
+export type ConsentOutcome = 'dismissed' | 'blocked';
+
+export interface ConsentResult {
+  handler: string;
+  outcome: ConsentOutcome;
+}
+
+/**
+ * Button labels of "reject" and "only essential" choices
+ */
+const REJECT_LABEL = /^\s*(?:alle ablehnen|ablehnen|nur (?:essenzielle|essentielle|notwendige|erforderliche)(?: cookies)?(?: akzeptieren| zulassen)?|reject all|reject|decline|only (?:necessary|essential)(?: cookies)?)\s*$/i;
+
+const DISMISS_TIMEOUT = parseInt(process.env.SCRAPER_CONSENT_TIMEOUT_MS || '3000', 10);
+
+export const CONSENT_HANDLERS: ConsentHandler[] = [
+  {
+    name: 'borlabs',
+    markers: /borlabs-cookie|BorlabsCookie|_brlbs-/i,
+    banner: '#BorlabsCookieBox, .brlbs-cmpnt-dialog',
+    reject: [
+      '.brlbs-btn-accept-only-essential',
+      '[data-cookie-refuse]',
+      'a._brlbs-refuse-btn',
+      '._brlbs-refuse a',
+    ],
+  },
+  {
+    name: 'usercentrics',
+    markers: /usercentrics/i,
+    banner: '#usercentrics-root [data-testid="uc-default-banner"], #usercentrics-cmp-ui',
+    reject: ['[data-testid="uc-deny-all-button"]', '#deny'],
+    rejectScript: 'window.UC_UI && window.UC_UI.denyAllConsents()',
+  },
+  {
+    name: 'cookiebot',
+    markers: /consent\.cookiebot\.com|CybotCookiebotDialog/i,
+    banner: '#CybotCookiebotDialog',
+    reject: [
+      '#CybotCookiebotDialogBodyButtonDecline',
+      '#CybotCookiebotDialogBodyLevelButtonLevelOptinDeclineAll',
+    ],
+  },
+  {
+    name: 'onetrust',
+    markers: /onetrust|optanon/i,
+    banner: '#onetrust-banner-sdk',
+    reject: ['#onetrust-reject-all-handler', '.ot-pc-refuse-all-handler'],
+    rejectScript: 'window.OneTrust && window.OneTrust.RejectAll()',
+  },
+];
+
+/**
+ * Fallback for other tools: any dialog offering a reject button
+ */
+const GENERIC_HANDLER: ConsentHandler = {
+  name: 'generic',
+  markers: /cookie[\s\S]{0,2000}(?:consent|einwilligung|zustimm|datenschutz)|(?:consent|einwilligung|zustimm)[\s\S]{0,2000}cookie/i,
+  banner: [
+    '[role="dialog"]',
+    '[role="alertdialog"]',
+    '[aria-modal="true"]',
+    '[id*="cookie-banner" i]',
+    '[class*="cookie-banner" i]',
+    '[id*="cookie-notice" i]',
+    '[class*="cookie-notice" i]',
+    '[id*="consent-banner" i]',
+    '[class*="consent-banner" i]',
+  ].join(', '),
+  bannerText: /cookie|consent|einwilligung|zustimm/i,
+  reject: [],
+};
+
+/**
+ * Handlers to try on a page: the override, else every tool detected in the
+ * HTML, else the generic fallback. Empty when banners are left alone.
+ */
+export function selectConsentHandlers(html: string, override: ConsentOverride = {}): ConsentHandler[] {
+  if (override.handler === 'none') return [];
+
+  const forced = override.handler
+    ? [...CONSENT_HANDLERS, GENERIC_HANDLER].find((handler) => handler.name === override.handler)
+    : undefined;
+
+  const handlers = forced ? [forced] : CONSENT_HANDLERS.filter((handler) => handler.markers.test(html));
+  if (handlers.length === 0 && GENERIC_HANDLER.markers.test(html)) handlers.push(GENERIC_HANDLER);
+
+  if (override.selector) {
+    const base = handlers[0] ?? GENERIC_HANDLER;
+    return [{ ...base, name: 'custom', reject: [override.selector, ...base.reject] }];
+  }
+
+  return handlers;
+}
+
+/**
+ * First visible element matching a selector (and text)
+ */
+function visible(page: Page, selector: string, hasText?: RegExp) {
+  return page.locator(`${selector} >> visible=true`).filter({ hasText }).first();
+}
+
+/**
+ * Click the first visible reject button of a handler
+ */
+async function clickReject(page: Page, handler: ConsentHandler): Promise<boolean> {
+  for (const selector of handler.reject) {
+    const button = visible(page, selector);
+    if (!(await button.isVisible().catch(() => false))) continue;
+
+    await button.click({ timeout: DISMISS_TIMEOUT });
+    return true;
+  }
+
+  // Any button labelled "reject" inside the banner
+  const labelled = visible(page, handler.banner, handler.bannerText).getByRole('button', { name: REJECT_LABEL }).first();
+  if (await labelled.isVisible().catch(() => false)) {
+    await labelled.click({ timeout: DISMISS_TIMEOUT });
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Reject the consent banner of a rendered page. Returns null when no
+ * banner is shown, otherwise whether it could be dismissed.
+ */
+export async function dismissConsentBanner(
+  page: Page,
+  html: string,
+  override: ConsentOverride = {}
+): Promise<ConsentResult | null> {
+  for (const handler of selectConsentHandlers(html, override)) {
+    const banner = visible(page, handler.banner, handler.bannerText);
+    if (!(await banner.isVisible().catch(() => false))) continue;
+
+    try {
+      let rejected = await clickReject(page, handler);
+
+      if (!rejected && handler.rejectScript) {
+        await page.evaluate(handler.rejectScript);
+        rejected = true;
+      }
+
+      if (rejected) {
+        await banner.waitFor({ state: 'hidden', timeout: DISMISS_TIMEOUT });
+        // Consent-gated scripts (JSON-LD, contact widgets) load after the choice
+        await page.waitForLoadState('networkidle', { timeout: DISMISS_TIMEOUT }).catch(() => undefined);
+        return { handler: handler.name, outcome: 'dismissed' };
+      }
+    } catch {
+      // Banner did not disappear
+    }
+
+    return { handler: handler.name, outcome: 'blocked' };
+  }
+
+  return null;
+}
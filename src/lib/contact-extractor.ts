@@ -0,0 +1,264 @@
+import { htmlToText, extractTitle, extractHrefsWithScheme } from './html';
+
+/**
+ * Contact extraction from Impressum, Kontakt and Team pages
+ */
+
+export type ContactPageType = 'impressum' | 'contact' | 'team' | 'other';
+
+export type ContactTrustLevel = 'HIGH' | 'MEDIUM' | 'LOW';
+
+/**
+ * Contact found on a page
+ */
+export interface ExtractedContact {
+  name?: string;
+  role?: string;
+  email?: string;
+  phone?: string;
+  source: string;
+  pageType: ContactPageType;
+  trustLevel: ContactTrustLevel;
+}
+
+const PAGE_TYPE_PATTERNS: Array<{ type: ContactPageType; pattern: RegExp }> = [
+  { type: 'impressum', pattern: /impressum|imprint|legal[-_ ]?notice|anbieterkennzeichnung/i },
+  { type: 'contact', pattern: /kontakt|contact|anfahrt/i },
+  { type: 'team', pattern: /team|ansprechpartner|mitarbeiter|(ue|ü)ber[-_ ]?uns|about[-_ ]?us/i },
+];
+
+const TRUST_BY_PAGE_TYPE: Record<ContactPageType, ContactTrustLevel> = {
+  impressum: 'HIGH',
+  contact: 'MEDIUM',
+  team: 'LOW',
+  other: 'LOW',
+};
+
+/**
+ * Labels introducing a responsible person, mapped to a normalized role
+ */
+const ROLE_LABELS: Array<{ pattern: RegExp; role: string }> = [
+  { pattern: /^gesch(ä|ae)ftsf(ü|ue)hr(er|erin|ung|ende gesellschafter(in)?)/i, role: 'Geschäftsführung' },
+  { pattern: /^inhaber(in)?/i, role: 'Inhaber' },
+  { pattern: /^vertreten durch/i, role: 'Vertretungsberechtigt' },
+  { pattern: /^(inhaltlich )?verantwortlich/i, role: 'Verantwortlich für den Inhalt' },
+  { pattern: /^ansprechpartner(in)?/i, role: 'Ansprechpartner' },
+  { pattern: /^vorstand/i, role: 'Vorstand' },
+  { pattern: /^(owner|proprietor)/i, role: 'Inhaber' },
+  { pattern: /^managing director/i, role: 'Geschäftsführung' },
+  { pattern: /^contact person/i, role: 'Ansprechpartner' },
+];
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+
+const PHONE_LABEL = /(?:tel(?:efon)?|fon|phone|mobil|handy|mobile|fax)\.?\s*:?\s*/i;
+
+const PHONE_PATTERN = /(?:\+|00)?\d[\d\s/().-]{5,}\d/g;
+
+/**
+ * A name line: optional salutation/title followed by 2-4 capitalized words
+ */
+const NAME_PATTERN =
+  /^(?:(?:Herr|Frau|Dr\.|Prof\.|Dipl\.-[A-Za-z]+\.?)\s+)*[A-ZÄÖÜ][a-zäöüß]+(?:[- ](?:von |van |de )?[A-ZÄÖÜ][a-zäöüß]+){1,3}$/;
+
+/**
+ * Detect what kind of contact page a URL/title represents
+ */
+export function detectContactPageType(url: string, title = ''): ContactPageType {
+  let path = url;
+  try {
+    path = decodeURIComponent(new URL(url).pathname);
+  } catch {
+    // Keep raw URL
+  }
+
+  for (const { type, pattern } of PAGE_TYPE_PATTERNS) {
+    if (pattern.test(path) || pattern.test(title)) return type;
+  }
+
+  return 'other';
+}
+
+/**
+ * Resolve obfuscated email notations such as "info [at] domain [dot] de"
+ */
+export function deobfuscateEmails(text: string): string {
+  return text
+    .replace(/\s*[[({]\s*(?:at|ät|@)\s*[\])}]\s*/gi, '@')
+    .replace(/\s*[[({]\s*(?:dot|punkt|\.)\s*[\])}]\s*/gi, '.')
+    .replace(/([a-z0-9._%+-]+)\s+@\s+([a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,})/gi, '$1@$2');
+}
+
+/**
+ * Normalize a phone number for deduplication (digits with international prefix)
+ */
+export function normalizePhoneKey(phone: string): string {
+  const digits = phone.replace(/\(0\)/g, '').replace(/[^\d+]/g, '');
+  if (digits.startsWith('+')) return digits;
+  if (digits.startsWith('00')) return `+${digits.slice(2)}`;
+  if (digits.startsWith('0')) return `+49${digits.slice(1)}`;
+  return digits;
+}
+
+/**
+ * Stable key used to deduplicate contacts across crawls
+ */
+export function contactDedupeKey(contact: Pick<ExtractedContact, 'name' | 'email' | 'phone'>): string {
+  if (contact.email) return `email:${contact.email.toLowerCase()}`;
+
+  const name = (contact.name || '').toLowerCase().replace(/\s+/g, ' ').trim();
+  const phone = contact.phone ? normalizePhoneKey(contact.phone) : '';
+
+  return `person:${name}|${phone}`;
+}
+
+/**
+ * Find emails in a line of (deobfuscated) text
+ */
+function findEmails(line: string): string[] {
+  return Array.from(line.matchAll(EMAIL_PATTERN), (match) => match[0].replace(/\.$/, '').toLowerCase());
+}
+
+/**
+ * Find phone numbers in a line; a label ("Tel.", "Fon") is required
+ * to avoid picking up postal codes, dates or register numbers.
+ */
+function findPhones(line: string): string[] {
+  const labelMatch = line.match(PHONE_LABEL);
+  if (!labelMatch || /fax/i.test(labelMatch[0])) return [];
+
+  const afterLabel = line.slice((labelMatch.index || 0) + labelMatch[0].length);
+  return Array.from(afterLabel.matchAll(PHONE_PATTERN), (match) => match[0].trim())
+    .filter((phone) => phone.replace(/\D/g, '').length >= 6);
+}
+
+/**
+ * Match a "Role: Name" line
+ */
+function matchRoleLine(line: string): { role: string; name?: string } | null {
+  for (const { pattern, role } of ROLE_LABELS) {
+    if (!pattern.test(line)) continue;
+
+    const separator = line.indexOf(':');
+    const value = separator >= 0 ? line.slice(separator + 1).trim() : '';
+    const name = value
+      .split(/[,;(]/)[0]
+      .replace(/\s+(?:und|and|&)\s+.*$/, '')
+      .trim();
+
+    return { role, name: NAME_PATTERN.test(name) ? name : undefined };
+  }
+
+  return null;
+}
+
+/**
+ * Extract contacts from a crawled page
+ */
+export function extractContacts(page: { url: string; html: string }): ExtractedContact[] {
+  const pageType = detectContactPageType(page.url, extractTitle(page.html));
+  const trustLevel = TRUST_BY_PAGE_TYPE[pageType];
+  const lines = deobfuscateEmails(htmlToText(page.html)).split('\n');
+
+  const contacts: ExtractedContact[] = [];
+  let current: ExtractedContact | null = null;
+  let linesSincePerson = 0;
+
+  const startPerson = (name?: string, role?: string) => {
+    current = { name, role, source: page.url, pageType, trustLevel };
+    contacts.push(current);
+    linesSincePerson = 0;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const roleLine = matchRoleLine(line);
+    if (roleLine) {
+      // Name may follow on the next line ("Geschäftsführer:\nMax Mustermann")
+      const name = roleLine.name ?? (NAME_PATTERN.test(lines[i + 1] || '') ? lines[i + 1] : undefined);
+      startPerson(name, roleLine.role);
+      continue;
+    }
+
+    // Team pages list people as a name line followed by their details
+    if (pageType === 'team' && NAME_PATTERN.test(line)) {
+      const emailAhead = lines.slice(i + 1, i + 4).some((next) => findEmails(next).length > 0);
+      if (emailAhead) {
+        startPerson(line);
+        continue;
+      }
+    }
+
+    const person = current as ExtractedContact | null;
+    const attachToPerson = person !== null && linesSincePerson < 4;
+    linesSincePerson++;
+
+    for (const email of findEmails(line)) {
+      if (attachToPerson && person && !person.email) {
+        person.email = email;
+      } else if (!contacts.some((c) => c.email === email)) {
+        contacts.push({ email, source: page.url, pageType, trustLevel });
+      }
+    }
+
+    for (const phone of findPhones(line)) {
+      if (attachToPerson && person && !person.phone) {
+        person.phone = phone;
+      } else {
+        const generic = contacts.find((c) => !c.name && !c.phone);
+        if (generic) {
+          generic.phone = phone;
+        } else if (!contacts.some((c) => c.phone && normalizePhoneKey(c.phone) === normalizePhoneKey(phone))) {
+          contacts.push({ phone, source: page.url, pageType, trustLevel });
+        }
+      }
+    }
+  }
+
+  // mailto: links catch addresses that are only present in markup
+  for (const href of extractHrefsWithScheme(page.html, 'mailto:')) {
+    const email = href.toLowerCase();
+    if (/^[^@\s]+@[^@\s]+\.[a-z]{2,}$/.test(email) && !contacts.some((c) => c.email === email)) {
+      contacts.push({ email, source: page.url, pageType, trustLevel });
+    }
+  }
+
+  return contacts.filter((c) => c.email || c.phone || c.name);
+}
+
+/**
+ * Extract and merge contacts from all crawled contact pages.
+ * Duplicates keep the highest trust level and fill in missing details.
+ */
+export function extractContactsFromPages(
+  pages: Array<{ url: string; html: string; error?: string }>
+): ExtractedContact[] {
+  const trustRank: Record<ContactTrustLevel, number> = { HIGH: 3, MEDIUM: 2, LOW: 1 };
+  const merged = new Map<string, ExtractedContact>();
+
+  for (const page of pages) {
+    if (page.error || !page.html) continue;
+    if (detectContactPageType(page.url, extractTitle(page.html)) === 'other') continue;
+
+    for (const contact of extractContacts(page)) {
+      const key = contactDedupeKey(contact);
+      const existing = merged.get(key);
+
+      if (!existing) {
+        merged.set(key, contact);
+        continue;
+      }
+
+      const preferred = trustRank[contact.trustLevel] > trustRank[existing.trustLevel] ? contact : existing;
+      merged.set(key, {
+        ...preferred,
+        name: preferred.name ?? existing.name ?? contact.name,
+        role: preferred.role ?? existing.role ?? contact.role,
+        phone: preferred.phone ?? existing.phone ?? contact.phone,
+      });
+    }
+  }
+
+  return Array.from(merged.values());
+}
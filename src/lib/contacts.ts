@@ -0,0 +1,65 @@
+import { createLogger } from './logger';
+import { contactDedupeKey, type ExtractedContact } from './contact-extractor';
+import prisma from './db';
+
+const logger = createLogger('contacts');
+
+/**
+ * Persist crawled contacts for a POI
+ */
+
+/**
+ * Upsert extracted contacts and retire the ones that disappeared.
+ * A contact is only retired when its source page was crawled again
+ * (or is gone) and no longer lists it, so a crawl that ran out of
+ * budget before reaching the Impressum does not drop contacts.
+ */
+export async function syncPoiContacts(
+  poiId: string,
+  contacts: ExtractedContact[],
+  crawledPages: Array<{ url: string; statusCode: number; error?: string }>
+): Promise<{ upserted: number; retired: number }> {
+  const now = new Date();
+  const seenKeys: string[] = [];
+
+  for (const contact of contacts) {
+    const dedupeKey = contactDedupeKey(contact);
+    seenKeys.push(dedupeKey);
+
+    const data = {
+      name: contact.name ?? null,
+      role: contact.role ?? null,
+      email: contact.email ?? null,
+      phone: contact.phone ?? null,
+      trustLevel: contact.trustLevel,
+      source: contact.source,
+      lastSeenAt: now,
+    };
+
+    await prisma.contact.upsert({
+      where: { poiId_dedupeKey: { poiId, dedupeKey } },
+      create: { poiId, dedupeKey, ...data },
+      update: { ...data, deletedAt: null },
+    });
+  }
+
+  const coveredSources = crawledPages
+    .filter((page) => (!page.error && page.statusCode >= 200 && page.statusCode < 300)
+      || page.statusCode === 404
+      || page.statusCode === 410)
+    .map((page) => page.url);
+
+  const { count: retired } = await prisma.contact.updateMany({
+    where: {
+      poiId,
+      deletedAt: null,
+      dedupeKey: { not: null, notIn: seenKeys },
+      source: { in: coveredSources },
+    },
+    data: { deletedAt: now },
+  });
+
+  logger.info({ poiId, upserted: contacts.length, retired }, 'Contacts synchronized');
+
+  return { upserted: contacts.length, retired };
+}
@@ -1,7 +1,7 @@
 import { prisma } from './db';
 import { logger } from './logger';
 
-export type CostType = 'openai' | 'google_maps' | 'scraping' | 'email';
+export type CostType = 'openai' | 'azure_openai' | 'anthropic' | 'local_llm' | 'google_maps' | 'scraping' | 'email';
 
 interface CostEntry {
   service: CostType;
@@ -92,6 +92,7 @@ export async function getCostSummary(
   byType: Record<CostType, number>;
   byDay: Array<{ date: string; amount: number }>;
   topPois: Array<{ poiId: string; poiName: string; amount: number }>;
+  savings: AuditSavings;
 }> {
   const costs = await prisma.costTracking.findMany({
     where: {
@@ -105,6 +106,9 @@ export async function getCostSummary(
   // Calculate totals by type
   const byType: Record<CostType, number> = {
     openai: 0,
+    azure_openai: 0,
+    anthropic: 0,
+    local_llm: 0,
     google_maps: 0,
     scraping: 0,
     email: 0,
@@ -161,6 +165,34 @@ export async function getCostSummary(
     byType,
     byDay,
     topPois,
+    savings: await getAuditSavings(startDate, endDate),
+  };
+}
+
+export interface AuditSavings {
+  total: number; // LLM cost not spent
+  skippedAudits: number;
+  audits: number; // Completed audits in the period
+}
+
+/**
+ * LLM cost not spent on audits carried forward with unchanged inputs
+ */
+export async function getAuditSavings(startDate: Date, endDate: Date): Promise<AuditSavings> {
+  const period = { createdAt: { gte: startDate, lte: endDate }, status: 'COMPLETED' as const };
+  const [skipped, audits] = await Promise.all([
+    prisma.audit.aggregate({
+      _sum: { llmCostSaved: true },
+      _count: { _all: true },
+      where: { ...period, carriedForwardFrom: { not: null } },
+    }),
+    prisma.audit.count({ where: period }),
+  ]);
+
+  return {
+    total: skipped._sum.llmCostSaved || 0,
+    skippedAudits: skipped._count._all,
+    audits,
   };
 }
 
@@ -0,0 +1,150 @@
+import type { PlaceSearchResult } from './google-places';
+import { distanceMeters, nameSimilarity } from './place-matching';
+
+/**
+ * Coverage gaps
+ * A scan samples nearby search results of tourism-relevant place types
+ * around known POIs of a region. Places that match none of our POIs (by
+ * place ID, or by name and distance) are candidate new POIs.
+ */
+
+/**
+ * Google place types searched by default
+ */
+export const COVERAGE_PLACE_TYPES = [
+  'lodging',
+  'campground',
+  'restaurant',
+  'cafe',
+  'bar',
+  'museum',
+  'art_gallery',
+  'tourist_attraction',
+  'amusement_park',
+  'zoo',
+];
+
+export const COVERAGE_SEARCH_RADIUS_METERS = 1000;
+
+/**
+ * Default cost cap of one scan in USD, independent of other API budgets
+ */
+export const COVERAGE_SCAN_MAX_COST = parseFloat(process.env.COVERAGE_SCAN_MAX_COST || '5');
+
+/**
+ * A place is one of our POIs when the names are this similar within this
+ * distance
+ */
+export const COVERAGE_MATCH = {
+  nameSimilarity: 0.6,
+  distanceMeters: 150,
+};
+
+/**
+ * TLDB category suggested for a place type
+ */
+const TYPE_CATEGORIES: Record<string, string> = {
+  lodging: 'Hotel',
+  campground: 'Camping',
+  rv_park: 'Camping',
+  restaurant: 'Restaurant',
+  meal_takeaway: 'Restaurant',
+  cafe: 'Café',
+  bakery: 'Café',
+  bar: 'Bar',
+  night_club: 'Bar',
+  museum: 'Museum',
+  art_gallery: 'Galerie',
+  zoo: 'Zoo',
+  amusement_park: 'Freizeitpark',
+  tourist_attraction: 'Sehenswürdigkeit',
+};
+
+export interface CoveragePoi {
+  id: string;
+  name: string;
+  latitude: number | null;
+  longitude: number | null;
+  placeId?: string | null;
+  mapsPlaceIds?: unknown;
+}
+
+export interface CoverageSearch {
+  anchorPoiId: string;
+  location: { lat: number; lng: number };
+  type: string;
+}
+
+/**
+ * One POI per grid cell of the search radius, so searches around
+ * neighbouring POIs do not return the same places
+ */
+export function sampleAnchorPois<T extends CoveragePoi>(pois: T[], radius = COVERAGE_SEARCH_RADIUS_METERS): T[] {
+  const cells = new Map<string, T>();
+
+  for (const poi of pois) {
+    if (poi.latitude === null || poi.longitude === null) continue;
+
+    const latStep = radius / 111320;
+    const lngStep = radius / (111320 * Math.max(Math.cos((poi.latitude * Math.PI) / 180), 0.01));
+    const cell = `${Math.floor(poi.latitude / latStep)}:${Math.floor(poi.longitude / lngStep)}`;
+    if (!cells.has(cell)) cells.set(cell, poi);
+  }
+
+  return Array.from(cells.values());
+}
+
+/**
+ * Nearby searches of a scan: every type around each anchor, as many
+ * anchors as the cost cap allows, spread evenly over the region
+ */
+export function planCoverageSearches(
+  anchors: CoveragePoi[],
+  types: string[],
+  budget: { costCap: number; searchCost: number }
+): CoverageSearch[] {
+  if (types.length === 0 || budget.searchCost <= 0) return [];
+
+  const maxAnchors = Math.floor(budget.costCap / budget.searchCost / types.length);
+  const count = Math.min(anchors.length, maxAnchors);
+
+  return Array.from({ length: count }, (_, i) => anchors[Math.floor((i * anchors.length) / count)])
+    .flatMap((anchor) => types.map((type) => ({
+      anchorPoiId: anchor.id,
+      location: { lat: anchor.latitude!, lng: anchor.longitude! },
+      type,
+    })));
+}
+
+/**
+ * The POI a place belongs to, if any
+ */
+export function findKnownPoi<T extends CoveragePoi>(place: PlaceSearchResult, pois: T[]): T | undefined {
+  const byId = pois.find((poi) => {
+    const placeIds = (poi.mapsPlaceIds as Record<string, string> | null | undefined) ?? {};
+    return poi.placeId === place.placeId || placeIds.google === place.placeId;
+  });
+  if (byId) return byId;
+
+  return pois.find((poi) =>
+    poi.latitude !== null
+    && poi.longitude !== null
+    && distanceMeters({ lat: poi.latitude, lng: poi.longitude }, place.location) <= COVERAGE_MATCH.distanceMeters
+    && nameSimilarity(poi.name, place.name) >= COVERAGE_MATCH.nameSimilarity
+  );
+}
+
+/**
+ * Whether a search result is worth listing: operating and of a searched type
+ */
+export function isCoverageCandidate(place: PlaceSearchResult, types: string[]): boolean {
+  if (place.businessStatus === 'CLOSED_PERMANENTLY') return false;
+  return place.types.some((type) => types.includes(type));
+}
+
+/**
+ * TLDB category suggested for a candidate, most specific type first
+ */
+export function suggestedCategory(types: string[]): string | undefined {
+  return types.map((type) => TYPE_CATEGORIES[type]).find(Boolean);
+}
@@ -0,0 +1,303 @@
+import { gzipSync, gunzipSync } from 'zlib';
+import type { Route } from 'playwright';
+import { normalizeUrl } from './utils';
+import { getBlobStore } from './blob-store';
+
+/**
+ * Crawl recording and offline replay
+ * A crawl is recorded as a HAR 1.2 archive (responses with headers and
+ * bodies, including browser subresources). Replaying serves the recorded
+ * responses instead of the network, so extraction and audits can be
+ * re-run against exactly what the crawler saw.
+ */
+
+export type ArchiveMode = 'record' | 'replay';
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: never[];
+    headers: HarHeader[];
+    queryString: never[];
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: never[];
+    headers: HarHeader[];
+    content: { size: number; mimeType: string; text?: string; encoding?: 'base64' };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  _finalUrl?: string; // URL after redirects followed by fetch
+}
+
+export interface Har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+    _sitemaps?: string[]; // Sitemaps announced in robots.txt at recording time
+  };
+}
+
+/**
+ * Headers that describe the transfer, not the (decoded) recorded body
+ */
+const TRANSFER_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding']);
+
+/**
+ * Statuses that must not carry a body
+ */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/**
+ * Browser subresources that are neither recorded nor replayed
+ */
+const SKIPPED_RESOURCE_TYPES = new Set(['image', 'media', 'font']);
+
+function isTextual(mimeType: string): boolean {
+  return /^text\/|json|xml|javascript|html/i.test(mimeType);
+}
+
+/**
+ * HAR entry of a response
+ */
+export function createHarEntry(
+  request: { method: string; url: string; headers: Record<string, string> },
+  response: { status: number; statusText: string; headers: Record<string, string>; url?: string },
+  body: Buffer,
+  startedAt: number
+): HarEntry {
+  const mimeType = response.headers['content-type'] || '';
+  const textual = isTextual(mimeType);
+  const finalUrl = response.url && response.url !== request.url ? response.url : undefined;
+
+  return {
+    startedDateTime: new Date(startedAt).toISOString(),
+    time: Date.now() - startedAt,
+    request: {
+      method: request.method,
+      url: request.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: Object.entries(request.headers).map(([name, value]) => ({ name, value })),
+      queryString: [],
+      headersSize: -1,
+      bodySize: 0,
+    },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: Object.entries(response.headers).map(([name, value]) => ({ name, value })),
+      content: {
+        size: body.length,
+        mimeType,
+        text: textual ? body.toString('utf-8') : body.toString('base64'),
+        ...(textual ? {} : { encoding: 'base64' as const }),
+      },
+      redirectURL: response.headers.location || '',
+      headersSize: -1,
+      bodySize: body.length,
+    },
+    cache: {},
+    timings: { send: 0, wait: Date.now() - startedAt, receive: 0 },
+    ...(finalUrl && { _finalUrl: finalUrl }),
+  };
+}
+
+/**
+ * Recorded responses of one crawl, looked up by method and URL
+ */
+export class CrawlArchive {
+  private entries: HarEntry[] = [];
+  private index: Map<string, HarEntry> = new Map();
+  sitemaps: string[] = [];
+
+  constructor(entries: HarEntry[] = []) {
+    for (const entry of entries) this.add(entry);
+  }
+
+  static fromHar(har: Har): CrawlArchive {
+    if (!Array.isArray(har?.log?.entries)) throw new Error('Invalid HAR archive');
+
+    const archive = new CrawlArchive(har.log.entries);
+    archive.sitemaps = har.log._sitemaps ?? [];
+    return archive;
+  }
+
+  private static key(method: string, url: string): string {
+    return `${method.toUpperCase()} ${normalizeUrl(url)}`;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Add an entry; a later response for the same URL replaces the earlier one
+   */
+  add(entry: HarEntry): void {
+    this.entries.push(entry);
+    this.index.set(CrawlArchive.key(entry.request.method, entry.request.url), entry);
+  }
+
+  find(url: string, method = 'GET'): HarEntry | undefined {
+    return this.index.get(CrawlArchive.key(method, url));
+  }
+
+  toHar(): Har {
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'LDB-DataGuard', version: '1.0' },
+        entries: this.entries,
+        _sitemaps: this.sitemaps,
+      },
+    };
+  }
+
+  /**
+   * Body and replayable headers of a recorded response
+   */
+  private static replayable(entry: HarEntry): { body: Buffer; headers: Record<string, string> } {
+    const { content } = entry.response;
+    const body = Buffer.from(content.text ?? '', content.encoding === 'base64' ? 'base64' : 'utf-8');
+    const headers: Record<string, string> = {};
+
+    for (const { name, value } of entry.response.headers) {
+      if (!TRANSFER_HEADERS.has(name.toLowerCase())) headers[name.toLowerCase()] = value;
+    }
+
+    return { body, headers };
+  }
+
+  /**
+   * fetch() that records responses, or serves them from the archive
+   */
+  createFetch(mode: ArchiveMode): typeof fetch {
+    return async (input, init) => {
+      const url = input instanceof Request ? input.url : String(input);
+      const method = init?.method || (input instanceof Request ? input.method : 'GET');
+
+      if (mode === 'replay') {
+        const entry = this.find(url, method);
+        if (!entry) throw new Error(`Not in crawl archive: ${url}`);
+
+        const { body, headers } = CrawlArchive.replayable(entry);
+        const response = new Response(NULL_BODY_STATUSES.has(entry.response.status) ? null : new Uint8Array(body), {
+          status: entry.response.status,
+          statusText: entry.response.statusText,
+          headers,
+        });
+        Object.defineProperty(response, 'url', { value: entry._finalUrl || url });
+        return response;
+      }
+
+      const startedAt = Date.now();
+      const response = await fetch(input, init);
+      const body = Buffer.from(await response.arrayBuffer());
+
+      this.add(createHarEntry(
+        { method, url, headers: Object.fromEntries(new Headers(init?.headers).entries()) },
+        {
+          status: response.status,
+          statusText: response.statusText,
+          headers: Object.fromEntries(response.headers.entries()),
+          url: response.url,
+        },
+        body,
+        startedAt
+      ));
+
+      const recorded = new Response(NULL_BODY_STATUSES.has(response.status) ? null : new Uint8Array(body), {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+      Object.defineProperty(recorded, 'url', { value: response.url || url });
+      return recorded;
+    };
+  }
+
+  /**
+   * Playwright route handler that records browser requests, or fulfils
+   * them from the archive
+   */
+  createRouteHandler(mode: ArchiveMode): (route: Route) => Promise<void> {
+    return async (route) => {
+      const request = route.request();
+      const skipped = SKIPPED_RESOURCE_TYPES.has(request.resourceType());
+
+      if (mode === 'replay') {
+        const entry = skipped ? undefined : this.find(request.url(), request.method());
+        if (!entry) return route.abort('internetdisconnected');
+
+        const { body, headers } = CrawlArchive.replayable(entry);
+        return route.fulfill({ status: entry.response.status, headers, body });
+      }
+
+      if (skipped) return route.continue();
+
+      const startedAt = Date.now();
+      try {
+        const response = await route.fetch();
+        const body = await response.body();
+
+        this.add(createHarEntry(
+          { method: request.method(), url: request.url(), headers: request.headers() },
+          { status: response.status(), statusText: response.statusText(), headers: response.headers() },
+          body,
+          startedAt
+        ));
+
+        await route.fulfill({ response, body });
+      } catch {
+        await route.abort().catch(() => undefined);
+      }
+    };
+  }
+}
+
+/**
+ * Blob store key of a crawl archive
+ */
+export function crawlArchiveKey(poiId: string, recordedAt = new Date()): string {
+  return `archives/${poiId}/${recordedAt.toISOString().replace(/[:.]/g, '-')}.har.gz`;
+}
+
+/**
+ * Store a recorded crawl (gzipped HAR) and return its key
+ */
+export async function saveCrawlArchive(poiId: string, archive: CrawlArchive): Promise<string> {
+  const key = crawlArchiveKey(poiId);
+  await getBlobStore().put(key, gzipSync(JSON.stringify(archive.toHar())), 'application/gzip');
+  return key;
+}
+
+/**
+ * Load a recorded crawl for replay
+ */
+export async function loadCrawlArchive(key: string): Promise<CrawlArchive> {
+  const blob = await getBlobStore().get(key);
+  if (!blob) throw new Error(`Crawl archive not found: ${key}`);
+
+  return CrawlArchive.fromHar(JSON.parse(gunzipSync(blob.data).toString('utf-8')));
+}
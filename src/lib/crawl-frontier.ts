@@ -0,0 +1,200 @@
+import { normalizeUrl } from './utils';
+
+/**
+ * Priority-ordered crawl frontier
+ * Ranks URLs by how likely they hold POI facts (contact, imprint, opening hours, ...)
+ */
+
+/**
+ * Why a URL was put into the frontier
+ */
+export type CrawlSource = 'start' | 'sitemap' | 'link';
+
+/**
+ * Selection metadata recorded on every crawled page
+ */
+export interface CrawlSelection {
+  source: CrawlSource;
+  score: number;
+  reasons: string[];
+  parentUrl?: string;
+  anchorText?: string;
+}
+
+/**
+ * Frontier entry
+ */
+export interface FrontierEntry {
+  url: string;
+  depth: number;
+  selection: CrawlSelection;
+}
+
+/**
+ * Per-POI crawl budget
+ */
+export interface CrawlBudget {
+  maxPages: number;
+  maxBytes: number;
+  maxDurationMs: number;
+  maxDocumentBytes: number; // Largest PDF/DOCX that is downloaded
+}
+
+export const DEFAULT_CRAWL_BUDGET: CrawlBudget = {
+  maxPages: parseInt(process.env.SCRAPER_MAX_PAGES || '30', 10),
+  maxBytes: parseInt(process.env.SCRAPER_MAX_BYTES || String(10 * 1024 * 1024), 10),
+  maxDurationMs: parseInt(process.env.SCRAPER_MAX_DURATION_MS || '120000', 10),
+  maxDocumentBytes: parseInt(process.env.SCRAPER_MAX_DOCUMENT_BYTES || String(5 * 1024 * 1024), 10),
+};
+
+/**
+ * Keywords (path or anchor text) hinting at POI facts
+ */
+const POI_KEYWORDS: Array<{ pattern: RegExp; weight: number; reason: string }> = [
+  { pattern: /impressum|imprint|legal-notice/, weight: 50, reason: 'imprint' },
+  { pattern: /kontakt|contact/, weight: 45, reason: 'contact' },
+  { pattern: /(oe|ö)ffnungszeiten|opening[-_ ]?hours|gesch(ae|ä)ftszeiten/, weight: 45, reason: 'opening_hours' },
+  { pattern: /anfahrt|anreise|directions|location|standort/, weight: 30, reason: 'location' },
+  { pattern: /preise|price|tarif|eintritt|admission/, weight: 30, reason: 'prices' },
+  { pattern: /speisekarte|getr(ae|ä)nkekarte|menu/, weight: 25, reason: 'menu' },
+  { pattern: /(ue|ü)ber[-_ ]?uns|about|team/, weight: 20, reason: 'about' },
+  { pattern: /zimmer|rooms|ausstattung|amenities|service/, weight: 10, reason: 'amenities' },
+];
+
+/**
+ * Patterns of pages that rarely contain POI facts
+ */
+const LOW_VALUE_PATTERNS: Array<{ pattern: RegExp; weight: number; reason: string }> = [
+  { pattern: /blog|news|aktuelles|presse|press|magazin|artikel|article/, weight: -40, reason: 'editorial' },
+  { pattern: /\/(tag|tags|category|kategorie|author|autor)\//, weight: -40, reason: 'archive' },
+  { pattern: /\/page\/\d+|[?&]page=\d+/, weight: -30, reason: 'pagination' },
+  { pattern: /login|anmelden|warenkorb|cart|checkout|account|konto/, weight: -50, reason: 'account' },
+  { pattern: /datenschutz|privacy|cookie|agb|terms/, weight: -20, reason: 'legal_boilerplate' },
+  { pattern: /\.(jpe?g|png|gif|webp|svg|zip|mp4|mp3)(\?|$)/, weight: -100, reason: 'binary' },
+];
+
+/**
+ * Score a candidate URL
+ */
+export function scoreUrl(
+  url: string,
+  context: {
+    source: CrawlSource;
+    depth: number;
+    anchorText?: string;
+    parentHasJsonLd?: boolean;
+    sitemapPriority?: number;
+    alternateLanguage?: boolean; // Version of a page in a secondary crawl language
+  }
+): { score: number; reasons: string[] } {
+  const reasons: string[] = [];
+  let score = 0;
+
+  let path = url.toLowerCase();
+  try {
+    const parsed = new URL(url);
+    path = decodeURIComponent(parsed.pathname + parsed.search).toLowerCase();
+  } catch {
+    // Keep raw URL
+  }
+
+  const anchor = context.anchorText?.toLowerCase().trim() || '';
+
+  for (const keyword of POI_KEYWORDS) {
+    if (keyword.pattern.test(path)) {
+      score += keyword.weight;
+      reasons.push(`path:${keyword.reason}`);
+    } else if (anchor && keyword.pattern.test(anchor)) {
+      score += keyword.weight * 0.8;
+      reasons.push(`anchor:${keyword.reason}`);
+    }
+  }
+
+  for (const low of LOW_VALUE_PATTERNS) {
+    if (low.pattern.test(path)) {
+      score += low.weight;
+      reasons.push(`penalty:${low.reason}`);
+    }
+  }
+
+  // Other language versions repeat facts already found in the primary language
+  if (context.alternateLanguage) {
+    score -= 25;
+    reasons.push('penalty:alternate_language');
+  }
+
+  if (context.source === 'start') {
+    score += 100;
+    reasons.push('start_url');
+  }
+
+  if (context.parentHasJsonLd) {
+    score += 10;
+    reasons.push('parent_has_json_ld');
+  }
+
+  if (context.source === 'sitemap') {
+    score += 5 + (context.sitemapPriority ?? 0.5) * 10;
+    reasons.push('sitemap');
+  }
+
+  // Shallow pages first when everything else is equal
+  score -= context.depth * 5;
+
+  return { score, reasons };
+}
+
+/**
+ * Frontier ordered by score (highest first), deduplicated by normalized URL
+ */
+export class CrawlFrontier {
+  private entries: FrontierEntry[] = [];
+  private seen: Set<string> = new Set();
+
+  /**
+   * Add a URL unless it was already queued or crawled
+   */
+  push(entry: FrontierEntry): boolean {
+    const key = normalizeUrl(entry.url);
+    if (this.seen.has(key)) return false;
+
+    this.seen.add(key);
+
+    // Binary insertion keeps the queue sorted by descending score
+    let low = 0;
+    let high = this.entries.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.entries[mid].selection.score >= entry.selection.score) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    this.entries.splice(low, 0, entry);
+
+    return true;
+  }
+
+  /**
+   * Take the most promising entry
+   */
+  pop(): FrontierEntry | undefined {
+    return this.entries.shift();
+  }
+
+  /**
+   * Mark a URL as handled without queueing it
+   */
+  markSeen(url: string): void {
+    this.seen.add(normalizeUrl(url));
+  }
+
+  has(url: string): boolean {
+    return this.seen.has(normalizeUrl(url));
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+}
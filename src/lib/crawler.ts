@@ -1,6 +1,41 @@
 import { chromium, Browser, Page } from 'playwright';
 import { createLogger } from './logger';
-import { sleep, normalizeUrl, extractDomain } from './utils';
+import { normalizeUrl, extractDomain, readBodyLimited } from './utils';
+import { isAllowedByRobots, getRobotsPolicy } from './robots';
+import { fetchSitemapEntries } from './sitemap';
+import { extractJsonLdBlocks, extractStructuredData, type SchemaNode } from './structured-data';
+import {
+  checkFreshness,
+  conditionalHeaders,
+  validatorsFromResponse,
+  type PageValidators,
+} from './page-validators';
+import { needsBrowserRendering, type RenderMode } from './render-mode';
+import { withHostSlot } from './host-politeness';
+import { parseHtml, findElements, textContent } from './html';
+import { getBlobStore } from './blob-store';
+import { screenshotKey, SCREENSHOT_LIMITS } from './screenshots';
+import { detectDocumentType, extractDocumentText, type DocumentType } from './documents';
+import { dismissConsentBanner, type ConsentOverride, type ConsentResult } from './consent-banners';
+import { scraperConsentBanners } from './metrics';
+import { CrawlArchive, type ArchiveMode } from './crawl-archive';
+import {
+  CRAWL_LANGUAGES,
+  detectPageLanguage,
+  extractAlternates,
+  languageFromUrl,
+  languageGroupKey,
+  languagePolicy,
+  type PageAlternate,
+} from './page-language';
+import {
+  CrawlFrontier,
+  DEFAULT_CRAWL_BUDGET,
+  scoreUrl,
+  type CrawlBudget,
+  type CrawlSelection,
+  type FrontierEntry,
+} from './crawl-frontier';
 import prisma from './db';
 
 const logger = createLogger('crawler');
@@ -10,111 +45,150 @@ const logger = createLogger('crawler');
  */
 interface CrawlerConfig {
   maxDepth: number;
-  rateLimit: number; // ms between requests
+  rateLimit: number; // ms between requests per host, shared by all workers (unless robots.txt sets a Crawl-delay)
   timeout: number; // page load timeout
   respectRobotsTxt: boolean;
+  useSitemaps: boolean;
+  conditional: boolean; // Skip pages unchanged since the last crawl of the POI
+  screenshots: boolean; // Capture full-page screenshots as evidence
+  recordArchive: boolean; // Record every response into a HAR archive
+  replay?: CrawlArchive; // Serve responses from a recorded crawl instead of the network
   userAgent: string;
+  budget: CrawlBudget;
 }
 
+/**
+ * Crawler options (budget may be given partially)
+ */
+type CrawlerOptions = Partial<Omit<CrawlerConfig, 'budget'>> & {
+  budget?: Partial<CrawlBudget>;
+};
+
 const DEFAULT_CONFIG: CrawlerConfig = {
   maxDepth: parseInt(process.env.SCRAPER_MAX_DEPTH || '3', 10),
   rateLimit: parseInt(process.env.SCRAPER_RATE_LIMIT_MS || '1000', 10),
   timeout: 30000,
   respectRobotsTxt: true,
+  useSitemaps: true,
+  conditional: true,
+  screenshots: process.env.SCRAPER_SCREENSHOTS === 'true',
+  recordArchive: process.env.SCRAPER_RECORD_ARCHIVE === 'true',
   userAgent:
     'Mozilla/5.0 (compatible; LDB-DataGuard/1.0; +https://ldb-dataguard.de/bot)',
+  budget: DEFAULT_CRAWL_BUDGET,
 };
 
+/**
+ * Link found on a page
+ */
+export interface CrawlLink {
+  url: string;
+  text: string;
+}
+
 /**
  * Crawl result
  */
-interface CrawlResult {
+export interface CrawlResult {
   url: string;
   statusCode: number;
   contentType: string;
   html: string;
   jsonLd: Record<string, unknown>[];
-  links: string[];
+  structuredData: SchemaNode[];
+  links: CrawlLink[];
   depth: number;
+  bytes: number;
+  selection: CrawlSelection;
+  renderMode?: RenderMode;
+  documentType?: DocumentType; // Linked PDF/DOCX; its text is in `text`, html is empty
+  text?: string;
+  language?: string | null;
+  alternates?: PageAlternate[]; // hreflang versions of the page
+  languageGroup?: string; // Shared by all language versions of the page
+  consent?: ConsentResult; // Consent banner shown when rendering
+  unchanged?: boolean; // Not modified since the last crawl, content taken from storage
   error?: string;
 }
 
 /**
- * Parse robots.txt and check if URL is allowed
+ * Summary of the last crawl
  */
-async function isAllowedByRobots(
-  url: string,
-  userAgent: string
-): Promise<boolean> {
-  try {
-    const domain = extractDomain(url);
-    const robotsUrl = `https://${domain}/robots.txt`;
-    
-    const response = await fetch(robotsUrl, {
-      headers: { 'User-Agent': userAgent },
-    });
-    
-    if (!response.ok) {
-      // No robots.txt or error - assume allowed
-      return true;
-    }
-    
-    const robotsTxt = await response.text();
-    const lines = robotsTxt.split('\n');
-    
-    let relevantSection = false;
-    let disallowed: string[] = [];
-    
-    for (const line of lines) {
-      const trimmed = line.trim().toLowerCase();
-      
-      if (trimmed.startsWith('user-agent:')) {
-        const agent = trimmed.replace('user-agent:', '').trim();
-        relevantSection = agent === '*' || userAgent.toLowerCase().includes(agent);
-      } else if (relevantSection && trimmed.startsWith('disallow:')) {
-        const path = trimmed.replace('disallow:', '').trim();
-        if (path) disallowed.push(path);
-      }
-    }
-    
-    const urlPath = new URL(url).pathname;
-    return !disallowed.some((path) => urlPath.startsWith(path));
-  } catch (error) {
-    logger.warn({ url, error }, 'Failed to check robots.txt');
-    return true;
-  }
+export interface CrawlStats {
+  pagesCrawled: number;
+  pagesUnchanged: number;
+  pagesRendered: number; // Pages that needed headless Chromium
+  documentsCrawled: number; // PDF/DOCX documents downloaded
+  languageSkipped: number; // Versions in languages outside SCRAPER_LANGUAGES
+  consentBlocked: number; // Rendered pages whose consent banner could not be rejected
+  bytes: number;
+  durationMs: number;
+  frontierRemaining: number;
+  stopReason: 'frontier_empty' | 'max_pages' | 'max_bytes' | 'max_duration';
 }
 
 /**
- * Extract JSON-LD data from page
+ * Stored version of a page used for conditional requests
  */
-async function extractJsonLd(page: Page): Promise<Record<string, unknown>[]> {
-  try {
-    return await page.evaluate(() => {
-      const scripts = document.querySelectorAll(
-        'script[type="application/ld+json"]'
-      );
-      const results: Record<string, unknown>[] = [];
+interface StoredPage extends PageValidators {
+  id: string;
+  html: string | null;
+  text: string | null;
+  documentType: string | null;
+  statusCode: number | null;
+  contentType: string | null;
+  renderMode: string | null;
+}
+
+/**
+ * Database enum values of the rendering modes
+ */
+const RENDER_MODE_VALUES: Record<RenderMode, 'STATIC' | 'BROWSER'> = {
+  static: 'STATIC',
+  browser: 'BROWSER',
+};
+
+/**
+ * Database enum values of the document types
+ */
+const DOCUMENT_TYPE_VALUES: Record<DocumentType, 'PDF' | 'DOCX'> = {
+  pdf: 'PDF',
+  docx: 'DOCX',
+};
+
+const RENDER_MODE_RECHECK_DAYS = parseInt(process.env.SCRAPER_RENDER_MODE_RECHECK_DAYS || '30', 10);
+
+/**
+ * Keep same-domain links, one per normalized URL
+ */
+function filterLinks(
+  links: Array<{ href: string; text: string }>,
+  baseUrl: string
+): CrawlLink[] {
+  const baseDomain = extractDomain(baseUrl);
+  const uniqueLinks = new Map<string, CrawlLink>();
+  
+  for (const link of links) {
+    try {
+      const absoluteUrl = new URL(link.href, baseUrl).href;
+      const linkDomain = extractDomain(absoluteUrl);
       
-      scripts.forEach((script) => {
-        try {
-          const data = JSON.parse(script.textContent || '{}');
-          if (Array.isArray(data)) {
-            results.push(...data);
-          } else {
-            results.push(data);
-          }
-        } catch {
-          // Invalid JSON, skip
+      // Only include same-domain links
+      if (linkDomain === baseDomain) {
+        const url = normalizeUrl(absoluteUrl);
+        const existing = uniqueLinks.get(url);
+        
+        // Keep the most descriptive anchor text per URL
+        if (!existing || link.text.length > existing.text.length) {
+          uniqueLinks.set(url, { url, text: link.text.substring(0, 200) });
         }
-      });
-      
-      return results;
-    });
-  } catch (error) {
-    logger.warn({ error }, 'Failed to extract JSON-LD');
-    return [];
+      }
+    } catch {
+      // Invalid URL, skip
+    }
   }
+  
+  return Array.from(uniqueLinks.values());
 }
 
 /**
@@ -123,37 +197,35 @@ async function extractJsonLd(page: Page): Promise<Record<string, unknown>[]> {
 async function extractLinks(
   page: Page,
   baseUrl: string
-): Promise<string[]> {
+): Promise<CrawlLink[]> {
   try {
     const links = await page.evaluate(() => {
       const anchors = document.querySelectorAll('a[href]');
-      return Array.from(anchors).map((a) => a.getAttribute('href') || '');
+      return Array.from(anchors).map((a) => ({
+        href: a.getAttribute('href') || '',
+        text: (a.textContent || a.getAttribute('title') || '').replace(/\s+/g, ' ').trim(),
+      }));
     });
     
-    const baseDomain = extractDomain(baseUrl);
-    const uniqueLinks = new Set<string>();
-    
-    for (const link of links) {
-      try {
-        const absoluteUrl = new URL(link, baseUrl).href;
-        const linkDomain = extractDomain(absoluteUrl);
-        
-        // Only include same-domain links
-        if (linkDomain === baseDomain) {
-          uniqueLinks.add(normalizeUrl(absoluteUrl));
-        }
-      } catch {
-        // Invalid URL, skip
-      }
-    }
-    
-    return Array.from(uniqueLinks);
+    return filterLinks(links, baseUrl);
   } catch (error) {
     logger.warn({ error }, 'Failed to extract links');
     return [];
   }
 }
 
+/**
+ * Extract links from stored HTML (pages that were not rendered again)
+ */
+function extractLinksFromHtml(html: string, baseUrl: string): CrawlLink[] {
+  const anchors = findElements(parseHtml(html), (element) => element.tag === 'a' && Boolean(element.attrs.href));
+  
+  return filterLinks(
+    anchors.map((a) => ({ href: a.attrs.href, text: textContent(a) || a.attrs.title || '' })),
+    baseUrl
+  );
+}
+
 /**
  * Deep website crawler
  */
@@ -161,10 +233,22 @@ export class WebCrawler {
   private browser: Browser | null = null;
   private config: CrawlerConfig;
   private visitedUrls: Set<string> = new Set();
-  private lastRequestTime = 0;
+  private sitemapUrls: Set<string> = new Set();
+  private stats: CrawlStats | null = null;
+  private renderModes: Map<string, RenderMode> = new Map();
+  private consentOverrides: Map<string, ConsentOverride> = new Map();
+  private archive: CrawlArchive | null = null;
+  private fetchPage: typeof fetch = fetch;
+  private recordedDomains: Set<string> = new Set();
+  private alternateLanguages: Map<string, string> = new Map();
+  private siteLanguages: Set<string> = new Set();
   
-  constructor(config: Partial<CrawlerConfig> = {}) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+  constructor(config: CrawlerOptions = {}) {
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+      budget: { ...DEFAULT_CONFIG.budget, ...config.budget },
+    };
   }
   
   /**
@@ -198,63 +282,482 @@ export class WebCrawler {
   }
   
   /**
-   * Apply rate limiting
+   * Whether the current crawl is recorded or replayed
    */
-  private async applyRateLimit(): Promise<void> {
-    const now = Date.now();
-    const elapsed = now - this.lastRequestTime;
+  private get archiveMode(): ArchiveMode | null {
+    if (this.config.replay) return 'replay';
+    return this.archive ? 'record' : null;
+  }
+  
+  /**
+   * Archive recorded by the last crawl (record mode only)
+   */
+  getArchive(): CrawlArchive | null {
+    return this.archiveMode === 'record' ? this.archive : null;
+  }
+  
+  /**
+   * Run a request under the shared per-host politeness limits,
+   * honouring robots.txt Crawl-delay. Replayed requests never reach the host.
+   */
+  private politely<T>(url: string, crawlDelay: number | undefined, fn: () => Promise<T>): Promise<T> {
+    if (this.config.replay) return fn();
+    
+    return withHostSlot(url, fn, {
+      crawlDelay,
+      config: { intervalMs: this.config.rateLimit },
+    });
+  }
+  
+  /**
+   * Load robots.txt for the URL's origin and remember its sitemaps
+   */
+  private async loadRobots(url: string): Promise<void> {
+    const policy = await getRobotsPolicy(url, this.config.userAgent);
     
-    if (elapsed < this.config.rateLimit) {
-      await sleep(this.config.rateLimit - elapsed);
+    for (const sitemap of policy.robots.sitemaps) {
+      this.sitemapUrls.add(sitemap);
     }
+  }
+  
+  /**
+   * Sitemap URLs announced in robots.txt of the crawled origins
+   */
+  getSitemapUrls(): string[] {
+    return Array.from(this.sitemapUrls);
+  }
+  
+  /**
+   * User agent sent with every request
+   */
+  getUserAgent(): string {
+    return this.config.userAgent;
+  }
+  
+  /**
+   * Statistics of the last crawl
+   */
+  getStats(): CrawlStats | null {
+    return this.stats;
+  }
+  
+  /**
+   * Build a result for a page that yielded no content
+   */
+  private emptyResult(
+    entry: FrontierEntry,
+    error: string,
+    statusCode = 0,
+    contentType = ''
+  ): CrawlResult {
+    return {
+      url: normalizeUrl(entry.url),
+      statusCode,
+      contentType,
+      html: '',
+      jsonLd: [],
+      structuredData: [],
+      links: [],
+      depth: entry.depth,
+      bytes: 0,
+      selection: entry.selection,
+      error,
+    };
+  }
+  
+  /**
+   * Mark the stored version of a page as still current and reuse it
+   */
+  private async reuseUnchanged(
+    entry: FrontierEntry,
+    previous: StoredPage,
+    validators: PageValidators,
+    statusCode: number
+  ): Promise<CrawlResult> {
+    await prisma.scrapedContent.update({
+      where: { id: previous.id },
+      data: { ...validators, checkedAt: new Date() },
+    });
     
-    this.lastRequestTime = Date.now();
+    logger.info({ url: entry.url, statusCode }, 'URL unchanged since last crawl');
+    
+    const url = normalizeUrl(entry.url);
+    const html = previous.html ?? '';
+    const document = previous.documentType && previous.text !== null
+      ? { documentType: previous.documentType.toLowerCase() as DocumentType, text: previous.text }
+      : {};
+    
+    return {
+      url,
+      statusCode: previous.statusCode ?? 200,
+      contentType: previous.contentType ?? '',
+      ...this.pageLanguage(html, url, previous.text ?? undefined),
+      html,
+      jsonLd: extractJsonLdBlocks(html),
+      structuredData: extractStructuredData(html, url),
+      links: entry.depth < this.config.maxDepth && html ? extractLinksFromHtml(html, entry.url) : [],
+      depth: entry.depth,
+      bytes: 0,
+      selection: entry.selection,
+      renderMode: previous.renderMode === 'BROWSER' ? 'browser' : 'static',
+      ...document,
+      unchanged: true,
+    };
   }
   
   /**
-   * Crawl a single URL
+   * Language, hreflang alternates and language group of a page
    */
-  private async crawlUrl(
+  private pageLanguage(
+    html: string,
     url: string,
-    depth: number,
-    poiId?: string
+    text?: string
+  ): { language: string | null; alternates: PageAlternate[]; languageGroup: string } {
+    const { language } = detectPageLanguage(html, url, text);
+    const alternates = html ? extractAlternates(html, url) : [];
+    
+    return { language, alternates, languageGroup: languageGroupKey(url, alternates) };
+  }
+  
+  /**
+   * Language policy of a URL, using hreflang alternates seen so far.
+   * Other languages are only skipped once the site has shown one of ours.
+   */
+  private urlLanguagePolicy(url: string): ReturnType<typeof languagePolicy> {
+    const policy = languagePolicy(url, this.alternateLanguages.get(normalizeUrl(url)) ?? languageFromUrl(url));
+    
+    if (policy === 'skip' && !CRAWL_LANGUAGES.some((language) => this.siteLanguages.has(language))) {
+      return 'secondary';
+    }
+    
+    return policy;
+  }
+  
+  /**
+   * Remember the languages of a page and its alternates
+   */
+  private recordLanguages(result: CrawlResult): void {
+    if (result.language) this.siteLanguages.add(result.language);
+    
+    for (const alternate of result.alternates ?? []) {
+      this.siteLanguages.add(alternate.language);
+      this.alternateLanguages.set(alternate.url, alternate.language);
+    }
+  }
+  
+  /**
+   * Store a fetched page and build its result
+   */
+  private async storeResult(
+    entry: FrontierEntry,
+    poiId: string | undefined,
+    page: {
+      html: string;
+      statusCode: number;
+      contentType: string;
+      links: CrawlLink[];
+      validators: PageValidators;
+      renderMode: RenderMode;
+      document?: { type: DocumentType; text: string; bytes: number };
+    }
   ): Promise<CrawlResult> {
-    const normalizedUrl = normalizeUrl(url);
+    const { html, statusCode, contentType, links, validators, renderMode, document } = page;
+    const url = normalizeUrl(entry.url);
+    const jsonLd = extractJsonLdBlocks(html);
+    const structuredData = extractStructuredData(html, url);
+    const bytes = document ? document.bytes : Buffer.byteLength(html, 'utf-8');
+    const { language, alternates, languageGroup } = this.pageLanguage(html, url, document?.text);
     
-    if (this.visitedUrls.has(normalizedUrl)) {
-      return {
-        url: normalizedUrl,
-        statusCode: 0,
-        contentType: '',
-        html: '',
-        jsonLd: [],
-        links: [],
-        depth,
-        error: 'Already visited',
-      };
+    // Store scraped content
+    if (poiId) {
+      await prisma.scrapedContent.create({
+        data: {
+          poiId,
+          url,
+          html: document ? null : html.substring(0, 500000), // Limit size
+          text: document?.text.substring(0, 500000),
+          documentType: document ? DOCUMENT_TYPE_VALUES[document.type] : undefined,
+          language,
+          languageGroup,
+          alternates: alternates.length > 0 ? JSON.parse(JSON.stringify(alternates)) : undefined,
+          jsonLd: jsonLd.length > 0 ? JSON.parse(JSON.stringify({ items: jsonLd })) : undefined,
+          structuredData: structuredData.length > 0
+            ? JSON.parse(JSON.stringify({ items: structuredData }))
+            : undefined,
+          statusCode,
+          contentType,
+          depth: entry.depth,
+          parentUrl: entry.selection.parentUrl,
+          selection: JSON.parse(JSON.stringify(entry.selection)),
+          renderMode: RENDER_MODE_VALUES[renderMode],
+          ...validators,
+          checkedAt: new Date(),
+        },
+      });
     }
     
-    this.visitedUrls.add(normalizedUrl);
+    logger.info(
+      {
+        url: entry.url,
+        statusCode,
+        renderMode,
+        documentType: document?.type,
+        language,
+        jsonLdCount: jsonLd.length,
+        structuredDataCount: structuredData.length,
+        linksCount: links.length,
+        source: entry.selection.source,
+        score: entry.selection.score,
+      },
+      'URL crawled successfully'
+    );
     
-    // Check robots.txt
-    if (this.config.respectRobotsTxt) {
-      const allowed = await isAllowedByRobots(url, this.config.userAgent);
-      if (!allowed) {
-        logger.info({ url }, 'URL disallowed by robots.txt');
-        return {
-          url: normalizedUrl,
-          statusCode: 0,
-          contentType: '',
-          html: '',
-          jsonLd: [],
-          links: [],
-          depth,
-          error: 'Disallowed by robots.txt',
-        };
+    return {
+      url,
+      statusCode,
+      contentType,
+      html,
+      jsonLd,
+      structuredData,
+      links,
+      depth: entry.depth,
+      bytes,
+      selection: entry.selection,
+      renderMode,
+      language,
+      alternates,
+      languageGroup,
+      ...(document ? { documentType: document.type, text: document.text } : {}),
+    };
+  }
+  
+  /**
+   * Rendering mode recorded for a domain (static unless proven otherwise).
+   * Browser domains are re-checked statically after RENDER_MODE_RECHECK_DAYS.
+   */
+  private async getRenderMode(domain: string): Promise<RenderMode> {
+    const known = this.renderModes.get(domain);
+    if (known) return known;
+    
+    // Replays decide from the recorded markup, like a first crawl
+    if (this.config.replay) return 'static';
+    
+    const record = await prisma.crawlDomain.findUnique({ where: { domain } });
+    const recheckAfter = Date.now() - RENDER_MODE_RECHECK_DAYS * 24 * 60 * 60 * 1000;
+    const mode: RenderMode = record?.renderMode === 'BROWSER' && record.renderCheckedAt.getTime() > recheckAfter
+      ? 'browser'
+      : 'static';
+    
+    this.renderModes.set(domain, mode);
+    return mode;
+  }
+  
+  /**
+   * Record the rendering mode of a domain once per crawl
+   */
+  private async recordRenderMode(domain: string, mode: RenderMode, reason?: string): Promise<void> {
+    if (this.recordedDomains.has(domain)) return;
+    this.recordedDomains.add(domain);
+    this.renderModes.set(domain, mode);
+    
+    if (this.config.replay) return;
+    
+    const data = {
+      renderMode: RENDER_MODE_VALUES[mode],
+      renderReason: reason ?? null,
+      renderCheckedAt: new Date(),
+    };
+    
+    await prisma.crawlDomain.upsert({
+      where: { domain },
+      create: { domain, ...data },
+      update: data,
+    });
+    
+    logger.info({ domain, mode, reason }, 'Rendering mode recorded');
+  }
+  
+  /**
+   * Fetch a page over plain HTTP. Returns null when the page has to be
+   * rendered in the browser instead.
+   */
+  private async crawlStatic(
+    entry: FrontierEntry,
+    poiId: string | undefined,
+    previous: StoredPage | null
+  ): Promise<CrawlResult | null> {
+    const { url } = entry;
+    const domain = extractDomain(url);
+    
+    let response: Response;
+    try {
+      response = await this.fetchPage(url, {
+        headers: {
+          'User-Agent': this.config.userAgent,
+          Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+          // A recording needs the full response, not a 304
+          ...(previous && !this.archive ? conditionalHeaders(previous) : {}),
+        },
+        redirect: 'follow',
+        signal: AbortSignal.timeout(this.config.timeout),
+      });
+    } catch (error) {
+      logger.debug({ url, error: error instanceof Error ? error.message : String(error) }, 'Static fetch failed');
+      return null;
+    }
+    
+    const statusCode = response.status;
+    const contentType = response.headers.get('content-type') || '';
+    
+    if (statusCode === 304 && previous) {
+      return this.reuseUnchanged(entry, previous, {
+        etag: response.headers.get('etag') || previous.etag,
+        lastModified: response.headers.get('last-modified') || previous.lastModified,
+      }, statusCode);
+    }
+    
+    if (statusCode >= 400) {
+      return this.emptyResult(entry, `HTTP ${statusCode}`, statusCode, contentType);
+    }
+    
+    const documentType = detectDocumentType(response.url || url, contentType);
+    if (documentType) {
+      return this.crawlDocument(entry, poiId, response, documentType, previous);
+    }
+    
+    if (contentType && !/html/i.test(contentType)) {
+      return this.emptyResult(entry, `Unsupported content type: ${contentType}`, statusCode, contentType);
+    }
+    
+    const html = await response.text();
+    const validators = await validatorsFromResponse(
+      { etag: response.headers.get('etag'), 'last-modified': response.headers.get('last-modified') },
+      html
+    );
+    
+    if (previous?.html && previous.contentHash && previous.contentHash === validators.contentHash) {
+      return this.reuseUnchanged(entry, previous, validators, statusCode);
+    }
+    
+    const decision = needsBrowserRendering(html, contentType);
+    if (decision.render) {
+      await this.recordRenderMode(domain, 'browser', decision.reason);
+      return null;
+    }
+    
+    await this.recordRenderMode(domain, 'static');
+    
+    return this.storeResult(entry, poiId, {
+      html,
+      statusCode,
+      contentType,
+      links: entry.depth < this.config.maxDepth ? extractLinksFromHtml(html, response.url || url) : [],
+      validators,
+      renderMode: 'static',
+    });
+  }
+  
+  /**
+   * Download a linked PDF/DOCX document and extract its text
+   */
+  private async crawlDocument(
+    entry: FrontierEntry,
+    poiId: string | undefined,
+    response: Response,
+    type: DocumentType,
+    previous: StoredPage | null
+  ): Promise<CrawlResult> {
+    const statusCode = response.status;
+    const contentType = response.headers.get('content-type') || '';
+    const { maxDocumentBytes } = this.config.budget;
+    
+    const declaredBytes = parseInt(response.headers.get('content-length') || '0', 10);
+    if (declaredBytes > maxDocumentBytes) {
+      await response.body?.cancel();
+      return this.emptyResult(entry, `Document too large: ${declaredBytes} bytes`, statusCode, contentType);
+    }
+    
+    // Chunked responses declare no length: stop reading at the limit
+    const body = await readBodyLimited(response, maxDocumentBytes);
+    if (!body) {
+      return this.emptyResult(entry, `Document too large: over ${maxDocumentBytes} bytes`, statusCode, contentType);
+    }
+    const data = Buffer.from(body);
+    
+    let text: string;
+    try {
+      text = await extractDocumentText(data, type, { maxBytes: maxDocumentBytes });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn({ url: entry.url, type, error: errorMessage }, 'Document text extraction failed');
+      return this.emptyResult(entry, `Document text extraction failed: ${errorMessage}`, statusCode, contentType);
+    }
+    
+    const validators = await validatorsFromResponse(
+      { etag: response.headers.get('etag'), 'last-modified': response.headers.get('last-modified') },
+      text
+    );
+    
+    if (previous?.text && previous.contentHash && previous.contentHash === validators.contentHash) {
+      return this.reuseUnchanged(entry, previous, validators, statusCode);
+    }
+    
+    return this.storeResult(entry, poiId, {
+      html: '',
+      statusCode,
+      contentType,
+      links: [],
+      validators,
+      renderMode: 'static',
+      document: { type, text, bytes: data.length },
+    });
+  }
+  
+  /**
+   * Consent banner override of a domain
+   */
+  private async getConsentOverride(domain: string): Promise<ConsentOverride> {
+    const known = this.consentOverrides.get(domain);
+    if (known) return known;
+    
+    const record = await prisma.crawlDomain.findUnique({
+      where: { domain },
+      select: { consentHandler: true, consentSelector: true },
+    });
+    const override: ConsentOverride = { handler: record?.consentHandler, selector: record?.consentSelector };
+    
+    this.consentOverrides.set(domain, override);
+    return override;
+  }
+  
+  /**
+   * Reject the consent banner of a rendered page before its content is read
+   */
+  private async handleConsentBanner(page: Page, url: string): Promise<ConsentResult | null> {
+    const override = await this.getConsentOverride(extractDomain(url));
+    const consent = await dismissConsentBanner(page, await page.content(), override);
+    
+    if (consent) {
+      scraperConsentBanners.labels({ handler: consent.handler, outcome: consent.outcome }).inc();
+      
+      if (consent.outcome === 'blocked') {
+        logger.warn({ url, handler: consent.handler }, 'Consent banner could not be rejected');
+      } else {
+        logger.debug({ url, handler: consent.handler }, 'Consent banner rejected');
       }
     }
     
-    await this.applyRateLimit();
+    return consent;
+  }
+  
+  /**
+   * Render a page in headless Chromium
+   */
+  private async crawlBrowser(
+    entry: FrontierEntry,
+    poiId: string | undefined
+  ): Promise<CrawlResult> {
+    const { url, depth } = entry;
     
     if (!this.browser) {
       await this.init();
@@ -264,8 +767,12 @@ export class WebCrawler {
       userAgent: this.config.userAgent,
     });
     
+    if (this.archive) {
+      await page.route('**/*', this.archive.createRouteHandler(this.archiveMode!));
+    }
+    
     try {
-      logger.debug({ url, depth }, 'Crawling URL');
+      logger.debug({ url, depth, score: entry.selection.score }, 'Rendering URL');
       
       const response = await page.goto(url, {
         waitUntil: 'networkidle',
@@ -276,101 +783,351 @@ export class WebCrawler {
       const contentType = response?.headers()['content-type'] || '';
       
       if (statusCode >= 400) {
-        return {
-          url: normalizedUrl,
-          statusCode,
-          contentType,
-          html: '',
-          jsonLd: [],
-          links: [],
-          depth,
-          error: `HTTP ${statusCode}`,
-        };
+        return this.emptyResult(entry, `HTTP ${statusCode}`, statusCode, contentType);
       }
       
-      const html = await page.content();
-      const jsonLd = await extractJsonLd(page);
-      const links = depth < this.config.maxDepth ? await extractLinks(page, url) : [];
-      
-      // Store scraped content
-      if (poiId) {
-        await prisma.scrapedContent.create({
-          data: {
-            poiId,
-            url: normalizedUrl,
-            html: html.substring(0, 500000), // Limit size
-            jsonLd: jsonLd.length > 0 ? JSON.parse(JSON.stringify({ items: jsonLd })) : undefined,
-            statusCode,
-            contentType,
-            depth,
-          },
-        });
-      }
+      const consent = await this.handleConsentBanner(page, url);
       
-      logger.info(
-        { url, statusCode, jsonLdCount: jsonLd.length, linksCount: links.length },
-        'URL crawled successfully'
-      );
+      const html = await page.content();
+      const validators: PageValidators = response
+        ? await validatorsFromResponse(response.headers(), await response.text().catch(() => ''))
+        : {};
       
-      return {
-        url: normalizedUrl,
+      const result = await this.storeResult(entry, poiId, {
+        html,
         statusCode,
         contentType,
-        html,
-        jsonLd,
-        links,
-        depth,
-      };
+        links: depth < this.config.maxDepth ? await extractLinks(page, url) : [],
+        validators,
+        renderMode: 'browser',
+      });
+      
+      return consent ? { ...result, consent } : result;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error({ url, error: errorMessage }, 'Crawl error');
       
-      return {
-        url: normalizedUrl,
-        statusCode: 0,
-        contentType: '',
-        html: '',
-        jsonLd: [],
-        links: [],
-        depth,
-        error: errorMessage,
-      };
+      return this.emptyResult(entry, errorMessage);
     } finally {
       await page.close();
     }
   }
   
   /**
-   * Deep crawl starting from URL
+   * Crawl a single URL: plain HTTP first, headless Chromium when the
+   * page (or its domain) needs client-side rendering
+   */
+  private async crawlUrl(
+    entry: FrontierEntry,
+    poiId?: string
+  ): Promise<CrawlResult> {
+    const { url } = entry;
+    const normalizedUrl = normalizeUrl(url);
+    
+    if (this.visitedUrls.has(normalizedUrl)) {
+      return this.emptyResult(entry, 'Already visited');
+    }
+    
+    this.visitedUrls.add(normalizedUrl);
+    
+    // Check robots.txt
+    let crawlDelay: number | undefined;
+    
+    // A replay only contains URLs robots.txt allowed when recording
+    if (this.config.respectRobotsTxt && !this.config.replay) {
+      const decision = await isAllowedByRobots(url, this.config.userAgent);
+      crawlDelay = decision.crawlDelay;
+      
+      if (!decision.allowed) {
+        return this.emptyResult(entry, 'Disallowed by robots.txt');
+      }
+    }
+    
+    // Last stored version of the page, for conditional requests
+    const previous: StoredPage | null = poiId && this.config.conditional
+      ? await prisma.scrapedContent.findFirst({
+        where: { poiId, url: normalizedUrl, OR: [{ html: { not: null } }, { text: { not: null } }] },
+        orderBy: { scrapedAt: 'desc' },
+      })
+      : null;
+    
+    // Linked documents are always downloaded, never rendered
+    if (detectDocumentType(url)) {
+      const result = await this.politely(url, crawlDelay, () => this.crawlStatic(entry, poiId, previous));
+      return result ?? this.emptyResult(entry, 'Document download failed');
+    }
+    
+    if (await this.getRenderMode(extractDomain(url)) === 'static') {
+      const result = await this.politely(url, crawlDelay, () => this.crawlStatic(entry, poiId, previous));
+      if (result) return result;
+    } else if (previous?.html && !this.archive) {
+      const check = await this.politely(url, crawlDelay, () => checkFreshness(url, previous, {
+        userAgent: this.config.userAgent,
+        timeout: this.config.timeout,
+      }));
+      
+      if (check.status === 'unchanged') {
+        return this.reuseUnchanged(entry, previous, check.validators, check.statusCode);
+      }
+    }
+    
+    // Escalating to the browser is another request to the host
+    return this.politely(url, crawlDelay, () => this.crawlBrowser(entry, poiId));
+  }
+  
+  /**
+   * Render a page and take a full-page JPEG screenshot
+   */
+  private async takeScreenshot(url: string): Promise<Buffer> {
+    if (!this.browser) {
+      await this.init();
+    }
+    
+    const page = await this.browser!.newPage({
+      userAgent: this.config.userAgent,
+      viewport: { width: 1366, height: 900 },
+    });
+    
+    try {
+      await page.goto(url, { waitUntil: 'networkidle', timeout: this.config.timeout });
+      // The banner would cover the evidence
+      await dismissConsentBanner(page, await page.content(), await this.getConsentOverride(extractDomain(url)));
+      return await page.screenshot({ fullPage: true, type: 'jpeg', quality: SCREENSHOT_LIMITS.quality });
+    } finally {
+      await page.close();
+    }
+  }
+  
+  /**
+   * Capture screenshots of crawled pages and link them from their stored
+   * version. Pages whose stored version already has one are not captured
+   * again. Returns the blob key per URL.
+   */
+  async captureScreenshots(poiId: string, urls: string[]): Promise<Record<string, string>> {
+    const screenshots: Record<string, string> = {};
+    
+    if (!this.config.screenshots) return screenshots;
+    
+    for (const url of urls) {
+      const stored = await prisma.scrapedContent.findFirst({
+        where: { poiId, url: normalizeUrl(url), html: { not: null } },
+        orderBy: { scrapedAt: 'desc' },
+        select: { id: true, screenshotKey: true },
+      });
+      
+      if (!stored) continue;
+      
+      if (stored.screenshotKey) {
+        screenshots[url] = stored.screenshotKey;
+        continue;
+      }
+      
+      try {
+        const crawlDelay = this.config.respectRobotsTxt
+          ? (await isAllowedByRobots(url, this.config.userAgent)).crawlDelay
+          : undefined;
+        const image = await this.politely(url, crawlDelay, () => this.takeScreenshot(url));
+        const key = await screenshotKey(poiId, url);
+        
+        await getBlobStore().put(key, image, 'image/jpeg');
+        await prisma.scrapedContent.update({
+          where: { id: stored.id },
+          data: { screenshotKey: key, screenshotAt: new Date() },
+        });
+        
+        screenshots[url] = key;
+        logger.info({ url, key, bytes: image.length }, 'Screenshot captured');
+      } catch (error) {
+        logger.warn({ url, error: error instanceof Error ? error.message : String(error) }, 'Screenshot failed');
+      }
+    }
+    
+    return screenshots;
+  }
+  
+  /**
+   * Seed the frontier with the start URL and sitemap entries
+   */
+  private async seedFrontier(frontier: CrawlFrontier, startUrl: string): Promise<void> {
+    frontier.push({
+      url: startUrl,
+      depth: 0,
+      selection: { source: 'start', ...scoreUrl(startUrl, { source: 'start', depth: 0 }) },
+    });
+    
+    if (!this.config.useSitemaps) return;
+    
+    const startDomain = extractDomain(startUrl);
+    const entries = await fetchSitemapEntries(startUrl, this.getSitemapUrls(), {
+      userAgent: this.config.userAgent,
+      fetch: this.fetchPage,
+      // Sitemap documents share the host limits and Crawl-delay with pages
+      politely: async (url, fn) => {
+        const crawlDelay = this.config.respectRobotsTxt && !this.config.replay
+          ? (await isAllowedByRobots(url, this.config.userAgent)).crawlDelay
+          : undefined;
+        return this.politely(url, crawlDelay, fn);
+      },
+    });
+    
+    for (const sitemapEntry of entries) {
+      try {
+        if (extractDomain(new URL(sitemapEntry.url).href) !== startDomain) continue;
+      } catch {
+        continue;
+      }
+      
+      const policy = this.urlLanguagePolicy(sitemapEntry.url);
+      frontier.push({
+        url: sitemapEntry.url,
+        depth: 1,
+        selection: {
+          source: 'sitemap',
+          ...scoreUrl(sitemapEntry.url, {
+            source: 'sitemap',
+            depth: 1,
+            sitemapPriority: sitemapEntry.priority,
+            alternateLanguage: policy === 'secondary' || policy === 'skip',
+          }),
+        },
+      });
+    }
+  }
+  
+  /**
+   * Check the crawl budget, returning the exhausted limit if any
+   */
+  private checkBudget(
+    pagesCrawled: number,
+    bytes: number,
+    startTime: number
+  ): CrawlStats['stopReason'] | null {
+    const { maxPages, maxBytes, maxDurationMs } = this.config.budget;
+    
+    if (pagesCrawled >= maxPages) return 'max_pages';
+    if (bytes >= maxBytes) return 'max_bytes';
+    if (Date.now() - startTime >= maxDurationMs) return 'max_duration';
+    
+    return null;
+  }
+  
+  /**
+   * Deep crawl starting from URL, most promising pages first
    */
   async crawl(
     startUrl: string,
     poiId?: string
   ): Promise<CrawlResult[]> {
+    const startTime = Date.now();
     this.visitedUrls.clear();
+    this.sitemapUrls.clear();
+    this.recordedDomains.clear();
+    this.alternateLanguages.clear();
+    this.siteLanguages.clear();
+    
+    // Record into a new archive, or serve every response from the replayed one
+    this.archive = this.config.replay ?? (this.config.recordArchive ? new CrawlArchive() : null);
+    this.fetchPage = this.archive ? this.archive.createFetch(this.archiveMode!) : fetch;
+    
+    if (this.config.replay) {
+      this.config.replay.sitemaps.forEach((sitemap) => this.sitemapUrls.add(sitemap));
+    } else if (this.config.respectRobotsTxt) {
+      await this.loadRobots(startUrl);
+      if (this.archive) this.archive.sitemaps = Array.from(this.sitemapUrls);
+    }
+    
     const results: CrawlResult[] = [];
-    const queue: Array<{ url: string; depth: number }> = [{ url: startUrl, depth: 0 }];
+    const frontier = new CrawlFrontier();
+    await this.seedFrontier(frontier, startUrl);
+    
+    let pagesCrawled = 0;
+    let pagesUnchanged = 0;
+    let pagesRendered = 0;
+    let documentsCrawled = 0;
+    let languageSkipped = 0;
+    let consentBlocked = 0;
+    let bytes = 0;
+    let stopReason: CrawlStats['stopReason'] = 'frontier_empty';
     
-    while (queue.length > 0) {
-      const { url, depth } = queue.shift()!;
+    while (frontier.size > 0) {
+      const exhausted = this.checkBudget(pagesCrawled, bytes, startTime);
+      if (exhausted) {
+        stopReason = exhausted;
+        break;
+      }
+      
+      const entry = frontier.pop()!;
+      
+      if (entry.depth > this.config.maxDepth) continue;
       
-      if (depth > this.config.maxDepth) continue;
+      // Language versions outside SCRAPER_LANGUAGES do not use up the budget
+      if (entry.selection.source !== 'start' && this.urlLanguagePolicy(entry.url) === 'skip') {
+        languageSkipped++;
+        continue;
+      }
       
-      const result = await this.crawlUrl(url, depth, poiId);
+      const result = await this.crawlUrl(entry, poiId);
       results.push(result);
+      this.recordLanguages(result);
+      
+      if (result.statusCode > 0) pagesCrawled++;
+      if (result.unchanged) pagesUnchanged++;
+      if (result.renderMode === 'browser' && !result.unchanged) pagesRendered++;
+      if (result.documentType && !result.unchanged) documentsCrawled++;
+      if (result.consent?.outcome === 'blocked') consentBlocked++;
+      bytes += result.bytes;
       
-      // Add discovered links to queue
-      if (!result.error && depth < this.config.maxDepth) {
-        for (const link of result.links) {
-          if (!this.visitedUrls.has(normalizeUrl(link))) {
-            queue.push({ url: link, depth: depth + 1 });
-          }
+      // Add discovered links to the frontier
+      if (!result.error && entry.depth < this.config.maxDepth) {
+        const parentHasJsonLd = result.jsonLd.length > 0;
+        
+        // hreflang versions in our languages are followed even when not linked
+        const pageDomain = extractDomain(result.url);
+        const alternateLinks = (result.alternates ?? [])
+          .filter((alternate) => extractDomain(alternate.url) === pageDomain)
+          .filter((alternate) => languagePolicy(alternate.url, alternate.language) === 'secondary')
+          .map((alternate) => ({ url: alternate.url, text: '' }));
+        
+        for (const link of [...result.links, ...alternateLinks]) {
+          if (this.visitedUrls.has(link.url) || frontier.has(link.url)) continue;
+          
+          const depth = entry.depth + 1;
+          const policy = this.urlLanguagePolicy(link.url);
+          frontier.push({
+            url: link.url,
+            depth,
+            selection: {
+              source: 'link',
+              parentUrl: result.url,
+              anchorText: link.text || undefined,
+              ...scoreUrl(link.url, {
+                source: 'link',
+                depth,
+                anchorText: link.text,
+                parentHasJsonLd,
+                alternateLanguage: policy === 'secondary' || policy === 'skip',
+              }),
+            },
+          });
         }
       }
     }
     
+    this.stats = {
+      pagesCrawled,
+      pagesUnchanged,
+      pagesRendered,
+      documentsCrawled,
+      languageSkipped,
+      consentBlocked,
+      bytes,
+      durationMs: Date.now() - startTime,
+      frontierRemaining: frontier.size,
+      stopReason,
+    };
+    
     logger.info(
-      { startUrl, totalPages: results.length, maxDepth: this.config.maxDepth },
+      { startUrl, totalPages: results.length, maxDepth: this.config.maxDepth, ...this.stats },
       'Deep crawl completed'
     );
     
@@ -389,12 +1146,19 @@ export class WebCrawler {
     
     return allJsonLd;
   }
+  
+  /**
+   * Get structured data (all syntaxes) from all crawled pages
+   */
+  static aggregateStructuredData(results: CrawlResult[]): SchemaNode[] {
+    return results.flatMap((result) => result.structuredData);
+  }
 }
 
 /**
  * Create a new crawler instance
  */
-export function createCrawler(config?: Partial<CrawlerConfig>): WebCrawler {
+export function createCrawler(config?: CrawlerOptions): WebCrawler {
   return new WebCrawler(config);
 }
 
@@ -1,6 +1,8 @@
 import { Prisma } from '@prisma/client';
 import { prisma } from './db';
 import { logger } from './logger';
+import { screenshotsByField, type FieldScreenshot } from './screenshots';
+import { normalizeUrl } from './utils';
 
 /**
  * Database utilities for optimized queries
@@ -246,6 +248,35 @@ export async function getPoiWithDetails(id: string) {
   });
 }
 
+/**
+ * Screenshots of the pages a POI's website values were found on, by field.
+ * Pages captured in an earlier crawl fall back to their stored screenshot.
+ */
+export async function getPoiScreenshots(poiId: string): Promise<Record<string, FieldScreenshot>> {
+  const poi = await prisma.pOI.findUnique({
+    where: { id: poiId },
+    select: { websiteData: true },
+  });
+  const websiteData = (poi?.websiteData as Record<string, unknown> | null) ?? {};
+  const fieldPages = (websiteData.fieldPages as Record<string, string> | undefined) ?? {};
+  const screenshots = (websiteData.screenshots as Record<string, string> | undefined) ?? {};
+
+  const stored = await prisma.scrapedContent.findMany({
+    where: {
+      poiId,
+      url: { in: Object.values(fieldPages).map(normalizeUrl).filter((url) => !screenshots[url]) },
+      screenshotKey: { not: null },
+    },
+    orderBy: { scrapedAt: 'asc' }, // Newest last, so it wins below
+    select: { url: true, screenshotKey: true },
+  });
+
+  return screenshotsByField(fieldPages, {
+    ...Object.fromEntries(stored.map((page) => [page.url, page.screenshotKey as string])),
+    ...screenshots,
+  });
+}
+
 /**
  * Aggregate statistics efficiently
  */
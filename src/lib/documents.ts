@@ -0,0 +1,177 @@
+import { inflateRawSync } from 'zlib';
+import { decodeHtmlEntities } from './html';
+
+/**
+ * Text extraction from linked documents (PDF, DOCX)
+ * Restaurants and museums often publish opening hours, price lists and
+ * menus only as documents.
+ */
+
+export type DocumentType = 'pdf' | 'docx';
+
+const DOCUMENT_CONTENT_TYPES: Record<string, DocumentType> = {
+  'application/pdf': 'pdf',
+  'application/x-pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+};
+
+const DOCUMENT_EXTENSIONS = /\.(pdf|docx)(?:[?#]|$)/i;
+
+/**
+ * Document type of a URL, from the content type or the file extension
+ */
+export function detectDocumentType(url: string, contentType?: string | null): DocumentType | null {
+  const mimeType = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (DOCUMENT_CONTENT_TYPES[mimeType]) return DOCUMENT_CONTENT_TYPES[mimeType];
+
+  // Servers often send documents as application/octet-stream
+  if (mimeType && mimeType !== 'application/octet-stream' && mimeType !== 'binary/octet-stream') return null;
+
+  let path = url;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    // Keep raw URL
+  }
+
+  const match = path.match(DOCUMENT_EXTENSIONS);
+  return match ? (match[1].toLowerCase() as DocumentType) : null;
+}
+
+/**
+ * Collapse the whitespace of extracted text, keeping paragraphs
+ */
+export function cleanDocumentText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v ]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Extract the text of a PDF, one block per page
+ */
+export async function extractPdfText(data: Uint8Array): Promise<string> {
+  const { getDocumentProxy, extractText } = await import('unpdf');
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+
+  try {
+    const { text } = await extractText(pdf, { mergePages: false });
+    return cleanDocumentText(text.join('\n\n'));
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Largest unpacked ZIP entry when the caller sets no limit
+ */
+const DEFAULT_MAX_ENTRY_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Read one file from a ZIP archive (DOCX is a ZIP of XML parts).
+ * Entries that unpack to more than maxBytes throw, so a small crafted
+ * archive cannot exhaust memory.
+ */
+export function readZipEntry(archive: Buffer, name: string, maxBytes = DEFAULT_MAX_ENTRY_BYTES): Buffer | null {
+  // End of central directory record, searched from the end (comment is max. 64 KB)
+  let eocd = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return null;
+
+  const entries = archive.readUInt16LE(eocd + 10);
+  let offset = archive.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entries && offset + 46 <= archive.length; i++) {
+    if (archive.readUInt32LE(offset) !== 0x02014b50) return null;
+
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const entryName = archive.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    if (entryName === name) {
+      const dataStart = localOffset + 30
+        + archive.readUInt16LE(localOffset + 26)
+        + archive.readUInt16LE(localOffset + 28);
+      const compressed = archive.subarray(dataStart, dataStart + compressedSize);
+
+      const tooLarge = new Error(`ZIP entry ${name} is larger than ${maxBytes} bytes`);
+      if (method === 0) {
+        if (compressed.length > maxBytes) throw tooLarge;
+        return Buffer.from(compressed);
+      }
+      if (method === 8) {
+        try {
+          return inflateRawSync(compressed, { maxOutputLength: maxBytes });
+        } catch (error) {
+          if (error instanceof RangeError) throw tooLarge;
+          throw error;
+        }
+      }
+      return null;
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+}
+
+/**
+ * Extract the text of a DOCX document (paragraphs, tabs, line breaks)
+ */
+export function extractDocxText(data: Buffer, maxBytes?: number): string {
+  const xml = readZipEntry(data, 'word/document.xml', maxBytes);
+  if (!xml) throw new Error('Not a DOCX document');
+
+  const text = xml
+    .toString('utf-8')
+    .replace(/[\r\n]+/g, '') // Line breaks in the XML are formatting only
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:(?:br|cr)\/>/g, '\n')
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<\/w:tc>/g, '\t')
+    .replace(/<[^>]+>/g, '');
+
+  return cleanDocumentText(decodeHtmlEntities(text));
+}
+
+const MENU_PATTERN = /speisekarte|getr(?:ä|ae)nkekarte|mittagskarte|\bmen(?:u|ü|ue)(?![a-z])/i;
+
+/**
+ * First crawled document that is a menu, by link/path or by its opening text
+ */
+export function findMenuDocument(
+  results: Array<{ url: string; documentType?: DocumentType; text?: string; error?: string; selection?: { reasons: string[] } }>
+): string | null {
+  const documents = results.filter((result) => result.documentType && !result.error);
+
+  const linked = documents.find((result) =>
+    result.selection?.reasons.some((reason) => reason === 'path:menu' || reason === 'anchor:menu')
+  );
+  if (linked) return linked.url;
+
+  return documents.find((result) => MENU_PATTERN.test((result.text || '').slice(0, 500)))?.url ?? null;
+}
+
+/**
+ * Extract the text of a document
+ */
+export async function extractDocumentText(
+  data: Buffer,
+  type: DocumentType,
+  options: { maxBytes?: number } = {}
+): Promise<string> {
+  return type === 'pdf' ? extractPdfText(data) : extractDocxText(data, options.maxBytes);
+}
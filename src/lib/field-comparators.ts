@@ -0,0 +1,496 @@
+import { distanceMeters, normalizeText } from './place-matching';
+import { compareOpeningHoursSources, type OpeningHoursSourceComparison } from './opening-hours';
+
+/**
+ * Deterministic field comparators
+ * Per DataType, values of all sources are normalized and compared by
+ * rules. Clear cases are decided here; only fields the rules cannot
+ * settle (unparseable or ambiguous values, free text) go to the LLM.
+ */
+
+export const AUDIT_SOURCES = ['tldb', 'website', 'maps'] as const;
+
+export type AuditSource = (typeof AUDIT_SOURCES)[number];
+
+export const SOURCE_LABELS: Record<AuditSource, string> = { tldb: 'TLDB', website: 'Website', maps: 'Maps' };
+
+export type MatchVerdict = 'match' | 'partial_match' | 'mismatch';
+
+/**
+ * Comparison of one field, same shape as the LLM's field comparisons.
+ * Scores are computed from it by the audit scoring.
+ */
+export interface FieldVerdict {
+  fieldName: string;
+  tldbValue: string | null;
+  websiteValue: string | null;
+  mapsValue: string | null;
+  normalizedTldb: string | null;
+  normalizedWebsite: string | null;
+  normalizedMaps: string | null;
+  matchStatus: MatchVerdict | 'missing_data';
+  confidence: number;
+  discrepancy: string | null;
+}
+
+export interface ComparatorContext {
+  country?: string | null; // ISO code of the POI, for national phone numbers
+}
+
+export interface FieldComparator {
+  /** Normalized value, or null when the value cannot be parsed */
+  normalize(value: unknown, context: ComparatorContext): string | null;
+  /** Verdict on two normalized values, or undefined when the rules cannot tell */
+  compare(a: string, b: string): MatchVerdict | undefined;
+}
+
+/**
+ * Country calling codes for national phone numbers
+ */
+const CALLING_CODES: Record<string, string> = {
+  DE: '49', AT: '43', CH: '41', NL: '31', BE: '32', LU: '352', FR: '33', IT: '39', DK: '45', PL: '48', CZ: '420',
+};
+
+const phoneComparator: FieldComparator = {
+  normalize(value, context) {
+    if (typeof value !== 'string' && typeof value !== 'number') return null;
+    const text = String(value).trim().replace(/^(?:tel(?:efon)?\.?|phone|fon)[:\s]*/i, '').replace(/\(0\)/g, '');
+    if (/[a-z,;]/i.test(text)) return null; // Extensions, several numbers
+    // A slash separates the area code ("04503/1234"), unless a second full number follows
+    const parts = text.split('/');
+    if (parts.length > 2 || (parts.length === 2 && /^\s*[0+]/.test(parts[1]))) return null;
+
+    const digits = text.replace(/\D/g, '');
+    let e164: string;
+    if (text.startsWith('+')) e164 = digits;
+    else if (digits.startsWith('00')) e164 = digits.slice(2);
+    else if (digits.startsWith('0') && CALLING_CODES[(context.country || 'DE').toUpperCase()]) {
+      e164 = CALLING_CODES[(context.country || 'DE').toUpperCase()] + digits.slice(1);
+    } else return null;
+
+    return e164.length >= 8 && e164.length <= 15 ? `+${e164}` : null;
+  },
+  compare: (a, b) => (a === b ? 'match' : 'mismatch'),
+};
+
+const emailComparator: FieldComparator = {
+  normalize(value) {
+    if (typeof value !== 'string') return null;
+    const email = value.trim().replace(/^mailto:/i, '').toLowerCase();
+    return /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/.test(email) ? email : null;
+  },
+  compare: (a, b) => (a === b ? 'match' : 'mismatch'),
+};
+
+const TRACKING_PARAMS = /^(?:utm_\w+|fbclid|gclid|msclkid|mc_cid|mc_eid)$/i;
+
+const urlComparator: FieldComparator = {
+  normalize(value) {
+    if (typeof value !== 'string' || /\s/.test(value.trim())) return null;
+    try {
+      const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value.trim()) ? value.trim() : `https://${value.trim()}`);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+      const params = Array.from(url.searchParams.entries())
+        .filter(([key]) => !TRACKING_PARAMS.test(key))
+        .sort(([a], [b]) => a.localeCompare(b));
+      const search = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+      const path = url.pathname.replace(/\/+$/, '').replace(/\/index\.(?:html?|php)$/i, '');
+
+      return `${url.hostname.toLowerCase().replace(/^www\./, '')}${url.port ? `:${url.port}` : ''}${path}${search}`;
+    } catch {
+      return null;
+    }
+  },
+  compare(a, b) {
+    if (a === b) return 'match';
+    return a.split(/[/?]/)[0] === b.split(/[/?]/)[0] ? 'partial_match' : 'mismatch';
+  },
+};
+
+const ADDRESS_NOISE = new Set(['deutschland', 'germany', 'de', 'oesterreich', 'austria', 'schweiz', 'switzerland']);
+
+/**
+ * Street name endings that are also written as a separate word ("Haupt Straße")
+ */
+const STREET_SUFFIXES = new Set(['str', 'weg', 'platz', 'allee', 'gasse', 'ring', 'promenade', 'damm', 'ufer']);
+
+function addressTokens(value: string): string[] {
+  return value.split(' ').filter(Boolean);
+}
+
+/**
+ * Write compound street names as one word: "Haupt-Straße" and
+ * "Haupt Straße" become "hauptstr" like "Hauptstraße"
+ */
+function joinStreetCompounds(tokens: string[]): string[] {
+  const joined: string[] = [];
+  for (const token of tokens) {
+    const previous = joined[joined.length - 1];
+    if (STREET_SUFFIXES.has(token) && previous && /^[a-z]+$/.test(previous)) {
+      joined[joined.length - 1] = previous + token;
+    } else {
+      joined.push(token);
+    }
+  }
+  return joined;
+}
+
+const addressComparator: FieldComparator = {
+  normalize(value) {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      // schema.org PostalAddress
+      const address = value as Record<string, unknown>;
+      value = [address.streetAddress, address.postalCode, address.addressLocality].filter(Boolean).join(' ');
+    }
+    if (typeof value !== 'string') return null;
+
+    const words = normalizeText(value.replace(/(\p{L})\s*-\s*(\p{L})/gu, '$1$2'));
+    const tokens = joinStreetCompounds(addressTokens(words)).filter((token) => !ADDRESS_NOISE.has(token));
+    return tokens.length > 0 ? tokens.join(' ') : null;
+  },
+  compare(a, b) {
+    if (a === b) return 'match';
+
+    const left = new Set(addressTokens(a));
+    const right = new Set(addressTokens(b));
+    const subset = (x: Set<string>, y: Set<string>) => Array.from(x).every((token) => y.has(token));
+
+    // House numbers and postcodes must agree
+    const leftNumbers = new Set(Array.from(left).filter((token) => /^\d/.test(token)));
+    const rightNumbers = new Set(Array.from(right).filter((token) => /^\d/.test(token)));
+    if (leftNumbers.size > 0 && rightNumbers.size > 0 && !subset(leftNumbers, rightNumbers) && !subset(rightNumbers, leftNumbers)) {
+      return 'mismatch';
+    }
+
+    if (subset(left, right) && subset(right, left)) return 'match'; // Same tokens, other order
+    if (subset(left, right) || subset(right, left)) return 'partial_match';
+
+    // Different street names may still be spelling variants: left to the LLM
+    return undefined;
+  },
+};
+
+/**
+ * Distances (m) up to which coordinates match or roughly match
+ */
+export const COORDINATE_THRESHOLDS = { match: 50, partial: 250 };
+
+function parseCoordinates(value: unknown): { lat: number; lng: number } | null {
+  let lat: unknown;
+  let lng: unknown;
+
+  if (typeof value === 'string') {
+    [lat, lng] = value.split(/[,;\s]+/).filter(Boolean);
+  } else if (Array.isArray(value)) {
+    [lat, lng] = value;
+  } else if (value && typeof value === 'object') {
+    const point = value as Record<string, unknown>;
+    lat = point.lat ?? point.latitude;
+    lng = point.lng ?? point.lon ?? point.longitude;
+  }
+
+  const latitude = Number(lat);
+  const longitude = Number(lng);
+  if (lat === undefined || lng === undefined || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { lat: latitude, lng: longitude };
+}
+
+const coordinatesComparator: FieldComparator = {
+  normalize(value) {
+    const point = parseCoordinates(value);
+    return point ? `${point.lat.toFixed(6)},${point.lng.toFixed(6)}` : null;
+  },
+  compare(a, b) {
+    const distance = distanceMeters(parseCoordinates(a)!, parseCoordinates(b)!);
+    if (distance <= COORDINATE_THRESHOLDS.match) return 'match';
+    return distance <= COORDINATE_THRESHOLDS.partial ? 'partial_match' : 'mismatch';
+  },
+};
+
+const PRICE_LEVELS: Record<string, number> = {
+  free: 0,
+  inexpensive: 1,
+  moderate: 2,
+  expensive: 3,
+  very_expensive: 4,
+  guenstig: 1,
+  mittel: 2,
+  gehoben: 3,
+};
+
+const priceRangeComparator: FieldComparator = {
+  normalize(value) {
+    let level: number | undefined;
+
+    if (typeof value === 'number') {
+      level = Number.isInteger(value) && value >= 0 && value <= 4 ? value : undefined; // Google price level
+    } else if (typeof value === 'string') {
+      const text = value.trim();
+      if (/^[€$£]{1,4}$/.test(text)) level = text.length;
+      else if (/^[0-4]$/.test(text)) level = Number(text);
+      else level = PRICE_LEVELS[normalizeText(text.replace(/^PRICE_LEVEL_/i, '')).replace(/ /g, '_')];
+    }
+
+    if (level === undefined) return null;
+    return level === 0 ? 'free' : '€'.repeat(level);
+  },
+  compare(a, b) {
+    const level = (value: string) => (value === 'free' ? 0 : value.length);
+    const difference = Math.abs(level(a) - level(b));
+    return difference === 0 ? 'match' : difference === 1 ? 'partial_match' : 'mismatch';
+  },
+};
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true, yes: true, ja: true, y: true, j: true, '1': true,
+  false: false, no: false, nein: false, n: false, '0': false,
+};
+
+const booleanComparator: FieldComparator = {
+  normalize(value) {
+    if (typeof value === 'boolean') return String(value);
+    if (typeof value !== 'string' && typeof value !== 'number') return null;
+    const parsed = BOOLEAN_VALUES[String(value).trim().toLowerCase()];
+    return parsed === undefined ? null : String(parsed);
+  },
+  compare: (a, b) => (a === b ? 'match' : 'mismatch'),
+};
+
+/**
+ * Comparators by DataType; other types (free text, JSON) go to the LLM
+ */
+export const FIELD_COMPARATORS: Record<string, FieldComparator> = {
+  PHONE: phoneComparator,
+  EMAIL: emailComparator,
+  URL: urlComparator,
+  ADDRESS: addressComparator,
+  COORDINATES: coordinatesComparator,
+  PRICE_RANGE: priceRangeComparator,
+  BOOLEAN: booleanComparator,
+};
+
+/**
+ * Keys other than the DataField name under which sources store a value
+ * (TLDB columns, normalized map data)
+ */
+const FIELD_ALIASES: Record<string, string[]> = {
+  telephone: ['phone'],
+  url: ['website'],
+  priceRange: ['priceLevel'],
+  streetAddress: ['street'],
+  addressLocality: ['city'],
+  addressRegion: ['region'],
+  addressCountry: ['country'],
+};
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Value of a field in one source's data
+ */
+export function sourceValue(data: Record<string, unknown>, fieldName: string): unknown {
+  for (const key of [fieldName, ...(FIELD_ALIASES[fieldName] ?? [])]) {
+    if (!isEmpty(data[key])) return data[key];
+  }
+  return undefined;
+}
+
+/**
+ * Source data without the given fields, so the LLM does not see values
+ * that were already compared
+ */
+export function omitFields(data: Record<string, unknown>, fieldNames: string[]): Record<string, unknown> {
+  const keys = new Set(fieldNames.flatMap((name) => [name, ...(FIELD_ALIASES[name] ?? [])]));
+  return Object.fromEntries(Object.entries(data).filter(([key]) => !keys.has(key)));
+}
+
+function display(value: unknown): string | null {
+  if (isEmpty(value)) return null;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function verdictBase(fieldName: string, values: Partial<Record<AuditSource, unknown>>) {
+  return {
+    fieldName,
+    tldbValue: display(values.tldb),
+    websiteValue: display(values.website),
+    mapsValue: display(values.maps),
+  };
+}
+
+/**
+ * Settle a field by the rules of its DataType. Returns null when the LLM
+ * has to decide: no comparator, a value that cannot be parsed, or a pair
+ * the rules cannot tell apart.
+ */
+export function compareField(
+  field: { name: string; dataType: string },
+  values: Partial<Record<AuditSource, unknown>>,
+  context: ComparatorContext = {}
+): FieldVerdict | null {
+  const comparator = FIELD_COMPARATORS[field.dataType];
+  if (!comparator) return null;
+
+  const normalized: Partial<Record<AuditSource, string>> = {};
+  for (const source of AUDIT_SOURCES) {
+    if (isEmpty(values[source])) continue;
+    const value = comparator.normalize(values[source], context);
+    if (value === null) return null;
+    normalized[source] = value;
+  }
+
+  const present = AUDIT_SOURCES.filter((source) => normalized[source] !== undefined);
+  const base = {
+    ...verdictBase(field.name, values),
+    normalizedTldb: normalized.tldb ?? null,
+    normalizedWebsite: normalized.website ?? null,
+    normalizedMaps: normalized.maps ?? null,
+    confidence: 1,
+  };
+
+  if (present.length < 2) {
+    return {
+      ...base,
+      matchStatus: 'missing_data',
+      discrepancy: present.length === 0 ? null : `Only ${SOURCE_LABELS[present[0]]} has a value`,
+    };
+  }
+
+  const pairs: Array<{ sources: [AuditSource, AuditSource]; verdict: MatchVerdict }> = [];
+  for (let i = 0; i < present.length; i++) {
+    for (let j = i + 1; j < present.length; j++) {
+      const verdict = comparator.compare(normalized[present[i]]!, normalized[present[j]]!);
+      if (verdict === undefined) return null;
+      pairs.push({ sources: [present[i], present[j]], verdict });
+    }
+  }
+
+  const differing = pairs.filter((pair) => pair.verdict !== 'match');
+  const discrepancy = differing.length === 0 ? null : differing
+    .map(({ sources: [a, b], verdict }) => `${SOURCE_LABELS[a]} vs ${SOURCE_LABELS[b]}: ${verdict === 'mismatch' ? 'different' : 'similar'} (${normalized[a]} / ${normalized[b]})`)
+    .join('; ');
+
+  if (differing.length === 0 && normalized.tldb === undefined) {
+    return { ...base, matchStatus: 'missing_data', discrepancy: 'Missing in TLDB' };
+  }
+
+  return {
+    ...base,
+    matchStatus: differing.length === 0 ? 'match' : pairs.some((pair) => pair.verdict === 'mismatch') ? 'mismatch' : 'partial_match',
+    discrepancy,
+  };
+}
+
+/**
+ * Differences of two opening hours sources as one line
+ */
+export function describeOpeningHoursDifferences(comparison: OpeningHoursSourceComparison['comparisons'][number]): string {
+  const [a, b] = comparison.sources.map((source) => SOURCE_LABELS[source as AuditSource]);
+  if (comparison.differences.length === 0) return `${a} vs ${b}: identical`;
+  return `${a} vs ${b}: ${comparison.differences.map((d) => `${d.scope} ${d.a} / ${d.b}`).join(', ')}`;
+}
+
+/**
+ * Differing days up to which opening hours count as a partial match
+ */
+const OPENING_HOURS_PARTIAL_DIFFERENCES = 2;
+
+/**
+ * Verdict of the day-by-day opening hours comparison, or null when fewer
+ * than two sources could be parsed
+ */
+export function openingHoursVerdict(
+  fieldName: string,
+  values: Partial<Record<AuditSource, unknown>>,
+  { osm, comparisons }: OpeningHoursSourceComparison
+): FieldVerdict | null {
+  if (comparisons.length === 0) return null;
+
+  const differences = comparisons.reduce((sum, comparison) => sum + comparison.differences.length, 0);
+
+  return {
+    ...verdictBase(fieldName, values),
+    normalizedTldb: osm.tldb ?? null,
+    normalizedWebsite: osm.website ?? null,
+    normalizedMaps: osm.maps ?? null,
+    matchStatus: differences === 0 ? 'match' : differences <= OPENING_HOURS_PARTIAL_DIFFERENCES ? 'partial_match' : 'mismatch',
+    confidence: 1,
+    discrepancy: differences === 0
+      ? null
+      : comparisons.filter((comparison) => comparison.differences.length > 0).map(describeOpeningHoursDifferences).join('; '),
+  };
+}
+
+/**
+ * Value of a field in one source's data. Coordinates fall back to
+ * separate latitude/longitude keys.
+ */
+export function fieldValue(field: { name: string; dataType: string }, data: Record<string, unknown>): unknown {
+  const value = sourceValue(data, field.name);
+  if (value === undefined && field.dataType === 'COORDINATES' && !isEmpty(data.latitude) && !isEmpty(data.longitude)) {
+    return { lat: data.latitude, lng: data.longitude };
+  }
+  return value;
+}
+
+/**
+ * Values of a field in all sources
+ */
+export function fieldSourceValues(
+  field: { name: string; dataType: string },
+  sources: Record<AuditSource, Record<string, unknown>>
+): Record<AuditSource, unknown> {
+  return Object.fromEntries(
+    AUDIT_SOURCES.map((source) => [source, fieldValue(field, sources[source])])
+  ) as Record<AuditSource, unknown>;
+}
+
+/**
+ * Verdicts of the fields the rules can settle. Localized fields and fields
+ * without a verdict are left to the LLM.
+ */
+export function settleFieldsByRules(
+  fields: Array<{ name: string; dataType: string; isLocalized?: boolean }>,
+  sources: Record<AuditSource, Record<string, unknown>>,
+  context: ComparatorContext = {}
+): FieldVerdict[] {
+  const verdicts: FieldVerdict[] = [];
+
+  for (const field of fields) {
+    if (field.isLocalized) continue;
+    const values = fieldSourceValues(field, sources);
+    const verdict = field.dataType === 'OPENING_HOURS'
+      ? openingHoursVerdict(field.name, values, compareOpeningHoursSources({
+          ...values,
+          maps: sources.maps[`${field.name}Periods`] ?? values.maps,
+        }))
+      : compareField(field, values, context);
+    if (verdict) verdicts.push(verdict);
+  }
+
+  return verdicts;
+}
+
+/**
+ * Summary and recommendations of the fields settled by rules
+ */
+export function summarizeVerdicts(verdicts: FieldVerdict[]): { summary: string; recommendations: string[] } {
+  const compared = verdicts.filter((verdict) => verdict.matchStatus !== 'missing_data');
+  const differing = verdicts.filter((verdict) => verdict.matchStatus === 'mismatch' || verdict.matchStatus === 'partial_match');
+  const missing = verdicts.filter((verdict) => verdict.matchStatus === 'missing_data' && verdict.discrepancy);
+
+  const parts = [
+    `${compared.length - differing.length} of ${compared.length} rule-compared fields match.`,
+    differing.length > 0 ? `Differences in: ${differing.map((verdict) => verdict.fieldName).join(', ')}.` : '',
+    missing.length > 0 ? `Incomplete: ${missing.map((verdict) => verdict.fieldName).join(', ')}.` : '',
+  ];
+
+  return {
+    summary: parts.filter(Boolean).join(' '),
+    recommendations: [...differing, ...missing].map((verdict) => `Check ${verdict.fieldName}: ${verdict.discrepancy}`),
+  };
+}
@@ -0,0 +1,290 @@
+import { z } from 'zod';
+import { htmlToText } from './html';
+import { detectContactPageType } from './contact-extractor';
+
+/**
+ * LLM field extraction: page selection, prompts and evidence checks
+ * (no I/O, see field-extractor.ts for the runner)
+ */
+
+/**
+ * Data field as configured in DataField
+ */
+export interface ExtractionField {
+  name: string;
+  displayName: Record<string, string>;
+  description?: Record<string, string> | null;
+  dataType: string;
+  extractionPrompt?: string | null;
+  category?: string | null;
+}
+
+/**
+ * Cleaned page text sent to the LLM
+ */
+export interface ExtractionPage {
+  url: string;
+  text: string;
+}
+
+/**
+ * Where an extracted value was found
+ */
+export interface FieldEvidence {
+  url: string;
+  snippet: string;
+  verified: boolean; // Snippet was found verbatim in the page text
+}
+
+/**
+ * Value extracted by the LLM
+ */
+export interface ExtractedFieldValue {
+  value: string;
+  dataType: string;
+  confidence: number;
+  evidence: FieldEvidence;
+}
+
+export const EXTRACTION_LIMITS = {
+  maxPages: parseInt(process.env.LLM_EXTRACTION_MAX_PAGES || '6', 10),
+  maxCharsPerPage: parseInt(process.env.LLM_EXTRACTION_MAX_CHARS_PER_PAGE || '6000', 10),
+  maxTotalChars: parseInt(process.env.LLM_EXTRACTION_MAX_TOTAL_CHARS || '24000', 10),
+};
+
+/**
+ * Field extraction schema (for LLM structured output)
+ */
+export const fieldExtractionSchema = z.object({
+  fields: z.array(
+    z.object({
+      fieldName: z.string(),
+      value: z.string().nullable().describe('Extracted value, null if the pages do not state it'),
+      sourceUrl: z.string().nullable().describe('URL of the page the value was found on'),
+      snippet: z.string().nullable().describe('Verbatim text from the page that contains the value'),
+      confidence: z.number().min(0).max(1),
+    })
+  ),
+});
+
+export type FieldExtraction = z.infer<typeof fieldExtractionSchema>;
+
+/**
+ * Expected output format per data type
+ */
+const DATA_TYPE_HINTS: Record<string, string> = {
+  STRING: 'plain text',
+  NUMBER: 'a number using "." as decimal separator',
+  BOOLEAN: '"true" or "false"',
+  DATE: 'ISO date (YYYY-MM-DD)',
+  TIME: '24h time (HH:MM)',
+  DATETIME: 'ISO date and time',
+  URL: 'absolute URL',
+  EMAIL: 'email address',
+  PHONE: 'phone number as written, including area code',
+  ADDRESS: 'postal address on one line',
+  COORDINATES: '"latitude,longitude" in decimal degrees',
+  OPENING_HOURS: 'schema.org openingHours notation, e.g. "Mo-Fr 09:00-18:00; Sa 10:00-14:00"',
+  PRICE_RANGE: 'price range as written, e.g. "€€" or "12-25 EUR"',
+  JSON: 'comma-separated list',
+};
+
+/**
+ * Pick the crawled pages worth sending to the LLM and clean them to text.
+ * Imprint/contact pages come first, then the crawl frontier score.
+ * Documents (PDF, DOCX) bring their extracted text instead of HTML.
+ */
+export function selectExtractionPages(
+  pages: Array<{ url: string; html: string; text?: string; error?: string; selection?: { score: number } }>,
+  limits = EXTRACTION_LIMITS
+): ExtractionPage[] {
+  const candidates = pages
+    .filter((page) => !page.error && (page.html || page.text))
+    .map((page) => {
+      const pageType = detectContactPageType(page.url);
+      const bonus = pageType === 'impressum' || pageType === 'contact' ? 1000 : 0;
+      const text = page.text ?? htmlToText(page.html);
+      return { url: page.url, text, rank: (page.selection?.score ?? 0) + bonus };
+    })
+    .filter((page) => page.text.length >= 50)
+    .sort((a, b) => b.rank - a.rank);
+
+  const selected: ExtractionPage[] = [];
+  const seenTexts = new Set<string>();
+  let totalChars = 0;
+
+  for (const candidate of candidates) {
+    if (selected.length >= limits.maxPages || totalChars >= limits.maxTotalChars) break;
+    if (seenTexts.has(candidate.text)) continue;
+    seenTexts.add(candidate.text);
+
+    const text = candidate.text.slice(0, Math.min(limits.maxCharsPerPage, limits.maxTotalChars - totalChars));
+    selected.push({ url: candidate.url, text });
+    totalChars += text.length;
+  }
+
+  return selected;
+}
+
+/**
+ * Group fields by category so related fields share one LLM call
+ */
+export function groupExtractionFields(fields: ExtractionField[]): Map<string, ExtractionField[]> {
+  const groups = new Map<string, ExtractionField[]>();
+
+  for (const field of fields) {
+    const category = field.category || 'other';
+    groups.set(category, [...(groups.get(category) ?? []), field]);
+  }
+
+  return groups;
+}
+
+/**
+ * Extraction instruction of a field; falls back to its description
+ */
+function fieldInstruction(field: ExtractionField): string {
+  return field.extractionPrompt
+    || field.description?.en
+    || `Extract the ${field.displayName.en || field.name}.`;
+}
+
+/**
+ * Build field extraction prompt
+ */
+export function buildExtractionPrompt(
+  poiName: string,
+  fields: ExtractionField[],
+  pages: ExtractionPage[]
+): string {
+  return `
+Extract facts about the tourism POI "${poiName}" from its website.
+
+## Fields:
+${fields.map((f) => `- ${f.name} (${DATA_TYPE_HINTS[f.dataType] ?? 'plain text'}): ${fieldInstruction(f)}`).join('\n')}
+
+## Pages:
+${pages.map((p) => `### ${p.url}\n${p.text}`).join('\n\n')}
+
+## Instructions:
+1. Return one entry per field, using the field name exactly as listed
+2. Only use information stated on the pages; set value to null if it is not there
+3. sourceUrl must be one of the page URLs above
+4. snippet must be copied verbatim from that page (max. 200 characters) and contain the value
+5. Values about other businesses (e.g. the web agency in the imprint) must be ignored
+`.trim();
+}
+
+/**
+ * Collapse whitespace and case for snippet matching
+ */
+function normalizeForMatch(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Coerce a raw value to its data type; null if it does not fit
+ */
+export function coerceExtractedValue(value: string, dataType: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  switch (dataType) {
+    case 'NUMBER': {
+      const number = Number(trimmed.replace(',', '.'));
+      return isNaN(number) ? null : String(number);
+    }
+    case 'BOOLEAN': {
+      if (/^(true|ja|yes)$/i.test(trimmed)) return 'true';
+      if (/^(false|nein|no)$/i.test(trimmed)) return 'false';
+      return null;
+    }
+    case 'EMAIL':
+      return /^[^@\s]+@[^@\s]+\.[a-z]{2,}$/i.test(trimmed) ? trimmed.toLowerCase() : null;
+    case 'URL':
+      try {
+        return new URL(trimmed).href;
+      } catch {
+        return null;
+      }
+    default:
+      return trimmed;
+  }
+}
+
+/**
+ * Validate LLM output against the requested fields and the page texts.
+ * Values without a known source page are dropped; snippets that cannot
+ * be found verbatim are kept but flagged and their confidence halved.
+ */
+export function validateExtraction(
+  extraction: FieldExtraction,
+  fields: ExtractionField[],
+  pages: ExtractionPage[]
+): Record<string, ExtractedFieldValue> {
+  const values: Record<string, ExtractedFieldValue> = {};
+
+  for (const item of extraction.fields) {
+    const field = fields.find((f) => f.name === item.fieldName);
+    if (!field || item.value === null || values[field.name]) continue;
+
+    const page = pages.find((p) => p.url === item.sourceUrl);
+    if (!page) continue;
+
+    const value = coerceExtractedValue(item.value, field.dataType);
+    if (value === null) continue;
+
+    const snippet = (item.snippet || '').trim().slice(0, 200);
+    const verified = snippet.length > 0 && normalizeForMatch(page.text).includes(normalizeForMatch(snippet));
+
+    values[field.name] = {
+      value,
+      dataType: field.dataType,
+      confidence: verified ? item.confidence : item.confidence / 2,
+      evidence: { url: page.url, snippet, verified },
+    };
+  }
+
+  return values;
+}
+
+/**
+ * Add LLM values to website data. Structured data keeps precedence;
+ * all LLM values (with evidence) are kept under extractedFields.
+ * With page languages (url -> language), values are also filed under
+ * byLanguage by the language of their evidence page.
+ */
+export function applyExtractedFields(
+  websiteData: Record<string, unknown>,
+  extracted: Record<string, ExtractedFieldValue>,
+  pageLanguages: Record<string, string> = {}
+): Record<string, unknown> {
+  const fieldSources = { ...((websiteData.fieldSources as Record<string, string>) ?? {}) };
+  const fieldPages = { ...((websiteData.fieldPages as Record<string, string>) ?? {}) };
+  const byLanguage = Object.fromEntries(
+    Object.entries((websiteData.byLanguage as Record<string, Record<string, unknown>>) ?? {})
+      .map(([language, values]) => [language, { ...values }])
+  );
+  const merged: Record<string, unknown> = { ...websiteData };
+
+  for (const [name, extractedValue] of Object.entries(extracted)) {
+    const language = pageLanguages[extractedValue.evidence.url];
+    if (language) {
+      byLanguage[language] ??= {};
+      byLanguage[language][name] ??= extractedValue.value;
+    }
+
+    if (merged[name] !== undefined) continue;
+    merged[name] = extractedValue.value;
+    fieldSources[name] = 'llm';
+    fieldPages[name] = extractedValue.evidence.url;
+  }
+
+  return {
+    ...merged,
+    fieldSources,
+    fieldPages,
+    ...(Object.keys(byLanguage).length > 0 && { byLanguage }),
+    extractedFields: extracted,
+  };
+}
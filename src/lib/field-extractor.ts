@@ -0,0 +1,91 @@
+import { chatCompletion } from './llm';
+import { createLogger } from './logger';
+import prisma from './db';
+import {
+  buildExtractionPrompt,
+  fieldExtractionSchema,
+  groupExtractionFields,
+  selectExtractionPages,
+  validateExtraction,
+  type ExtractedFieldValue,
+  type ExtractionField,
+} from './field-extraction';
+import { fieldValue } from './field-comparators';
+
+const logger = createLogger('field-extractor');
+
+/**
+ * Extract DataField values from crawled page text with the LLM
+ */
+
+/**
+ * Run one structured completion per field group for all core fields
+ * not already covered by structured data
+ */
+export async function extractFieldsFromPages(
+  poiId: string,
+  poiName: string,
+  pages: Array<{ url: string; html: string; text?: string; error?: string; selection?: { score: number } }>,
+  existing: Record<string, unknown>
+): Promise<Record<string, ExtractedFieldValue>> {
+  const dataFields = await prisma.dataField.findMany({
+    where: { isCore: true },
+    orderBy: { displayOrder: 'asc' },
+  });
+
+  const fields: ExtractionField[] = dataFields
+    .filter(f => fieldValue(f, existing) === undefined)
+    .map(f => ({
+      name: f.name,
+      displayName: f.displayName as Record<string, string>,
+      description: f.description as Record<string, string> | null,
+      dataType: f.dataType,
+      extractionPrompt: f.extractionPrompt,
+      category: f.category,
+    }));
+
+  const extractionPages = selectExtractionPages(pages);
+
+  if (fields.length === 0 || extractionPages.length === 0) {
+    logger.debug({ poiId, fields: fields.length, pages: extractionPages.length }, 'Nothing to extract');
+    return {};
+  }
+
+  const values: Record<string, ExtractedFieldValue> = {};
+
+  for (const [category, groupFields] of groupExtractionFields(fields)) {
+    try {
+      const extraction = await chatCompletion({
+        messages: [
+          {
+            role: 'system',
+            content: 'You extract facts from website text. Never guess; every value needs a verbatim snippet as evidence.',
+          },
+          {
+            role: 'user',
+            content: buildExtractionPrompt(poiName, groupFields, extractionPages),
+          },
+        ],
+        schema: fieldExtractionSchema,
+        schemaName: 'field_extraction',
+        task: 'extraction',
+        poiId,
+      });
+
+      Object.assign(values, validateExtraction(extraction, groupFields, extractionPages));
+    } catch (error) {
+      // One failing group should not lose the others
+      logger.warn(
+        { poiId, category, error: error instanceof Error ? error.message : String(error) },
+        'Field extraction failed'
+      );
+    }
+  }
+
+  logger.info(
+    { poiId, pages: extractionPages.length, requested: fields.length, extracted: Object.keys(values).length },
+    'Field extraction completed'
+  );
+
+  return values;
+}
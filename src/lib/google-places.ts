@@ -1,6 +1,16 @@
 import { createLogger } from './logger';
 import { retry } from './utils';
 import prisma from './db';
+import type { GooglePeriod } from './opening-hours';
+import type { MapsData, MapsProvider } from './maps-provider';
+import {
+  mergeCachedPlace,
+  placeDetailsCost,
+  placeDetailsSkus,
+  placeFieldsForDataFields,
+  placeRefreshFields,
+  stalePlaceFields,
+} from './places-fields';
 
 const logger = createLogger('google-places');
 
@@ -12,9 +22,10 @@ const API_KEY = process.env.GOOGLE_PLACES_API_KEY || '';
 const BASE_URL = 'https://maps.googleapis.com/maps/api/place';
 
 /**
- * Cost per API call (approximate)
+ * Cost per API call (approximate). Place Details is billed by field mask,
+ * see places-fields.
  */
-const API_COSTS = {
+export const API_COSTS = {
   findPlace: 0.017,
   placeDetails: 0.017,
   nearbySearch: 0.032,
@@ -26,10 +37,10 @@ const API_COSTS = {
  */
 async function trackCost(
   operation: keyof typeof API_COSTS,
-  poiId?: string
+  poiId?: string,
+  cost: number = API_COSTS[operation],
+  metadata?: Record<string, unknown>
 ): Promise<void> {
-  const cost = API_COSTS[operation];
-  
   await prisma.costTracking.create({
     data: {
       service: 'google_maps',
@@ -38,6 +49,7 @@ async function trackCost(
       units: 1,
       unitCost: cost,
       totalCost: cost,
+      metadata: metadata ? JSON.parse(JSON.stringify(metadata)) : undefined,
     },
   });
   
@@ -76,6 +88,7 @@ export interface PlaceDetails {
   };
   openingHours?: {
     weekdayText: string[];
+    periods?: GooglePeriod[];
     isOpen?: boolean;
   };
   priceLevel?: number;
@@ -92,16 +105,19 @@ export interface PlaceDetails {
 }
 
 /**
- * Find place by name and address
+ * Find place candidates by name and address, biased towards the TLDB
+ * coordinates when known. Choosing among them is up to the caller
+ * (see place-matching).
  */
-export async function findPlace(
+export async function findPlaceCandidates(
   name: string,
   address: string,
-  poiId?: string
-): Promise<PlaceSearchResult | null> {
+  poiId?: string,
+  location?: { lat: number; lng: number }
+): Promise<PlaceSearchResult[]> {
   if (!API_KEY) {
     logger.warn('Google Places API key not configured');
-    return null;
+    return [];
   }
   
   return retry(
@@ -111,6 +127,7 @@ export async function findPlace(
       url.searchParams.set('input', query);
       url.searchParams.set('inputtype', 'textquery');
       url.searchParams.set('fields', 'place_id,name,formatted_address,geometry,types,business_status');
+      if (location) url.searchParams.set('locationbias', `circle:2000@${location.lat},${location.lng}`);
       url.searchParams.set('key', API_KEY);
       
       const response = await fetch(url.toString());
@@ -120,117 +137,156 @@ export async function findPlace(
       
       if (data.status !== 'OK' || !data.candidates?.length) {
         logger.info({ query, status: data.status }, 'No place found');
-        return null;
+        return [];
       }
       
-      const candidate = data.candidates[0];
+      logger.info({ query, candidates: data.candidates.length }, 'Place candidates found');
       
-      logger.info({ placeId: candidate.place_id, name: candidate.name }, 'Place found');
-      
-      return {
-        placeId: candidate.place_id,
-        name: candidate.name,
-        address: candidate.formatted_address,
-        location: {
-          lat: candidate.geometry.location.lat,
-          lng: candidate.geometry.location.lng,
-        },
-        types: candidate.types || [],
-        businessStatus: candidate.business_status,
-      };
+      return data.candidates.map((candidate: Record<string, unknown>) => {
+        const geometry = candidate.geometry as { location: { lat: number; lng: number } } | undefined;
+        return {
+          placeId: candidate.place_id as string,
+          name: candidate.name as string,
+          address: candidate.formatted_address as string,
+          location: {
+            lat: geometry?.location?.lat ?? 0,
+            lng: geometry?.location?.lng ?? 0,
+          },
+          types: (candidate.types as string[]) || [],
+          businessStatus: candidate.business_status as string | undefined,
+        };
+      });
     },
     {
       maxAttempts: 3,
       baseDelay: 1000,
       onRetry: (error, attempt) => {
-        logger.warn({ error: error.message, attempt }, 'Retrying findPlace');
+        logger.warn({ error: error.message, attempt }, 'Retrying findPlaceCandidates');
       },
     }
   );
 }
 
+/**
+ * Raw Place Details result (fields present as requested)
+ */
+interface PlaceDetailsResult {
+  place_id?: string;
+  name?: string;
+  formatted_address?: string;
+  formatted_phone_number?: string;
+  international_phone_number?: string;
+  website?: string;
+  url?: string;
+  geometry?: { location: { lat: number; lng: number } };
+  opening_hours?: { weekday_text?: string[]; periods?: GooglePeriod[]; open_now?: boolean };
+  price_level?: number;
+  rating?: number;
+  user_ratings_total?: number;
+  types?: string[];
+  business_status?: string;
+  reviews?: Array<{ author_name: string; rating: number; text: string; time: number }>;
+}
+
+/**
+ * Place details from a raw Details result
+ */
+function toPlaceDetails(placeId: string, result: PlaceDetailsResult): PlaceDetails {
+  return {
+    placeId: result.place_id ?? placeId,
+    name: result.name ?? '',
+    formattedAddress: result.formatted_address ?? '',
+    formattedPhoneNumber: result.formatted_phone_number,
+    internationalPhoneNumber: result.international_phone_number,
+    website: result.website,
+    url: result.url,
+    location: {
+      lat: result.geometry?.location?.lat ?? 0,
+      lng: result.geometry?.location?.lng ?? 0,
+    },
+    openingHours: result.opening_hours
+      ? {
+          weekdayText: result.opening_hours.weekday_text || [],
+          periods: result.opening_hours.periods,
+          isOpen: result.opening_hours.open_now,
+        }
+      : undefined,
+    priceLevel: result.price_level,
+    rating: result.rating,
+    userRatingsTotal: result.user_ratings_total,
+    types: result.types || [],
+    businessStatus: result.business_status,
+    reviews: result.reviews?.map((r) => ({
+      authorName: r.author_name,
+      rating: r.rating,
+      text: r.text,
+      time: r.time,
+    })),
+  };
+}
+
 /**
  * Get place details by place ID
+ * Only the Places fields of the given data fields are requested (all
+ * known ones when omitted). Fields still fresh in the place cache are not
+ * requested again; when none is stale the cache answers at no cost.
  */
 export async function getPlaceDetails(
   placeId: string,
-  poiId?: string
+  poiId?: string,
+  dataFields?: string[]
 ): Promise<PlaceDetails | null> {
+  const fields = placeFieldsForDataFields(dataFields);
+  
+  const cached = await prisma.placeCache.findUnique({ where: { placeId } });
+  const cache = cached
+    ? { data: cached.data as Record<string, unknown>, fetchedAt: cached.fetchedAt as Record<string, string> }
+    : null;
+  const stale = stalePlaceFields(fields, cache?.fetchedAt ?? {});
+  
+  if (cache && stale.length === 0) {
+    logger.debug({ placeId, fields: fields.length }, 'Place details served from cache');
+    return toPlaceDetails(placeId, cache.data as PlaceDetailsResult);
+  }
+  
   if (!API_KEY) {
     logger.warn('Google Places API key not configured');
-    return null;
+    return cache ? toPlaceDetails(placeId, cache.data as PlaceDetailsResult) : null;
   }
   
+  const requested = placeRefreshFields(stale);
+  
   return retry(
     async () => {
       const url = new URL(`${BASE_URL}/details/json`);
       url.searchParams.set('place_id', placeId);
-      url.searchParams.set(
-        'fields',
-        [
-          'place_id',
-          'name',
-          'formatted_address',
-          'formatted_phone_number',
-          'international_phone_number',
-          'website',
-          'url',
-          'geometry',
-          'opening_hours',
-          'price_level',
-          'rating',
-          'user_ratings_total',
-          'types',
-          'business_status',
-          'reviews',
-        ].join(',')
-      );
+      url.searchParams.set('fields', requested.join(','));
       url.searchParams.set('key', API_KEY);
       
       const response = await fetch(url.toString());
       const data = await response.json();
       
-      await trackCost('placeDetails', poiId);
+      await trackCost('placeDetails', poiId, placeDetailsCost(requested), {
+        skus: placeDetailsSkus(requested),
+        fields: requested,
+        cachedFields: fields.length - stale.length,
+      });
       
       if (data.status !== 'OK' || !data.result) {
         logger.warn({ placeId, status: data.status }, 'Failed to get place details');
         return null;
       }
       
-      const result = data.result;
+      const merged = mergeCachedPlace(cache, data.result, requested);
+      await prisma.placeCache.upsert({
+        where: { placeId },
+        create: { placeId, data: JSON.parse(JSON.stringify(merged.data)), fetchedAt: merged.fetchedAt },
+        update: { data: JSON.parse(JSON.stringify(merged.data)), fetchedAt: merged.fetchedAt },
+      });
       
-      logger.info({ placeId, name: result.name }, 'Place details retrieved');
+      logger.info({ placeId, name: data.result.name, fields: requested.length }, 'Place details retrieved');
       
-      return {
-        placeId: result.place_id,
-        name: result.name,
-        formattedAddress: result.formatted_address,
-        formattedPhoneNumber: result.formatted_phone_number,
-        internationalPhoneNumber: result.international_phone_number,
-        website: result.website,
-        url: result.url,
-        location: {
-          lat: result.geometry.location.lat,
-          lng: result.geometry.location.lng,
-        },
-        openingHours: result.opening_hours
-          ? {
-              weekdayText: result.opening_hours.weekday_text || [],
-              isOpen: result.opening_hours.open_now,
-            }
-          : undefined,
-        priceLevel: result.price_level,
-        rating: result.rating,
-        userRatingsTotal: result.user_ratings_total,
-        types: result.types || [],
-        businessStatus: result.business_status,
-        reviews: result.reviews?.map((r: Record<string, unknown>) => ({
-          authorName: r.author_name,
-          rating: r.rating,
-          text: r.text,
-          time: r.time,
-        })),
-      };
+      return toPlaceDetails(placeId, merged.data as PlaceDetailsResult);
     },
     {
       maxAttempts: 3,
@@ -243,13 +299,15 @@ export async function getPlaceDetails(
 }
 
 /**
- * Search nearby places
+ * Search nearby places. The metadata is stored with the tracked cost
+ * (e.g. the coverage scan that made the request).
  */
 export async function nearbySearch(
   lat: number,
   lng: number,
   radius: number = 1000,
-  type?: string
+  type?: string,
+  metadata?: Record<string, unknown>
 ): Promise<PlaceSearchResult[]> {
   if (!API_KEY) {
     logger.warn('Google Places API key not configured');
@@ -265,7 +323,7 @@ export async function nearbySearch(
   const response = await fetch(url.toString());
   const data = await response.json();
   
-  await trackCost('nearbySearch');
+  await trackCost('nearbySearch', undefined, API_COSTS.nearbySearch, metadata);
   
   if (data.status !== 'OK') {
     return [];
@@ -288,10 +346,12 @@ export async function nearbySearch(
 }
 
 /**
- * Convert place details to POI format
+ * Convert place details to normalized map data
  */
-export function placeDetailsToPoiData(details: PlaceDetails): Record<string, unknown> {
+export function placeDetailsToMapsData(details: PlaceDetails): MapsData {
   return {
+    provider: 'google',
+    placeId: details.placeId,
     name: details.name,
     address: details.formattedAddress,
     phone: details.internationalPhoneNumber || details.formattedPhoneNumber,
@@ -299,10 +359,21 @@ export function placeDetailsToPoiData(details: PlaceDetails): Record<string, unk
     latitude: details.location.lat,
     longitude: details.location.lng,
     openingHours: details.openingHours?.weekdayText,
+    openingHoursPeriods: details.openingHours?.periods,
     priceLevel: details.priceLevel,
     rating: details.rating,
     reviewCount: details.userRatingsTotal,
-    googleMapsUrl: details.url,
+    mapUrl: details.url,
     businessStatus: details.businessStatus,
+    types: details.types,
   };
 }
+
+export const googleMapsProvider: MapsProvider = {
+  name: 'google',
+  findCandidates: (query, poiId) => findPlaceCandidates(query.name, query.address, poiId, query.location),
+  getDetails: async (placeId, poiId, dataFields) => {
+    const details = await getPlaceDetails(placeId, poiId, dataFields);
+    return details ? placeDetailsToMapsData(details) : null;
+  },
+};
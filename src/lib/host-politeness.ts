@@ -0,0 +1,229 @@
+import { randomUUID } from 'crypto';
+import { getRedisClient } from './cache';
+import { createLogger } from './logger';
+import { scraperHostWait } from './metrics';
+import { sleep } from './utils';
+
+const logger = createLogger('host-politeness');
+
+/**
+ * Per-host politeness shared by all scraper workers
+ * A token bucket spaces requests to a host, a slot lock caps concurrent
+ * requests. State lives in Redis; without Redis it is per process.
+ */
+
+export interface PolitenessConfig {
+  intervalMs: number; // One request per interval per host
+  burst: number; // Token bucket capacity
+  maxConcurrent: number; // Concurrent requests per host
+  slotTtlMs: number; // Slots of crashed workers expire after this
+  maxWaitMs: number; // Give up waiting for a slot after this
+}
+
+export const DEFAULT_POLITENESS: PolitenessConfig = {
+  intervalMs: parseInt(process.env.SCRAPER_RATE_LIMIT_MS || '1000', 10),
+  burst: parseInt(process.env.SCRAPER_HOST_BURST || '1', 10),
+  maxConcurrent: parseInt(process.env.SCRAPER_HOST_CONCURRENCY || '2', 10),
+  slotTtlMs: parseInt(process.env.SCRAPER_HOST_SLOT_TTL_MS || '120000', 10),
+  maxWaitMs: parseInt(process.env.SCRAPER_HOST_MAX_WAIT_MS || '300000', 10),
+};
+
+/**
+ * Token bucket state
+ */
+export interface BucketState {
+  tokens: number;
+  ts: number;
+}
+
+const KEY_PREFIX = 'politeness';
+
+/**
+ * Take a token; returns the new state and how long to wait if none was left.
+ * Mirrors TOKEN_BUCKET_SCRIPT.
+ */
+export function takeToken(
+  state: BucketState | undefined,
+  now: number,
+  intervalMs: number,
+  burst: number
+): { state: BucketState; waitMs: number } {
+  const previous = state ?? { tokens: burst, ts: now };
+  const tokens = Math.min(burst, previous.tokens + (now - previous.ts) / intervalMs);
+
+  if (tokens >= 1) {
+    return { state: { tokens: tokens - 1, ts: now }, waitMs: 0 };
+  }
+
+  return { state: { tokens, ts: now }, waitMs: Math.ceil((1 - tokens) * intervalMs) };
+}
+
+/**
+ * Token bucket in Redis, using the server clock so workers agree on time
+ */
+const TOKEN_BUCKET_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local interval = tonumber(ARGV[1])
+local burst = tonumber(ARGV[2])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1])
+local ts = tonumber(state[2])
+if tokens == nil or ts == nil then
+  tokens = burst
+  ts = now
+end
+tokens = math.min(burst, tokens + (now - ts) / interval)
+local wait = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+else
+  wait = math.ceil((1 - tokens) * interval)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(interval * (burst + 1)) + 1000)
+return wait
+`;
+
+/**
+ * Concurrency slots as a sorted set of holder -> expiry
+ */
+const ACQUIRE_SLOT_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+if redis.call('ZCARD', KEYS[1]) < tonumber(ARGV[1]) then
+  redis.call('ZADD', KEYS[1], now + tonumber(ARGV[2]), ARGV[3])
+  redis.call('PEXPIRE', KEYS[1], tonumber(ARGV[2]))
+  return 1
+end
+return 0
+`;
+
+// In-process fallback state
+const memoryBuckets = new Map<string, BucketState>();
+const memorySlots = new Map<string, Map<string, number>>();
+
+/**
+ * Try to take a concurrency slot without Redis
+ */
+export function acquireMemorySlot(host: string, holder: string, maxConcurrent: number, ttlMs: number): boolean {
+  const now = Date.now();
+  const slots = memorySlots.get(host) ?? new Map<string, number>();
+  memorySlots.set(host, slots);
+
+  for (const [id, expiresAt] of slots) {
+    if (expiresAt <= now) slots.delete(id);
+  }
+
+  if (slots.size >= maxConcurrent) return false;
+
+  slots.set(holder, now + ttlMs);
+  return true;
+}
+
+/**
+ * Release a concurrency slot taken without Redis
+ */
+export function releaseMemorySlot(host: string, holder: string): void {
+  memorySlots.get(host)?.delete(holder);
+}
+
+/**
+ * Try to take a concurrency slot
+ */
+async function tryAcquireSlot(host: string, holder: string, config: PolitenessConfig): Promise<boolean> {
+  const redis = getRedisClient();
+
+  if (redis) {
+    try {
+      const acquired = await redis.eval(
+        ACQUIRE_SLOT_SCRIPT, 1, `${KEY_PREFIX}:slots:${host}`,
+        config.maxConcurrent, config.slotTtlMs, holder
+      );
+      return acquired === 1;
+    } catch (error) {
+      logger.warn({ host, error: error instanceof Error ? error.message : String(error) }, 'Redis slot acquire failed, using local state');
+    }
+  }
+
+  return acquireMemorySlot(host, holder, config.maxConcurrent, config.slotTtlMs);
+}
+
+/**
+ * Release a concurrency slot
+ */
+async function releaseSlot(host: string, holder: string): Promise<void> {
+  releaseMemorySlot(host, holder);
+
+  const redis = getRedisClient();
+  if (!redis) return;
+
+  try {
+    await redis.zrem(`${KEY_PREFIX}:slots:${host}`, holder);
+  } catch (error) {
+    // The slot expires on its own after slotTtlMs
+    logger.warn({ host, error: error instanceof Error ? error.message : String(error) }, 'Redis slot release failed');
+  }
+}
+
+/**
+ * Take a token from the host bucket; returns ms to wait if none was available
+ */
+async function takeHostToken(host: string, intervalMs: number, burst: number): Promise<number> {
+  const redis = getRedisClient();
+
+  if (redis) {
+    try {
+      const wait = await redis.eval(TOKEN_BUCKET_SCRIPT, 1, `${KEY_PREFIX}:bucket:${host}`, intervalMs, burst);
+      return Number(wait) || 0;
+    } catch (error) {
+      logger.warn({ host, error: error instanceof Error ? error.message : String(error) }, 'Redis token bucket failed, using local state');
+    }
+  }
+
+  const { state, waitMs } = takeToken(memoryBuckets.get(host), Date.now(), intervalMs, burst);
+  memoryBuckets.set(host, state);
+  return waitMs;
+}
+
+/**
+ * Run a request against a host once a concurrency slot and a token are
+ * available. A robots.txt Crawl-delay (seconds) replaces the interval.
+ */
+export async function withHostSlot<T>(
+  url: string,
+  fn: () => Promise<T>,
+  options: { crawlDelay?: number; config?: Partial<PolitenessConfig> } = {}
+): Promise<T> {
+  const config = { ...DEFAULT_POLITENESS, ...options.config };
+  const intervalMs = Math.max(1, options.crawlDelay !== undefined ? options.crawlDelay * 1000 : config.intervalMs);
+  const host = new URL(url).host.toLowerCase();
+  const holder = randomUUID();
+  const startTime = Date.now();
+
+  // Wait for a free slot (polling with backoff)
+  let backoff = 100;
+  while (!(await tryAcquireSlot(host, holder, config))) {
+    if (Date.now() - startTime > config.maxWaitMs) {
+      throw new Error(`Timed out waiting for a request slot on ${host}`);
+    }
+    await sleep(backoff);
+    backoff = Math.min(backoff * 2, 2000);
+  }
+
+  try {
+    // Space requests to the host; retry until a token is free
+    let waitMs = await takeHostToken(host, intervalMs, Math.max(1, config.burst));
+    while (waitMs > 0) {
+      await sleep(waitMs);
+      waitMs = await takeHostToken(host, intervalMs, Math.max(1, config.burst));
+    }
+
+    scraperHostWait.observe((Date.now() - startTime) / 1000);
+
+    return await fn();
+  } finally {
+    await releaseSlot(host, holder);
+  }
+}
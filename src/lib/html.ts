@@ -0,0 +1,229 @@
+/**
+ * Lightweight HTML helpers for crawled pages (no DOM required)
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  auml: 'ä',
+  ouml: 'ö',
+  uuml: 'ü',
+  Auml: 'Ä',
+  Ouml: 'Ö',
+  Uuml: 'Ü',
+  szlig: 'ß',
+  eacute: 'é',
+  egrave: 'è',
+  ndash: '–',
+  mdash: '—',
+  euro: '€',
+  copy: '©',
+  reg: '®',
+  middot: '·',
+  bull: '•',
+  hellip: '…',
+  commat: '@',
+  period: '.',
+};
+
+/**
+ * Block-level tags that end a line of text
+ */
+const BLOCK_TAGS =
+  'address|article|aside|blockquote|br|dd|div|dl|dt|fieldset|figcaption|figure|footer|form|h[1-6]|header|hr|li|main|nav|ol|p|pre|section|table|td|th|tr|ul';
+
+/**
+ * Decode named and numeric HTML entities
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Convert HTML to readable plain text, one block per line
+ */
+export function htmlToText(html: string): string {
+  return decodeHtmlEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, ' ')
+      .replace(/<head\b[\s\S]*?<\/head>/gi, ' ')
+      .replace(/<(script|style|noscript|template|svg|iframe)\b[\s\S]*?<\/\1>/gi, ' ')
+      .replace(new RegExp(`<\\/?(?:${BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .filter((line) => line.length > 0)
+    .join('\n');
+}
+
+/**
+ * Get the document title
+ */
+export function extractTitle(html: string): string {
+  const match = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  return match ? decodeHtmlEntities(match[1]).replace(/\s+/g, ' ').trim() : '';
+}
+
+/**
+ * Collect href values with a given scheme (e.g. "mailto:", "tel:")
+ */
+export function extractHrefsWithScheme(html: string, scheme: string): string[] {
+  const values = new Set<string>();
+  const pattern = new RegExp(`href\\s*=\\s*["']\\s*${scheme}([^"'?]+)`, 'gi');
+
+  for (const match of html.matchAll(pattern)) {
+    try {
+      values.add(decodeURIComponent(decodeHtmlEntities(match[1])).trim());
+    } catch {
+      values.add(decodeHtmlEntities(match[1]).trim());
+    }
+  }
+
+  return Array.from(values);
+}
+
+/**
+ * Minimal DOM tree for structured data extraction
+ */
+export interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title']);
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+
+const ATTR_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+/**
+ * Parse attributes of a start tag
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+
+  for (const match of source.matchAll(ATTR_PATTERN)) {
+    const name = match[1].toLowerCase();
+    if (name in attrs) continue;
+    attrs[name] = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+
+  return attrs;
+}
+
+/**
+ * Parse HTML into a forgiving element tree.
+ * Unknown end tags are ignored and unclosed elements are closed
+ * by the nearest matching end tag of an ancestor.
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '#root', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  let lastIndex = 0;
+
+  const appendText = (text: string) => {
+    if (text) stack[stack.length - 1].children.push(decodeHtmlEntities(text));
+  };
+
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = TOKEN_PATTERN.exec(html)) !== null) {
+    appendText(html.slice(lastIndex, match.index));
+    lastIndex = TOKEN_PATTERN.lastIndex;
+
+    const [, closeTag, openTag, attrSource, selfClosing] = match;
+
+    if (closeTag) {
+      const tag = closeTag.toLowerCase();
+      const openIndex = stack.map((element) => element.tag).lastIndexOf(tag);
+      if (openIndex > 0) stack.length = openIndex;
+      continue;
+    }
+
+    if (!openTag) continue; // Comment, doctype, CDATA, processing instruction
+
+    const element: HtmlElement = {
+      tag: openTag.toLowerCase(),
+      attrs: parseAttributes(attrSource || ''),
+      children: [],
+    };
+    stack[stack.length - 1].children.push(element);
+
+    if (RAW_TEXT_TAGS.has(element.tag)) {
+      const end = html.toLowerCase().indexOf(`</${element.tag}`, lastIndex);
+      const contentEnd = end === -1 ? html.length : end;
+      const content = html.slice(lastIndex, contentEnd);
+      if (content) element.children.push(element.tag === 'title' ? decodeHtmlEntities(content) : content);
+
+      const closeEnd = end === -1 ? html.length : html.indexOf('>', end) + 1 || html.length;
+      lastIndex = closeEnd;
+      TOKEN_PATTERN.lastIndex = closeEnd;
+      continue;
+    }
+
+    if (!selfClosing && !VOID_TAGS.has(element.tag)) {
+      stack.push(element);
+    }
+  }
+
+  appendText(html.slice(lastIndex));
+
+  return root;
+}
+
+/**
+ * Text content of a node (whitespace collapsed)
+ */
+export function textContent(node: HtmlNode): string {
+  const collect = (current: HtmlNode): string => {
+    if (typeof current === 'string') return current;
+    if (current.tag === 'script' || current.tag === 'style') return '';
+    return current.children.map(collect).join(' ');
+  };
+
+  return collect(node).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Find all elements matching a predicate (depth-first, document order)
+ */
+export function findElements(
+  root: HtmlElement,
+  predicate: (element: HtmlElement) => boolean
+): HtmlElement[] {
+  const found: HtmlElement[] = [];
+
+  const visit = (element: HtmlElement) => {
+    if (predicate(element)) found.push(element);
+    for (const child of element.children) {
+      if (typeof child !== 'string') visit(child);
+    }
+  };
+
+  visit(root);
+
+  return found;
+}
@@ -72,4 +72,7 @@ export {
 } from './utils';
 
 // OpenAI
-export { default as openai, chatCompletion, textCompletion, createEmbedding } from './openai';
+export { default as openai, createEmbedding } from './openai';
+
+// LLM providers
+export { chatCompletion, textCompletion } from './llm';
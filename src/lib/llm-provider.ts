@@ -0,0 +1,267 @@
+import { z } from 'zod';
+import { zodResponseFormat } from 'openai/helpers/zod';
+
+/**
+ * LLM providers
+ * Completions go through pluggable providers (OpenAI, OpenAI-compatible
+ * local servers, Azure OpenAI, Anthropic). Each task has a chain of
+ * providers; a provider that errors or times out hands over to the next.
+ * Structured output is validated against the zod schema for every
+ * provider and, where the provider cannot constrain output natively,
+ * requested via prompt and repaired.
+ */
+
+export const LLM_PROVIDER_NAMES = ['openai', 'local', 'azure', 'anthropic'] as const;
+
+export type LlmProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+export const LLM_TASKS = ['audit', 'extraction', 'summary'] as const;
+
+export type LlmTask = (typeof LLM_TASKS)[number];
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmCompletionRequest {
+  messages: LlmMessage[];
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  /** JSON schema the output must follow; only passed to providers with native support */
+  jsonSchema?: { name: string; schema: Record<string, unknown> };
+  signal?: AbortSignal;
+}
+
+export interface LlmCompletion {
+  content: string;
+  model: string; // As reported by the provider
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs?: number; // Set by recorded responses, which return instantly
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  defaultModel: string;
+  /** Whether the provider constrains output to a JSON schema itself */
+  supportsJsonSchema: boolean;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+}
+
+export interface LlmChainEntry {
+  provider: LlmProviderName;
+  model?: string; // Provider default when not set
+}
+
+/**
+ * Parse a chain such as "azure,anthropic:claude-sonnet-4-5,local:qwen2.5".
+ * Unknown providers are skipped.
+ */
+export function parseLlmChain(value: string | undefined): LlmChainEntry[] {
+  return (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .flatMap((entry): LlmChainEntry[] => {
+      const [provider, ...model] = entry.split(':');
+      const name = LLM_PROVIDER_NAMES.find((known) => known === provider.trim());
+      return name ? [{ provider: name, model: model.join(':').trim() || undefined }] : [];
+    });
+}
+
+/**
+ * Provider chain of a task: LLM_CHAIN_<TASK>, else LLM_CHAIN, else OpenAI
+ */
+export function llmChain(task: LlmTask, env: Record<string, string | undefined> = process.env): LlmChainEntry[] {
+  const chain = parseLlmChain(env[`LLM_CHAIN_${task.toUpperCase()}`]);
+  if (chain.length > 0) return chain;
+  const fallback = parseLlmChain(env.LLM_CHAIN);
+  return fallback.length > 0 ? fallback : [{ provider: 'openai' }];
+}
+
+/**
+ * Cost per 1K tokens by provider and model (approximate, update as needed).
+ * Models are matched by prefix so dated versions share a rate; `*` is
+ * used for unknown models.
+ */
+export const LLM_COSTS: Record<LlmProviderName, Record<string, { input: number; output: number }>> = {
+  openai: {
+    'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
+    'gpt-4o': { input: 0.0025, output: 0.01 },
+    'gpt-4.1-mini': { input: 0.0004, output: 0.0016 },
+    'gpt-4.1': { input: 0.002, output: 0.008 },
+    'gpt-4-turbo': { input: 0.01, output: 0.03 },
+    'gpt-3.5-turbo': { input: 0.0005, output: 0.0015 },
+    '*': { input: 0.0025, output: 0.01 },
+  },
+  azure: {
+    'gpt-4o-mini': { input: 0.000165, output: 0.00066 },
+    'gpt-4o': { input: 0.00275, output: 0.011 },
+    'gpt-4.1-mini': { input: 0.00044, output: 0.00176 },
+    'gpt-4.1': { input: 0.0022, output: 0.0088 },
+    '*': { input: 0.00275, output: 0.011 },
+  },
+  anthropic: {
+    'claude-3-5-haiku': { input: 0.0008, output: 0.004 },
+    'claude-haiku-4-5': { input: 0.001, output: 0.005 },
+    'claude-sonnet-4': { input: 0.003, output: 0.015 },
+    'claude-opus-4': { input: 0.015, output: 0.075 },
+    '*': { input: 0.003, output: 0.015 },
+  },
+  local: {
+    '*': { input: 0, output: 0 }, // Own hardware
+  },
+};
+
+/**
+ * Cost of a completion by the provider's cost table
+ */
+export function calculateLlmCost(provider: LlmProviderName, model: string, inputTokens: number, outputTokens: number): number {
+  const table = LLM_COSTS[provider];
+  const key = Object.keys(table)
+    .filter((prefix) => prefix !== '*' && model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  const rates = table[key ?? '*'];
+  return (inputTokens / 1000) * rates.input + (outputTokens / 1000) * rates.output;
+}
+
+/**
+ * JSON schema of a zod schema, as sent to providers
+ */
+export function llmJsonSchema(schema: z.ZodTypeAny, name: string): { name: string; schema: Record<string, unknown> } {
+  return { name, schema: zodResponseFormat(schema, name).json_schema.schema as Record<string, unknown> };
+}
+
+/**
+ * Instruction for providers without native schema support
+ */
+export function jsonSchemaInstructions(schema: Record<string, unknown>): string {
+  return [
+    'Respond with a single JSON object and nothing else: no Markdown, no code fences, no comments.',
+    'The object must be valid against this JSON schema:',
+    JSON.stringify(schema),
+  ].join('\n');
+}
+
+/**
+ * Pull the JSON value out of a model response: strips code fences and
+ * surrounding text, and removes trailing commas. Throws when nothing
+ * parses.
+ */
+export function extractJson(text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?\s*([\s\S]*?)```/i, '$1').trim();
+
+  const start = unfenced.search(/[{[]/);
+  if (start < 0) throw new Error('No JSON found in model output');
+  const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+  const candidate = unfenced.slice(start, end + 1);
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return JSON.parse(candidate.replace(/,\s*([}\]])/g, '$1'));
+  }
+}
+
+/**
+ * Validate a model response against the schema. On failure the error
+ * describes what to fix, for the repair request.
+ */
+export function parseStructuredOutput<T extends z.ZodTypeAny>(
+  schema: T,
+  text: string
+): { success: true; data: z.infer<T> } | { success: false; error: string } {
+  let json: unknown;
+  try {
+    json = extractJson(text);
+  } catch (error) {
+    return { success: false, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) return { success: true, data: result.data };
+
+  return {
+    success: false,
+    error: result.error.errors
+      .slice(0, 10)
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; '),
+  };
+}
+
+/**
+ * Structured completion on one provider. The schema is requested natively
+ * or via prompt; output that does not validate gets repair turns. Returns
+ * the data and every completion made (for cost and latency).
+ */
+export async function completeStructured<T extends z.ZodTypeAny>(
+  provider: LlmProvider,
+  request: LlmCompletionRequest & { jsonSchema: NonNullable<LlmCompletionRequest['jsonSchema']> },
+  schema: T,
+  options: { repairAttempts: number; onRepair?: (error: string, attempt: number) => void }
+): Promise<{ data: z.infer<T>; completions: LlmCompletion[] }> {
+  const messages: LlmMessage[] = provider.supportsJsonSchema
+    ? [...request.messages]
+    : [...request.messages, { role: 'system', content: jsonSchemaInstructions(request.jsonSchema.schema) }];
+  const completions: LlmCompletion[] = [];
+
+  for (let attempt = 0; ; attempt++) {
+    const completion = await provider.complete({ ...request, messages });
+    completions.push(completion);
+
+    const parsed = parseStructuredOutput(schema, completion.content);
+    if (parsed.success) return { data: parsed.data, completions };
+
+    if (attempt >= options.repairAttempts) {
+      throw new Error(`Invalid structured output from ${provider.name}: ${parsed.error}`);
+    }
+
+    options.onRepair?.(parsed.error, attempt);
+    messages.push(
+      { role: 'assistant', content: completion.content },
+      {
+        role: 'user',
+        content: `Your response does not match the required JSON schema: ${parsed.error}. Reply with the corrected JSON object only.`,
+      }
+    );
+  }
+}
+
+/**
+ * Run an attempt against each chain entry until one succeeds. Each
+ * attempt is aborted after the timeout; the last error is thrown when the
+ * whole chain fails.
+ */
+export async function withLlmFallback<T>(
+  chain: LlmChainEntry[],
+  attempt: (entry: LlmChainEntry, signal: AbortSignal) => Promise<T>,
+  options: { timeoutMs: number; onFailover?: (entry: LlmChainEntry, error: Error) => void }
+): Promise<{ result: T; entry: LlmChainEntry }> {
+  let lastError: Error = new Error('No LLM provider configured');
+
+  for (const entry of chain) {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          controller.abort();
+          reject(new Error(`${entry.provider} timed out after ${options.timeoutMs} ms`));
+        }, options.timeoutMs);
+      });
+      const result = await Promise.race([attempt(entry, controller.signal), timeout]);
+      return { result, entry };
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      options.onFailover?.(entry, lastError);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,258 @@
+import { z } from 'zod';
+import { createLogger } from './logger';
+import { retry } from './utils';
+import { trackCost, type CostType } from './cost-tracker';
+import { anthropicLlmProvider } from './anthropic';
+import { azureLlmProvider, localLlmProvider, openaiLlmProvider } from './openai';
+import {
+  calculateLlmCost,
+  completeStructured,
+  llmChain,
+  llmJsonSchema,
+  withLlmFallback,
+  type LlmCompletion,
+  type LlmMessage,
+  type LlmProvider,
+  type LlmProviderName,
+  type LlmTask,
+} from './llm-provider';
+
+const logger = createLogger('llm');
+
+/**
+ * Default completion settings
+ */
+const DEFAULT_MAX_TOKENS = parseInt(process.env.OPENAI_MAX_TOKENS || '4096', 10);
+const DEFAULT_TEMPERATURE = parseFloat(process.env.OPENAI_TEMPERATURE || '0');
+const TIMEOUT_MS = parseInt(process.env.LLM_TIMEOUT_MS || '120000', 10);
+const REPAIR_ATTEMPTS = parseInt(process.env.LLM_REPAIR_ATTEMPTS || '1', 10);
+
+const PROVIDERS: Record<LlmProviderName, LlmProvider> = {
+  openai: openaiLlmProvider,
+  local: localLlmProvider,
+  azure: azureLlmProvider,
+  anthropic: anthropicLlmProvider,
+};
+
+/**
+ * Cost tracking service per provider
+ */
+const COST_SERVICES: Record<LlmProviderName, CostType> = {
+  openai: 'openai',
+  azure: 'azure_openai',
+  anthropic: 'anthropic',
+  local: 'local_llm',
+};
+
+/**
+ * provider:model of each entry of the task's chain, with provider defaults
+ */
+export function llmChainModels(task: LlmTask): string[] {
+  return llmChain(task).map((entry) => `${entry.provider}:${entry.model || PROVIDERS[entry.provider].defaultModel}`);
+}
+
+/**
+ * Run one completion and track its cost
+ */
+async function complete(
+  provider: LlmProvider,
+  request: Parameters<LlmProvider['complete']>[0],
+  meta: { task: LlmTask; operation: string; poiId?: string }
+): Promise<LlmCompletion> {
+  const startTime = Date.now();
+  const completion = await provider.complete(request);
+  const units = completion.inputTokens + completion.outputTokens;
+  const totalCost = calculateLlmCost(provider.name, completion.model, completion.inputTokens, completion.outputTokens);
+
+  await trackCost({
+    service: COST_SERVICES[provider.name],
+    operation: meta.operation,
+    poiId: meta.poiId,
+    units,
+    unitCost: units > 0 ? totalCost / units : 0,
+    totalCost,
+    metadata: {
+      provider: provider.name,
+      model: completion.model,
+      task: meta.task,
+      inputTokens: completion.inputTokens,
+      outputTokens: completion.outputTokens,
+    },
+  });
+
+  logger.info(
+    {
+      provider: provider.name,
+      model: completion.model,
+      task: meta.task,
+      duration: Date.now() - startTime,
+      inputTokens: completion.inputTokens,
+      outputTokens: completion.outputTokens,
+    },
+    'LLM completion successful'
+  );
+
+  return completion;
+}
+
+export interface StructuredCompletion<T> {
+  data: T;
+  provider: LlmProviderName;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  duration: number; // ms, including repair turns
+}
+
+/**
+ * Chat completion with structured output and usage, via the task's
+ * provider chain
+ */
+export async function structuredCompletion<T extends z.ZodTypeAny>(options: {
+  messages: LlmMessage[];
+  schema: T;
+  schemaName: string;
+  task: LlmTask;
+  maxTokens?: number;
+  temperature?: number;
+  poiId?: string;
+}): Promise<StructuredCompletion<z.infer<T>>> {
+  const {
+    messages,
+    schema,
+    schemaName,
+    task,
+    maxTokens = DEFAULT_MAX_TOKENS,
+    temperature = DEFAULT_TEMPERATURE,
+    poiId,
+  } = options;
+
+  const jsonSchema = llmJsonSchema(schema, schemaName);
+
+  return retry(
+    async () => {
+      const { result } = await withLlmFallback(
+        llmChain(task),
+        async (entry, signal) => {
+          const provider = PROVIDERS[entry.provider];
+          const tracked: LlmProvider = {
+            ...provider,
+            complete: (request) => complete(provider, request, { task, operation: schemaName, poiId }),
+          };
+          const startTime = Date.now();
+
+          // Output is validated for every provider; invalid output gets repair turns
+          const { data, completions } = await completeStructured(
+            tracked,
+            { messages, model: entry.model || provider.defaultModel, maxTokens, temperature, jsonSchema, signal },
+            schema,
+            {
+              repairAttempts: REPAIR_ATTEMPTS,
+              onRepair: (error, attempt) => {
+                logger.warn({ provider: provider.name, error, attempt }, 'Repairing structured output');
+              },
+            }
+          );
+
+          const last = completions[completions.length - 1];
+          return {
+            data: data as z.infer<T>,
+            provider: provider.name,
+            model: last.model,
+            inputTokens: completions.reduce((sum, c) => sum + c.inputTokens, 0),
+            outputTokens: completions.reduce((sum, c) => sum + c.outputTokens, 0),
+            cost: completions.reduce((sum, c) => sum + calculateLlmCost(provider.name, c.model, c.inputTokens, c.outputTokens), 0),
+            duration: Date.now() - startTime,
+          };
+        },
+        {
+          timeoutMs: TIMEOUT_MS,
+          onFailover: (entry, error) => {
+            logger.warn({ provider: entry.provider, task, error: error.message }, 'LLM provider failed, trying next');
+          },
+        }
+      );
+
+      return result;
+    },
+    {
+      maxAttempts: 3,
+      baseDelay: 1000,
+      onRetry: (error, attempt) => {
+        logger.warn({ error: error.message, attempt }, 'Retrying chat completion');
+      },
+    }
+  );
+}
+
+/**
+ * Chat completion with structured output, via the task's provider chain
+ */
+export async function chatCompletion<T extends z.ZodTypeAny>(
+  options: Parameters<typeof structuredCompletion<T>>[0]
+): Promise<z.infer<T>> {
+  return (await structuredCompletion(options)).data;
+}
+
+/**
+ * Simple text completion (no structured output), via the task's provider chain
+ */
+export async function textCompletion(options: {
+  prompt: string;
+  systemPrompt?: string;
+  task?: LlmTask;
+  maxTokens?: number;
+  temperature?: number;
+  poiId?: string;
+}): Promise<string> {
+  const {
+    prompt,
+    systemPrompt = 'You are a helpful assistant.',
+    task = 'summary',
+    maxTokens = DEFAULT_MAX_TOKENS,
+    temperature = DEFAULT_TEMPERATURE,
+    poiId,
+  } = options;
+
+  return retry(
+    async () => {
+      const { result } = await withLlmFallback(
+        llmChain(task),
+        async (entry, signal) => {
+          const provider = PROVIDERS[entry.provider];
+          const completion = await complete(
+            provider,
+            {
+              messages: [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: prompt },
+              ],
+              model: entry.model || provider.defaultModel,
+              maxTokens,
+              temperature,
+              signal,
+            },
+            { task, operation: 'text_completion', poiId }
+          );
+          return completion.content;
+        },
+        {
+          timeoutMs: TIMEOUT_MS,
+          onFailover: (entry, error) => {
+            logger.warn({ provider: entry.provider, task, error: error.message }, 'LLM provider failed, trying next');
+          },
+        }
+      );
+
+      return result;
+    },
+    {
+      maxAttempts: 3,
+      baseDelay: 1000,
+      onRetry: (error, attempt) => {
+        logger.warn({ error: error.message, attempt }, 'Retrying text completion');
+      },
+    }
+  );
+}
@@ -0,0 +1,136 @@
+import { z } from 'zod';
+import type { PlaceSearchResult } from './google-places';
+
+/**
+ * Map data providers
+ * Place search and details come from pluggable providers (Google Places,
+ * OpenStreetMap). Which providers are queried is configured per region or
+ * category; their results are merged into one normalized mapsData object.
+ */
+
+export const MAPS_PROVIDER_NAMES = ['google', 'osm'] as const;
+
+export type MapsProviderName = (typeof MAPS_PROVIDER_NAMES)[number];
+
+export interface MapsPlaceQuery {
+  name: string;
+  address: string;
+  location?: { lat: number; lng: number };
+}
+
+/**
+ * Normalized place data of one provider
+ */
+export interface MapsData {
+  provider: MapsProviderName;
+  placeId: string;
+  name?: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+  website?: string;
+  latitude?: number;
+  longitude?: number;
+  openingHours?: unknown; // Google weekday text or OSM opening_hours
+  openingHoursPeriods?: unknown; // Google periods
+  priceLevel?: number;
+  rating?: number;
+  reviewCount?: number;
+  mapUrl?: string;
+  businessStatus?: string; // OPERATIONAL, CLOSED_TEMPORARILY, CLOSED_PERMANENTLY
+  types?: string[];
+}
+
+export interface MapsProvider {
+  name: MapsProviderName;
+  findCandidates(query: MapsPlaceQuery, poiId?: string): Promise<PlaceSearchResult[]>;
+  getDetails(placeId: string, poiId?: string, dataFields?: string[]): Promise<MapsData | null>;
+}
+
+const providerListSchema = z.array(z.enum(MAPS_PROVIDER_NAMES)).min(1);
+
+/**
+ * Provider selection (AppConfig "maps.providers"). A category entry wins
+ * over a region entry; keys are compared case-insensitively.
+ */
+export const mapsProviderConfigSchema = z.object({
+  default: providerListSchema.optional(),
+  regions: z.record(providerListSchema).optional(),
+  categories: z.record(providerListSchema).optional(),
+});
+
+export type MapsProviderConfig = z.infer<typeof mapsProviderConfigSchema>;
+
+export const MAPS_PROVIDER_CONFIG_KEY = 'maps.providers';
+
+/**
+ * Providers used when nothing is configured
+ */
+export const DEFAULT_MAPS_PROVIDERS: MapsProviderName[] = (process.env.MAPS_PROVIDERS || 'google')
+  .split(',')
+  .map((name) => name.trim())
+  .filter((name): name is MapsProviderName => (MAPS_PROVIDER_NAMES as readonly string[]).includes(name));
+
+/**
+ * Read the provider configuration; an invalid value falls back to the defaults
+ */
+export function parseMapsProviderConfig(value: unknown): MapsProviderConfig {
+  const parsed = mapsProviderConfigSchema.safeParse(value);
+  return parsed.success ? parsed.data : {};
+}
+
+function lookup(entries: Record<string, MapsProviderName[]> | undefined, key: string | null | undefined) {
+  if (!entries || !key) return undefined;
+  const match = Object.keys(entries).find((entry) => entry.toLowerCase() === key.toLowerCase());
+  return match ? entries[match] : undefined;
+}
+
+/**
+ * Providers to query for a POI, in order of precedence
+ */
+export function selectMapsProviders(
+  config: MapsProviderConfig,
+  poi: { region?: string | null; category?: string | null }
+): MapsProviderName[] {
+  return lookup(config.categories, poi.category)
+    ?? lookup(config.regions, poi.region)
+    ?? config.default
+    ?? DEFAULT_MAPS_PROVIDERS;
+}
+
+/**
+ * Fields that travel together: periods belong to the provider whose
+ * opening hours were taken
+ */
+const COMPANION_FIELDS: Partial<Record<keyof MapsData, keyof MapsData>> = {
+  openingHoursPeriods: 'openingHours',
+};
+
+/**
+ * Merge provider results into mapsData. Per field the first provider (in
+ * order of precedence) with a value wins; `sources` records which one.
+ */
+export function mergeMapsData(results: MapsData[]): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+  const sources: Record<string, MapsProviderName> = {};
+
+  for (const result of results) {
+    for (const [field, value] of Object.entries(result) as Array<[keyof MapsData, unknown]>) {
+      if (field === 'provider' || field === 'placeId' || field in merged) continue;
+      if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) continue;
+
+      const companion = COMPANION_FIELDS[field];
+      if (companion && sources[companion] && sources[companion] !== result.provider) continue;
+
+      merged[field] = value;
+      sources[field] = result.provider;
+    }
+  }
+
+  return {
+    ...merged,
+    providers: results.map((result) => result.provider),
+    placeIds: Object.fromEntries(results.map((result) => [result.provider, result.placeId])),
+    sources,
+  };
+}
@@ -154,6 +154,27 @@ export const scraperDuration = new Histogram({
   registers: [registry],
 });
 
+export const scraperRobotsDecisions = new Counter({
+  name: 'ldb_scraper_robots_decisions_total',
+  help: 'robots.txt decisions for crawled URLs',
+  labelNames: ['decision'],
+  registers: [registry],
+});
+
+export const scraperConsentBanners = new Counter({
+  name: 'ldb_scraper_consent_banners_total',
+  help: 'Consent banners shown on rendered pages, by handler and outcome (dismissed, blocked)',
+  labelNames: ['handler', 'outcome'],
+  registers: [registry],
+});
+
+export const scraperHostWait = new Histogram({
+  name: 'ldb_scraper_host_wait_seconds',
+  help: 'Time spent waiting for a per-host politeness slot',
+  buckets: [0, 0.1, 0.5, 1, 2, 5, 10, 30],
+  registers: [registry],
+});
+
 // ============================================================================
 // Email Metrics
 // ============================================================================
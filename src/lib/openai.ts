@@ -1,11 +1,5 @@
-import OpenAI from 'openai';
-import { z } from 'zod';
-import { zodResponseFormat } from 'openai/helpers/zod';
-import { createLogger } from './logger';
-import { retry } from './utils';
-import prisma from './db';
-
-const logger = createLogger('openai');
+import OpenAI, { AzureOpenAI } from 'openai';
+import type { LlmCompletionRequest, LlmProvider, LlmProviderName } from './llm-provider';
 
 /**
  * OpenAI Client with custom base URL support
@@ -16,211 +10,87 @@ const openai = new OpenAI({
 });
 
 /**
- * Default model configuration
+ * LLM provider on the OpenAI chat completions API. Used for OpenAI itself,
+ * OpenAI-compatible servers (vLLM, Ollama, LM Studio) and Azure OpenAI.
+ * The client is created on first use, so unconfigured providers do not
+ * fail at startup.
  */
-const DEFAULT_MODEL = process.env.OPENAI_MODEL || 'gpt-4o';
-const DEFAULT_MAX_TOKENS = parseInt(process.env.OPENAI_MAX_TOKENS || '4096', 10);
-const DEFAULT_TEMPERATURE = parseFloat(process.env.OPENAI_TEMPERATURE || '0');
+function chatCompletionsProvider(
+  name: LlmProviderName,
+  createClient: () => OpenAI,
+  defaultModel: string,
+  supportsJsonSchema: boolean
+): LlmProvider {
+  let client: OpenAI | undefined;
 
-/**
- * Cost per 1K tokens (approximate, update as needed)
- */
-const TOKEN_COSTS: Record<string, { input: number; output: number }> = {
-  'gpt-4o': { input: 0.005, output: 0.015 },
-  'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
-  'gpt-4-turbo': { input: 0.01, output: 0.03 },
-  'gpt-3.5-turbo': { input: 0.0005, output: 0.0015 },
-};
-
-/**
- * Calculate cost from token usage
- */
-function calculateCost(
-  model: string,
-  inputTokens: number,
-  outputTokens: number
-): number {
-  const costs = TOKEN_COSTS[model] || TOKEN_COSTS['gpt-4o'];
-  return (inputTokens / 1000) * costs.input + (outputTokens / 1000) * costs.output;
-}
-
-/**
- * Track API cost
- */
-async function trackCost(
-  operation: string,
-  model: string,
-  inputTokens: number,
-  outputTokens: number,
-  poiId?: string
-): Promise<void> {
-  const totalCost = calculateCost(model, inputTokens, outputTokens);
-  
-  await prisma.costTracking.create({
-    data: {
-      service: 'openai',
-      operation,
-      poiId,
-      units: inputTokens + outputTokens,
-      unitCost: totalCost / (inputTokens + outputTokens),
-      totalCost,
-      metadata: {
-        model,
-        inputTokens,
-        outputTokens,
-      },
-    },
-  });
-  
-  logger.debug(
-    { operation, model, inputTokens, outputTokens, totalCost },
-    'API cost tracked'
-  );
-}
-
-/**
- * Chat completion with structured output
- */
-export async function chatCompletion<T extends z.ZodTypeAny>(options: {
-  messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>;
-  schema: T;
-  schemaName: string;
-  model?: string;
-  maxTokens?: number;
-  temperature?: number;
-  poiId?: string;
-}): Promise<z.infer<T>> {
-  const {
-    messages,
-    schema,
-    schemaName,
-    model = DEFAULT_MODEL,
-    maxTokens = DEFAULT_MAX_TOKENS,
-    temperature = DEFAULT_TEMPERATURE,
-    poiId,
-  } = options;
-  
-  return retry(
-    async () => {
-      const startTime = Date.now();
-      
-      const completion = await openai.beta.chat.completions.parse({
-        model,
-        messages,
-        max_tokens: maxTokens,
-        temperature,
-        response_format: zodResponseFormat(schema, schemaName),
-      });
-      
-      const duration = Date.now() - startTime;
-      const usage = completion.usage;
-      
-      if (usage) {
-        await trackCost(
-          schemaName,
-          model,
-          usage.prompt_tokens,
-          usage.completion_tokens,
-          poiId
-        );
-      }
-      
-      logger.info(
+  return {
+    name,
+    defaultModel,
+    supportsJsonSchema,
+    async complete({ messages, model, maxTokens, temperature, jsonSchema, signal }: LlmCompletionRequest) {
+      client ??= createClient();
+      const completion = await client.chat.completions.create(
         {
           model,
-          duration,
-          inputTokens: usage?.prompt_tokens,
-          outputTokens: usage?.completion_tokens,
+          messages,
+          max_tokens: maxTokens,
+          temperature,
+          ...(jsonSchema && supportsJsonSchema
+            ? { response_format: { type: 'json_schema' as const, json_schema: { ...jsonSchema, strict: true } } }
+            : {}),
         },
-        'Chat completion successful'
+        { signal, maxRetries: 0 }
       );
-      
-      const parsed = completion.choices[0]?.message?.parsed;
-      
-      if (!parsed) {
-        throw new Error('Failed to parse structured output');
+
+      const message = completion.choices[0]?.message;
+      if (message?.refusal) {
+        throw new Error(`Model refused: ${message.refusal}`);
       }
-      
-      return parsed;
+
+      return {
+        content: message?.content || '',
+        model: completion.model || model,
+        inputTokens: completion.usage?.prompt_tokens ?? 0,
+        outputTokens: completion.usage?.completion_tokens ?? 0,
+      };
     },
-    {
-      maxAttempts: 3,
-      baseDelay: 1000,
-      onRetry: (error, attempt) => {
-        logger.warn({ error: error.message, attempt }, 'Retrying chat completion');
-      },
-    }
-  );
+  };
 }
 
+export const openaiLlmProvider = chatCompletionsProvider(
+  'openai',
+  () => openai,
+  process.env.OPENAI_MODEL || 'gpt-4o',
+  true
+);
+
 /**
- * Simple text completion (no structured output)
+ * OpenAI-compatible local server. Most honour json_schema response formats
+ * only partly, so schema support is opt-in.
  */
-export async function textCompletion(options: {
-  prompt: string;
-  systemPrompt?: string;
-  model?: string;
-  maxTokens?: number;
-  temperature?: number;
-  poiId?: string;
-}): Promise<string> {
-  const {
-    prompt,
-    systemPrompt = 'You are a helpful assistant.',
-    model = DEFAULT_MODEL,
-    maxTokens = DEFAULT_MAX_TOKENS,
-    temperature = DEFAULT_TEMPERATURE,
-    poiId,
-  } = options;
-  
-  return retry(
-    async () => {
-      const startTime = Date.now();
-      
-      const completion = await openai.chat.completions.create({
-        model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: prompt },
-        ],
-        max_tokens: maxTokens,
-        temperature,
-      });
-      
-      const duration = Date.now() - startTime;
-      const usage = completion.usage;
-      
-      if (usage) {
-        await trackCost(
-          'text_completion',
-          model,
-          usage.prompt_tokens,
-          usage.completion_tokens,
-          poiId
-        );
-      }
-      
-      logger.info(
-        {
-          model,
-          duration,
-          inputTokens: usage?.prompt_tokens,
-          outputTokens: usage?.completion_tokens,
-        },
-        'Text completion successful'
-      );
-      
-      return completion.choices[0]?.message?.content || '';
-    },
-    {
-      maxAttempts: 3,
-      baseDelay: 1000,
-      onRetry: (error, attempt) => {
-        logger.warn({ error: error.message, attempt }, 'Retrying text completion');
-      },
-    }
-  );
-}
+export const localLlmProvider = chatCompletionsProvider(
+  'local',
+  () => new OpenAI({
+    apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+  }),
+  process.env.LOCAL_LLM_MODEL || 'llama3.1',
+  process.env.LOCAL_LLM_JSON_SCHEMA === 'true'
+);
+
+/**
+ * Azure OpenAI; the model of a request is the deployment name
+ */
+export const azureLlmProvider = chatCompletionsProvider(
+  'azure',
+  () => new AzureOpenAI({
+    apiKey: process.env.AZURE_OPENAI_API_KEY,
+    endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+    apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+  }),
+  process.env.AZURE_OPENAI_DEPLOYMENT || 'gpt-4o',
+  true
+);
 
 /**
  * Embedding generation
@@ -233,7 +103,7 @@ export async function createEmbedding(
     model,
     input: text,
   });
-  
+
   return response.data[0].embedding;
 }
 
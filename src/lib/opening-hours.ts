@@ -0,0 +1,882 @@
+/**
+ * Opening hours model
+ * TLDB free text, schema.org openingHours(Specification) and Google Places
+ * periods are parsed into one canonical model (weekly intervals, seasonal
+ * ranges, date and holiday exceptions, "by appointment"), serialized to OSM
+ * opening_hours syntax and compared day by day.
+ */
+
+export const WEEKDAYS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/**
+ * Minutes since midnight; `to` beyond 1440 runs past midnight
+ */
+export interface TimeInterval {
+  from: number;
+  to: number;
+}
+
+/**
+ * Date range within a year ("MM-DD", inclusive); may wrap (Nov-Mar)
+ */
+export interface Season {
+  from: string;
+  to: string;
+}
+
+export interface OpeningHoursRule {
+  days: Weekday[];
+  intervals: TimeInterval[]; // Empty when closed
+  season?: Season;
+}
+
+export interface OpeningHoursException {
+  date: string; // "PH" (public holidays), "MM-DD" or "YYYY-MM-DD"
+  intervals: TimeInterval[];
+}
+
+/**
+ * Canonical opening hours. Seasonal rules replace the all-year rules of the
+ * same days within their season; days without a rule are closed.
+ */
+export interface OpeningHours {
+  rules: OpeningHoursRule[];
+  exceptions: OpeningHoursException[];
+  byAppointment: boolean;
+}
+
+/**
+ * Google Places opening_hours.periods entry (day 0 = Sunday)
+ */
+export interface GooglePeriod {
+  open: { day: number; time: string };
+  close?: { day: number; time: string };
+}
+
+export interface OpeningHoursDifference {
+  scope: string; // "Mo", "Apr-Oct Sa", "PH", "Dec 24"
+  a: string; // OSM intervals or "off"
+  b: string;
+}
+
+const DAY_MINUTES = 24 * 60;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const MONTH_LENGTHS = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const DAY_NAMES: Record<Weekday, string[]> = {
+  Mo: ['montag', 'monday', 'mon', 'mo'],
+  Tu: ['dienstag', 'tuesday', 'tues', 'tue', 'di', 'tu'],
+  We: ['mittwoch', 'wednesday', 'wed', 'mi', 'we'],
+  Th: ['donnerstag', 'thursday', 'thurs', 'thur', 'thu', 'do', 'th'],
+  Fr: ['freitag', 'friday', 'fri', 'fr'],
+  Sa: ['samstag', 'sonnabend', 'saturday', 'sat', 'sa'],
+  Su: ['sonntag', 'sunday', 'sun', 'so', 'su'],
+};
+
+const MONTH_NAMES = [
+  ['januar', 'january', 'jänner', 'jan'],
+  ['februar', 'february', 'feb'],
+  ['märz', 'maerz', 'march', 'mär', 'mar'],
+  ['april', 'apr'],
+  ['mai', 'may'],
+  ['juni', 'june', 'jun'],
+  ['juli', 'july', 'jul'],
+  ['august', 'aug'],
+  ['september', 'sept', 'sep'],
+  ['oktober', 'october', 'okt', 'oct'],
+  ['november', 'nov'],
+  ['dezember', 'december', 'dez', 'dec'],
+];
+
+function alternatives(names: string[]): string {
+  return [...names].sort((a, b) => b.length - a.length).join('|');
+}
+
+const WORD_END = '(?![a-zäöüß])';
+const DAY_PATTERN = alternatives(Object.values(DAY_NAMES).flat());
+const MONTH_PATTERN = alternatives(MONTH_NAMES.flat());
+
+function lookupDay(name: string): Weekday | undefined {
+  return WEEKDAYS.find((day) => DAY_NAMES[day].includes(name));
+}
+
+function lookupMonth(name: string): number {
+  return MONTH_NAMES.findIndex((names) => names.includes(name)) + 1;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function formatTime(minutes: number): string {
+  const time = minutes > DAY_MINUTES ? minutes - DAY_MINUTES : minutes;
+  return `${pad(Math.floor(time / 60))}:${pad(time % 60)}`;
+}
+
+/**
+ * OSM time spans of a day, "off" when closed
+ */
+export function formatIntervals(intervals: TimeInterval[]): string {
+  if (intervals.length === 0) return 'off';
+  return intervals.map(({ from, to }) => `${formatTime(from)}-${formatTime(to)}`).join(',');
+}
+
+function monthDay(month: number, day: number): string {
+  return `${pad(month)}-${pad(day)}`;
+}
+
+function validDate(month: number, day: number): boolean {
+  return month >= 1 && month <= 12 && day >= 1 && day <= MONTH_LENGTHS[month - 1];
+}
+
+function seasonKey(season?: Season): string {
+  return season ? `${season.from}/${season.to}` : '';
+}
+
+/**
+ * OSM month/date range of a season ("Apr-Oct", "Dec 24-Dec 26")
+ */
+export function formatSeason(season: Season): string {
+  const [fromMonth, fromDay] = season.from.split('-').map(Number);
+  const [toMonth, toDay] = season.to.split('-').map(Number);
+
+  if (fromDay === 1 && toDay === MONTH_LENGTHS[toMonth - 1]) {
+    return fromMonth === toMonth ? MONTHS[fromMonth - 1] : `${MONTHS[fromMonth - 1]}-${MONTHS[toMonth - 1]}`;
+  }
+  return `${MONTHS[fromMonth - 1]} ${pad(fromDay)}-${MONTHS[toMonth - 1]} ${pad(toDay)}`;
+}
+
+function formatExceptionDate(date: string): string {
+  if (date === 'PH') return 'PH';
+
+  const parts = date.split('-').map(Number);
+  const [year, month, day] = parts.length === 3 ? parts : [undefined, ...parts];
+  return `${year ? `${year} ` : ''}${MONTHS[month! - 1]} ${pad(day!)}`;
+}
+
+/**
+ * Whether a date falls into a season
+ */
+export function seasonActiveOn(season: Season, date: Date): boolean {
+  const day = monthDay(date.getMonth() + 1, date.getDate());
+  return season.from <= season.to
+    ? day >= season.from && day <= season.to
+    : day >= season.from || day <= season.to;
+}
+
+/**
+ * Sort and merge overlapping intervals
+ */
+function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const merged: TimeInterval[] = [];
+
+  for (const interval of [...intervals].sort((a, b) => a.from - b.from)) {
+    const last = merged[merged.length - 1];
+    if (last && interval.from <= last.to) last.to = Math.max(last.to, interval.to);
+    else merged.push({ ...interval });
+  }
+
+  return merged;
+}
+
+function overlaps(a: TimeInterval[], b: TimeInterval[]): boolean {
+  return a.some((x) => b.some((y) => x.from < y.to && y.from < x.to));
+}
+
+function interval(from: number, to: number): TimeInterval {
+  if (to === 0) to = DAY_MINUTES;
+  if (to <= from) to += DAY_MINUTES;
+  return { from, to };
+}
+
+// =============================================================================
+// Building
+// =============================================================================
+
+type PartialSchedule = Partial<Record<Weekday, TimeInterval[]>>;
+
+/**
+ * Opening hours under construction: per-season day schedules and exceptions
+ */
+interface Draft {
+  seasons: Map<string, { season?: Season; schedule: PartialSchedule }>;
+  exceptions: Map<string, TimeInterval[]>;
+  byAppointment: boolean;
+}
+
+function createDraft(): Draft {
+  return { seasons: new Map(), exceptions: new Map(), byAppointment: false };
+}
+
+/**
+ * Set the hours of days. Additive sources (schema.org, Google) add up; in
+ * free text a disjoint span adds to a day ("9-12" then "14-18") while an
+ * overlapping one replaces it ("täglich 10-18; Sa 10-14").
+ */
+function setDays(draft: Draft, days: Weekday[], intervals: TimeInterval[], season?: Season, additive = false): void {
+  const key = seasonKey(season);
+  if (!draft.seasons.has(key)) draft.seasons.set(key, { season, schedule: {} });
+  const { schedule } = draft.seasons.get(key)!;
+
+  for (const day of days) {
+    const existing = schedule[day];
+    const add = existing && existing.length > 0 && intervals.length > 0 && (additive || !overlaps(existing, intervals));
+    schedule[day] = mergeIntervals(add ? [...existing, ...intervals] : intervals);
+  }
+}
+
+function setException(draft: Draft, date: string, intervals: TimeInterval[], additive = false): void {
+  const existing = draft.exceptions.get(date);
+  const add = existing && existing.length > 0 && intervals.length > 0 && (additive || !overlaps(existing, intervals));
+  draft.exceptions.set(date, mergeIntervals(add ? [...existing, ...intervals] : intervals));
+}
+
+/**
+ * Rules of a day schedule, days with the same hours grouped
+ */
+function scheduleRules(schedule: PartialSchedule, season?: Season): OpeningHoursRule[] {
+  const rules = new Map<string, OpeningHoursRule>();
+
+  for (const day of WEEKDAYS) {
+    const intervals = schedule[day];
+    if (!intervals) continue;
+
+    const signature = formatIntervals(intervals);
+    if (!rules.has(signature)) rules.set(signature, { days: [], intervals, ...(season && { season }) });
+    rules.get(signature)!.days.push(day);
+  }
+
+  return Array.from(rules.values());
+}
+
+function finishDraft(draft: Draft): OpeningHours | null {
+  const seasons = Array.from(draft.seasons.values()).sort((a, b) => seasonKey(a.season).localeCompare(seasonKey(b.season)));
+  const rules = seasons.flatMap(({ season, schedule }) => scheduleRules(schedule, season));
+  const exceptions = Array.from(draft.exceptions.entries())
+    .map(([date, intervals]) => ({ date, intervals }))
+    .sort((a, b) => (a.date === 'PH' ? 1 : b.date === 'PH' ? -1 : a.date.localeCompare(b.date)));
+
+  if (rules.length === 0 && exceptions.length === 0 && !draft.byAppointment) return null;
+  return { rules, exceptions, byAppointment: draft.byAppointment };
+}
+
+// =============================================================================
+// Free text (TLDB, schema.org openingHours, Google weekday_text)
+// =============================================================================
+
+type Token =
+  | { type: 'day'; day: Weekday }
+  | { type: 'month'; month: number }
+  | { type: 'date'; month: number; day: number; year?: number }
+  | { type: 'time'; hour: number; minute: number; meridiem?: 'a' | 'p' }
+  | { type: 'days'; days: Weekday[] }
+  | { type: 'range' | 'closed' | 'appointment' | 'always' | 'ph' | 'except' | 'sep' };
+
+/**
+ * Two-letter day codes also are words ("we", "so", "do"): only taken as a
+ * day when followed by punctuation, a time, a connector, a word that opens
+ * the hours ("von", "ab", "geöffnet") or another day
+ */
+const SHORT_DAY_CONTEXT = new RegExp(
+  `^(?:$|[-–—,.:;/&+\\d]|(?:und|and|bis|to|von|from|ab|ge(?:ö|oe)ffnet|open|geschlossen|closed|ruhetag|off|${DAY_PATTERN})${WORD_END})`
+);
+
+const LEXEMES: Array<{ pattern: RegExp; token: (match: RegExpExecArray, text: string) => Token | null }> = [
+  { pattern: /[;\n|]+/y, token: () => ({ type: 'sep' }) },
+  {
+    pattern: /24\s*\/\s*7|rund um die uhr|(?:open\s+)?24\s*(?:hours|stunden)(?:\s+ge(?:ö|oe)ffnet)?/y,
+    token: () => ({ type: 'always' }),
+  },
+  {
+    pattern: new RegExp(`(?:nach (?:termin)?(?:vereinbarung|absprache)|auf anfrage|by appointment(?: only)?|on request|by arrangement)${WORD_END}`, 'y'),
+    token: () => ({ type: 'appointment' }),
+  },
+  { pattern: /t(?:ä|ae)glich|daily|every ?day|jeden tag|7 tage die woche/y, token: () => ({ type: 'days', days: [...WEEKDAYS] }) },
+  {
+    pattern: /(\d{4})-(\d{2})-(\d{2})/y,
+    token: (m) => (validDate(+m[2], +m[3]) ? { type: 'date', year: +m[1], month: +m[2], day: +m[3] } : null),
+  },
+  {
+    pattern: /(\d{1,2})\.\s?(\d{1,2})\.(\d{4}|\d{2}(?!\d))?/y,
+    token: (m) => (validDate(+m[2], +m[1])
+      ? { type: 'date', month: +m[2], day: +m[1], ...(m[3] && { year: m[3].length === 2 ? 2000 + +m[3] : +m[3] }) }
+      : null),
+  },
+  {
+    pattern: new RegExp(`(\\d{1,2})\\.?\\s*(${MONTH_PATTERN})${WORD_END}\\.?`, 'y'),
+    token: (m) => (validDate(lookupMonth(m[2]), +m[1]) ? { type: 'date', month: lookupMonth(m[2]), day: +m[1] } : null),
+  },
+  {
+    pattern: new RegExp(`(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?![\\d:.])`, 'y'),
+    token: (m) => (validDate(lookupMonth(m[1]), +m[2]) ? { type: 'date', month: lookupMonth(m[1]), day: +m[2] } : null),
+  },
+  { pattern: new RegExp(`(${MONTH_PATTERN})${WORD_END}\\.?`, 'y'), token: (m) => ({ type: 'month', month: lookupMonth(m[1]) }) },
+  {
+    pattern: /(\d{1,2})(?:[:.](\d{2}))?(?!\d)\s*(?:([ap])\.?\s?m\.?)?(?:\s*(?:uhr|h)(?![a-zäöüß]))?/y,
+    token: (m) => {
+      const hour = +m[1];
+      const minute = m[2] ? +m[2] : 0;
+      const meridiem = m[3] as 'a' | 'p' | undefined;
+      if (minute > 59 || hour > 24 || (meridiem && (hour < 1 || hour > 12))) return null;
+      return { type: 'time', hour, minute, ...(meridiem && { meridiem }) };
+    },
+  },
+  { pattern: new RegExp(`(?:[-–—]|(?:bis|to|through|thru|until)${WORD_END})`, 'y'), token: () => ({ type: 'range' }) },
+  { pattern: new RegExp(`(?:ge)?schlossen${WORD_END}|ruhetage?${WORD_END}|closed${WORD_END}|off${WORD_END}`, 'y'), token: () => ({ type: 'closed' }) },
+  { pattern: new RegExp(`(?:feiertag[a-z]*|(?:public |bank )?holidays?|ph)${WORD_END}`, 'y'), token: () => ({ type: 'ph' }) },
+  { pattern: new RegExp(`(?:wochentags|weekdays)${WORD_END}`, 'y'), token: () => ({ type: 'days', days: ['Mo', 'Tu', 'We', 'Th', 'Fr'] }) },
+  { pattern: new RegExp(`(?:(?:am )?wochenendes?|weekends?)${WORD_END}`, 'y'), token: () => ({ type: 'days', days: ['Sa', 'Su'] }) },
+  { pattern: new RegExp(`(?:au(?:ß|ss)er|except|ausgenommen)${WORD_END}`, 'y'), token: () => ({ type: 'except' }) },
+  {
+    pattern: new RegExp(`(${DAY_PATTERN})s?${WORD_END}\\.?`, 'y'),
+    token: (m, text) => {
+      const day = lookupDay(m[1])!;
+      if (m[1].length > 2) return { type: 'day', day };
+      return SHORT_DAY_CONTEXT.test(text.slice(m.index + m[0].length).trimStart()) ? { type: 'day', day } : null;
+    },
+  },
+];
+
+function tokenize(text: string): Token[] {
+  const source = text.toLowerCase();
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    if (/[^\S\n]/.test(source[position])) {
+      position++;
+      continue;
+    }
+
+    let token: Token | null = null;
+    for (const lexeme of LEXEMES) {
+      lexeme.pattern.lastIndex = position;
+      const match = lexeme.pattern.exec(source);
+      if (!match || match[0].length === 0) continue;
+
+      token = lexeme.token(match, source);
+      if (token) {
+        position += match[0].length;
+        break;
+      }
+    }
+
+    if (token) {
+      tokens.push(token);
+    } else {
+      // Skip the unknown word, number or character
+      const skipped = /^(?:[a-zäöüß]+|\d+|[\s\S])/.exec(source.slice(position))!;
+      position += skipped[0].length;
+    }
+  }
+
+  return tokens;
+}
+
+function toMinutes(time: Extract<Token, { type: 'time' }>): number {
+  let hour = time.hour;
+  if (time.meridiem === 'a' && hour === 12) hour = 0;
+  if (time.meridiem === 'p' && hour < 12) hour += 12;
+  return hour * 60 + time.minute;
+}
+
+function dayRange(from: Weekday, to: Weekday): Weekday[] {
+  const days: Weekday[] = [];
+  for (let i = WEEKDAYS.indexOf(from); ; i = (i + 1) % 7) {
+    days.push(WEEKDAYS[i]);
+    if (WEEKDAYS[i] === to) return days;
+  }
+}
+
+type Item =
+  | { kind: 'days'; days: Weekday[] }
+  | { kind: 'season'; season: Season }
+  | { kind: 'date'; date: string }
+  | { kind: 'interval'; interval: TimeInterval }
+  | { kind: 'ph' | 'closed' | 'always' | 'appointment' | 'except' | 'sep' };
+
+/**
+ * Combine "x - y" token ranges into selectors and values; lone months and
+ * times carry no information and are dropped
+ */
+function resolveTokens(tokens: Token[]): Item[] {
+  const items: Item[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const end = tokens[i + 1]?.type === 'range' ? tokens[i + 2] : undefined;
+    const ranged = end?.type === token.type;
+
+    switch (token.type) {
+      case 'day':
+        items.push({ kind: 'days', days: ranged ? dayRange(token.day, (end as typeof token).day) : [token.day] });
+        break;
+      case 'days':
+        items.push({ kind: 'days', days: token.days });
+        break;
+      case 'month':
+        if (ranged) {
+          const to = (end as typeof token).month;
+          items.push({ kind: 'season', season: { from: monthDay(token.month, 1), to: monthDay(to, MONTH_LENGTHS[to - 1]) } });
+        }
+        break;
+      case 'date':
+        if (ranged) {
+          const to = end as typeof token;
+          items.push({ kind: 'season', season: { from: monthDay(token.month, token.day), to: monthDay(to.month, to.day) } });
+        } else {
+          items.push({ kind: 'date', date: `${token.year ? `${token.year}-` : ''}${monthDay(token.month, token.day)}` });
+        }
+        break;
+      case 'time':
+        if (ranged) {
+          const to = end as typeof token;
+          let from = toMinutes(token);
+          const until = toMinutes(to);
+          // "5:00 – 10:00 PM": the start shares the end's meridiem
+          if (!token.meridiem && to.meridiem === 'p' && from < 720 && from + 720 < until) from += 720;
+          items.push({ kind: 'interval', interval: interval(from, until) });
+        }
+        break;
+      case 'range':
+        break;
+      default:
+        items.push({ kind: token.type });
+    }
+
+    if (ranged) i += 2;
+  }
+
+  return items;
+}
+
+interface Group {
+  days: Weekday[];
+  except: Weekday[];
+  dates: string[];
+  season?: Season;
+  intervals: TimeInterval[];
+  closed: boolean;
+  always: boolean;
+}
+
+function hasSelector(group: Group): boolean {
+  return group.days.length > 0 || group.dates.length > 0;
+}
+
+function hasValue(group: Group): boolean {
+  return group.intervals.length > 0 || group.closed || group.always;
+}
+
+/**
+ * Split items into selector/value groups: a selector after a value starts
+ * a new group, and a season applies to all groups after it
+ */
+function groupItems(items: Item[]): { groups: Group[]; byAppointment: boolean } {
+  const groups: Group[] = [];
+  let byAppointment = false;
+  let season: Season | undefined;
+  let excepting = false;
+  let group: Group;
+
+  const start = () => {
+    group = { days: [], except: [], dates: [], intervals: [], closed: false, always: false, ...(season && { season }) };
+    excepting = false;
+  };
+  const finish = () => {
+    if (hasSelector(group) || hasValue(group) || group.except.length > 0) groups.push(group);
+    start();
+  };
+
+  start();
+  for (const item of items) {
+    switch (item.kind) {
+      case 'sep':
+        finish();
+        break;
+      case 'appointment':
+        byAppointment = true;
+        break;
+      case 'except':
+        excepting = true;
+        break;
+      case 'days':
+        if (excepting) {
+          group!.except.push(...item.days);
+          break;
+        }
+        if (hasValue(group!)) finish();
+        group!.days.push(...item.days);
+        break;
+      case 'date':
+        if (hasValue(group!)) finish();
+        group!.dates.push(item.date);
+        break;
+      case 'ph':
+        if (hasValue(group!)) finish();
+        group!.dates.push('PH');
+        break;
+      case 'season':
+        if (hasValue(group!)) finish();
+        season = item.season;
+        group!.season = season;
+        break;
+      case 'interval':
+        group!.intervals.push(item.interval);
+        excepting = false;
+        break;
+      case 'closed':
+      case 'always':
+        // "9-17 Uhr, sonntags geschlossen" vs "9-17 Uhr. Closed on Sundays"
+        if (group!.intervals.length > 0) finish();
+        group![item.kind] = true;
+        excepting = false;
+        break;
+    }
+  }
+  finish();
+
+  // "Ruhetag: Montag", "10-18 Uhr täglich": value first, then its selector;
+  // "außer Montag" on its own line narrows the previous group
+  const merged: Group[] = [];
+  for (const current of groups) {
+    const previous = merged[merged.length - 1];
+
+    if (previous && hasValue(previous) && !hasSelector(previous) && hasSelector(current) && !hasValue(current)) {
+      previous.days = current.days;
+      previous.dates = current.dates;
+      previous.except.push(...current.except);
+    } else if (previous && !hasSelector(current) && !hasValue(current)) {
+      previous.except.push(...current.except);
+    } else {
+      merged.push(current);
+    }
+  }
+
+  return { groups: merged, byAppointment };
+}
+
+/**
+ * Parse opening hours from free text (German or English prose, schema.org
+ * or OSM notation, Google weekday text)
+ */
+export function parseOpeningHoursText(text: string): OpeningHours | null {
+  const { groups, byAppointment } = groupItems(resolveTokens(tokenize(text)));
+  const draft = createDraft();
+  draft.byAppointment = byAppointment;
+
+  for (const group of groups) {
+    if (!hasValue(group)) continue;
+
+    const intervals = group.always
+      ? [{ from: 0, to: DAY_MINUTES }]
+      : group.intervals.length > 0 ? mergeIntervals(group.intervals) : [];
+
+    for (const date of group.dates) setException(draft, date, intervals);
+
+    if (group.days.length > 0 || group.dates.length === 0) {
+      const selected = group.days.length > 0 ? group.days : [...WEEKDAYS];
+      const days = WEEKDAYS.filter((day) => selected.includes(day) && !group.except.includes(day));
+      setDays(draft, days, intervals, group.season);
+    }
+  }
+
+  return finishDraft(draft);
+}
+
+// =============================================================================
+// schema.org OpeningHoursSpecification
+// =============================================================================
+
+function parseSpecTime(value: unknown): number | undefined {
+  const match = typeof value === 'string' ? /^(\d{1,2}):(\d{2})/.exec(value) : null;
+  return match ? +match[1] * 60 + +match[2] : undefined;
+}
+
+function specDays(value: unknown): Array<Weekday | 'PH'> {
+  const values = Array.isArray(value) ? value : value ? [value] : [];
+
+  return values.flatMap((entry) => {
+    const name = String(entry).replace(/^https?:\/\/schema\.org\//i, '').toLowerCase();
+    if (name === 'publicholidays') return ['PH' as const];
+    const day = lookupDay(name);
+    return day ? [day] : [];
+  });
+}
+
+function specDate(value: unknown): { iso: string; monthDay: string } | undefined {
+  const match = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})/.exec(value) : null;
+  return match ? { iso: `${match[1]}-${match[2]}-${match[3]}`, monthDay: `${match[2]}-${match[3]}` } : undefined;
+}
+
+/**
+ * Parse schema.org OpeningHoursSpecification objects. Specifications of
+ * the same day add up; validFrom/validThrough make them seasonal, or a
+ * one-day exception.
+ */
+export function parseOpeningHoursSpecification(specs: Array<Record<string, unknown>>): OpeningHours | null {
+  const draft = createDraft();
+
+  for (const spec of specs) {
+    const opens = parseSpecTime(spec.opens);
+    const closes = parseSpecTime(spec.closes);
+    let intervals: TimeInterval[];
+
+    if (opens === undefined || closes === undefined) continue;
+    if (opens === 0 && closes === 0) intervals = []; // schema.org: closed all day
+    else if (closes === 23 * 60 + 59) intervals = [{ from: opens, to: DAY_MINUTES }];
+    else intervals = [interval(opens, closes)];
+
+    const from = specDate(spec.validFrom);
+    const through = specDate(spec.validThrough);
+    const days = specDays(spec.dayOfWeek);
+
+    if (from && (!through || through.iso === from.iso)) {
+      setException(draft, from.iso, intervals, true);
+      continue;
+    }
+
+    const season = from && through ? { from: from.monthDay, to: through.monthDay } : undefined;
+    const weekdays = days.filter((day): day is Weekday => day !== 'PH');
+
+    if (days.includes('PH')) setException(draft, 'PH', intervals, true);
+    if (weekdays.length > 0) setDays(draft, weekdays, intervals, season, true);
+  }
+
+  return finishDraft(draft);
+}
+
+// =============================================================================
+// Google Places periods
+// =============================================================================
+
+function googleTime(time: string): number {
+  return parseInt(time.slice(0, 2), 10) * 60 + parseInt(time.slice(2, 4), 10);
+}
+
+/**
+ * Parse Google Places opening_hours.periods
+ */
+export function parseGooglePeriods(periods: GooglePeriod[]): OpeningHours | null {
+  const draft = createDraft();
+
+  // A single period without close means open around the clock
+  if (periods.length === 1 && !periods[0].close) {
+    setDays(draft, [...WEEKDAYS], [{ from: 0, to: DAY_MINUTES }]);
+    return finishDraft(draft);
+  }
+
+  for (const { open, close } of periods) {
+    if (!close) continue;
+
+    const day = WEEKDAYS[(open.day + 6) % 7];
+    const from = googleTime(open.time);
+    const to = googleTime(close.time) + ((close.day - open.day + 7) % 7) * DAY_MINUTES;
+    setDays(draft, [day], [{ from, to: to > from ? to : to + 7 * DAY_MINUTES }], undefined, true);
+  }
+
+  return finishDraft(draft);
+}
+
+// =============================================================================
+// Any source
+// =============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function combine(a: OpeningHours | null, b: OpeningHours | null): OpeningHours | null {
+  if (!a || !b) return a ?? b;
+  return {
+    rules: [...a.rules, ...b.rules],
+    exceptions: [...a.exceptions, ...b.exceptions],
+    byAppointment: a.byAppointment || b.byAppointment,
+  };
+}
+
+/**
+ * Parse opening hours in any of the known shapes: text, text lines
+ * (weekday text, schema.org openingHours), specification objects or
+ * Google periods
+ */
+export function parseOpeningHours(value: unknown): OpeningHours | null {
+  if (typeof value === 'string') return value.trim() ? parseOpeningHoursText(value) : null;
+
+  if (isRecord(value)) {
+    if (Array.isArray(value.periods)) return parseGooglePeriods(value.periods as GooglePeriod[]);
+    if (Array.isArray(value.weekdayText)) return parseOpeningHours(value.weekdayText);
+    return parseOpeningHours([value]);
+  }
+
+  if (!Array.isArray(value) || value.length === 0) return null;
+
+  const texts = value.filter((entry): entry is string => typeof entry === 'string');
+  const objects = value.filter(isRecord);
+  const fromText = texts.length > 0 ? parseOpeningHoursText(texts.join('\n')) : null;
+
+  if (objects.length === 0) return fromText;
+  if (objects.every((entry) => isRecord(entry.open))) return combine(fromText, parseGooglePeriods(objects as unknown as GooglePeriod[]));
+  return combine(fromText, parseOpeningHoursSpecification(objects));
+}
+
+// =============================================================================
+// Schedules, OSM syntax and comparison
+// =============================================================================
+
+/**
+ * Hours of every weekday, all year or within a season
+ */
+export function weeklySchedule(hours: OpeningHours, season?: Season): Record<Weekday, TimeInterval[]> {
+  const schedule = Object.fromEntries(WEEKDAYS.map((day) => [day, [] as TimeInterval[]])) as Record<Weekday, TimeInterval[]>;
+
+  const rules = [
+    ...hours.rules.filter((rule) => !rule.season),
+    ...(season ? hours.rules.filter((rule) => seasonKey(rule.season) === seasonKey(season)) : []),
+  ];
+  for (const rule of rules) {
+    for (const day of rule.days) schedule[day] = rule.intervals;
+  }
+
+  return schedule;
+}
+
+function seasonsOf(hours: OpeningHours): Season[] {
+  const seasons = new Map<string, Season>();
+  for (const rule of hours.rules) if (rule.season) seasons.set(seasonKey(rule.season), rule.season);
+  return Array.from(seasons.values());
+}
+
+/**
+ * OSM day selector: runs of three or more days as ranges ("Mo-Fr")
+ */
+function formatDays(days: Weekday[]): string {
+  const indexes = days.map((day) => WEEKDAYS.indexOf(day)).sort((a, b) => a - b);
+  const parts: string[] = [];
+
+  for (let i = 0; i < indexes.length; ) {
+    let j = i;
+    while (j + 1 < indexes.length && indexes[j + 1] === indexes[j] + 1) j++;
+
+    if (j - i >= 2) parts.push(`${WEEKDAYS[indexes[i]]}-${WEEKDAYS[indexes[j]]}`);
+    else parts.push(...indexes.slice(i, j + 1).map((index) => WEEKDAYS[index]));
+    i = j + 1;
+  }
+
+  return parts.join(',');
+}
+
+function formatRules(rules: OpeningHoursRule[], prefix = ''): string[] {
+  const grouped = new Map<string, Weekday[]>();
+
+  for (const day of WEEKDAYS) {
+    const rule = [...rules].reverse().find((r) => r.days.includes(day));
+    if (!rule || (!prefix && rule.intervals.length === 0)) continue;
+
+    const hours = formatIntervals(rule.intervals);
+    grouped.set(hours, [...(grouped.get(hours) ?? []), day]);
+  }
+
+  return Array.from(grouped.entries()).map(([hours, days]) => `${prefix}${formatDays(days)} ${hours}`);
+}
+
+/**
+ * Serialize to OSM opening_hours syntax
+ */
+export function toOsmOpeningHours(hours: OpeningHours): string {
+  const base = hours.rules.filter((rule) => !rule.season);
+  const seasons = seasonsOf(hours);
+
+  const schedule = weeklySchedule(hours);
+  const alwaysOpen = seasons.length === 0 && hours.exceptions.length === 0 &&
+    WEEKDAYS.every((day) => formatIntervals(schedule[day]) === '00:00-24:00');
+
+  const parts = alwaysOpen ? ['24/7'] : [
+    ...formatRules(base),
+    ...seasons.flatMap((season) => formatRules(
+      hours.rules.filter((rule) => seasonKey(rule.season) === seasonKey(season)),
+      `${formatSeason(season)} `
+    )),
+    ...hours.exceptions.map(({ date, intervals }) => `${formatExceptionDate(date)} ${formatIntervals(intervals)}`),
+  ];
+
+  if (hours.byAppointment) parts.push('"by appointment"');
+  return parts.join('; ');
+}
+
+/**
+ * Compare two opening hours day by day. Seasons are compared when both
+ * sides know them; against a side without seasons only the season in
+ * effect on the given date counts. Exceptions count only when both sides
+ * state them.
+ */
+export function compareOpeningHours(a: OpeningHours, b: OpeningHours, on = new Date()): OpeningHoursDifference[] {
+  const seasonsA = seasonsOf(a);
+  const seasonsB = seasonsOf(b);
+  const both = seasonsA.length > 0 && seasonsB.length > 0;
+
+  const seasons = new Map<string, Season>();
+  for (const season of [...seasonsA, ...seasonsB]) {
+    if (both || seasonActiveOn(season, on)) seasons.set(seasonKey(season), season);
+  }
+
+  const differences: OpeningHoursDifference[] = [];
+  const scopes: Array<Season | undefined> = seasons.size > 0 ? Array.from(seasons.values()) : [undefined];
+
+  for (const season of scopes) {
+    const left = weeklySchedule(a, season);
+    const right = weeklySchedule(b, season);
+
+    for (const day of WEEKDAYS) {
+      const hoursA = formatIntervals(left[day]);
+      const hoursB = formatIntervals(right[day]);
+      if (hoursA !== hoursB) differences.push({ scope: season ? `${formatSeason(season)} ${day}` : day, a: hoursA, b: hoursB });
+    }
+  }
+
+  for (const exception of a.exceptions) {
+    const other = b.exceptions.find((e) => e.date === exception.date);
+    if (!other) continue;
+
+    const hoursA = formatIntervals(exception.intervals);
+    const hoursB = formatIntervals(other.intervals);
+    if (hoursA !== hoursB) differences.push({ scope: formatExceptionDate(exception.date), a: hoursA, b: hoursB });
+  }
+
+  return differences;
+}
+
+export interface OpeningHoursSourceComparison {
+  osm: Record<string, string | null>; // OSM syntax per source, null when absent or unparseable
+  comparisons: Array<{ sources: [string, string]; differences: OpeningHoursDifference[] }>;
+}
+
+/**
+ * Parse and compare the opening hours of all sources against the first
+ * one available (TLDB, then website)
+ */
+export function compareOpeningHoursSources(values: Record<string, unknown>, on = new Date()): OpeningHoursSourceComparison {
+  const parsed = Object.entries(values).map(([source, value]) => [source, parseOpeningHours(value)] as const);
+  const osm = Object.fromEntries(parsed.map(([source, hours]) => [source, hours ? toOsmOpeningHours(hours) : null]));
+
+  const available = parsed.filter((entry): entry is readonly [string, OpeningHours] => entry[1] !== null);
+  const [reference, ...others] = available;
+
+  return {
+    osm,
+    comparisons: reference
+      ? others.map(([source, hours]) => ({
+          sources: [reference[0], source] as [string, string],
+          differences: compareOpeningHours(reference[1], hours, on),
+        }))
+      : [],
+  };
+}
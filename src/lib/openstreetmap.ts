@@ -0,0 +1,229 @@
+import { createLogger } from './logger';
+import { retry, sleep } from './utils';
+import type { PlaceSearchResult } from './google-places';
+import type { MapsData, MapsPlaceQuery, MapsProvider } from './maps-provider';
+
+const logger = createLogger('openstreetmap');
+
+/**
+ * OpenStreetMap client: place search via Nominatim, tags via Overpass.
+ * Both base URLs are configurable to point at self-hosted instances.
+ */
+
+const NOMINATIM_URL = (process.env.OSM_NOMINATIM_URL || 'https://nominatim.openstreetmap.org').replace(/\/$/, '');
+const OVERPASS_URL = process.env.OSM_OVERPASS_URL || 'https://overpass-api.de/api/interpreter';
+const USER_AGENT = process.env.OSM_USER_AGENT || 'LDB-DataGuard/1.0';
+
+/**
+ * Public instances allow about one request per second
+ */
+const MIN_INTERVAL_MS = parseInt(process.env.OSM_MIN_INTERVAL_MS || '1000', 10);
+
+let lastRequestAt = 0;
+
+async function osmFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const wait = lastRequestAt + MIN_INTERVAL_MS - Date.now();
+  if (wait > 0) await sleep(wait);
+  lastRequestAt = Date.now();
+
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'User-Agent': USER_AGENT, Accept: 'application/json', ...init.headers },
+  });
+  if (!response.ok) throw new Error(`OSM request failed: HTTP ${response.status}`);
+  return response;
+}
+
+/**
+ * Google place types of OSM tags, so place matching can check the category
+ */
+const OSM_TYPES: Record<string, string[]> = {
+  'tourism=hotel': ['lodging'],
+  'tourism=guest_house': ['lodging'],
+  'tourism=hostel': ['lodging'],
+  'tourism=apartment': ['lodging'],
+  'tourism=chalet': ['lodging'],
+  'tourism=camp_site': ['campground'],
+  'tourism=caravan_site': ['rv_park'],
+  'tourism=museum': ['museum'],
+  'tourism=gallery': ['art_gallery'],
+  'tourism=zoo': ['zoo'],
+  'tourism=theme_park': ['amusement_park'],
+  'tourism=attraction': ['tourist_attraction'],
+  'tourism=viewpoint': ['tourist_attraction'],
+  'tourism=information': ['tourist_attraction'],
+  'amenity=restaurant': ['restaurant'],
+  'amenity=fast_food': ['meal_takeaway'],
+  'amenity=cafe': ['cafe'],
+  'amenity=bar': ['bar'],
+  'amenity=pub': ['bar'],
+  'amenity=biergarten': ['bar'],
+  'amenity=nightclub': ['night_club'],
+  'amenity=theatre': ['performing_arts_theater'],
+  'amenity=cinema': ['movie_theater'],
+  'amenity=place_of_worship': ['place_of_worship', 'church'],
+  'shop=bakery': ['bakery'],
+  'leisure=water_park': ['spa'],
+  'leisure=swimming_pool': ['gym'],
+  'historic=castle': ['tourist_attraction'],
+  'historic=monument': ['tourist_attraction'],
+};
+
+/**
+ * Place types of an OSM feature, most specific first
+ */
+export function osmPlaceTypes(key: string, value: string): string[] {
+  return OSM_TYPES[`${key}=${value}`] ?? [value];
+}
+
+/**
+ * Lifecycle prefixes of features that no longer operate
+ */
+const CLOSED_PREFIXES = ['disused:', 'abandoned:', 'was:', 'demolished:', 'razed:'];
+
+const FEATURE_KEYS = ['tourism', 'amenity', 'leisure', 'shop', 'historic', 'craft', 'office'];
+
+interface NominatimResult {
+  osm_type: string;
+  osm_id: number;
+  lat: string;
+  lon: string;
+  category?: string;
+  class?: string;
+  type: string;
+  name?: string;
+  display_name: string;
+  namedetails?: Record<string, string>;
+}
+
+/**
+ * Search result of a Nominatim hit
+ */
+export function nominatimToSearchResult(result: NominatimResult): PlaceSearchResult {
+  return {
+    placeId: `${result.osm_type}/${result.osm_id}`,
+    name: result.namedetails?.name || result.name || result.display_name.split(',')[0],
+    address: result.display_name,
+    location: { lat: parseFloat(result.lat), lng: parseFloat(result.lon) },
+    types: osmPlaceTypes(result.category ?? result.class ?? '', result.type),
+  };
+}
+
+interface OverpassElement {
+  type: string;
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string>;
+}
+
+/**
+ * Normalized map data of an OSM feature
+ */
+export function osmElementToMapsData(element: OverpassElement): MapsData {
+  const tags = element.tags ?? {};
+  const tag = (...keys: string[]) => keys.map((key) => tags[key]).find(Boolean);
+
+  const street = [tags['addr:street'], tags['addr:housenumber']].filter(Boolean).join(' ');
+  const locality = [tags['addr:postcode'], tags['addr:city']].filter(Boolean).join(' ');
+  const address = [street, locality].filter(Boolean).join(', ');
+
+  const feature = FEATURE_KEYS.find((key) => tags[key]);
+  const closed = Object.keys(tags).some((key) => CLOSED_PREFIXES.some((prefix) => key.startsWith(prefix)));
+  const lat = element.lat ?? element.center?.lat;
+  const lon = element.lon ?? element.center?.lon;
+
+  return {
+    provider: 'osm',
+    placeId: `${element.type}/${element.id}`,
+    name: tags.name,
+    address: address || undefined,
+    phone: tag('phone', 'contact:phone'),
+    email: tag('email', 'contact:email'),
+    website: tag('website', 'contact:website', 'url'),
+    latitude: lat,
+    longitude: lon,
+    openingHours: tags.opening_hours,
+    mapUrl: `https://www.openstreetmap.org/${element.type}/${element.id}`,
+    // Missing lifecycle tags do not prove a business is open: left to other providers
+    businessStatus: closed ? 'CLOSED_PERMANENTLY' : undefined,
+    types: feature ? osmPlaceTypes(feature, tags[feature]) : [],
+  };
+}
+
+/**
+ * Find OSM features by name and address, biased towards the TLDB
+ * coordinates when known
+ */
+export async function searchOsmPlaces(query: MapsPlaceQuery): Promise<PlaceSearchResult[]> {
+  const url = new URL(`${NOMINATIM_URL}/search`);
+  url.searchParams.set('q', `${query.name}, ${query.address}`);
+  url.searchParams.set('format', 'jsonv2');
+  url.searchParams.set('namedetails', '1');
+  url.searchParams.set('limit', '5');
+  if (query.location) {
+    const { lat, lng } = query.location;
+    url.searchParams.set('viewbox', [lng - 0.02, lat + 0.02, lng + 0.02, lat - 0.02].join(','));
+  }
+
+  return retry(
+    async () => {
+      const response = await osmFetch(url.toString());
+      const results = (await response.json()) as NominatimResult[];
+
+      logger.info({ query: query.name, candidates: results.length }, 'OSM candidates found');
+      return results.map(nominatimToSearchResult);
+    },
+    {
+      maxAttempts: 3,
+      baseDelay: 2000,
+      onRetry: (error, attempt) => {
+        logger.warn({ error: error.message, attempt }, 'Retrying searchOsmPlaces');
+      },
+    }
+  );
+}
+
+/**
+ * Tags of an OSM feature ("node/123", "way/456", "relation/789")
+ */
+export async function getOsmPlace(osmId: string): Promise<MapsData | null> {
+  const match = /^(node|way|relation)\/(\d+)$/.exec(osmId);
+  if (!match) {
+    logger.warn({ osmId }, 'Invalid OSM ID');
+    return null;
+  }
+
+  return retry(
+    async () => {
+      const response = await osmFetch(OVERPASS_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ data: `[out:json][timeout:25];${match[1]}(${match[2]});out tags center;` }).toString(),
+      });
+      const data = (await response.json()) as { elements?: OverpassElement[] };
+      const element = data.elements?.[0];
+
+      if (!element) {
+        logger.warn({ osmId }, 'OSM feature not found');
+        return null;
+      }
+
+      return osmElementToMapsData(element);
+    },
+    {
+      maxAttempts: 3,
+      baseDelay: 2000,
+      onRetry: (error, attempt) => {
+        logger.warn({ error: error.message, attempt }, 'Retrying getOsmPlace');
+      },
+    }
+  );
+}
+
+export const osmMapsProvider: MapsProvider = {
+  name: 'osm',
+  findCandidates: (query) => searchOsmPlaces(query),
+  getDetails: (placeId) => getOsmPlace(placeId),
+};
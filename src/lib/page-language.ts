@@ -0,0 +1,243 @@
+import { parseHtml, findElements, htmlToText } from './html';
+import { normalizeUrl } from './utils';
+
+/**
+ * Page language detection and hreflang alternates
+ * German and English versions of a page are grouped, so values can be
+ * kept per language and compared against the matching TLDB language.
+ */
+
+/**
+ * Languages crawled and compared; the first one is the primary language
+ */
+export const CRAWL_LANGUAGES = (process.env.SCRAPER_LANGUAGES || 'de,en')
+  .split(',')
+  .map((language) => language.trim().toLowerCase())
+  .filter(Boolean);
+
+export type LanguageSource = 'html_lang' | 'content_language' | 'url' | 'content';
+
+export interface PageLanguage {
+  language: string | null;
+  source?: LanguageSource;
+}
+
+/**
+ * Alternate language version of a page (<link rel="alternate" hreflang>)
+ */
+export interface PageAlternate {
+  language: string; // Primary subtag, or "x-default"
+  url: string;
+}
+
+/**
+ * Language path prefixes like /en/ or /de-at/
+ */
+const LANGUAGE_PATH = /^\/([a-z]{2})(?:[-_][a-z]{2})?(?:\/|$)/i;
+
+/**
+ * Frequent short words per language for content detection
+ */
+const STOPWORDS: Record<string, string[]> = {
+  de: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'mit', 'für', 'auf', 'sie', 'wir', 'uhr', 'unsere', 'ein', 'eine', 'bei', 'zum', 'zur'],
+  en: ['the', 'and', 'is', 'are', 'with', 'for', 'you', 'our', 'we', 'of', 'to', 'from', 'this', 'your', 'opening', 'hours'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'des', 'pour', 'avec', 'nous', 'vous', 'une', 'dans', 'sur', 'du'],
+  it: ['il', 'la', 'che', 'di', 'per', 'con', 'una', 'sono', 'del', 'della', 'nel', 'alla', 'gli'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'voor', 'met', 'zijn', 'wij', 'onze', 'op', 'niet', 'uw'],
+};
+
+const MIN_STOPWORD_HITS = 5;
+
+/**
+ * Primary subtag of a language tag ("de-AT" -> "de")
+ */
+export function primaryLanguage(tag: string | null | undefined): string | null {
+  const match = (tag || '').trim().toLowerCase().match(/^([a-z]{2,3})(?:[-_]|$)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Language from a path prefix like /en/
+ */
+export function languageFromUrl(url: string): string | null {
+  try {
+    return LANGUAGE_PATH.exec(new URL(url).pathname)?.[1].toLowerCase() ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Guess the language of a text from stopword frequencies
+ */
+export function detectTextLanguage(text: string): string | null {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/\p{L}+/gu)?.slice(0, 2000) ?? []) {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+
+  let best: string | null = null;
+  let bestHits = MIN_STOPWORD_HITS - 1;
+
+  for (const [language, words] of Object.entries(STOPWORDS)) {
+    const hits = words.reduce((sum, word) => sum + (counts.get(word) ?? 0), 0);
+    if (hits > bestHits) {
+      best = language;
+      bestHits = hits;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Detect the language of a page: html lang, Content-Language meta,
+ * URL prefix, then the text itself
+ */
+export function detectPageLanguage(html: string, url: string, text?: string): PageLanguage {
+  if (html) {
+    const root = parseHtml(html.slice(0, 200000));
+    const htmlElement = findElements(root, (element) => element.tag === 'html')[0];
+    const htmlLang = primaryLanguage(htmlElement?.attrs.lang || htmlElement?.attrs['xml:lang']);
+    if (htmlLang) return { language: htmlLang, source: 'html_lang' };
+
+    const meta = findElements(
+      root,
+      (element) => element.tag === 'meta' && element.attrs['http-equiv']?.toLowerCase() === 'content-language'
+    )[0];
+    const metaLang = primaryLanguage(meta?.attrs.content);
+    if (metaLang) return { language: metaLang, source: 'content_language' };
+  }
+
+  const urlLang = languageFromUrl(url);
+  if (urlLang) return { language: urlLang, source: 'url' };
+
+  const contentLang = detectTextLanguage(text ?? htmlToText(html));
+  return contentLang ? { language: contentLang, source: 'content' } : { language: null };
+}
+
+/**
+ * hreflang alternates declared in the page head
+ */
+export function extractAlternates(html: string, baseUrl: string): PageAlternate[] {
+  const links = findElements(
+    parseHtml(html.slice(0, 200000)),
+    (element) => element.tag === 'link'
+      && /\balternate\b/i.test(element.attrs.rel || '')
+      && Boolean(element.attrs.hreflang && element.attrs.href)
+  );
+
+  const alternates = new Map<string, PageAlternate>();
+
+  for (const link of links) {
+    const hreflang = link.attrs.hreflang.trim().toLowerCase();
+    const language = hreflang === 'x-default' ? hreflang : primaryLanguage(hreflang);
+    if (!language) continue;
+
+    try {
+      const url = normalizeUrl(new URL(link.attrs.href, baseUrl).href);
+      // Keep the first URL per language (de-DE before de-AT)
+      if (!alternates.has(language)) alternates.set(language, { language, url });
+    } catch {
+      // Invalid URL, skip
+    }
+  }
+
+  return Array.from(alternates.values());
+}
+
+/**
+ * Key shared by all language versions of a page: the smallest URL of the
+ * alternate set, so every version computes the same key
+ */
+export function languageGroupKey(url: string, alternates: PageAlternate[]): string {
+  const urls = [normalizeUrl(url), ...alternates.filter((a) => a.language !== 'x-default').map((a) => a.url)];
+  return urls.sort()[0];
+}
+
+/**
+ * Language versions per group: { groupKey: { de: url, en: url } }
+ */
+export function groupLanguageVersions(
+  pages: Array<{ url: string; language?: string | null; languageGroup?: string; error?: string }>
+): Record<string, Record<string, string>> {
+  const groups: Record<string, Record<string, string>> = {};
+
+  for (const page of pages) {
+    if (page.error || !page.language || !page.languageGroup) continue;
+    const group = (groups[page.languageGroup] ??= {});
+    group[page.language] ??= page.url;
+  }
+
+  // Only groups with more than one language are interesting
+  return Object.fromEntries(Object.entries(groups).filter(([, versions]) => Object.keys(versions).length > 1));
+}
+
+/**
+ * Sort pages so the primary language comes first, then the other crawl
+ * languages, then pages of unknown or other languages
+ */
+export function sortByLanguagePreference<T extends { language?: string | null }>(
+  pages: T[],
+  languages = CRAWL_LANGUAGES
+): T[] {
+  const rank = (language?: string | null) => {
+    const index = language ? languages.indexOf(language) : -1;
+    return index >= 0 ? index : languages.length;
+  };
+
+  return [...pages].sort((a, b) => rank(a.language) - rank(b.language));
+}
+
+/**
+ * Crawl decision for a URL in a given (or URL-derived) language
+ */
+export function languagePolicy(
+  url: string,
+  language: string | null = languageFromUrl(url),
+  languages = CRAWL_LANGUAGES
+): 'primary' | 'secondary' | 'skip' | 'unknown' {
+  if (!language || language === 'x-default') return 'unknown';
+  if (language === languages[0]) return 'primary';
+  return languages.includes(language) ? 'secondary' : 'skip';
+}
+
+/**
+ * TLDB value of a localized field in a language: { de, en } objects or
+ * suffixed keys like description_en
+ */
+export function tldbValueForLanguage(
+  tldbData: Record<string, unknown>,
+  field: string,
+  language: string
+): unknown {
+  const value = tldbData[field];
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return (value as Record<string, unknown>)[language];
+  }
+
+  return tldbData[`${field}_${language}`] ?? (language === CRAWL_LANGUAGES[0] ? value : undefined);
+}
+
+/**
+ * Website and TLDB values of localized fields, paired by language
+ */
+export function pairLocalizedValues(
+  fields: string[],
+  tldbData: Record<string, unknown>,
+  websiteData: Record<string, unknown>
+): Array<{ field: string; language: string; tldbValue: unknown; websiteValue: unknown }> {
+  const byLanguage = (websiteData.byLanguage as Record<string, Record<string, unknown>>) ?? {};
+  const pairs: Array<{ field: string; language: string; tldbValue: unknown; websiteValue: unknown }> = [];
+
+  for (const field of fields) {
+    for (const language of CRAWL_LANGUAGES) {
+      const tldbValue = tldbValueForLanguage(tldbData, field, language);
+      const websiteValue = byLanguage[language]?.[field];
+      if (tldbValue === undefined && websiteValue === undefined) continue;
+      pairs.push({ field, language, tldbValue: tldbValue ?? null, websiteValue: websiteValue ?? null });
+    }
+  }
+
+  return pairs;
+}
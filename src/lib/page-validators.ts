@@ -0,0 +1,134 @@
+import { createHash } from './utils';
+
+/**
+ * HTTP validators for conditional re-crawling
+ * A page counts as unchanged when the server answers 304 Not Modified
+ * or the normalized content hash matches the previous crawl.
+ */
+
+/**
+ * Validators stored per crawled URL
+ */
+export interface PageValidators {
+  etag?: string | null;
+  lastModified?: string | null;
+  contentHash?: string | null;
+}
+
+/**
+ * Result of a conditional request
+ */
+export interface FreshnessCheck {
+  status: 'unchanged' | 'changed' | 'unknown';
+  statusCode: number;
+  validators: PageValidators;
+}
+
+/**
+ * Strip markup that changes on every request (comments, nonces, CSRF tokens,
+ * cache busters) so the hash only reflects real content changes
+ */
+export function normalizeHtmlForHash(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/\s(?:nonce|data-nonce|integrity)\s*=\s*("[^"]*"|'[^']*')/gi, '')
+    .replace(/<meta[^>]+name\s*=\s*["']?(?:csrf-token|csrf-param|_token)["']?[^>]*>/gi, '')
+    .replace(/<input[^>]+name\s*=\s*["']?(?:_token|csrf[\w-]*|__RequestVerificationToken|form_build_id)["']?[^>]*>/gi, '')
+    .replace(/([?&](?:v|ver|version|t|ts|_)=)[\w.-]+/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalized content hash of a raw HTML response
+ */
+export async function contentHash(html: string): Promise<string> {
+  return createHash(normalizeHtmlForHash(html));
+}
+
+/**
+ * Request headers for a conditional GET
+ */
+export function conditionalHeaders(validators: PageValidators): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (validators.etag) headers['If-None-Match'] = validators.etag;
+  if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+  return headers;
+}
+
+/**
+ * Validators from response headers and body
+ */
+export async function validatorsFromResponse(
+  headers: Record<string, string | null | undefined>,
+  body: string
+): Promise<PageValidators> {
+  return {
+    etag: headers['etag'] || null,
+    lastModified: headers['last-modified'] || null,
+    contentHash: body ? await contentHash(body) : null,
+  };
+}
+
+/**
+ * Send a conditional GET and compare the result with the previous crawl
+ */
+export async function checkFreshness(
+  url: string,
+  previous: PageValidators,
+  options: { userAgent: string; timeout?: number }
+): Promise<FreshnessCheck> {
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': options.userAgent,
+        Accept: 'text/html,application/xhtml+xml',
+        ...conditionalHeaders(previous),
+      },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(options.timeout ?? 15000),
+    });
+
+    if (response.status === 304) {
+      return {
+        status: 'unchanged',
+        statusCode: 304,
+        validators: {
+          ...previous,
+          etag: response.headers.get('etag') || previous.etag,
+          lastModified: response.headers.get('last-modified') || previous.lastModified,
+        },
+      };
+    }
+
+    if (!response.ok) {
+      return { status: 'unknown', statusCode: response.status, validators: {} };
+    }
+
+    const validators = await validatorsFromResponse(
+      { etag: response.headers.get('etag'), 'last-modified': response.headers.get('last-modified') },
+      await response.text()
+    );
+    const unchanged = Boolean(previous.contentHash) && validators.contentHash === previous.contentHash;
+
+    return { status: unchanged ? 'unchanged' : 'changed', statusCode: response.status, validators };
+  } catch {
+    return { status: 'unknown', statusCode: 0, validators: {} };
+  }
+}
+
+/**
+ * Whether a crawl left the site unchanged: every page fetched is unchanged
+ * and every page the stored website data was extracted from came back.
+ * A known page that vanished or now errors counts as a change.
+ */
+export function isCrawlUnchanged(
+  pages: Array<{ url: string; unchanged?: boolean; error?: string }>,
+  knownUrls: string[] | undefined
+): boolean {
+  const crawled = pages.filter((page) => !page.error);
+  if (!knownUrls || crawled.length === 0 || !crawled.every((page) => page.unchanged)) return false;
+
+  const crawledUrls = new Set(crawled.map((page) => page.url));
+  return knownUrls.every((url) => crawledUrls.has(url));
+}
@@ -0,0 +1,247 @@
+import type { PlaceSearchResult } from './google-places';
+
+/**
+ * Match a POI against Google Places candidates
+ * Each candidate is scored by name similarity, distance to the TLDB
+ * coordinates, type compatibility with the POI category and address
+ * overlap. Only confident matches are used without a manual confirmation.
+ */
+
+export interface PlaceMatchInput {
+  name: string;
+  category?: string | null;
+  street?: string | null;
+  postalCode?: string | null;
+  city?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export interface PlaceMatchSignals {
+  name: number;
+  distance?: number; // Missing without TLDB coordinates
+  type?: number; // Missing without a known category
+  address?: number; // Missing without a TLDB address
+}
+
+export interface ScoredPlaceCandidate {
+  placeId: string;
+  name: string;
+  address: string;
+  types: string[];
+  distanceMeters?: number;
+  signals: PlaceMatchSignals;
+  confidence: number; // 0-1
+}
+
+export interface PlaceMatch {
+  status: 'matched' | 'review' | 'not_found';
+  best: ScoredPlaceCandidate | null;
+  candidates: ScoredPlaceCandidate[];
+}
+
+export const PLACE_MATCH_THRESHOLDS = {
+  accept: parseFloat(process.env.PLACES_MATCH_MIN_CONFIDENCE || '0.75'), // Used without confirmation
+  margin: parseFloat(process.env.PLACES_MATCH_MIN_MARGIN || '0.1'), // Lead over the runner-up
+};
+
+/**
+ * Days before a POI without a place is searched again; every search is billed
+ */
+export const PLACE_RESEARCH_DAYS = parseInt(process.env.PLACES_NOT_FOUND_RETRY_DAYS || '30', 10);
+
+const SIGNAL_WEIGHTS: Record<keyof PlaceMatchSignals, number> = {
+  name: 0.4,
+  distance: 0.3,
+  type: 0.15,
+  address: 0.15,
+};
+
+/**
+ * Distance at which the distance signal has dropped to ~37%
+ */
+const DISTANCE_SCALE_METERS = 250;
+
+/**
+ * Google place types per POI category keyword
+ */
+const CATEGORY_TYPES: Array<{ pattern: RegExp; types: string[] }> = [
+  { pattern: /hotel|pension|gasthof|gasthaus|herberge|hostel|ferienwohnung|unterkunft|apartment/i, types: ['lodging'] },
+  { pattern: /camping/i, types: ['campground', 'rv_park', 'lodging'] },
+  { pattern: /restaurant|gastst(?:ä|ae)tte|wirtshaus|imbiss|pizzeria|bistro/i, types: ['restaurant', 'meal_takeaway', 'food'] },
+  { pattern: /caf(?:é|e)|konditorei|b(?:ä|ae)ckerei/i, types: ['cafe', 'bakery', 'food', 'restaurant'] },
+  { pattern: /\bbar\b|kneipe|pub|brauerei/i, types: ['bar', 'night_club', 'restaurant'] },
+  { pattern: /museum|galerie|ausstellung/i, types: ['museum', 'art_gallery'] },
+  { pattern: /zoo|tierpark|wildpark/i, types: ['zoo'] },
+  { pattern: /freizeitpark|erlebnispark/i, types: ['amusement_park'] },
+  { pattern: /schwimmbad|therme|freibad|hallenbad/i, types: ['spa', 'gym'] },
+  { pattern: /kirche|\bdom\b|kloster|kapelle/i, types: ['church', 'place_of_worship'] },
+  { pattern: /theater|oper|kino/i, types: ['movie_theater', 'performing_arts_theater'] },
+  { pattern: /sehensw(?:ü|ue)rdigkeit|burg|schloss|denkmal|aussicht/i, types: ['tourist_attraction', 'point_of_interest'] },
+  { pattern: /touristinfo|tourist-info|information/i, types: ['travel_agency', 'tourist_attraction'] },
+];
+
+/**
+ * Words that say nothing about which business a name refers to
+ */
+const NAME_STOPWORDS = new Set(['gmbh', 'co', 'kg', 'ug', 'ohg', 'ek', 'und', 'the', 'der', 'die', 'das', 'am', 'an', 'im', 'in', 'zum', 'zur']);
+
+/**
+ * Lowercase ASCII text for comparisons: umlauts spelled out, accents and
+ * punctuation removed, "straße"/"str." shortened to "str"
+ */
+export function normalizeText(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/str(?:asse|\.)/g, 'str')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function tokens(value: string): string[] {
+  return normalizeText(value).split(' ').filter((token) => token && !NAME_STOPWORDS.has(token));
+}
+
+function bigrams(value: string): string[] {
+  const compact = tokens(value).join(' ');
+  return Array.from({ length: Math.max(0, compact.length - 1) }, (_, i) => compact.slice(i, i + 2));
+}
+
+/**
+ * Name similarity (0-1): character bigram overlap (Dice), so typos and
+ * word order matter little but extra words ("Restaurant im ...") do
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const gram of left) counts.set(gram, (counts.get(gram) ?? 0) + 1);
+
+  let shared = 0;
+  for (const gram of right) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  }
+
+  return (2 * shared) / (left.length + right.length);
+}
+
+/**
+ * Great-circle distance in meters
+ */
+export function distanceMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Google place types expected for a POI category
+ */
+export function expectedPlaceTypes(category: string | null | undefined): string[] {
+  if (!category) return [];
+  return Array.from(new Set(CATEGORY_TYPES.filter(({ pattern }) => pattern.test(category)).flatMap(({ types }) => types)));
+}
+
+/**
+ * Type compatibility (0-1): the candidate's primary type counts most
+ */
+function typeCompatibility(expected: string[], types: string[]): number {
+  if (types.length === 0) return 0.5;
+
+  const index = types.findIndex((type) => expected.includes(type));
+  if (index < 0) return 0;
+  return index === 0 ? 1 : 0.7;
+}
+
+/**
+ * Share of the TLDB address tokens (street, number, postcode, city)
+ * found in the candidate address
+ */
+function addressOverlap(poi: PlaceMatchInput, address: string): number | undefined {
+  const expected = tokens([poi.street, poi.postalCode, poi.city].filter(Boolean).join(' '));
+  if (expected.length === 0) return undefined;
+
+  const actual = new Set(tokens(address));
+  return expected.filter((token) => actual.has(token)).length / expected.length;
+}
+
+/**
+ * Score one candidate against the POI
+ */
+export function scorePlaceCandidate(poi: PlaceMatchInput, candidate: PlaceSearchResult): ScoredPlaceCandidate {
+  const signals: PlaceMatchSignals = { name: nameSimilarity(poi.name, candidate.name) };
+  let distance: number | undefined;
+
+  if (poi.latitude != null && poi.longitude != null && (candidate.location.lat || candidate.location.lng)) {
+    distance = distanceMeters({ lat: poi.latitude, lng: poi.longitude }, candidate.location);
+    signals.distance = Math.exp(-distance / DISTANCE_SCALE_METERS);
+  }
+
+  const expected = expectedPlaceTypes(poi.category);
+  if (expected.length > 0) signals.type = typeCompatibility(expected, candidate.types);
+
+  const address = addressOverlap(poi, candidate.address || '');
+  if (address !== undefined) signals.address = address;
+
+  // Weighted mean over the available signals
+  let weighted = 0;
+  let weights = 0;
+  for (const [signal, value] of Object.entries(signals) as Array<[keyof PlaceMatchSignals, number]>) {
+    weighted += SIGNAL_WEIGHTS[signal] * value;
+    weights += SIGNAL_WEIGHTS[signal];
+  }
+
+  return {
+    placeId: candidate.placeId,
+    name: candidate.name,
+    address: candidate.address,
+    types: candidate.types,
+    ...(distance !== undefined && { distanceMeters: Math.round(distance) }),
+    signals,
+    confidence: Math.round((weighted / weights) * 1000) / 1000,
+  };
+}
+
+/**
+ * Pick the best candidate. It is used without confirmation only when
+ * confident and clearly ahead of the runner-up.
+ */
+export function matchPlace(
+  poi: PlaceMatchInput,
+  candidates: PlaceSearchResult[],
+  thresholds = PLACE_MATCH_THRESHOLDS
+): PlaceMatch {
+  const scored = candidates
+    .map((candidate) => scorePlaceCandidate(poi, candidate))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const [best, runnerUp] = scored;
+  if (!best) return { status: 'not_found', best: null, candidates: [] };
+
+  const clear = !runnerUp || best.confidence - runnerUp.confidence >= thresholds.margin;
+  const status = best.confidence >= thresholds.accept && clear ? 'matched' : 'review';
+
+  return { status, best, candidates: scored };
+}
+
+/**
+ * Whether a POI whose last search found no place is due for another search
+ */
+export function isPlaceSearchDue(lastSearchAt: Date | null, now = new Date(), days = PLACE_RESEARCH_DAYS): boolean {
+  return !lastSearchAt || now.getTime() - lastSearchAt.getTime() >= days * 24 * 60 * 60 * 1000;
+}
@@ -0,0 +1,152 @@
+/**
+ * Google Places Details field masks, SKU costs and cache freshness
+ * Google bills Place Details per request by data SKU: the base (Basic
+ * fields included) plus Contact and Atmosphere when any of their fields
+ * is requested. We only request the fields of audited data fields and
+ * cache them per field with a TTL per group.
+ */
+
+export type PlaceFieldGroup = 'basic' | 'contact' | 'atmosphere';
+
+export const PLACE_FIELD_GROUPS: Record<PlaceFieldGroup, string[]> = {
+  basic: ['place_id', 'name', 'formatted_address', 'geometry', 'types', 'business_status', 'url'],
+  contact: ['formatted_phone_number', 'international_phone_number', 'website', 'opening_hours'],
+  atmosphere: ['price_level', 'rating', 'user_ratings_total', 'reviews'],
+};
+
+/**
+ * USD per Place Details request (base) and per additional data SKU
+ */
+export const PLACE_SKU_COSTS = {
+  details: 0.017,
+  contact: 0.003,
+  atmosphere: 0.005,
+};
+
+/**
+ * Cache TTL per field group (days)
+ */
+export const PLACE_CACHE_TTL_DAYS: Record<PlaceFieldGroup, number> = {
+  basic: parseInt(process.env.PLACES_CACHE_TTL_BASIC_DAYS || '30', 10),
+  contact: parseInt(process.env.PLACES_CACHE_TTL_CONTACT_DAYS || '7', 10),
+  atmosphere: parseInt(process.env.PLACES_CACHE_TTL_ATMOSPHERE_DAYS || '3', 10),
+};
+
+/**
+ * Fields refreshed sooner than their group: a closure should reach the
+ * audit within days, not with the basic fields a month later (days)
+ */
+export const PLACE_FIELD_TTL_DAYS: Record<string, number> = {
+  business_status: parseFloat(process.env.PLACES_CACHE_TTL_STATUS_DAYS || '1'),
+};
+
+/**
+ * Places fields needed to audit each data field
+ */
+const DATA_FIELD_PLACE_FIELDS: Record<string, string[]> = {
+  name: ['name'],
+  streetAddress: ['formatted_address'],
+  postalCode: ['formatted_address'],
+  addressLocality: ['formatted_address'],
+  addressRegion: ['formatted_address'],
+  addressCountry: ['formatted_address'],
+  geo: ['geometry'],
+  latitude: ['geometry'],
+  longitude: ['geometry'],
+  telephone: ['international_phone_number', 'formatted_phone_number'],
+  url: ['website'],
+  openingHours: ['opening_hours'],
+  priceRange: ['price_level'],
+  rating: ['rating', 'user_ratings_total'],
+  reviews: ['reviews'],
+};
+
+/**
+ * Group of a Places field
+ */
+export function placeFieldGroup(field: string): PlaceFieldGroup {
+  if (PLACE_FIELD_GROUPS.contact.includes(field)) return 'contact';
+  if (PLACE_FIELD_GROUPS.atmosphere.includes(field)) return 'atmosphere';
+  return 'basic';
+}
+
+/**
+ * Field mask for the audited data fields (every field when not given).
+ * Basic fields cost nothing on top of the request and are always included.
+ */
+export function placeFieldsForDataFields(dataFields?: string[]): string[] {
+  if (!dataFields) return Object.values(PLACE_FIELD_GROUPS).flat();
+
+  const fields = new Set(PLACE_FIELD_GROUPS.basic);
+  for (const name of dataFields) {
+    for (const field of DATA_FIELD_PLACE_FIELDS[name] ?? []) fields.add(field);
+  }
+  return Array.from(fields);
+}
+
+/**
+ * Data SKUs billed for a field mask
+ */
+export function placeDetailsSkus(fields: string[]): Array<'details' | 'contact' | 'atmosphere'> {
+  const groups = new Set(fields.map(placeFieldGroup));
+  return [
+    'details' as const,
+    ...(groups.has('contact') ? ['contact' as const] : []),
+    ...(groups.has('atmosphere') ? ['atmosphere' as const] : []),
+  ];
+}
+
+/**
+ * Cost of one Place Details request with a field mask
+ */
+export function placeDetailsCost(fields: string[]): number {
+  const cost = placeDetailsSkus(fields).reduce((sum, sku) => sum + PLACE_SKU_COSTS[sku], 0);
+  return Math.round(cost * 1000) / 1000;
+}
+
+/**
+ * Requested fields missing from the cache or older than their field or group TTL
+ */
+export function stalePlaceFields(
+  fields: string[],
+  fetchedAt: Record<string, string>,
+  now = new Date(),
+  ttlDays = PLACE_CACHE_TTL_DAYS,
+  fieldTtlDays = PLACE_FIELD_TTL_DAYS
+): string[] {
+  return fields.filter((field) => {
+    const fetched = fetchedAt[field] ? new Date(fetchedAt[field]).getTime() : NaN;
+    if (Number.isNaN(fetched)) return true;
+    const ttl = fieldTtlDays[field] ?? ttlDays[placeFieldGroup(field)];
+    return now.getTime() - fetched > ttl * 24 * 60 * 60 * 1000;
+  });
+}
+
+/**
+ * Request mask for a refresh: the stale fields plus the (free) basic fields
+ */
+export function placeRefreshFields(stale: string[]): string[] {
+  return Array.from(new Set([...PLACE_FIELD_GROUPS.basic, ...stale]));
+}
+
+/**
+ * Merge a fresh Details result into the cached one. Fields requested but
+ * absent from the result (e.g. no website) are cached as absent.
+ */
+export function mergeCachedPlace(
+  cached: { data: Record<string, unknown>; fetchedAt: Record<string, string> } | null,
+  result: Record<string, unknown>,
+  requested: string[],
+  now = new Date()
+): { data: Record<string, unknown>; fetchedAt: Record<string, string> } {
+  const data = { ...(cached?.data ?? {}) };
+  const fetchedAt = { ...(cached?.fetchedAt ?? {}) };
+
+  for (const field of requested) {
+    if (result[field] === undefined) delete data[field];
+    else data[field] = result[field];
+    fetchedAt[field] = now.toISOString();
+  }
+
+  return { data, fetchedAt };
+}
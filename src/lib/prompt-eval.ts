@@ -0,0 +1,300 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { normalizeText } from './place-matching';
+import {
+  calculateLlmCost,
+  completeStructured,
+  llmJsonSchema,
+  type LlmCompletion,
+  type LlmMessage,
+  type LlmProvider,
+  type LlmProviderName,
+} from './llm-provider';
+import { auditComparisonSchema, auditPromptMessages, type AuditComparison, type AuditPromptTemplate } from './prompts';
+import { omitFields, settleFieldsByRules } from './field-comparators';
+import type { MatchStatus } from './audit-scoring';
+
+/**
+ * Offline evaluation of audit prompts
+ * A prompt version and model are scored against a golden set of POIs
+ * with human-labelled match statuses per field: accuracy, cost and
+ * latency. As in production, fields the comparators settle are decided
+ * by rules and only the rest is sent to the model. Responses come from a
+ * live provider (and can be recorded), from recordings, or from a fake.
+ */
+
+const MATCH_STATUSES = ['match', 'partial_match', 'mismatch', 'missing_data'] as const;
+
+export const goldenAuditCaseSchema = z.object({
+  id: z.string().min(1),
+  note: z.string().optional(), // Why the labels are what they are
+  poiName: z.string(),
+  fields: z.array(z.object({
+    name: z.string(),
+    displayName: z.record(z.string()),
+    dataType: z.string(),
+  })).min(1),
+  tldb: z.record(z.unknown()),
+  website: z.record(z.unknown()),
+  maps: z.record(z.unknown()),
+  expected: z.record(z.enum(MATCH_STATUSES)),
+});
+
+export const goldenAuditSetSchema = z.object({
+  version: z.number().int(),
+  cases: z.array(goldenAuditCaseSchema).min(1),
+});
+
+export type GoldenAuditCase = z.infer<typeof goldenAuditCaseSchema>;
+
+/**
+ * Recorded response of one case, keyed by `${promptVersion}/${caseId}`
+ */
+export interface RecordedResponse {
+  provider: LlmProviderName; // Priced by its cost table on replay
+  promptHash: string;
+  content: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+}
+
+export type AuditRecordings = Record<string, RecordedResponse>;
+
+export function recordingKey(promptVersion: string, caseId: string): string {
+  return `${promptVersion}/${caseId}`;
+}
+
+/**
+ * Hash of the prompt messages; a recording made for other messages is stale
+ */
+export function promptHash(messages: LlmMessage[]): string {
+  return createHash('sha256').update(JSON.stringify(messages)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Provider answering from a recording
+ */
+export function replayLlmProvider(recording: RecordedResponse | undefined, messages: LlmMessage[]): LlmProvider {
+  return {
+    name: recording?.provider ?? 'local',
+    defaultModel: recording?.model ?? 'recorded',
+    supportsJsonSchema: true, // Recorded with the schema already applied
+    async complete() {
+      if (!recording) throw new Error('No recorded response');
+      if (recording.promptHash !== promptHash(messages)) throw new Error('Recorded response is stale, record again');
+      return {
+        content: recording.content,
+        model: recording.model,
+        inputTokens: recording.inputTokens,
+        outputTokens: recording.outputTokens,
+        latencyMs: recording.latencyMs,
+      };
+    },
+  };
+}
+
+/**
+ * Provider answering with a fixed function; tokens are estimated from length
+ */
+export function fakeLlmProvider(respond: (messages: LlmMessage[]) => unknown): LlmProvider {
+  return {
+    name: 'local',
+    defaultModel: 'fake',
+    supportsJsonSchema: true,
+    async complete({ messages }) {
+      const response = respond(messages);
+      const content = typeof response === 'string' ? response : JSON.stringify(response);
+      return {
+        content,
+        model: 'fake',
+        inputTokens: Math.ceil(messages.reduce((sum, m) => sum + m.content.length, 0) / 4),
+        outputTokens: Math.ceil(content.length / 4),
+      };
+    },
+  };
+}
+
+/**
+ * Baseline comparison without a model: values equal after text
+ * normalization match, anything else is a mismatch
+ */
+export function naiveAuditComparison(goldenCase: GoldenAuditCase): AuditComparison {
+  const text = (value: unknown) =>
+    value === undefined || value === null || value === '' ? null : typeof value === 'string' ? value : JSON.stringify(value);
+
+  return {
+    fieldComparisons: goldenCase.fields.map(({ name }) => {
+      const values = [text(goldenCase.tldb[name]), text(goldenCase.website[name]), text(goldenCase.maps[name])];
+      const normalized = values.map((value) => (value === null ? null : normalizeText(value)));
+      const present = normalized.filter((value): value is string => value !== null);
+      const matchStatus: MatchStatus = present.length < 2 ? 'missing_data' : new Set(present).size === 1 ? 'match' : 'mismatch';
+
+      return {
+        fieldName: name,
+        tldbValue: values[0],
+        websiteValue: values[1],
+        mapsValue: values[2],
+        normalizedTldb: normalized[0],
+        normalizedWebsite: normalized[1],
+        normalizedMaps: normalized[2],
+        matchStatus,
+        confidence: 1,
+        discrepancy: matchStatus === 'mismatch' ? 'Values differ' : null,
+      };
+    }),
+    summary: 'Naive comparison',
+    recommendations: [],
+  };
+}
+
+export interface AuditEvalReport {
+  promptVersion: string;
+  model: string;
+  cases: number;
+  fields: number;
+  ruleFields: number; // Settled by the comparators, not sent to the model
+  correct: number;
+  accuracy: number; // 0-1
+  byStatus: Record<MatchStatus, { expected: number; correct: number }>;
+  cost: number;
+  latency: { meanMs: number; p95Ms: number };
+  failures: Array<{ caseId: string; error: string }>;
+  errors: Array<{ caseId: string; field: string; expected: MatchStatus; actual: MatchStatus | null }>;
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+}
+
+/**
+ * Run a prompt version over the golden set. A case whose output stays
+ * invalid counts all its model-decided fields as wrong.
+ */
+export async function evaluateAuditPrompt(options: {
+  cases: GoldenAuditCase[];
+  prompt: AuditPromptTemplate;
+  provider: (goldenCase: GoldenAuditCase, messages: LlmMessage[]) => LlmProvider;
+  model?: string;
+  repairAttempts?: number;
+  onCompletion?: (goldenCase: GoldenAuditCase, messages: LlmMessage[], completion: LlmCompletion) => void;
+}): Promise<AuditEvalReport> {
+  const { cases, prompt, model, repairAttempts = 1, onCompletion } = options;
+  const jsonSchema = llmJsonSchema(auditComparisonSchema, 'audit_comparison');
+
+  const byStatus = Object.fromEntries(
+    MATCH_STATUSES.map((status) => [status, { expected: 0, correct: 0 }])
+  ) as AuditEvalReport['byStatus'];
+  const failures: AuditEvalReport['failures'] = [];
+  const errors: AuditEvalReport['errors'] = [];
+  const latencies: number[] = [];
+  let cost = 0;
+  let ruleFields = 0;
+  let usedModel = model ?? '';
+
+  for (const goldenCase of cases) {
+    const verdicts = settleFieldsByRules(goldenCase.fields, {
+      tldb: goldenCase.tldb,
+      website: goldenCase.website,
+      maps: goldenCase.maps,
+    });
+    const settled = verdicts.map((verdict) => verdict.fieldName);
+    const openFields = goldenCase.fields.filter((field) => !settled.includes(field.name));
+    ruleFields += settled.length;
+
+    let comparison: AuditComparison | null = null;
+    if (openFields.length > 0) {
+      const messages = auditPromptMessages(prompt, {
+        poiName: goldenCase.poiName,
+        tldbData: omitFields(goldenCase.tldb, settled),
+        websiteData: omitFields(goldenCase.website, settled),
+        mapsData: omitFields(goldenCase.maps, settled),
+        fields: openFields,
+      });
+      const provider = options.provider(goldenCase, messages);
+
+      const startTime = Date.now();
+      try {
+        const { data, completions } = await completeStructured(
+          provider,
+          { messages, model: model || provider.defaultModel, maxTokens: 4096, temperature: 0, jsonSchema },
+          auditComparisonSchema,
+          { repairAttempts }
+        );
+        comparison = data;
+
+        const elapsed = Date.now() - startTime;
+        latencies.push(completions.some((c) => c.latencyMs !== undefined)
+          ? completions.reduce((sum, c) => sum + (c.latencyMs ?? 0), 0)
+          : elapsed);
+        for (const completion of completions) {
+          cost += calculateLlmCost(provider.name, completion.model, completion.inputTokens, completion.outputTokens);
+          usedModel = completion.model;
+          onCompletion?.(goldenCase, messages, { ...completion, latencyMs: completion.latencyMs ?? elapsed });
+        }
+      } catch (error) {
+        failures.push({ caseId: goldenCase.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    // Rule verdicts are final; the model only decides the fields it was given
+    for (const [field, expected] of Object.entries(goldenCase.expected)) {
+      const actual = verdicts.find((verdict) => verdict.fieldName === field)?.matchStatus
+        ?? comparison?.fieldComparisons.find((f) => f.fieldName === field)?.matchStatus
+        ?? null;
+      byStatus[expected].expected++;
+      if (actual === expected) {
+        byStatus[expected].correct++;
+      } else {
+        errors.push({ caseId: goldenCase.id, field, expected, actual });
+      }
+    }
+  }
+
+  const fields = MATCH_STATUSES.reduce((sum, status) => sum + byStatus[status].expected, 0);
+  const correct = fields - errors.length;
+
+  return {
+    promptVersion: prompt.version,
+    model: usedModel,
+    cases: cases.length,
+    fields,
+    ruleFields,
+    correct,
+    accuracy: fields > 0 ? Math.round((correct / fields) * 1000) / 1000 : 0,
+    byStatus,
+    cost: Math.round(cost * 1e6) / 1e6,
+    latency: {
+      meanMs: latencies.length > 0 ? Math.round(latencies.reduce((sum, l) => sum + l, 0) / latencies.length) : 0,
+      p95Ms: percentile(latencies, 0.95),
+    },
+    failures,
+    errors,
+  };
+}
+
+/**
+ * Whether a prompt/model may be promoted: accuracy at least the minimum
+ * and not worse than the current baseline
+ */
+export function checkPromotion(
+  report: AuditEvalReport,
+  options: { minAccuracy: number; baseline?: AuditEvalReport }
+): { promotable: boolean; reasons: string[] } {
+  const reasons: string[] = [];
+
+  if (report.accuracy < options.minAccuracy) {
+    reasons.push(`Accuracy ${report.accuracy} below minimum ${options.minAccuracy}`);
+  }
+  if (report.failures.length > 0) {
+    reasons.push(`${report.failures.length} case(s) without valid output`);
+  }
+  if (options.baseline && report.accuracy < options.baseline.accuracy) {
+    reasons.push(`Accuracy ${report.accuracy} below baseline ${options.baseline.promptVersion} (${options.baseline.accuracy})`);
+  }
+
+  return { promotable: reasons.length === 0, reasons };
+}
@@ -0,0 +1,48 @@
+import type { AuditPromptTemplate } from './index';
+
+/**
+ * Audit prompt v1: field equivalence only, scores are computed by rules
+ */
+export const auditV1: AuditPromptTemplate = {
+  version: 'audit-v1',
+  system: 'You are an expert data quality auditor. Analyze data discrepancies accurately and provide structured output.',
+  user({ poiName, tldbData, websiteData, mapsData, fields, localized = [] }) {
+    const localizedSection = localized.length > 0 ? `
+## Language-specific Fields:
+Compare these only within the same language; a German text never matches an English one.
+${localized.map(p => `- ${p.field} [${p.language}]: TLDB ${JSON.stringify(p.tldbValue)} / Website ${JSON.stringify(p.websiteValue)}`).join('\n')}
+` : '';
+
+    return `
+You are an expert data quality auditor for tourism POI (Points of Interest) data.
+
+Compare the following data sources for "${poiName}" and assess data quality:
+
+## TLDB (Master Database) Data:
+${JSON.stringify(tldbData, null, 2)}
+
+## Website Scraped Data:
+${JSON.stringify(websiteData, null, 2)}
+
+## Map Data (${(mapsData.providers as string[] | undefined)?.join(', ') || 'google'}):
+${JSON.stringify(mapsData, null, 2)}
+
+## Fields to Compare:
+${fields.map(f => `- ${f.name} (${f.displayName.en}): ${f.dataType}`).join('\n')}
+${localizedSection}
+## Instructions:
+1. Compare each listed field across all three sources and return exactly these fields
+2. Normalize values for fair comparison (e.g., spelling variants, abbreviations, word order)
+3. Decide whether the values mean the same thing:
+   - match = semantically equivalent
+   - partial_match = overlapping, but one source is less complete or slightly different
+   - mismatch = contradicting values
+   - missing_data = fewer than two sources have a value
+4. Set confidence (0-1) to how certain you are of that judgement
+5. Describe each discrepancy in one sentence
+6. Provide actionable recommendations
+
+Judge equivalence only; do not rate or score the data.
+`.trim();
+  },
+};
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import type { LlmMessage } from '../llm-provider';
+import { auditV1 } from './audit-v1';
+
+/**
+ * Versioned prompt templates
+ * A template is never changed once audits reference it; a changed prompt
+ * is a new version, evaluated against the golden set before it is
+ * promoted via AUDIT_PROMPT_VERSION.
+ */
+
+/**
+ * Audit comparison schema (for LLM structured output). The LLM judges
+ * equivalence only; scores are computed by the audit scoring.
+ */
+export const auditComparisonSchema = z.object({
+  fieldComparisons: z.array(
+    z.object({
+      fieldName: z.string(),
+      tldbValue: z.string().nullable(),
+      websiteValue: z.string().nullable(),
+      mapsValue: z.string().nullable(),
+      normalizedTldb: z.string().nullable(),
+      normalizedWebsite: z.string().nullable(),
+      normalizedMaps: z.string().nullable(),
+      matchStatus: z.enum(['match', 'partial_match', 'mismatch', 'missing_data']),
+      confidence: z.number().min(0).max(1),
+      discrepancy: z.string().nullable(),
+    })
+  ),
+  summary: z.string().describe('Summary of the audit findings'),
+  recommendations: z.array(z.string()).describe('Recommendations for fixing discrepancies'),
+});
+
+export type AuditComparison = z.infer<typeof auditComparisonSchema>;
+
+export interface AuditPromptInput {
+  poiName: string;
+  tldbData: Record<string, unknown>;
+  websiteData: Record<string, unknown>;
+  mapsData: Record<string, unknown>;
+  fields: Array<{ name: string; displayName: Record<string, string>; dataType: string }>;
+  localized?: Array<{ field: string; language: string; tldbValue: unknown; websiteValue: unknown }>;
+}
+
+export interface AuditPromptTemplate {
+  version: string;
+  system: string;
+  user(input: AuditPromptInput): string;
+}
+
+export const AUDIT_PROMPTS: Record<string, AuditPromptTemplate> = {
+  [auditV1.version]: auditV1,
+};
+
+export const ACTIVE_AUDIT_PROMPT_VERSION = process.env.AUDIT_PROMPT_VERSION || auditV1.version;
+
+/**
+ * Audit prompt template by version (default: the active one)
+ */
+export function getAuditPrompt(version = ACTIVE_AUDIT_PROMPT_VERSION): AuditPromptTemplate {
+  const template = AUDIT_PROMPTS[version];
+  if (!template) {
+    throw new Error(`Unknown audit prompt version: ${version}`);
+  }
+  return template;
+}
+
+/**
+ * Messages of an audit prompt
+ */
+export function auditPromptMessages(template: AuditPromptTemplate, input: AuditPromptInput): LlmMessage[] {
+  return [
+    { role: 'system', content: template.system },
+    { role: 'user', content: template.user(input) },
+  ];
+}
@@ -1,6 +1,7 @@
 import { Queue, Worker, Job, QueueEvents } from 'bullmq';
 import IORedis from 'ioredis';
 import { createLogger } from './logger';
+import type { CrawlBudget } from './crawl-frontier';
 
 const logger = createLogger('queue');
 
@@ -23,6 +24,7 @@ export const QUEUE_NAMES = {
   MAPS: 'maps-queue',
   AUDIT: 'audit-queue',
   MAIL: 'mail-queue',
+  COVERAGE: 'coverage-queue',
 } as const;
 
 export type QueueName = (typeof QUEUE_NAMES)[keyof typeof QUEUE_NAMES];
@@ -35,6 +37,9 @@ export interface ScraperJobData {
   url: string;
   maxDepth?: number;
   priority?: number;
+  budget?: Partial<CrawlBudget>;
+  force?: boolean; // Ignore validators and re-render every page
+  replay?: string; // Crawl archive key: re-run extraction and audit offline from a recorded crawl
 }
 
 export interface MapsJobData {
@@ -50,6 +55,7 @@ export interface AuditJobData {
   tldbData: Record<string, unknown>;
   websiteData?: Record<string, unknown>;
   mapsData?: Record<string, unknown>;
+  replay?: boolean; // Audit of a replayed crawl: nothing is stored, nobody is notified
 }
 
 export interface MailJobData {
@@ -59,6 +65,10 @@ export interface MailJobData {
   locale?: 'de' | 'en';
 }
 
+export interface CoverageJobData {
+  scanId: string;
+}
+
 /**
  * Queue Factory
  */
@@ -188,6 +198,7 @@ let scraperQueue: Queue<ScraperJobData> | null = null;
 let mapsQueue: Queue<MapsJobData> | null = null;
 let auditQueue: Queue<AuditJobData> | null = null;
 let mailQueue: Queue<MailJobData> | null = null;
+let coverageQueue: Queue<CoverageJobData> | null = null;
 
 export function getScraperQueue(): Queue<ScraperJobData> {
   if (!scraperQueue) {
@@ -216,3 +227,10 @@ export function getMailQueue(): Queue<MailJobData> {
   }
   return mailQueue;
 }
+
+export function getCoverageQueue(): Queue<CoverageJobData> {
+  if (!coverageQueue) {
+    coverageQueue = createQueue<CoverageJobData>(QUEUE_NAMES.COVERAGE);
+  }
+  return coverageQueue;
+}
@@ -0,0 +1,68 @@
+import { htmlToText } from './html';
+
+/**
+ * Decide whether a statically fetched page needs a headless browser
+ */
+
+export type RenderMode = 'static' | 'browser';
+
+/**
+ * Outcome of the client-rendering heuristics
+ */
+export interface RenderDecision {
+  render: boolean;
+  reason?: string;
+}
+
+/**
+ * Minimum amount of visible text for a server-rendered page
+ */
+const MIN_TEXT_LENGTH = parseInt(process.env.SCRAPER_STATIC_MIN_TEXT || '200', 10);
+
+/**
+ * Empty SPA mount points: the markup ships without content
+ */
+const EMPTY_MOUNT_POINTS: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /<div[^>]+id=["'](?:root|app)["'][^>]*>\s*<\/div>/i, reason: 'empty_mount_point' },
+  { pattern: /<div[^>]+id=["']__next["'][^>]*>\s*<\/div>/i, reason: 'nextjs_client_only' },
+  { pattern: /<div[^>]+id=["']___gatsby["'][^>]*>\s*<\/div>/i, reason: 'gatsby_client_only' },
+  { pattern: /<app-root[^>]*>\s*<\/app-root>/i, reason: 'angular_client_only' },
+  { pattern: /<div[^>]+id=["']q-app["'][^>]*>\s*<\/div>/i, reason: 'quasar_client_only' },
+];
+
+/**
+ * Framework markers that only matter when the page has little content
+ */
+const FRAMEWORK_MARKERS: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /<noscript[^>]*>[^<]*(?:enable javascript|javascript (?:aktivieren|einschalten)|requires javascript)/i, reason: 'noscript_notice' },
+  { pattern: /\bng-version=|ng-app\b/i, reason: 'angular' },
+  { pattern: /data-reactroot|react-dom|__REACT_DEVTOOLS/i, reason: 'react' },
+  { pattern: /window\.__NUXT__|data-v-app|\bvue(?:\.runtime)?(?:\.min)?\.js/i, reason: 'vue' },
+  { pattern: /wix-warmup-data|static\.parastorage\.com/i, reason: 'wix' },
+  { pattern: /<script[^>]+src=["'][^"']*(?:bundle|main|app|chunk)[.-][^"']*\.js/i, reason: 'js_bundle' },
+];
+
+/**
+ * Check whether a page looks client-rendered
+ */
+export function needsBrowserRendering(html: string, contentType = 'text/html'): RenderDecision {
+  if (contentType && !/html/i.test(contentType)) return { render: false };
+
+  if (!html.trim()) return { render: true, reason: 'empty_body' };
+
+  for (const { pattern, reason } of EMPTY_MOUNT_POINTS) {
+    if (pattern.test(html)) return { render: true, reason };
+  }
+
+  const textLength = htmlToText(html).length;
+  if (textLength >= MIN_TEXT_LENGTH) return { render: false };
+
+  for (const { pattern, reason } of FRAMEWORK_MARKERS) {
+    if (pattern.test(html)) return { render: true, reason };
+  }
+
+  // Little text plus any scripts: the content is most likely injected
+  if (/<script\b[^>]*\bsrc=/i.test(html)) return { render: true, reason: 'missing_content' };
+
+  return { render: false };
+}
@@ -0,0 +1,382 @@
+import { createLogger } from './logger';
+import { cacheGet, cacheSet, CACHE_KEYS, CACHE_TTL } from './cache';
+import { scraperRobotsDecisions } from './metrics';
+
+const logger = createLogger('robots');
+
+/**
+ * robots.txt parser and per-origin cache (RFC 9309)
+ */
+
+/**
+ * Single Allow/Disallow rule
+ */
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+/**
+ * Rules of one user-agent group
+ */
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number; // seconds
+}
+
+/**
+ * Parsed robots.txt
+ */
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+/**
+ * Cached robots.txt lookup for one origin
+ */
+export interface RobotsPolicy {
+  origin: string;
+  fetchedAt: string;
+  statusCode: number;
+  /** Set when robots.txt was unreachable (5xx / 429 / network error): everything is disallowed */
+  unreachable: boolean;
+  robots: RobotsTxt;
+}
+
+/**
+ * Decision for a single URL
+ */
+export interface RobotsDecision {
+  allowed: boolean;
+  matchedRule?: RobotsRule;
+  crawlDelay?: number; // seconds
+}
+
+const ROBOTS_CACHE_TTL = parseInt(process.env.ROBOTS_CACHE_TTL || String(CACHE_TTL.DAY), 10);
+const ROBOTS_ERROR_CACHE_TTL = CACHE_TTL.LONG;
+const ROBOTS_MAX_BYTES = 500 * 1024; // RFC 9309: parse at least the first 500 KiB
+
+/**
+ * In-process fallback when Redis is not configured, bounded so a
+ * long-running worker does not keep every origin it ever crawled
+ */
+const localPolicies = new Map<string, { policy: RobotsPolicy; expiresAt: number }>();
+const LOCAL_POLICIES_MAX = 1000;
+
+/**
+ * Remember a policy in process, sweeping expired entries and then the
+ * oldest ones when the map is full
+ */
+function rememberLocalPolicy(origin: string, policy: RobotsPolicy, ttlSeconds: number): void {
+  const now = Date.now();
+  localPolicies.delete(origin);
+
+  if (localPolicies.size >= LOCAL_POLICIES_MAX) {
+    for (const [key, entry] of localPolicies) {
+      if (entry.expiresAt <= now) localPolicies.delete(key);
+    }
+    for (const key of localPolicies.keys()) {
+      if (localPolicies.size < LOCAL_POLICIES_MAX) break;
+      localPolicies.delete(key);
+    }
+  }
+
+  localPolicies.set(origin, { policy, expiresAt: now + ttlSeconds * 1000 });
+}
+
+/**
+ * Parse robots.txt content
+ */
+export function parseRobotsTxt(content: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of content.slice(0, ROBOTS_MAX_BYTES).split(/\r?\n|\r/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (key) {
+      case 'user-agent': {
+        // Consecutive user-agent lines share one group
+        if (!current || !collectingAgents) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        collectingAgents = true;
+        break;
+      }
+      case 'allow':
+      case 'disallow': {
+        collectingAgents = false;
+        // An empty Disallow means "allow everything" and carries no rule
+        if (current && value) {
+          current.rules.push({ allow: key === 'allow', pattern: value });
+        }
+        break;
+      }
+      case 'crawl-delay': {
+        collectingAgents = false;
+        const delay = parseFloat(value);
+        if (current && !isNaN(delay) && delay >= 0) {
+          current.crawlDelay = delay;
+        }
+        break;
+      }
+      case 'sitemap': {
+        // Sitemap lines are independent of groups
+        if (value && !sitemaps.includes(value)) sitemaps.push(value);
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+/**
+ * Extract the product token from a user agent string,
+ * e.g. "Mozilla/5.0 (compatible; LDB-DataGuard/1.0; ...)" → "ldb-dataguard"
+ */
+export function getProductToken(userAgent: string): string {
+  const compatible = userAgent.match(/compatible;\s*([A-Za-z0-9_-]+)/);
+  const token = compatible?.[1] || userAgent.split('/')[0];
+  return token.trim().toLowerCase();
+}
+
+/**
+ * Select the group applying to a user agent: all groups naming our
+ * product token are merged, otherwise the "*" groups apply.
+ */
+export function selectGroup(robots: RobotsTxt, userAgent: string): RobotsGroup | null {
+  const token = getProductToken(userAgent);
+
+  const specific = robots.groups.filter((group) =>
+    group.userAgents.some((agent) => agent !== '*' && token === agent)
+  );
+  const matching = specific.length > 0
+    ? specific
+    : robots.groups.filter((group) => group.userAgents.includes('*'));
+
+  if (matching.length === 0) return null;
+
+  const delays = matching
+    .map((group) => group.crawlDelay)
+    .filter((delay): delay is number => delay !== undefined);
+
+  return {
+    userAgents: matching.flatMap((group) => group.userAgents),
+    rules: matching.flatMap((group) => group.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : undefined,
+  };
+}
+
+/**
+ * Convert a robots pattern (with `*` and `$`) to a regular expression
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const escaped = body
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${escaped}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Percent-encode characters so patterns and paths compare consistently
+ */
+function normalizePath(path: string): string {
+  try {
+    return encodeURI(decodeURI(path));
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * Check a path (incl. query string) against a group's rules.
+ * The longest matching pattern wins; on equal length Allow wins.
+ */
+export function matchRules(
+  rules: RobotsRule[],
+  path: string
+): { allowed: boolean; matchedRule?: RobotsRule } {
+  const target = normalizePath(path);
+  let best: RobotsRule | undefined;
+
+  for (const rule of rules) {
+    if (!patternToRegExp(normalizePath(rule.pattern)).test(target)) continue;
+
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow && !best.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return { allowed: best ? best.allow : true, matchedRule: best };
+}
+
+/**
+ * Decide whether a URL may be crawled under a policy
+ */
+export function evaluateRobots(
+  policy: RobotsPolicy,
+  url: string,
+  userAgent: string
+): RobotsDecision {
+  const parsed = new URL(url);
+
+  // robots.txt itself is always allowed
+  if (parsed.pathname === '/robots.txt') {
+    return { allowed: true };
+  }
+
+  if (policy.unreachable) {
+    return { allowed: false };
+  }
+
+  const group = selectGroup(policy.robots, userAgent);
+  if (!group) {
+    return { allowed: true };
+  }
+
+  const { allowed, matchedRule } = matchRules(group.rules, parsed.pathname + parsed.search);
+
+  return { allowed, matchedRule, crawlDelay: group.crawlDelay };
+}
+
+/**
+ * Fetch robots.txt for an origin (scheme + host + port)
+ */
+export async function fetchRobotsPolicy(origin: string, userAgent: string): Promise<RobotsPolicy> {
+  const fetchedAt = new Date().toISOString();
+
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': userAgent },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(10000),
+    });
+
+    if (response.status >= 500 || response.status === 429) {
+      // RFC 9309 §2.3.1.4: server errors mean complete disallow. 429 asks us
+      // to come back later, so it is unreachable too rather than a 4xx allow-all
+      return {
+        origin,
+        fetchedAt,
+        statusCode: response.status,
+        unreachable: true,
+        robots: { groups: [], sitemaps: [] },
+      };
+    }
+
+    if (!response.ok) {
+      // RFC 9309 §2.3.1.3: 4xx means no restrictions
+      return {
+        origin,
+        fetchedAt,
+        statusCode: response.status,
+        unreachable: false,
+        robots: { groups: [], sitemaps: [] },
+      };
+    }
+
+    return {
+      origin,
+      fetchedAt,
+      statusCode: response.status,
+      unreachable: false,
+      robots: parseRobotsTxt(await response.text()),
+    };
+  } catch (error) {
+    logger.warn({ origin, error }, 'Failed to fetch robots.txt');
+
+    return {
+      origin,
+      fetchedAt,
+      statusCode: 0,
+      unreachable: true,
+      robots: { groups: [], sitemaps: [] },
+    };
+  }
+}
+
+/**
+ * Get the robots policy for a URL's origin, cached per origin
+ * in Redis (shared across workers) with an in-process fallback.
+ */
+export async function getRobotsPolicy(url: string, userAgent: string): Promise<RobotsPolicy> {
+  const origin = new URL(url).origin;
+  const cacheKey = `${CACHE_KEYS.ROBOTS}:${origin}`;
+
+  const local = localPolicies.get(origin);
+  if (local && local.expiresAt > Date.now()) {
+    return local.policy;
+  }
+
+  const shared = await cacheGet<RobotsPolicy>(cacheKey);
+  if (shared) {
+    rememberLocalPolicy(origin, shared, CACHE_TTL.MEDIUM);
+    return shared;
+  }
+
+  const policy = await fetchRobotsPolicy(origin, userAgent);
+  const ttl = policy.unreachable ? ROBOTS_ERROR_CACHE_TTL : ROBOTS_CACHE_TTL;
+
+  await cacheSet(cacheKey, policy, ttl);
+  rememberLocalPolicy(origin, policy, ttl);
+
+  logger.info(
+    {
+      origin,
+      statusCode: policy.statusCode,
+      unreachable: policy.unreachable,
+      groups: policy.robots.groups.length,
+      sitemaps: policy.robots.sitemaps.length,
+    },
+    'robots.txt fetched'
+  );
+
+  return policy;
+}
+
+/**
+ * Check if a URL is allowed for a user agent
+ */
+export async function isAllowedByRobots(url: string, userAgent: string): Promise<RobotsDecision> {
+  const policy = await getRobotsPolicy(url, userAgent);
+  const decision = evaluateRobots(policy, url, userAgent);
+
+  scraperRobotsDecisions.labels({ decision: decision.allowed ? 'allowed' : 'disallowed' }).inc();
+
+  if (!decision.allowed) {
+    logger.info(
+      {
+        url,
+        rule: decision.matchedRule?.pattern,
+        unreachable: policy.unreachable,
+        fetchedAt: policy.fetchedAt,
+      },
+      'URL disallowed by robots.txt'
+    );
+  }
+
+  return decision;
+}
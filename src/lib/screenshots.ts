@@ -0,0 +1,59 @@
+import { normalizeUrl, createHash } from './utils';
+
+/**
+ * Screenshot evidence: which pages to capture and where to store them
+ */
+
+export const SCREENSHOT_LIMITS = {
+  maxPages: parseInt(process.env.SCRAPER_SCREENSHOT_MAX_PAGES || '5', 10),
+  quality: parseInt(process.env.SCRAPER_SCREENSHOT_QUALITY || '70', 10), // JPEG quality
+};
+
+/**
+ * Landing page first, then the pages extracted values came from
+ */
+export function selectScreenshotUrls(
+  startUrl: string,
+  fieldPages: Record<string, string>,
+  maxPages = SCREENSHOT_LIMITS.maxPages
+): string[] {
+  const urls = new Set([startUrl, ...Object.values(fieldPages)].map(normalizeUrl));
+
+  return Array.from(urls).slice(0, maxPages);
+}
+
+/**
+ * Blob store key of a screenshot, unique per POI, page and capture time
+ */
+export async function screenshotKey(poiId: string, url: string, takenAt = new Date()): Promise<string> {
+  const urlHash = (await createHash(normalizeUrl(url))).slice(0, 16);
+  const timestamp = takenAt.toISOString().replace(/[:.]/g, '-');
+
+  return `screenshots/${poiId}/${timestamp}-${urlHash}.jpg`;
+}
+
+/**
+ * Screenshot of the page a field value was found on
+ */
+export interface FieldScreenshot {
+  url: string;
+  key: string;
+}
+
+/**
+ * Screenshots per field, from the field's source page (websiteData.fieldPages)
+ * and the captured pages (page URL → blob store key)
+ */
+export function screenshotsByField(
+  fieldPages: Record<string, string>,
+  screenshots: Record<string, string>
+): Record<string, FieldScreenshot> {
+  const keys = new Map(Object.entries(screenshots).map(([url, key]) => [normalizeUrl(url), key]));
+
+  return Object.fromEntries(
+    Object.entries(fieldPages).flatMap(([field, url]) => {
+      const key = keys.get(normalizeUrl(url));
+      return key ? [[field, { url, key }]] : [];
+    })
+  );
+}
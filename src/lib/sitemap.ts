@@ -0,0 +1,179 @@
+import { gunzipSync } from 'zlib';
+import { createLogger } from './logger';
+import { readBodyLimited } from './utils';
+
+const logger = createLogger('sitemap');
+
+/**
+ * sitemap.xml discovery and parsing
+ */
+
+/**
+ * Entry of a <urlset> sitemap
+ */
+export interface SitemapEntry {
+  url: string;
+  lastModified?: string;
+  priority?: number;
+}
+
+/**
+ * Parsed sitemap document
+ */
+export interface ParsedSitemap {
+  type: 'urlset' | 'sitemapindex' | 'unknown';
+  entries: SitemapEntry[];
+  sitemaps: string[];
+}
+
+interface SitemapFetchOptions {
+  userAgent: string;
+  maxSitemaps?: number;
+  maxEntries?: number;
+  timeout?: number;
+  maxBytes?: number; // Per sitemap document, downloaded and unpacked
+  fetch?: typeof fetch; // e.g. a recording or replaying fetch
+  politely?: <T>(url: string, fn: () => Promise<T>) => Promise<T>; // per-host limits around each download
+}
+
+/**
+ * Decode the XML entities that may appear in <loc> values
+ */
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'");
+}
+
+/**
+ * Read the text of a child tag (namespace prefixes are ignored)
+ */
+function readTag(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<(?:\\w+:)?${tag}[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'i'));
+  if (!match) return undefined;
+
+  return decodeXmlEntities(match[1].replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1').trim());
+}
+
+/**
+ * Parse a sitemap or sitemap index document
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  if (/<(?:\w+:)?sitemapindex[\s>]/i.test(xml)) {
+    const sitemaps: string[] = [];
+
+    for (const block of xml.match(/<(?:\w+:)?sitemap[\s>][\s\S]*?<\/(?:\w+:)?sitemap>/gi) || []) {
+      const loc = readTag(block, 'loc');
+      if (loc) sitemaps.push(loc);
+    }
+
+    return { type: 'sitemapindex', entries: [], sitemaps };
+  }
+
+  if (/<(?:\w+:)?urlset[\s>]/i.test(xml)) {
+    const entries: SitemapEntry[] = [];
+
+    for (const block of xml.match(/<(?:\w+:)?url[\s>][\s\S]*?<\/(?:\w+:)?url>/gi) || []) {
+      const loc = readTag(block, 'loc');
+      if (!loc) continue;
+
+      const priority = parseFloat(readTag(block, 'priority') || '');
+
+      entries.push({
+        url: loc,
+        lastModified: readTag(block, 'lastmod'),
+        priority: isNaN(priority) ? undefined : priority,
+      });
+    }
+
+    return { type: 'urlset', entries, sitemaps: [] };
+  }
+
+  return { type: 'unknown', entries: [], sitemaps: [] };
+}
+
+/**
+ * Download a sitemap, transparently handling .xml.gz files
+ */
+async function downloadSitemap(
+  url: string,
+  options: Pick<SitemapFetchOptions, 'userAgent' | 'fetch' | 'politely'> & { timeout: number; maxBytes: number }
+): Promise<string | null> {
+  const { userAgent, timeout, maxBytes, fetch: fetchSitemap = fetch, politely = (_url, fn) => fn() } = options;
+
+  try {
+    // The timeout starts once the host slot is free
+    const response = await politely(url, () => fetchSitemap(url, {
+      headers: { 'User-Agent': userAgent },
+      signal: AbortSignal.timeout(timeout),
+    }));
+
+    if (!response.ok) {
+      logger.debug({ url, status: response.status }, 'Sitemap not available');
+      return null;
+    }
+
+    const body = await readBodyLimited(response, maxBytes);
+    if (!body) {
+      logger.warn({ url, maxBytes }, 'Sitemap too large, skipped');
+      return null;
+    }
+
+    const buffer = Buffer.from(body);
+    const isGzip = buffer[0] === 0x1f && buffer[1] === 0x8b;
+
+    return (isGzip ? gunzipSync(buffer, { maxOutputLength: maxBytes }) : buffer).toString('utf-8');
+  } catch (error) {
+    logger.warn({ url, error }, 'Failed to download sitemap');
+    return null;
+  }
+}
+
+/**
+ * Collect page URLs from sitemaps, following sitemap indexes.
+ * Falls back to /sitemap.xml when robots.txt announced none.
+ */
+export async function fetchSitemapEntries(
+  startUrl: string,
+  sitemapUrls: string[],
+  options: SitemapFetchOptions
+): Promise<SitemapEntry[]> {
+  const {
+    userAgent,
+    maxSitemaps = 10,
+    maxEntries = 5000,
+    timeout = 15000,
+    maxBytes = 50 * 1024 * 1024, // Protocol limit for an uncompressed sitemap
+    fetch: fetchSitemap,
+    politely,
+  } = options;
+
+  const pending = sitemapUrls.length > 0
+    ? [...sitemapUrls]
+    : [`${new URL(startUrl).origin}/sitemap.xml`];
+  const seen = new Set<string>();
+  const entries: SitemapEntry[] = [];
+
+  while (pending.length > 0 && seen.size < maxSitemaps && entries.length < maxEntries) {
+    const sitemapUrl = pending.shift()!;
+    if (seen.has(sitemapUrl)) continue;
+    seen.add(sitemapUrl);
+
+    const xml = await downloadSitemap(sitemapUrl, { userAgent, timeout, maxBytes, fetch: fetchSitemap, politely });
+    if (!xml) continue;
+
+    const parsed = parseSitemap(xml);
+    pending.push(...parsed.sitemaps);
+    entries.push(...parsed.entries.slice(0, maxEntries - entries.length));
+  }
+
+  logger.info(
+    { startUrl, sitemapsFetched: seen.size, entries: entries.length },
+    'Sitemap entries collected'
+  );
+
+  return entries;
+}
@@ -0,0 +1,599 @@
+import { parseHtml, textContent, findElements, type HtmlElement } from './html';
+
+/**
+ * Unified structured data extraction
+ * Turns JSON-LD, Microdata, RDFa, OpenGraph and geo meta tags into one
+ * normalized schema.org graph. Every node remembers the syntax it came from.
+ */
+
+export type StructuredDataSyntax = 'json-ld' | 'microdata' | 'rdfa' | 'opengraph' | 'meta';
+
+export type SchemaValue = string | number | boolean | SchemaNode;
+
+/**
+ * Normalized schema.org node; all properties are multi-valued
+ */
+export interface SchemaNode {
+  types: string[];
+  id?: string;
+  syntax: StructuredDataSyntax;
+  source?: string;
+  properties: Record<string, SchemaValue[]>;
+}
+
+/**
+ * Syntaxes in order of trust when the same field is found more than once
+ */
+const SYNTAX_PRIORITY: StructuredDataSyntax[] = ['json-ld', 'microdata', 'rdfa', 'opengraph', 'meta'];
+
+/**
+ * schema.org types describing a POI
+ */
+const POI_TYPES = new Set([
+  'LocalBusiness', 'Place', 'TouristAttraction', 'TouristInformationCenter',
+  'Restaurant', 'FoodEstablishment', 'CafeOrCoffeeShop', 'BarOrPub', 'Bakery', 'Winery', 'Brewery',
+  'Hotel', 'LodgingBusiness', 'BedAndBreakfast', 'Hostel', 'Campground', 'Resort', 'VacationRental',
+  'Museum', 'Park', 'Zoo', 'Aquarium', 'LandmarksOrHistoricalBuildings', 'CivicStructure',
+  'Store', 'SportsActivityLocation', 'EntertainmentBusiness',
+]);
+
+const SCHEMA_ORG_PREFIX = /^(?:https?:\/\/schema\.org\/|schema:)/i;
+
+/**
+ * Strip schema.org namespace from a type or property name
+ */
+function localName(name: string): string {
+  return name.trim().replace(SCHEMA_ORG_PREFIX, '');
+}
+
+/**
+ * Create an empty node
+ */
+function createNode(
+  types: string[],
+  syntax: StructuredDataSyntax,
+  source?: string,
+  id?: string
+): SchemaNode {
+  return {
+    types: types.map(localName).filter(Boolean),
+    ...(id ? { id } : {}),
+    syntax,
+    ...(source ? { source } : {}),
+    properties: {},
+  };
+}
+
+/**
+ * Add a property value to a node
+ */
+function addValue(node: SchemaNode, property: string, value: SchemaValue | undefined): void {
+  if (value === undefined || value === '') return;
+  const name = localName(property);
+  if (!name) return;
+  (node.properties[name] ??= []).push(value);
+}
+
+/**
+ * Check whether a value is a nested node
+ */
+export function isSchemaNode(value: unknown): value is SchemaNode {
+  return typeof value === 'object' && value !== null && 'properties' in value && 'syntax' in value;
+}
+
+/**
+ * All values of a property
+ */
+export function getValues(node: SchemaNode, property: string): SchemaValue[] {
+  return node.properties[property] ?? [];
+}
+
+/**
+ * First value of a property
+ */
+export function getFirstValue(node: SchemaNode, property: string): SchemaValue | undefined {
+  return node.properties[property]?.[0];
+}
+
+// ============================================
+// JSON-LD
+// ============================================
+
+/**
+ * Parse all JSON-LD blocks of a page (arrays are flattened)
+ */
+export function extractJsonLdBlocks(html: string): Record<string, unknown>[] {
+  const blocks: Record<string, unknown>[] = [];
+  const scripts = findElements(
+    parseHtml(html),
+    (element) => element.tag === 'script' && /application\/ld\+json/i.test(element.attrs.type || '')
+  );
+
+  for (const script of scripts) {
+    const raw = script.children.filter((child): child is string => typeof child === 'string').join('');
+    try {
+      const data = JSON.parse(raw.replace(/^\s*<!\[CDATA\[|\]\]>\s*$/g, ''));
+      for (const item of Array.isArray(data) ? data : [data]) {
+        if (item && typeof item === 'object') blocks.push(item as Record<string, unknown>);
+      }
+    } catch {
+      // Invalid JSON, skip
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Convert a JSON-LD value into schema values
+ */
+function fromJsonLdValue(value: unknown, source?: string): SchemaValue[] {
+  if (value === null || value === undefined) return [];
+  if (Array.isArray(value)) return value.flatMap((item) => fromJsonLdValue(item, source));
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return [value];
+
+  if (typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    if ('@value' in object) return fromJsonLdValue(object['@value'], source);
+    return [fromJsonLdObject(object, source)];
+  }
+
+  return [];
+}
+
+/**
+ * Convert a JSON-LD object into a node
+ */
+function fromJsonLdObject(object: Record<string, unknown>, source?: string): SchemaNode {
+  const type = object['@type'];
+  const types = (Array.isArray(type) ? type : type ? [type] : []).map(String);
+  const node = createNode(types, 'json-ld', source, typeof object['@id'] === 'string' ? object['@id'] : undefined);
+
+  for (const [key, value] of Object.entries(object)) {
+    if (key.startsWith('@')) continue;
+    for (const item of fromJsonLdValue(value, source)) {
+      addValue(node, key, item);
+    }
+  }
+
+  return node;
+}
+
+/**
+ * Normalize parsed JSON-LD blocks (including @graph containers)
+ */
+export function normalizeJsonLd(blocks: Record<string, unknown>[], source?: string): SchemaNode[] {
+  const nodes: SchemaNode[] = [];
+
+  for (const block of blocks) {
+    const graph = block['@graph'];
+    if (Array.isArray(graph)) {
+      for (const item of graph) {
+        if (item && typeof item === 'object') nodes.push(fromJsonLdObject(item as Record<string, unknown>, source));
+      }
+    } else {
+      nodes.push(fromJsonLdObject(block, source));
+    }
+  }
+
+  return nodes;
+}
+
+// ============================================
+// MICRODATA & RDFA
+// ============================================
+
+/**
+ * Resolve a URL attribute against the page URL
+ */
+function resolveUrl(value: string, baseUrl?: string): string {
+  if (!baseUrl) return value;
+  try {
+    return new URL(value, baseUrl).href;
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Value of a Microdata itemprop element (per the HTML spec)
+ */
+function microdataValue(element: HtmlElement, baseUrl?: string): string {
+  const { tag, attrs } = element;
+
+  if ('content' in attrs) return attrs.content.trim();
+  if (['a', 'area', 'link'].includes(tag) && attrs.href) return resolveUrl(attrs.href, baseUrl);
+  if (['audio', 'embed', 'iframe', 'img', 'source', 'track', 'video'].includes(tag) && attrs.src) {
+    return resolveUrl(attrs.src, baseUrl);
+  }
+  if (tag === 'object' && attrs.data) return resolveUrl(attrs.data, baseUrl);
+  if (tag === 'time' && attrs.datetime) return attrs.datetime.trim();
+  if ((tag === 'data' || tag === 'meter') && attrs.value) return attrs.value.trim();
+
+  return textContent(element);
+}
+
+/**
+ * Value of an RDFa property element
+ */
+function rdfaValue(element: HtmlElement, baseUrl?: string): string {
+  const { attrs } = element;
+
+  if ('content' in attrs) return attrs.content.trim();
+  if (attrs.datetime) return attrs.datetime.trim();
+  if (attrs.href) return resolveUrl(attrs.href, baseUrl);
+  if (attrs.src) return resolveUrl(attrs.src, baseUrl);
+  if (attrs.resource) return resolveUrl(attrs.resource, baseUrl);
+
+  return textContent(element);
+}
+
+/**
+ * Collect Microdata items (itemscope/itemtype/itemprop)
+ */
+function extractMicrodata(root: HtmlElement, source?: string): SchemaNode[] {
+  const topLevel: SchemaNode[] = [];
+
+  const visit = (element: HtmlElement, current: SchemaNode | null) => {
+    for (const child of element.children) {
+      if (typeof child === 'string') continue;
+
+      const props = child.attrs.itemprop?.split(/\s+/).filter(Boolean) ?? [];
+
+      if ('itemscope' in child.attrs) {
+        const item = createNode(
+          (child.attrs.itemtype || '').split(/\s+/).filter(Boolean),
+          'microdata',
+          source,
+          child.attrs.itemid
+        );
+
+        if (current && props.length > 0) {
+          props.forEach((prop) => addValue(current, prop, item));
+        } else {
+          topLevel.push(item);
+        }
+
+        visit(child, item);
+        continue;
+      }
+
+      if (current && props.length > 0) {
+        const value = microdataValue(child, source);
+        props.forEach((prop) => addValue(current, prop, value));
+      }
+
+      visit(child, current);
+    }
+  };
+
+  visit(root, null);
+
+  return topLevel;
+}
+
+/**
+ * Accept only schema.org properties (skip og:, fb:, dc: ... prefixes)
+ */
+function rdfaProperties(attribute: string | undefined): string[] {
+  return (attribute || '')
+    .split(/\s+/)
+    .filter((name) => name && (!name.includes(':') || SCHEMA_ORG_PREFIX.test(name)));
+}
+
+/**
+ * Collect RDFa Lite items (vocab/typeof/property)
+ */
+function extractRdfa(root: HtmlElement, source?: string): SchemaNode[] {
+  const topLevel: SchemaNode[] = [];
+
+  const visit = (element: HtmlElement, current: SchemaNode | null) => {
+    for (const child of element.children) {
+      if (typeof child === 'string') continue;
+
+      const props = rdfaProperties(child.attrs.property);
+
+      if ('typeof' in child.attrs) {
+        const item = createNode(
+          child.attrs.typeof.split(/\s+/).filter(Boolean),
+          'rdfa',
+          source,
+          child.attrs.resource || child.attrs.about
+        );
+
+        if (current && props.length > 0) {
+          props.forEach((prop) => addValue(current, prop, item));
+        } else {
+          topLevel.push(item);
+        }
+
+        visit(child, item);
+        continue;
+      }
+
+      if (current && props.length > 0) {
+        const value = rdfaValue(child, source);
+        props.forEach((prop) => addValue(current, prop, value));
+      }
+
+      visit(child, current);
+    }
+  };
+
+  visit(root, null);
+
+  return topLevel;
+}
+
+// ============================================
+// OPENGRAPH & META
+// ============================================
+
+/**
+ * OpenGraph object types mapped to schema.org
+ */
+const OPENGRAPH_TYPES: Array<{ pattern: RegExp; type: string }> = [
+  { pattern: /^restaurant/, type: 'Restaurant' },
+  { pattern: /^hotel/, type: 'Hotel' },
+  { pattern: /^business/, type: 'LocalBusiness' },
+  { pattern: /^place/, type: 'Place' },
+];
+
+/**
+ * OpenGraph / Facebook business keys mapped to schema.org paths
+ */
+const OPENGRAPH_PROPERTIES: Record<string, string> = {
+  'og:title': 'name',
+  'og:description': 'description',
+  'og:url': 'url',
+  'og:image': 'image',
+  'og:email': 'email',
+  'og:phone_number': 'telephone',
+  'og:street-address': 'address.streetAddress',
+  'og:postal-code': 'address.postalCode',
+  'og:locality': 'address.addressLocality',
+  'og:region': 'address.addressRegion',
+  'og:country-name': 'address.addressCountry',
+  'og:latitude': 'geo.latitude',
+  'og:longitude': 'geo.longitude',
+  'place:location:latitude': 'geo.latitude',
+  'place:location:longitude': 'geo.longitude',
+  'business:contact_data:email': 'email',
+  'business:contact_data:phone_number': 'telephone',
+  'business:contact_data:website': 'url',
+  'business:contact_data:street_address': 'address.streetAddress',
+  'business:contact_data:postal_code': 'address.postalCode',
+  'business:contact_data:locality': 'address.addressLocality',
+  'business:contact_data:region': 'address.addressRegion',
+  'business:contact_data:country_name': 'address.addressCountry',
+};
+
+const NESTED_TYPES: Record<string, string> = {
+  address: 'PostalAddress',
+  geo: 'GeoCoordinates',
+};
+
+/**
+ * Set a (possibly dotted) property path on a node
+ */
+function addPath(node: SchemaNode, path: string, value: string): void {
+  const [parent, child] = path.split('.');
+  if (!child) {
+    addValue(node, parent, value);
+    return;
+  }
+
+  let nested = getFirstValue(node, parent);
+  if (!isSchemaNode(nested)) {
+    nested = createNode([NESTED_TYPES[parent]], node.syntax, node.source);
+    addValue(node, parent, nested);
+  }
+  addValue(nested, child, value);
+}
+
+/**
+ * Content of all meta tags keyed by property/name (lowercased)
+ */
+function collectMetaTags(root: HtmlElement): Array<{ key: string; content: string }> {
+  return findElements(root, (element) => element.tag === 'meta')
+    .map((meta) => ({
+      key: (meta.attrs.property || meta.attrs.name || '').toLowerCase().trim(),
+      content: (meta.attrs.content || '').trim(),
+    }))
+    .filter((meta) => meta.key && meta.content);
+}
+
+/**
+ * Build a node from OpenGraph tags
+ */
+function extractOpenGraph(metaTags: Array<{ key: string; content: string }>, source?: string): SchemaNode[] {
+  const ogType = metaTags.find((meta) => meta.key === 'og:type')?.content.toLowerCase() || '';
+  const mapped = OPENGRAPH_TYPES.find(({ pattern }) => pattern.test(ogType))?.type;
+
+  const node = createNode([], 'opengraph', source);
+  let hasPlaceData = false;
+
+  for (const { key, content } of metaTags) {
+    const path = OPENGRAPH_PROPERTIES[key];
+    if (!path) continue;
+
+    addPath(node, path, content);
+    if (path.includes('.') || path === 'telephone' || path === 'email') hasPlaceData = true;
+  }
+
+  if (Object.keys(node.properties).length === 0) return [];
+
+  // Location or contact data makes a plain "website" object a place
+  node.types = [mapped ?? (hasPlaceData ? 'Place' : 'WebPage')];
+
+  return [node];
+}
+
+/**
+ * Build a node from geo meta tags (geo.position, ICBM, geo.placename, geo.region)
+ */
+function extractGeoMeta(metaTags: Array<{ key: string; content: string }>, source?: string): SchemaNode[] {
+  const node = createNode(['Place'], 'meta', source);
+
+  for (const { key, content } of metaTags) {
+    if (key === 'geo.position' || key === 'icbm') {
+      const [latitude, longitude] = content.split(/[;,]/).map((part) => part.trim());
+      if (latitude && longitude && !isNaN(Number(latitude)) && !isNaN(Number(longitude))) {
+        addPath(node, 'geo.latitude', latitude);
+        addPath(node, 'geo.longitude', longitude);
+      }
+    } else if (key === 'geo.placename') {
+      addPath(node, 'address.addressLocality', content);
+    } else if (key === 'geo.region') {
+      const [country, region] = content.split('-');
+      if (country) addPath(node, 'address.addressCountry', country.toUpperCase());
+      if (region) addPath(node, 'address.addressRegion', region.toUpperCase());
+    }
+  }
+
+  return Object.keys(node.properties).length > 0 ? [node] : [];
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Extract all structured data of a page as normalized schema.org nodes
+ */
+export function extractStructuredData(html: string, pageUrl?: string): SchemaNode[] {
+  if (!html) return [];
+
+  const root = parseHtml(html);
+  const metaTags = collectMetaTags(root);
+
+  return [
+    ...normalizeJsonLd(extractJsonLdBlocks(html), pageUrl),
+    ...extractMicrodata(root, pageUrl),
+    ...extractRdfa(root, pageUrl),
+    ...extractOpenGraph(metaTags, pageUrl),
+    ...extractGeoMeta(metaTags, pageUrl),
+  ];
+}
+
+/**
+ * Top-level and nested nodes (depth-first)
+ */
+export function flattenNodes(nodes: SchemaNode[]): SchemaNode[] {
+  const all: SchemaNode[] = [];
+
+  const visit = (node: SchemaNode) => {
+    all.push(node);
+    for (const values of Object.values(node.properties)) {
+      for (const value of values) {
+        if (isSchemaNode(value)) visit(value);
+      }
+    }
+  };
+
+  nodes.forEach(visit);
+
+  return all;
+}
+
+/**
+ * Convert a schema value back to plain JSON-LD-like data
+ */
+export function toPlainValue(value: SchemaValue): unknown {
+  if (!isSchemaNode(value)) return value;
+
+  const plain: Record<string, unknown> = {};
+  if (value.types.length > 0) plain['@type'] = value.types.length === 1 ? value.types[0] : value.types;
+
+  for (const [property, values] of Object.entries(value.properties)) {
+    const converted = values.map(toPlainValue);
+    plain[property] = converted.length === 1 ? converted[0] : converted;
+  }
+
+  return plain;
+}
+
+/**
+ * POI facts read from structured data, with the syntax each value came from
+ */
+export interface StructuredPoiData {
+  values: Record<string, unknown>;
+  sources: Record<string, StructuredDataSyntax>;
+  pages: Record<string, string>; // Page URL each value was found on
+  syntaxes: StructuredDataSyntax[];
+}
+
+/**
+ * Fields read from POI nodes: output field -> property path(s), first match wins
+ */
+const POI_FIELDS: Array<{ field: string; paths: string[]; multiple?: boolean }> = [
+  { field: 'name', paths: ['name'] },
+  { field: 'telephone', paths: ['telephone'] },
+  { field: 'email', paths: ['email'] },
+  { field: 'url', paths: ['url'] },
+  { field: 'description', paths: ['description'] },
+  { field: 'priceRange', paths: ['priceRange'] },
+  { field: 'servesCuisine', paths: ['servesCuisine'], multiple: true },
+  { field: 'openingHours', paths: ['openingHoursSpecification', 'openingHours'], multiple: true },
+  { field: 'paymentAccepted', paths: ['paymentAccepted'], multiple: true },
+  { field: 'streetAddress', paths: ['address.streetAddress'] },
+  { field: 'postalCode', paths: ['address.postalCode'] },
+  { field: 'addressLocality', paths: ['address.addressLocality'] },
+  { field: 'addressRegion', paths: ['address.addressRegion'] },
+  { field: 'addressCountry', paths: ['address.addressCountry'] },
+  { field: 'latitude', paths: ['geo.latitude', 'latitude'] },
+  { field: 'longitude', paths: ['geo.longitude', 'longitude'] },
+];
+
+/**
+ * Resolve a dotted property path; nested nodes are searched in order
+ */
+function resolvePath(node: SchemaNode, path: string): SchemaValue[] {
+  const [head, ...rest] = path.split('.');
+  const values = getValues(node, head);
+  if (rest.length === 0) return values;
+
+  return values.flatMap((value) => (isSchemaNode(value) ? resolvePath(value, rest.join('.')) : []));
+}
+
+/**
+ * Check whether a node describes a POI
+ */
+export function isPoiNode(node: SchemaNode): boolean {
+  return node.types.some((type) => POI_TYPES.has(type));
+}
+
+/**
+ * Merge POI facts from all nodes. JSON-LD wins over Microdata, RDFa,
+ * OpenGraph and meta tags; within a syntax the first page wins.
+ */
+export function summarizeStructuredData(nodes: SchemaNode[]): StructuredPoiData {
+  const values: Record<string, unknown> = {};
+  const sources: Record<string, StructuredDataSyntax> = {};
+  const pages: Record<string, string> = {};
+
+  const poiNodes = flattenNodes(nodes)
+    .filter(isPoiNode)
+    .sort((a, b) => SYNTAX_PRIORITY.indexOf(a.syntax) - SYNTAX_PRIORITY.indexOf(b.syntax));
+
+  for (const node of poiNodes) {
+    for (const { field, paths, multiple } of POI_FIELDS) {
+      if (field in values) continue;
+
+      for (const path of paths) {
+        const found = resolvePath(node, path);
+        if (found.length === 0) continue;
+
+        const plain = found.map(toPlainValue);
+        values[field] = multiple && plain.length > 1 ? plain : plain[0];
+        sources[field] = node.syntax;
+        if (node.source) pages[field] = node.source;
+        break;
+      }
+    }
+  }
+
+  const syntaxes = SYNTAX_PRIORITY.filter((syntax) => nodes.some((node) => node.syntax === syntax));
+
+  return { values, sources, pages, syntaxes };
+}
@@ -160,6 +160,8 @@ export const createDataFieldSchema = z.object({
   displayOrder: z.coerce.number().int().min(0).default(0),
   category: z.string().optional(),
   extractionPrompt: z.string().optional(),
+  weight: z.number().min(0).max(10).default(1),
+  categoryWeights: z.record(z.string(), z.number().min(0).max(10)).optional(), // POI category -> weight
 });
 
 export const updateDataFieldSchema = createDataFieldSchema.partial();
@@ -214,6 +216,7 @@ export const auditResultSchema = z.object({
     })
   ),
   summary: z.string(),
+  carriedForward: z.boolean().optional(), // Inputs unchanged, last audit reused
 });
 
 // ============================================================================
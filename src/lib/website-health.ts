@@ -0,0 +1,290 @@
+import tls from 'tls';
+import { createLogger } from './logger';
+import { extractDomain } from './utils';
+
+const logger = createLogger('website-health');
+
+/**
+ * Website health checks: reachability, redirects, TLS, parked domains
+ * and broken internal links
+ */
+
+export interface RedirectHop {
+  url: string;
+  statusCode: number;
+}
+
+export interface TlsInfo {
+  valid: boolean;
+  validTo?: string;
+  daysRemaining?: number;
+  issuer?: string;
+  error?: string;
+}
+
+export interface BrokenLink {
+  url: string;
+  statusCode: number;
+  parentUrl?: string;
+  error?: string;
+}
+
+/**
+ * Facts collected for a POI website on every crawl
+ */
+export interface WebsiteHealthFacts {
+  url: string;
+  finalUrl: string;
+  reachable: boolean;
+  statusCode: number;
+  responseTimeMs?: number;
+  error?: string;
+  redirects: RedirectHop[];
+  crossDomainRedirect: boolean;
+  parkedReason: string | null;
+  tls: TlsInfo | null; // null for plain HTTP
+  brokenLinks: BrokenLink[];
+  pagesChecked: number;
+}
+
+export type WebsiteHealthStatus = 'healthy' | 'degraded' | 'down';
+
+export interface WebsiteHealthScore {
+  score: number;
+  status: WebsiteHealthStatus;
+  issues: string[];
+}
+
+const TLS_EXPIRY_WARNING_DAYS = parseInt(process.env.WEBSITE_TLS_WARNING_DAYS || '14', 10);
+const MAX_REDIRECTS = 10;
+const MAX_BROKEN_LINKS = 50;
+
+/**
+ * Hosts of domain parking and aftermarket services
+ */
+const PARKING_HOSTS = /(?:^|\.)(?:sedo\.com|sedoparking\.com|parkingcrew\.net|bodis\.com|dan\.com|afternic\.com|hugedomains\.com|above\.com|undeveloped\.com|domainmarkt\.de)$/i;
+
+/**
+ * Texts of parked, for-sale or provider placeholder pages
+ */
+const PARKED_PATTERNS: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /(?:diese|this) domain (?:steht zum verkauf|is for sale|may be for sale|kaufen)/i, reason: 'for_sale' },
+  { pattern: /domain (?:kaufen|erwerben|zu verkaufen)|buy this domain/i, reason: 'for_sale' },
+  { pattern: /sedoparking|parkingcrew|window\.park\s*=|bodis\.com/i, reason: 'parking_service' },
+  { pattern: /hier entsteht (?:eine neue|in k(?:ü|ue)rze)|domain (?:ist )?reserviert|diese domain wurde (?:soeben )?registriert/i, reason: 'placeholder' },
+  { pattern: /website (?:coming soon|is under construction)|default web site page|apache2? (?:ubuntu )?default page/i, reason: 'placeholder' },
+];
+
+/**
+ * Crawl errors that are not broken links
+ */
+const IGNORED_CRAWL_ERRORS = /^(?:Already visited|Disallowed by robots\.txt|Unsupported content type|Document too large|Document text extraction failed)/;
+
+/**
+ * Detect parked domains and provider placeholder pages
+ */
+export function detectParkedDomain(html: string, finalUrl: string): string | null {
+  if (PARKING_HOSTS.test(extractDomain(finalUrl))) return 'parking_redirect';
+
+  // Placeholders are short; a real site mentioning "Domain kaufen" in a blog post is not
+  const sample = html.slice(0, 200000);
+  if (sample.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').length > 20000) return null;
+
+  return PARKED_PATTERNS.find(({ pattern }) => pattern.test(sample))?.reason ?? null;
+}
+
+/**
+ * Broken internal links from crawl results (the start page is judged separately)
+ */
+export function collectBrokenLinks(
+  results: Array<{ url: string; statusCode: number; error?: string; selection?: { source: string; parentUrl?: string } }>
+): BrokenLink[] {
+  return results
+    .filter((result) => result.selection?.source !== 'start')
+    .filter((result) => result.statusCode >= 400 || (result.error && !IGNORED_CRAWL_ERRORS.test(result.error)))
+    .slice(0, MAX_BROKEN_LINKS)
+    .map((result) => ({
+      url: result.url,
+      statusCode: result.statusCode,
+      parentUrl: result.selection?.parentUrl,
+      ...(result.statusCode === 0 && result.error ? { error: result.error } : {}),
+    }));
+}
+
+/**
+ * Score website health 0-100
+ */
+export function scoreWebsiteHealth(facts: WebsiteHealthFacts): WebsiteHealthScore {
+  if (!facts.reachable) {
+    return { score: 0, status: 'down', issues: [facts.error ? `unreachable:${facts.error}` : `unreachable:http_${facts.statusCode}`] };
+  }
+
+  if (facts.parkedReason) {
+    return { score: 10, status: 'down', issues: [`parked:${facts.parkedReason}`] };
+  }
+
+  const issues: string[] = [];
+  let score = 100;
+
+  if (!facts.tls) {
+    score -= 15;
+    issues.push('no_https');
+  } else if (!facts.tls.valid) {
+    score -= 40;
+    issues.push(facts.tls.error ? `tls_invalid:${facts.tls.error}` : 'tls_invalid');
+  } else if (facts.tls.daysRemaining !== undefined && facts.tls.daysRemaining < TLS_EXPIRY_WARNING_DAYS) {
+    score -= 10;
+    issues.push('tls_expiring');
+  }
+
+  if (facts.crossDomainRedirect) {
+    score -= 10;
+    issues.push('cross_domain_redirect');
+  }
+
+  if (facts.redirects.length > 3) {
+    score -= 5;
+    issues.push('redirect_chain');
+  }
+
+  if (facts.brokenLinks.length > 0) {
+    score -= Math.min(30, facts.brokenLinks.length * 5);
+    issues.push('broken_links');
+  }
+
+  score = Math.max(0, score);
+
+  return { score, status: score >= 80 ? 'healthy' : 'degraded', issues };
+}
+
+/**
+ * Availability over a series of checks
+ */
+export function summarizeAvailability(
+  records: Array<{ reachable: boolean; checkedAt: Date | string }>
+): { checks: number; up: number; uptime: number | null; lastDownAt: string | null } {
+  const up = records.filter((record) => record.reachable).length;
+  const lastDown = records
+    .filter((record) => !record.reachable)
+    .map((record) => new Date(record.checkedAt).getTime())
+    .sort((a, b) => b - a)[0];
+
+  return {
+    checks: records.length,
+    up,
+    uptime: records.length > 0 ? Math.round((up / records.length) * 1000) / 10 : null,
+    lastDownAt: lastDown ? new Date(lastDown).toISOString() : null,
+  };
+}
+
+/**
+ * Read the TLS certificate of a host
+ */
+export function checkTls(host: string, timeoutMs = 10000): Promise<TlsInfo> {
+  return new Promise((resolve) => {
+    const socket = tls.connect({ host, port: 443, servername: host, rejectUnauthorized: false });
+
+    const finish = (info: TlsInfo) => {
+      socket.destroy();
+      resolve(info);
+    };
+
+    socket.setTimeout(timeoutMs, () => finish({ valid: false, error: 'timeout' }));
+    socket.once('error', (error) => finish({ valid: false, error: error.message }));
+    socket.once('secureConnect', () => {
+      const certificate = socket.getPeerCertificate();
+      const validTo = certificate?.valid_to ? new Date(certificate.valid_to) : undefined;
+      const daysRemaining = validTo ? Math.floor((validTo.getTime() - Date.now()) / 86400000) : undefined;
+
+      finish({
+        valid: socket.authorized && (daysRemaining === undefined || daysRemaining >= 0),
+        validTo: validTo?.toISOString(),
+        daysRemaining,
+        issuer: [certificate?.issuer?.O || certificate?.issuer?.CN].flat()[0],
+        error: socket.authorized ? undefined : String(socket.authorizationError || 'untrusted'),
+      });
+    });
+  });
+}
+
+/**
+ * Follow redirects hop by hop and probe the website. Returns null when
+ * robots.txt disallows one of the hops, which says nothing about health.
+ */
+export async function probeWebsite(
+  url: string,
+  options: { userAgent: string; timeout?: number; isAllowed?: (url: string) => Promise<boolean> }
+): Promise<Omit<WebsiteHealthFacts, 'brokenLinks' | 'pagesChecked' | 'tls'> | null> {
+  const redirects: RedirectHop[] = [];
+  const startTime = Date.now();
+  let current = url;
+
+  try {
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      if (options.isAllowed && !(await options.isAllowed(current))) {
+        logger.info({ url, hop: current }, 'Website probe disallowed by robots.txt');
+        return null;
+      }
+
+      const response = await fetch(current, {
+        headers: { 'User-Agent': options.userAgent, Accept: 'text/html,application/xhtml+xml' },
+        redirect: 'manual',
+        signal: AbortSignal.timeout(options.timeout ?? 15000),
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        redirects.push({ url: current, statusCode: response.status });
+        current = new URL(location, current).href;
+        continue;
+      }
+
+      const html = response.ok ? (await response.text()).slice(0, 500000) : '';
+
+      return {
+        url,
+        finalUrl: current,
+        reachable: response.ok,
+        statusCode: response.status,
+        responseTimeMs: Date.now() - startTime,
+        redirects,
+        crossDomainRedirect: registrableHost(current) !== registrableHost(url),
+        parkedReason: response.ok ? detectParkedDomain(html, current) : null,
+      };
+    }
+
+    return failedProbe(url, current, redirects, 'too_many_redirects');
+  } catch (error) {
+    const message = error instanceof Error ? (error.cause as Error | undefined)?.message || error.message : String(error);
+    logger.debug({ url, error: message }, 'Website probe failed');
+    return failedProbe(url, current, redirects, message);
+  }
+}
+
+/**
+ * Probe result for an unreachable website
+ */
+function failedProbe(
+  url: string,
+  finalUrl: string,
+  redirects: RedirectHop[],
+  error: string
+): Omit<WebsiteHealthFacts, 'brokenLinks' | 'pagesChecked' | 'tls'> {
+  return {
+    url,
+    finalUrl,
+    reachable: false,
+    statusCode: 0,
+    error,
+    redirects,
+    crossDomainRedirect: registrableHost(finalUrl) !== registrableHost(url),
+    parkedReason: null,
+  };
+}
+
+/**
+ * Host without "www." for redirect comparison
+ */
+function registrableHost(url: string): string {
+  return extractDomain(url).toLowerCase().replace(/^www\./, '');
+}
@@ -0,0 +1,151 @@
+import { createLogger } from './logger';
+import { withHostSlot } from './host-politeness';
+import { isAllowedByRobots } from './robots';
+import {
+  checkTls,
+  collectBrokenLinks,
+  probeWebsite,
+  scoreWebsiteHealth,
+  summarizeAvailability,
+  type WebsiteHealthFacts,
+  type WebsiteHealthScore,
+} from './website-health';
+import { extractDomain } from './utils';
+import prisma from './db';
+
+const logger = createLogger('website-monitor');
+
+/**
+ * Persist website health per crawl and alert on dead sites
+ */
+
+const HEALTH_STATUS_VALUES = {
+  healthy: 'HEALTHY',
+  degraded: 'DEGRADED',
+  down: 'DOWN',
+} as const;
+
+/**
+ * Probe the POI website, combine it with the crawl results and store a health
+ * record. Nothing is recorded when robots.txt disallows probing the site.
+ */
+export async function recordWebsiteHealth(
+  poiId: string,
+  url: string,
+  results: Array<{ url: string; statusCode: number; error?: string; selection?: { source: string; parentUrl?: string } }>,
+  userAgent: string
+): Promise<(WebsiteHealthFacts & WebsiteHealthScore) | null> {
+  const probe = await withHostSlot(url, () => probeWebsite(url, {
+    userAgent,
+    isAllowed: async (hop) => (await isAllowedByRobots(hop, userAgent)).allowed,
+  }));
+  if (!probe) return null;
+
+  const facts: WebsiteHealthFacts = {
+    ...probe,
+    tls: probe.finalUrl.startsWith('https:') ? await checkTls(extractDomain(probe.finalUrl)) : null,
+    brokenLinks: collectBrokenLinks(results),
+    pagesChecked: results.length,
+  };
+  const health = scoreWebsiteHealth(facts);
+
+  const previous = await prisma.websiteHealth.findFirst({
+    where: { poiId },
+    orderBy: { checkedAt: 'desc' },
+    select: { status: true },
+  });
+
+  await prisma.websiteHealth.create({
+    data: {
+      poiId,
+      url: facts.url,
+      finalUrl: facts.finalUrl,
+      reachable: facts.reachable,
+      statusCode: facts.statusCode,
+      responseTimeMs: facts.responseTimeMs,
+      error: facts.error,
+      redirects: JSON.parse(JSON.stringify(facts.redirects)),
+      crossDomainRedirect: facts.crossDomainRedirect,
+      parkedReason: facts.parkedReason,
+      tlsValid: facts.tls?.valid,
+      tlsExpiresAt: facts.tls?.validTo ? new Date(facts.tls.validTo) : undefined,
+      tlsIssuer: facts.tls?.issuer,
+      tlsError: facts.tls?.error,
+      brokenLinks: JSON.parse(JSON.stringify(facts.brokenLinks)),
+      brokenLinkCount: facts.brokenLinks.length,
+      pagesChecked: facts.pagesChecked,
+      score: health.score,
+      status: HEALTH_STATUS_VALUES[health.status],
+      issues: health.issues,
+    },
+  });
+
+  // Alert once when a site goes down, not on every crawl while it stays down
+  if (health.status === 'down' && previous?.status !== 'DOWN') {
+    await sendWebsiteDownNotification(poiId, facts, health);
+  }
+
+  logger.info(
+    { poiId, url, score: health.score, status: health.status, issues: health.issues },
+    'Website health recorded'
+  );
+
+  return { ...facts, ...health };
+}
+
+/**
+ * Notify admins that a POI website is unreachable or parked
+ */
+async function sendWebsiteDownNotification(
+  poiId: string,
+  facts: WebsiteHealthFacts,
+  health: WebsiteHealthScore
+): Promise<void> {
+  const poi = await prisma.pOI.findUnique({
+    where: { id: poiId },
+    select: { name: true },
+  });
+
+  if (!poi) return;
+
+  const admins = await prisma.user.findMany({
+    where: { role: 'ADMIN', deletedAt: null },
+    select: { id: true },
+  });
+
+  const reason = facts.parkedReason
+    ? 'ist geparkt oder steht zum Verkauf'
+    : `ist nicht erreichbar (${facts.error || `HTTP ${facts.statusCode}`})`;
+
+  for (const admin of admins) {
+    await prisma.notification.create({
+      data: {
+        userId: admin.id,
+        type: 'WEBSITE_DOWN',
+        title: `Website nicht erreichbar: ${poi.name}`,
+        message: `Die Website ${facts.url} von "${poi.name}" ${reason}.`,
+        data: { poiId, url: facts.url, finalUrl: facts.finalUrl, issues: health.issues },
+      },
+    });
+  }
+
+  logger.warn({ poiId, url: facts.url, issues: health.issues }, 'Website down notification sent');
+}
+
+/**
+ * Latest health record and availability over the given period
+ */
+export async function getWebsiteHealth(poiId: string, days = 30) {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const history = await prisma.websiteHealth.findMany({
+    where: { poiId, checkedAt: { gte: since } },
+    orderBy: { checkedAt: 'desc' },
+  });
+
+  return {
+    latest: history[0] ?? null,
+    availability: summarizeAvailability(history),
+    history,
+  };
+}
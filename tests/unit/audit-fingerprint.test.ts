@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { auditFingerprint, canonicalize, type AuditFingerprintInput } from '../../src/lib/audit-fingerprint';
+
+describe('Audit fingerprint', () => {
+  const input: AuditFingerprintInput = {
+    tldbData: { name: 'Hotel Seeblick', telephone: '+49 4503 1234' },
+    websiteData: {
+      name: 'Hotel Seeblick',
+      telephone: '04503 1234',
+      scrapedAt: '2026-10-01T08:00:00.000Z',
+      crawlStats: { pagesCrawled: 12, durationMs: 5400 },
+      screenshots: { start: 'screenshots/abc.png' },
+    },
+    mapsData: { name: 'Hotel Seeblick', providers: ['google'] },
+    fields: [
+      { name: 'name', dataType: 'STRING', isLocalized: false, weight: 3 },
+      { name: 'telephone', dataType: 'PHONE', isLocalized: false, weight: 2 },
+    ],
+    category: 'Hotel',
+    websiteHealth: { status: 'HEALTHY', score: 100, issues: [] },
+    promptVersion: 'audit-v1',
+    models: ['openai:gpt-4o-mini'],
+  };
+
+  it('should canonicalize key order, whitespace and empty values', () => {
+    expect(canonicalize({ b: ' x ', a: [1, null, ''], c: {}, d: null, e: false, f: 0 })).toEqual({ a: [1], b: 'x', e: false, f: 0 });
+    expect(JSON.stringify(canonicalize({ b: 1, a: 2 }))).toBe('{"a":2,"b":1}');
+  });
+
+  it('should ignore key order, whitespace, empty values and crawl bookkeeping', () => {
+    const same = auditFingerprint({
+      ...input,
+      tldbData: { telephone: '+49 4503 1234 ', name: 'Hotel Seeblick', email: '' },
+      websiteData: {
+        telephone: '04503 1234',
+        name: 'Hotel Seeblick',
+        scrapedAt: '2026-10-08T08:00:00.000Z',
+        crawlStats: { pagesCrawled: 11, durationMs: 6100 },
+        screenshots: { start: 'screenshots/def.png' },
+        crawlArchive: 'archives/def.warc.gz',
+        pageUrls: ['https://seeblick.de/', 'https://seeblick.de/kontakt'],
+      },
+      category: 'hotel',
+    });
+
+    expect(same).toBe(auditFingerprint(input));
+    expect(auditFingerprint(input)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should change with the data', () => {
+    const fingerprint = auditFingerprint(input);
+
+    expect(auditFingerprint({ ...input, mapsData: { ...input.mapsData, telephone: '04503 9999' } })).not.toBe(fingerprint);
+    expect(auditFingerprint({ ...input, websiteHealth: { status: 'DOWN', score: 0, issues: ['Timeout'] } })).not.toBe(fingerprint);
+    expect(auditFingerprint({ ...input, category: 'Museum' })).not.toBe(fingerprint);
+  });
+
+  it('should change with the field set and weights', () => {
+    const fingerprint = auditFingerprint(input);
+
+    expect(auditFingerprint({ ...input, fields: input.fields.slice(0, 1) })).not.toBe(fingerprint);
+    expect(auditFingerprint({
+      ...input,
+      fields: input.fields.map((f) => (f.name === 'telephone' ? { ...f, weight: 1 } : f)),
+    })).not.toBe(fingerprint);
+    expect(auditFingerprint({
+      ...input,
+      fields: input.fields.map((f) => (f.name === 'name' ? { ...f, categoryWeights: { Hotel: 4 } } : f)),
+    })).not.toBe(fingerprint);
+  });
+
+  it('should change with the prompt version and models', () => {
+    const fingerprint = auditFingerprint(input);
+
+    expect(auditFingerprint({ ...input, promptVersion: 'audit-v2' })).not.toBe(fingerprint);
+    expect(auditFingerprint({ ...input, models: ['openai:gpt-4o'] })).not.toBe(fingerprint);
+    expect(auditFingerprint({ ...input, models: ['openai:gpt-4o-mini', 'anthropic:claude-haiku-4-5'] })).not.toBe(fingerprint);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { breakdownFieldScores, fieldWeight, scoreAudit, scoreField, WEBSITE_HEALTH_FIELD } from '../../src/lib/audit-scoring';
+
+describe('Audit scoring', () => {
+  const comparison = (fieldName: string, matchStatus: 'match' | 'partial_match' | 'mismatch' | 'missing_data', confidence = 1) => ({
+    fieldName,
+    tldbValue: 'a',
+    websiteValue: 'b',
+    mapsValue: null,
+    matchStatus,
+    confidence,
+  });
+
+  const fields = [
+    { name: 'name', weight: 3 },
+    { name: 'telephone', weight: 2 },
+    { name: 'openingHours', weight: 2, categoryWeights: { Museum: 3 } },
+    { name: 'priceRange', weight: 1, categoryWeights: { museum: 0 } },
+  ];
+
+  it('should score fields from status and confidence', () => {
+    expect(scoreField('match', 1)).toBe(100);
+    expect(scoreField('partial_match', 1)).toBe(70);
+    expect(scoreField('missing_data', 0.3)).toBe(50);
+    expect(scoreField('mismatch', 1)).toBe(0);
+    expect(scoreField('match', 0.6)).toBe(80);
+    expect(scoreField('mismatch', 0.6)).toBe(20);
+    expect(scoreField('match', 0)).toBe(50);
+  });
+
+  it('should apply category weights case-insensitively', () => {
+    expect(fieldWeight(fields[2], 'MUSEUM')).toBe(3);
+    expect(fieldWeight(fields[2], 'Hotel')).toBe(2);
+    expect(fieldWeight(fields[2])).toBe(2);
+    expect(fieldWeight(fields[3], 'Museum')).toBe(0);
+    expect(fieldWeight({ name: 'x', weight: 1, categoryWeights: { Museum: 'high' } }, 'Museum')).toBe(1);
+  });
+
+  it('should compute a weighted overall score with a breakdown', () => {
+    const breakdown = scoreAudit(
+      [comparison('name', 'match'), comparison('telephone', 'mismatch'), comparison('openingHours', 'partial_match'), comparison('email', 'match')],
+      fields,
+      'Restaurant'
+    );
+
+    // (100*3 + 0*2 + 70*2 + 100*1) / 8
+    expect(breakdown.overallScore).toBe(68);
+    expect(breakdown.totalWeight).toBe(8);
+    expect(breakdown.fields.find((entry) => entry.field === 'name')).toEqual({
+      field: 'name',
+      matchStatus: 'match',
+      confidence: 1,
+      statusScore: 100,
+      fieldScore: 100,
+      weight: 3,
+      contribution: 37.5,
+    });
+    expect(breakdown.fields.reduce((sum, entry) => sum + entry.contribution, 0)).toBeCloseTo(67.5);
+    expect(breakdownFieldScores(breakdown)).toEqual({ name: 100, telephone: 0, openingHours: 70, email: 100 });
+  });
+
+  it('should leave out fields without data or weight', () => {
+    const breakdown = scoreAudit(
+      [
+        comparison('name', 'match'),
+        comparison('priceRange', 'mismatch'),
+        { ...comparison('telephone', 'missing_data'), tldbValue: null, websiteValue: null },
+      ],
+      fields,
+      'museum'
+    );
+
+    expect(breakdown.overallScore).toBe(100);
+    expect(breakdown.excluded).toEqual([
+      { field: 'priceRange', reason: 'zero_weight' },
+      { field: 'telephone', reason: 'no_data' },
+    ]);
+    expect(scoreAudit([], fields).overallScore).toBe(0);
+  });
+
+  it('should weight website health into the overall score', () => {
+    const healthFields = [...fields, { name: WEBSITE_HEALTH_FIELD, weight: 2, categoryWeights: { Museum: 0 } }];
+    const comparisons = [comparison('name', 'match'), comparison('telephone', 'match')];
+
+    // A site that is down pulls an otherwise perfect audit below the review threshold
+    const down = scoreAudit(comparisons, healthFields, 'Hotel', [{ field: WEBSITE_HEALTH_FIELD, score: 0 }]);
+    expect(down.overallScore).toBe(71); // (100 * 3 + 100 * 2 + 0 * 2) / 7
+    expect(down.fields.find((f) => f.field === WEBSITE_HEALTH_FIELD)).toMatchObject({ matchStatus: null, fieldScore: 0, weight: 2 });
+    expect(breakdownFieldScores(down)[WEBSITE_HEALTH_FIELD]).toBe(0);
+
+    const museum = scoreAudit(comparisons, healthFields, 'Museum', [{ field: WEBSITE_HEALTH_FIELD, score: 0 }]);
+    expect(museum.overallScore).toBe(100);
+    expect(museum.excluded).toEqual([{ field: WEBSITE_HEALTH_FIELD, reason: 'zero_weight' }]);
+  });
+
+  it('should score identical comparisons identically', () => {
+    const comparisons = [comparison('name', 'partial_match', 0.8), comparison('telephone', 'match')];
+    expect(scoreAudit(comparisons, fields, 'Hotel')).toEqual(scoreAudit(comparisons, fields, 'Hotel'));
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assessClosure,
+  collectClosureSignals,
+  isClosureEscalation,
+  mergeClosureSignals,
+  unsuppressedSignals,
+} from '../../src/lib/closure-detection';
+
+describe('Closure detection', () => {
+  const now = new Date('2026-10-19T10:00:00Z');
+  const down = (day: number, parkedReason: string | null = null) => ({
+    status: 'DOWN',
+    parkedReason,
+    issues: [parkedReason ? `parked:${parkedReason}` : 'unreachable:ENOTFOUND'],
+    url: 'https://gasthof-post.de',
+    checkedAt: new Date(Date.UTC(2026, 9, day)),
+  });
+
+  it('should collect map and website signals', () => {
+    const signals = collectClosureSignals(
+      { businessStatus: 'CLOSED_PERMANENTLY', sources: { businessStatus: 'osm' } },
+      [down(19), down(12, 'for_sale'), down(5), { status: 'HEALTHY', checkedAt: new Date(Date.UTC(2026, 8, 28)) }],
+      now
+    );
+
+    expect(signals).toEqual([
+      { type: 'CLOSED_PERMANENTLY', source: 'osm', detail: 'osm: CLOSED_PERMANENTLY', since: now.toISOString() },
+      {
+        type: 'WEBSITE_PARKED',
+        source: 'website',
+        detail: 'https://gasthof-post.de: unreachable:ENOTFOUND (3 consecutive crawls)',
+        since: '2026-10-05T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('should require consecutive failed crawls', () => {
+    expect(collectClosureSignals({ businessStatus: 'OPERATIONAL' }, [down(19), down(12)], now)).toEqual([]);
+    expect(collectClosureSignals(null, [down(19), { status: 'DEGRADED', checkedAt: now }, down(5)], now, 2)).toEqual([]);
+  });
+
+  it('should combine signals into one suspicion', () => {
+    const [closed, website] = collectClosureSignals(
+      { businessStatus: 'CLOSED_PERMANENTLY' },
+      [down(19), down(12), down(5)],
+      now
+    );
+
+    expect(assessClosure([])).toBeNull();
+    expect(assessClosure([closed])).toMatchObject({ kind: 'PERMANENT', confidence: 0.7 });
+    expect(assessClosure([closed, website])).toMatchObject({ kind: 'PERMANENT', confidence: 0.85 });
+
+    const [temporary] = collectClosureSignals({ businessStatus: 'CLOSED_TEMPORARILY' }, [], now);
+    expect(assessClosure([temporary])).toMatchObject({ kind: 'TEMPORARY', confidence: 0.6 });
+    expect(assessClosure([temporary, website])).toMatchObject({ kind: 'PERMANENT', confidence: 0.65 });
+  });
+
+  it('should keep the first observation across runs and honour dismissals', () => {
+    const earlier = collectClosureSignals({ businessStatus: 'CLOSED_PERMANENTLY' }, [], new Date('2026-09-01T00:00:00Z'));
+    const current = collectClosureSignals({ businessStatus: 'CLOSED_PERMANENTLY' }, [down(19), down(12), down(5)], now);
+
+    const merged = mergeClosureSignals(earlier, current);
+    expect(merged[0].since).toBe('2026-09-01T00:00:00.000Z');
+
+    expect(unsuppressedSignals(merged, earlier).map((signal) => signal.type)).toEqual(['WEBSITE_DOWN']);
+  });
+
+  it('should notify only on new evidence or escalation', () => {
+    const [closed, website] = collectClosureSignals({ businessStatus: 'CLOSED_PERMANENTLY' }, [down(19), down(12), down(5)], now);
+    const [temporary] = collectClosureSignals({ businessStatus: 'CLOSED_TEMPORARILY' }, [], now);
+
+    expect(isClosureEscalation(null, assessClosure([closed])!)).toBe(true);
+    expect(isClosureEscalation({ kind: 'PERMANENT', evidence: [closed] }, assessClosure([closed])!)).toBe(false);
+    expect(isClosureEscalation({ kind: 'PERMANENT', evidence: [closed] }, assessClosure([closed, website])!)).toBe(true);
+    expect(isClosureEscalation({ kind: 'TEMPORARY', evidence: [temporary] }, assessClosure([temporary, website])!)).toBe(true);
+  });
+});
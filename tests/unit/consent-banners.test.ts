@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { selectConsentHandlers } from '../../src/lib/consent-banners';
+
+const names = (html: string, override?: Parameters<typeof selectConsentHandlers>[1]) =>
+  selectConsentHandlers(html, override).map((handler) => handler.name);
+
+describe('Consent banners', () => {
+  it('should detect consent tools from the page HTML', () => {
+    expect(names('<div id="BorlabsCookieBox"></div>')).toEqual(['borlabs']);
+    expect(names('<script src="https://app.usercentrics.eu/browser-ui/latest/loader.js"></script>')).toEqual(['usercentrics']);
+    expect(names('<script id="Cookiebot" src="https://consent.cookiebot.com/uc.js"></script>')).toEqual(['cookiebot']);
+    expect(names('<script src="https://cdn.cookielaw.org/scripttemplates/otSDKStub.js" data-domain-script="x"></script><div id="onetrust-consent-sdk"></div>')).toEqual(['onetrust']);
+  });
+
+  it('should fall back to the generic handler for other banners', () => {
+    expect(names('<div class="cookie-banner">Wir verwenden Cookies. Ihre Einwilligung ...</div>')).toEqual(['generic']);
+    expect(names('<p>Öffnungszeiten: Mo-Fr 11-22 Uhr</p>')).toEqual([]);
+  });
+
+  it('should apply per-domain overrides', () => {
+    const html = '<div id="BorlabsCookieBox"></div>';
+
+    expect(names(html, { handler: 'none' })).toEqual([]);
+    expect(names(html, { handler: 'cookiebot' })).toEqual(['cookiebot']);
+
+    const [custom] = selectConsentHandlers(html, { selector: '#only-essential' });
+    expect(custom.name).toBe('custom');
+    expect(custom.banner).toContain('#BorlabsCookieBox');
+    expect(custom.reject[0]).toBe('#only-essential');
+  });
+
+  it('should never click accept buttons', () => {
+    for (const handler of selectConsentHandlers('borlabs usercentrics cookiebot onetrust')) {
+      for (const selector of handler.reject) {
+        expect(selector).not.toMatch(/accept(?!-only-essential)|allow|agree/i);
+      }
+    }
+  });
+});
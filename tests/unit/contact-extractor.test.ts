@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectContactPageType,
+  deobfuscateEmails,
+  normalizePhoneKey,
+  contactDedupeKey,
+  extractContacts,
+  extractContactsFromPages,
+} from '../../src/lib/contact-extractor';
+
+const IMPRESSUM_HTML = `
+<html><head><title>Impressum | Hotel Seeblick</title></head>
+<body>
+  <h1>Impressum</h1>
+  <p>Hotel Seeblick GmbH<br>Strandweg 1<br>24103 Kiel</p>
+  <p>Geschäftsführer: Max Mustermann</p>
+  <p>Tel.: +49 (0) 431 123456<br>Fax: 0431 123457</p>
+  <p>E-Mail: info [at] hotel-seeblick [dot] de</p>
+  <p>Registergericht: Amtsgericht Kiel, HRB 12345</p>
+</body></html>`;
+
+const TEAM_HTML = `
+<html><head><title>Unser Team</title></head>
+<body>
+  <div><h3>Anna Schmidt</h3><p>Rezeption</p><p><a href="mailto:anna.schmidt@hotel-seeblick.de">E-Mail schreiben</a> anna.schmidt@hotel-seeblick.de</p></div>
+</body></html>`;
+
+describe('Contact Extractor', () => {
+  describe('detectContactPageType', () => {
+    it('should detect page types from URL and title', () => {
+      expect(detectContactPageType('https://hotel.de/impressum')).toBe('impressum');
+      expect(detectContactPageType('https://hotel.de/kontakt')).toBe('contact');
+      expect(detectContactPageType('https://hotel.de/ueber-uns/team')).toBe('team');
+      expect(detectContactPageType('https://hotel.de/?p=12', 'Impressum')).toBe('impressum');
+      expect(detectContactPageType('https://hotel.de/zimmer')).toBe('other');
+    });
+  });
+
+  describe('deobfuscateEmails', () => {
+    it('should resolve common obfuscations', () => {
+      expect(deobfuscateEmails('info [at] domain [dot] de')).toBe('info@domain.de');
+      expect(deobfuscateEmails('info(at)domain.de')).toBe('info@domain.de');
+      expect(deobfuscateEmails('info (at) domain (punkt) de')).toBe('info@domain.de');
+      expect(deobfuscateEmails('info @ domain.de')).toBe('info@domain.de');
+    });
+  });
+
+  describe('normalizePhoneKey', () => {
+    it('should normalize German phone formats to the same key', () => {
+      expect(normalizePhoneKey('+49 (0) 431 123456')).toBe('+49431123456');
+      expect(normalizePhoneKey('0431 / 12 34 56')).toBe('+49431123456');
+      expect(normalizePhoneKey('0049 431 123456')).toBe('+49431123456');
+    });
+  });
+
+  describe('contactDedupeKey', () => {
+    it('should key by email, case-insensitive', () => {
+      expect(contactDedupeKey({ email: 'Info@Hotel.de' })).toBe('email:info@hotel.de');
+    });
+  });
+
+  describe('extractContacts', () => {
+    it('should extract the responsible person from an Impressum', () => {
+      const contacts = extractContacts({ url: 'https://hotel-seeblick.de/impressum', html: IMPRESSUM_HTML });
+
+      expect(contacts).toHaveLength(1);
+      expect(contacts[0]).toMatchObject({
+        name: 'Max Mustermann',
+        role: 'Geschäftsführung',
+        email: 'info@hotel-seeblick.de',
+        phone: '+49 (0) 431 123456',
+        trustLevel: 'HIGH',
+        pageType: 'impressum',
+      });
+    });
+
+    it('should extract named people from team pages', () => {
+      const contacts = extractContacts({ url: 'https://hotel-seeblick.de/team', html: TEAM_HTML });
+
+      expect(contacts).toHaveLength(1);
+      expect(contacts[0]).toMatchObject({
+        name: 'Anna Schmidt',
+        email: 'anna.schmidt@hotel-seeblick.de',
+        trustLevel: 'LOW',
+      });
+    });
+  });
+
+  describe('extractContactsFromPages', () => {
+    it('should merge duplicates and keep the highest trust level', () => {
+      const contacts = extractContactsFromPages([
+        { url: 'https://hotel-seeblick.de/kontakt', html: '<p>Schreiben Sie an info@hotel-seeblick.de</p>' },
+        { url: 'https://hotel-seeblick.de/impressum', html: IMPRESSUM_HTML },
+        { url: 'https://hotel-seeblick.de/zimmer', html: '<p>zimmer@hotel-seeblick.de</p>' },
+      ]);
+
+      expect(contacts).toHaveLength(1);
+      expect(contacts[0].trustLevel).toBe('HIGH');
+      expect(contacts[0].source).toBe('https://hotel-seeblick.de/impressum');
+    });
+  });
+});
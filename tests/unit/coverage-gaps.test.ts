@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findKnownPoi,
+  isCoverageCandidate,
+  planCoverageSearches,
+  sampleAnchorPois,
+  suggestedCategory,
+} from '../../src/lib/coverage-gaps';
+import type { PlaceSearchResult } from '../../src/lib/google-places';
+
+describe('Coverage gaps', () => {
+  const pois = [
+    { id: 'a', name: 'Gasthof zur Post', latitude: 50.3201, longitude: 11.917, placeId: 'g-post' },
+    { id: 'b', name: 'Hotel Strauss', latitude: 50.3205, longitude: 11.9175, placeId: null },
+    { id: 'c', name: 'Museum Bayerisches Vogtland', latitude: 50.3401, longitude: 11.917, placeId: null, mapsPlaceIds: { google: 'g-museum' } },
+    { id: 'd', name: 'Ohne Koordinaten', latitude: null, longitude: null },
+  ];
+
+  const place = (overrides: Partial<PlaceSearchResult>): PlaceSearchResult => ({
+    placeId: 'g-new',
+    name: 'Café am Theresienstein',
+    address: 'Theresienstein 1, Hof',
+    location: { lat: 50.3301, lng: 11.92 },
+    types: ['cafe', 'food', 'point_of_interest'],
+    businessStatus: 'OPERATIONAL',
+    ...overrides,
+  });
+
+  it('should sample one anchor POI per search area', () => {
+    expect(sampleAnchorPois(pois).map((poi) => poi.id)).toEqual(['a', 'c']);
+  });
+
+  it('should plan only as many searches as the cost cap allows', () => {
+    const anchors = sampleAnchorPois(pois);
+
+    expect(planCoverageSearches(anchors, ['lodging', 'restaurant'], { costCap: 1, searchCost: 0.032 })).toHaveLength(4);
+
+    const capped = planCoverageSearches(anchors, ['lodging', 'restaurant'], { costCap: 0.1, searchCost: 0.032 });
+    expect(capped).toEqual([
+      { anchorPoiId: 'a', location: { lat: 50.3201, lng: 11.917 }, type: 'lodging' },
+      { anchorPoiId: 'a', location: { lat: 50.3201, lng: 11.917 }, type: 'restaurant' },
+    ]);
+  });
+
+  it('should recognize known POIs by place ID, name and distance', () => {
+    expect(findKnownPoi(place({ placeId: 'g-post', name: 'Post' }), pois)?.id).toBe('a');
+    expect(findKnownPoi(place({ placeId: 'g-museum', name: 'Vogtlandmuseum' }), pois)?.id).toBe('c');
+    expect(findKnownPoi(place({ placeId: 'g-x', name: 'Hotel Strauß', location: { lat: 50.3206, lng: 11.9176 } }), pois)?.id)
+      .toBe('b');
+
+    // Same name far away, or a different business next door
+    expect(findKnownPoi(place({ placeId: 'g-y', name: 'Hotel Strauss', location: { lat: 50.36, lng: 11.9 } }), pois)).toBeUndefined();
+    expect(findKnownPoi(place({ placeId: 'g-z', name: 'Eiscafé Venezia', location: { lat: 50.3202, lng: 11.9171 } }), pois)).toBeUndefined();
+  });
+
+  it('should list operating places of the searched types with a suggested category', () => {
+    expect(isCoverageCandidate(place({}), ['cafe', 'restaurant'])).toBe(true);
+    expect(isCoverageCandidate(place({ businessStatus: 'CLOSED_PERMANENTLY' }), ['cafe'])).toBe(false);
+    expect(isCoverageCandidate(place({ types: ['gas_station'] }), ['cafe'])).toBe(false);
+
+    expect(suggestedCategory(['lodging', 'restaurant'])).toBe('Hotel');
+    expect(suggestedCategory(['point_of_interest', 'campground'])).toBe('Camping');
+    expect(suggestedCategory(['gas_station'])).toBeUndefined();
+  });
+});
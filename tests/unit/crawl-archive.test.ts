@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CrawlArchive, crawlArchiveKey } from '../../src/lib/crawl-archive';
+import { fetchSitemapEntries } from '../../src/lib/sitemap';
+
+const PAGE = '<html><head><script type="application/ld+json">{"@type":"Restaurant"}</script></head><body>Hallo</body></html>';
+
+/**
+ * Response as fetch returns it after following redirects
+ */
+function served(body: BodyInit | null, init: ResponseInit, url: string): Response {
+  const response = new Response(body, init);
+  Object.defineProperty(response, 'url', { value: url });
+  return response;
+}
+
+describe('Crawl archive', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should record responses and replay them without the network', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(served(PAGE, {
+        status: 200,
+        headers: { 'content-type': 'text/html; charset=utf-8', etag: '"v1"', 'content-encoding': 'gzip' },
+      }, 'https://a.de/start'))
+      .mockResolvedValueOnce(served(new Uint8Array([0x25, 0x50, 0x44, 0x46, 0xff]), {
+        status: 200,
+        headers: { 'content-type': 'application/pdf' },
+      }, 'https://a.de/karte.pdf')));
+
+    const recording = new CrawlArchive();
+    const record = recording.createFetch('record');
+
+    const page = await record('https://a.de/', { headers: { 'User-Agent': 'test' } });
+    expect(await page.text()).toBe(PAGE);
+    expect(page.url).toBe('https://a.de/start');
+    await (await record('https://a.de/karte.pdf')).arrayBuffer();
+
+    expect(recording.size).toBe(2);
+    expect(recording.find('https://a.de')?.request.headers).toEqual([{ name: 'user-agent', value: 'test' }]);
+
+    // Round trip through JSON, as stored in the blob store
+    const replaying = CrawlArchive.fromHar(JSON.parse(JSON.stringify(recording.toHar())));
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('network used during replay')));
+    const replay = replaying.createFetch('replay');
+
+    const replayedPage = await replay('https://a.de/');
+    expect(replayedPage.status).toBe(200);
+    expect(replayedPage.url).toBe('https://a.de/start');
+    expect(replayedPage.headers.get('etag')).toBe('"v1"');
+    expect(replayedPage.headers.get('content-encoding')).toBeNull();
+    expect(await replayedPage.text()).toBe(PAGE);
+
+    const document = Buffer.from(await (await replay('https://a.de/karte.pdf')).arrayBuffer());
+    expect([...document]).toEqual([0x25, 0x50, 0x44, 0x46, 0xff]);
+
+    await expect(replay('https://a.de/impressum')).rejects.toThrow('Not in crawl archive: https://a.de/impressum');
+  });
+
+  it('should replay error and empty responses', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(served('Not found', { status: 404, statusText: 'Not Found' }, 'https://a.de/alt'))
+      .mockResolvedValueOnce(served(null, { status: 304 }, 'https://a.de/')));
+
+    const archive = new CrawlArchive();
+    await archive.createFetch('record')('https://a.de/alt');
+    await archive.createFetch('record')('https://a.de/');
+
+    const replay = archive.createFetch('replay');
+    expect((await replay('https://a.de/alt')).status).toBe(404);
+    expect((await replay('https://a.de/')).status).toBe(304);
+  });
+
+  it('should replay sitemaps announced when recording', async () => {
+    const sitemap = '<urlset><url><loc>https://a.de/speisekarte</loc></url></urlset>';
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+      served(sitemap, { status: 200, headers: { 'content-type': 'application/xml' } }, 'https://a.de/sitemap_index.xml')
+    ));
+
+    const recording = new CrawlArchive();
+    recording.sitemaps = ['https://a.de/sitemap_index.xml'];
+    await fetchSitemapEntries('https://a.de/', recording.sitemaps, { userAgent: 'test', fetch: recording.createFetch('record') });
+
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('network used during replay')));
+    const replaying = CrawlArchive.fromHar(recording.toHar());
+    const entries = await fetchSitemapEntries('https://a.de/', replaying.sitemaps, {
+      userAgent: 'test',
+      fetch: replaying.createFetch('replay'),
+    });
+
+    expect(entries.map((entry) => entry.url)).toEqual(['https://a.de/speisekarte']);
+  });
+
+  it('should reject invalid archives', () => {
+    expect(() => CrawlArchive.fromHar({} as never)).toThrow('Invalid HAR archive');
+  });
+
+  it('should key archives by POI and recording time', () => {
+    expect(crawlArchiveKey('poi1', new Date('2025-10-01T12:30:00.000Z')))
+      .toBe('archives/poi1/2025-10-01T12-30-00-000Z.har.gz');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import { gzipSync } from 'zlib';
+import { CrawlFrontier, scoreUrl, type FrontierEntry } from '../../src/lib/crawl-frontier';
+import { fetchSitemapEntries, parseSitemap } from '../../src/lib/sitemap';
+
+function entry(url: string, score: number): FrontierEntry {
+  return { url, depth: 1, selection: { source: 'link', score, reasons: [] } };
+}
+
+describe('Crawl Frontier', () => {
+  describe('scoreUrl', () => {
+    it('should rank imprint and contact pages above blog pages', () => {
+      const impressum = scoreUrl('https://hotel.de/impressum', { source: 'link', depth: 1 });
+      const kontakt = scoreUrl('https://hotel.de/kontakt', { source: 'link', depth: 1 });
+      const blog = scoreUrl('https://hotel.de/blog/sommer-2024', { source: 'link', depth: 1 });
+
+      expect(impressum.score).toBeGreaterThan(blog.score);
+      expect(kontakt.score).toBeGreaterThan(blog.score);
+      expect(impressum.reasons).toContain('path:imprint');
+      expect(blog.reasons).toContain('penalty:editorial');
+    });
+
+    it('should use anchor text when the path is not descriptive', () => {
+      const result = scoreUrl('https://hotel.de/?p=123', {
+        source: 'link',
+        depth: 1,
+        anchorText: 'Öffnungszeiten',
+      });
+
+      expect(result.reasons).toContain('anchor:opening_hours');
+      expect(result.score).toBeGreaterThan(0);
+    });
+
+    it('should reward links from pages with JSON-LD and penalize depth', () => {
+      const shallow = scoreUrl('https://hotel.de/zimmer', { source: 'link', depth: 1, parentHasJsonLd: true });
+      const deep = scoreUrl('https://hotel.de/zimmer', { source: 'link', depth: 3 });
+
+      expect(shallow.reasons).toContain('parent_has_json_ld');
+      expect(shallow.score).toBeGreaterThan(deep.score);
+    });
+  });
+
+  describe('CrawlFrontier', () => {
+    it('should pop entries by descending score', () => {
+      const frontier = new CrawlFrontier();
+      frontier.push(entry('https://hotel.de/blog', -40));
+      frontier.push(entry('https://hotel.de/impressum', 50));
+      frontier.push(entry('https://hotel.de/zimmer', 10));
+
+      expect(frontier.pop()?.url).toBe('https://hotel.de/impressum');
+      expect(frontier.pop()?.url).toBe('https://hotel.de/zimmer');
+      expect(frontier.pop()?.url).toBe('https://hotel.de/blog');
+      expect(frontier.pop()).toBeUndefined();
+    });
+
+    it('should deduplicate normalized URLs', () => {
+      const frontier = new CrawlFrontier();
+
+      expect(frontier.push(entry('https://hotel.de/kontakt/', 10))).toBe(true);
+      expect(frontier.push(entry('https://hotel.de/kontakt', 20))).toBe(false);
+      expect(frontier.size).toBe(1);
+    });
+  });
+
+  describe('parseSitemap', () => {
+    it('should parse a urlset', () => {
+      const sitemap = parseSitemap(`<?xml version="1.0"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://hotel.de/</loc><priority>1.0</priority></url>
+  <url><loc>https://hotel.de/kontakt?a=1&amp;b=2</loc><lastmod>2024-05-01</lastmod></url>
+</urlset>`);
+
+      expect(sitemap.type).toBe('urlset');
+      expect(sitemap.entries).toEqual([
+        { url: 'https://hotel.de/', lastModified: undefined, priority: 1 },
+        { url: 'https://hotel.de/kontakt?a=1&b=2', lastModified: '2024-05-01', priority: undefined },
+      ]);
+    });
+
+    it('should parse a sitemap index', () => {
+      const sitemap = parseSitemap(`<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://hotel.de/page-sitemap.xml</loc></sitemap>
+  <sitemap><loc>https://hotel.de/post-sitemap.xml</loc></sitemap>
+</sitemapindex>`);
+
+      expect(sitemap.type).toBe('sitemapindex');
+      expect(sitemap.sitemaps).toEqual([
+        'https://hotel.de/page-sitemap.xml',
+        'https://hotel.de/post-sitemap.xml',
+      ]);
+    });
+  });
+
+  describe('fetchSitemapEntries', () => {
+    it('should download every sitemap document through the host slot', async () => {
+      const documents: Record<string, string> = {
+        'https://hotel.de/sitemap_index.xml': '<sitemapindex><sitemap><loc>https://hotel.de/page-sitemap.xml</loc></sitemap></sitemapindex>',
+        'https://hotel.de/page-sitemap.xml': '<urlset><url><loc>https://hotel.de/kontakt</loc></url></urlset>',
+      };
+      const fetchSitemap = vi.fn(async (url: string | URL | Request) => new Response(documents[String(url)]));
+      const slotUrls: string[] = [];
+      const politely = <T>(url: string, fn: () => Promise<T>) => {
+        slotUrls.push(url);
+        return fn();
+      };
+
+      const entries = await fetchSitemapEntries('https://hotel.de/', ['https://hotel.de/sitemap_index.xml'], {
+        userAgent: 'test',
+        fetch: fetchSitemap as typeof fetch,
+        politely,
+      });
+
+      expect(entries.map((e) => e.url)).toEqual(['https://hotel.de/kontakt']);
+      expect(slotUrls).toEqual(Object.keys(documents));
+      expect(fetchSitemap).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip sitemaps that unpack beyond the size limit', async () => {
+      const urlset = `<urlset>${'<url><loc>https://hotel.de/zimmer</loc></url>'.repeat(2000)}</urlset>`;
+      const fetchSitemap = async () => new Response(gzipSync(urlset));
+
+      const entries = await fetchSitemapEntries('https://hotel.de/', [], {
+        userAgent: 'test',
+        fetch: fetchSitemap as typeof fetch,
+        maxBytes: 10000,
+      });
+
+      expect(entries).toEqual([]);
+    });
+  });
+});
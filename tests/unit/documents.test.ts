@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import {
+  detectDocumentType,
+  extractDocxText,
+  extractPdfText,
+  findMenuDocument,
+  readZipEntry,
+} from '../../src/lib/documents';
+import { selectExtractionPages } from '../../src/lib/field-extraction';
+
+/**
+ * Minimal ZIP archive with deflated entries
+ */
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = deflateRawSync(Buffer.from(content));
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDirectory, end]);
+}
+
+/**
+ * Single-page PDF with one line of Helvetica text per entry
+ */
+function pdf(lines: string[]): Uint8Array {
+  const content = lines.map((line, i) => `BT /F1 12 Tf 72 ${720 - i * 20} Td (${line}) Tj ET`).join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+  ];
+
+  let body = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = body.length;
+    body += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = body.length;
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new Uint8Array(Buffer.from(body, 'latin1'));
+}
+
+const DOCUMENT_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>
+<w:p><w:r><w:t>Öffnungszeiten</w:t></w:r></w:p>
+<w:p><w:r><w:t>Mo-Fr</w:t></w:r><w:r><w:tab/><w:t xml:space="preserve">11:30 - 22:00 Uhr</w:t></w:r></w:p>
+<w:p><w:r><w:t>Schnitzel &amp; Salat</w:t></w:r></w:p>
+</w:body></w:document>`;
+
+describe('Documents', () => {
+  it('should detect documents by content type and extension', () => {
+    expect(detectDocumentType('https://a.de/karte.pdf')).toBe('pdf');
+    expect(detectDocumentType('https://a.de/preise.DOCX?v=2')).toBe('docx');
+    expect(detectDocumentType('https://a.de/download?id=7', 'application/pdf; qs=0.001')).toBe('pdf');
+    expect(detectDocumentType('https://a.de/karte.pdf', 'application/octet-stream')).toBe('pdf');
+    expect(detectDocumentType('https://a.de/karte.pdf', 'text/html')).toBeNull();
+    expect(detectDocumentType('https://a.de/pdf-ratgeber')).toBeNull();
+  });
+
+  it('should read entries from a ZIP archive', () => {
+    const archive = zip({ '[Content_Types].xml': '<Types/>', 'word/document.xml': DOCUMENT_XML });
+
+    expect(readZipEntry(archive, '[Content_Types].xml')?.toString()).toBe('<Types/>');
+    expect(readZipEntry(archive, 'word/missing.xml')).toBeNull();
+    expect(readZipEntry(Buffer.from('not a zip'), 'word/document.xml')).toBeNull();
+  });
+
+  it('should refuse ZIP entries that unpack beyond the limit', () => {
+    const archive = zip({ 'word/document.xml': `<w:document>${' '.repeat(100000)}</w:document>` });
+
+    expect(archive.length).toBeLessThan(2000);
+    expect(() => readZipEntry(archive, 'word/document.xml', 10000)).toThrow('larger than 10000 bytes');
+    expect(() => extractDocxText(archive, 10000)).toThrow('larger than 10000 bytes');
+    expect(readZipEntry(archive, 'word/document.xml')?.length).toBeGreaterThan(100000);
+  });
+
+  it('should extract DOCX paragraphs', () => {
+    const text = extractDocxText(zip({ 'word/document.xml': DOCUMENT_XML }));
+
+    expect(text).toBe('Öffnungszeiten\nMo-Fr 11:30 - 22:00 Uhr\nSchnitzel & Salat');
+    expect(() => extractDocxText(zip({ 'other.xml': '<x/>' }))).toThrow('Not a DOCX document');
+  });
+
+  it('should extract PDF text', async () => {
+    const text = await extractPdfText(pdf(['Speisekarte', 'Mittagstisch 9,50 EUR']));
+
+    expect(text).toContain('Speisekarte');
+    expect(text).toContain('Mittagstisch 9,50 EUR');
+  });
+
+  it('should find the menu document by link or by its text', () => {
+    expect(findMenuDocument([
+      { url: 'https://a.de/agb.pdf', documentType: 'pdf', text: 'Allgemeine Geschäftsbedingungen' },
+      { url: 'https://a.de/files/k.pdf', documentType: 'pdf', text: 'Karte', selection: { reasons: ['anchor:menu'] } },
+    ])).toBe('https://a.de/files/k.pdf');
+
+    expect(findMenuDocument([
+      { url: 'https://a.de/files/2025.pdf', documentType: 'pdf', text: 'Unser Menü im Herbst' },
+    ])).toBe('https://a.de/files/2025.pdf');
+
+    expect(findMenuDocument([{ url: 'https://a.de/speisekarte', text: 'Speisekarte' }])).toBeNull();
+  });
+
+  it('should send document text to field extraction', () => {
+    const pages = selectExtractionPages([
+      { url: 'https://a.de/oeffnungszeiten.pdf', html: '', text: 'Öffnungszeiten: Mo-Fr 11:30-22:00 Uhr, Sa-So 12:00-23:00 Uhr' },
+    ]);
+
+    expect(pages).toEqual([
+      { url: 'https://a.de/oeffnungszeiten.pdf', text: 'Öffnungszeiten: Mo-Fr 11:30-22:00 Uhr, Sa-So 12:00-23:00 Uhr' },
+    ]);
+  });
+});
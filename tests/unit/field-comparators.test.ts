@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FIELD_COMPARATORS,
+  compareField,
+  fieldSourceValues,
+  omitFields,
+  openingHoursVerdict,
+  settleFieldsByRules,
+  summarizeVerdicts,
+} from '../../src/lib/field-comparators';
+import { compareOpeningHoursSources } from '../../src/lib/opening-hours';
+
+describe('Field comparators', () => {
+  const normalize = (dataType: string, value: unknown, country = 'DE') =>
+    FIELD_COMPARATORS[dataType].normalize(value, { country });
+
+  it('should normalize phone numbers to E.164', () => {
+    expect(normalize('PHONE', '09281 / 1234')).toBe('+4992811234');
+    expect(normalize('PHONE', '04503/1234')).toBe('+4945031234');
+    expect(normalize('PHONE', '0351/4865-0')).toBe('+4935148650');
+    expect(normalize('PHONE', '09281 1234 / 09281 5678')).toBeNull(); // Two numbers
+    expect(normalize('PHONE', '09281 1234-0')).toBe('+49928112340');
+    expect(normalize('PHONE', '+49 (0) 9281 12340')).toBe('+49928112340');
+    expect(normalize('PHONE', '0049 9281 12340')).toBe('+49928112340');
+    expect(normalize('PHONE', 'Tel.: 0662 123456', 'AT')).toBe('+43662123456');
+    expect(normalize('PHONE', '1234')).toBeNull();
+  });
+
+  it('should canonicalize emails and URLs', () => {
+    expect(normalize('EMAIL', 'mailto:Info@Gasthof-Post.de ')).toBe('info@gasthof-post.de');
+    expect(normalize('EMAIL', 'info at gasthof-post.de')).toBeNull();
+
+    expect(normalize('URL', 'http://www.Gasthof-Post.de/?utm_source=google')).toBe('gasthof-post.de');
+    expect(normalize('URL', 'gasthof-post.de/index.html')).toBe('gasthof-post.de');
+    expect(FIELD_COMPARATORS.URL.compare('gasthof-post.de', 'gasthof-post.de/de/zimmer')).toBe('partial_match');
+    expect(FIELD_COMPARATORS.URL.compare('gasthof-post.de', 'post-hof.de')).toBe('mismatch');
+  });
+
+  it('should compare addresses by tokens', () => {
+    const address = (a: string, b: string) =>
+      FIELD_COMPARATORS.ADDRESS.compare(normalize('ADDRESS', a)!, normalize('ADDRESS', b)!);
+
+    expect(address('Marktstraße 3, 95028 Hof', 'Marktstr. 3, 95028 Hof, Deutschland')).toBe('match');
+    expect(address('Marktstraße 3, 95028 Hof', 'Marktstraße 3, Hof')).toBe('partial_match');
+    expect(address('Marktstraße 3, 95028 Hof', 'Marktstraße 5, 95028 Hof')).toBe('mismatch');
+    expect(address('Haupt-Straße 5', 'Hauptstraße 5')).toBe('match');
+    expect(address('Haupt Straße 5', 'Hauptstr. 5')).toBe('match');
+    expect(address('Strandpromenade 3', 'Strand-Promenade 3')).toBe('match');
+    expect(address('Marktstraße 3, 95028 Hof', 'Am Unteren Tor, 95028 Hof Saale')).toBeUndefined();
+    expect(address('Schloßplatz 1, Hof Altstadt', 'Schlossplatz 1, Hof Zentrum')).toBeUndefined();
+  });
+
+  it('should compare coordinates, price ranges and booleans', () => {
+    expect(FIELD_COMPARATORS.COORDINATES.compare(normalize('COORDINATES', '50.3201, 11.9170')!, normalize('COORDINATES', { lat: 50.3203, lng: 11.9171 })!))
+      .toBe('match');
+    expect(FIELD_COMPARATORS.COORDINATES.compare(normalize('COORDINATES', [50.3201, 11.917])!, normalize('COORDINATES', [50.3221, 11.917])!))
+      .toBe('partial_match');
+
+    expect(normalize('PRICE_RANGE', '€€')).toBe('€€');
+    expect(normalize('PRICE_RANGE', 2)).toBe('€€');
+    expect(normalize('PRICE_RANGE', 'PRICE_LEVEL_EXPENSIVE')).toBe('€€€');
+    expect(normalize('PRICE_RANGE', '10-25 €')).toBeNull();
+    expect(FIELD_COMPARATORS.PRICE_RANGE.compare('€€', '€€€')).toBe('partial_match');
+
+    expect(normalize('BOOLEAN', 'Ja')).toBe('true');
+    expect(normalize('BOOLEAN', false)).toBe('false');
+    expect(normalize('BOOLEAN', 'auf Anfrage')).toBeNull();
+  });
+
+  it('should settle clear cases and leave the rest to the LLM', () => {
+    const sources = {
+      tldb: { phone: '09281 12340', website: 'www.gasthof-post.de' },
+      website: { telephone: '+49 9281 12340', url: 'https://gasthof-post.de/' },
+      maps: { phone: '+49 9281 99999', website: 'http://gasthof-post.de', priceLevel: 2 },
+    };
+    const telephone = { name: 'telephone', dataType: 'PHONE' };
+
+    expect(compareField(telephone, fieldSourceValues(telephone, sources))).toMatchObject({
+      tldbValue: '09281 12340',
+      normalizedTldb: '+49928112340',
+      normalizedMaps: '+49928199999',
+      matchStatus: 'mismatch',
+      confidence: 1,
+      discrepancy: 'TLDB vs Maps: different (+49928112340 / +49928199999); Website vs Maps: different (+49928112340 / +49928199999)',
+    });
+
+    const url = { name: 'url', dataType: 'URL' };
+    expect(compareField(url, fieldSourceValues(url, sources))).toMatchObject({ matchStatus: 'match', discrepancy: null });
+
+    const priceRange = { name: 'priceRange', dataType: 'PRICE_RANGE' };
+    expect(compareField(priceRange, fieldSourceValues(priceRange, sources))).toMatchObject({
+      matchStatus: 'missing_data',
+      discrepancy: 'Only Maps has a value',
+    });
+
+    expect(compareField({ name: 'name', dataType: 'STRING' }, { tldb: 'Gasthof Post' })).toBeNull();
+    expect(compareField(telephone, { tldb: '09281 12340', website: '09281 12340 oder 12341' })).toBeNull();
+
+    expect(omitFields({ phone: 'x', telephone: 'y', name: 'z' }, ['telephone'])).toEqual({ name: 'z' });
+  });
+
+  it('should settle opening hours compared day by day', () => {
+    const values = { tldb: 'Mo-Fr 11:00-22:00', website: 'Mo-Fr 11:00-22:00; Sa 12:00-22:00', maps: undefined };
+    const verdict = openingHoursVerdict('openingHours', values, compareOpeningHoursSources(values, new Date('2026-06-01')));
+
+    expect(verdict).toMatchObject({ matchStatus: 'partial_match', normalizedTldb: 'Mo-Fr 11:00-22:00' });
+    expect(openingHoursVerdict('openingHours', { tldb: 'Mo-Fr 11:00-22:00' }, compareOpeningHoursSources({ tldb: 'Mo-Fr 11:00-22:00' })))
+      .toBeNull();
+
+    expect(summarizeVerdicts([verdict!])).toEqual({
+      summary: '0 of 1 rule-compared fields match. Differences in: openingHours.',
+      recommendations: [`Check openingHours: ${verdict!.discrepancy}`],
+    });
+  });
+
+  it('should settle a POI on the seeded fields by rules', () => {
+    // Data types as in prisma/seed.ts
+    const fields = [
+      { name: 'name', dataType: 'STRING', isLocalized: false },
+      { name: 'description', dataType: 'STRING', isLocalized: true },
+      { name: 'streetAddress', dataType: 'ADDRESS', isLocalized: false },
+      { name: 'geo', dataType: 'COORDINATES', isLocalized: false },
+      { name: 'telephone', dataType: 'PHONE', isLocalized: false },
+    ];
+
+    const verdicts = settleFieldsByRules(fields, {
+      tldb: { name: 'Gasthof zur Post', street: 'Ludwigstraße 12', latitude: 50.3201, longitude: 11.917, phone: '09281/12340' },
+      website: { name: 'Gasthof Zur Post Hof', streetAddress: 'Ludwigstr. 12', latitude: '50.32015', longitude: '11.91705', telephone: '+49 9281 12340' },
+      maps: { name: 'Gasthof zur Post', address: 'Ludwigstraße 12, 95028 Hof', latitude: 50.3203, longitude: 11.9171, phone: '+49 9281 12340' },
+    }, { country: 'DE' });
+    const verdict = (name: string) => verdicts.find((v) => v.fieldName === name);
+
+    expect(verdict('streetAddress')).toMatchObject({ matchStatus: 'match', normalizedTldb: 'ludwigstr 12', normalizedWebsite: 'ludwigstr 12' });
+    expect(verdict('geo')).toMatchObject({ matchStatus: 'match', normalizedTldb: '50.320100,11.917000' });
+    expect(verdict('telephone')).toMatchObject({ matchStatus: 'match', normalizedTldb: '+49928112340' });
+    expect(verdict('name')).toBeUndefined(); // Free text, left to the LLM
+    expect(verdict('description')).toBeUndefined();
+  });
+});
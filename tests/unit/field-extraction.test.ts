@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  selectExtractionPages,
+  groupExtractionFields,
+  buildExtractionPrompt,
+  coerceExtractedValue,
+  validateExtraction,
+  applyExtractedFields,
+  type ExtractionField,
+} from '../../src/lib/field-extraction';
+
+const FIELDS: ExtractionField[] = [
+  {
+    name: 'openingHours',
+    displayName: { de: 'Öffnungszeiten', en: 'Opening Hours' },
+    dataType: 'OPENING_HOURS',
+    extractionPrompt: 'Regular weekly opening hours',
+    category: 'business',
+  },
+  {
+    name: 'email',
+    displayName: { de: 'E-Mail', en: 'Email' },
+    description: { de: 'E-Mail-Adresse', en: 'Email address' },
+    dataType: 'EMAIL',
+    category: 'contact',
+  },
+];
+
+const PAGES = [
+  { url: 'https://linde.de/', text: 'Willkommen im Gasthaus. Geöffnet Mo-Fr 11:00-22:00 Uhr, Sa ab 12 Uhr.' },
+  { url: 'https://linde.de/impressum', text: 'Impressum. E-Mail: info@linde.de' },
+];
+
+const filler = 'Lorem ipsum dolor sit amet, consectetur adipiscing elit. ';
+
+describe('Field Extraction', () => {
+  describe('selectExtractionPages', () => {
+    it('should prefer imprint/contact pages and skip errors and duplicates', () => {
+      const pages = selectExtractionPages([
+        { url: 'https://a.de/', html: `<p>${filler}</p>`, selection: { score: 100 } },
+        { url: 'https://a.de/blog', html: `<p>${filler}</p>`, selection: { score: 10 } },
+        { url: 'https://a.de/kontakt', html: `<p>Kontakt ${filler}</p>`, selection: { score: 40 } },
+        { url: 'https://a.de/broken', html: '', error: 'HTTP 500' },
+      ]);
+
+      expect(pages.map((page) => page.url)).toEqual(['https://a.de/kontakt', 'https://a.de/']);
+    });
+
+    it('should respect the character budget', () => {
+      const pages = selectExtractionPages(
+        [
+          { url: 'https://a.de/1', html: `<p>${filler.repeat(10)}</p>`, selection: { score: 2 } },
+          { url: 'https://a.de/2', html: `<p>2 ${filler.repeat(10)}</p>`, selection: { score: 1 } },
+        ],
+        { maxPages: 5, maxCharsPerPage: 300, maxTotalChars: 400 }
+      );
+
+      expect(pages).toHaveLength(2);
+      expect(pages[0].text).toHaveLength(300);
+      expect(pages[1].text).toHaveLength(100);
+    });
+  });
+
+  it('should group fields and build the prompt from extraction prompts', () => {
+    const groups = groupExtractionFields(FIELDS);
+    expect(Array.from(groups.keys())).toEqual(['business', 'contact']);
+
+    const prompt = buildExtractionPrompt('Gasthaus Zur Linde', FIELDS, PAGES);
+    expect(prompt).toContain('openingHours (schema.org openingHours notation');
+    expect(prompt).toContain('Regular weekly opening hours');
+    expect(prompt).toContain('email (email address): Email address');
+    expect(prompt).toContain('### https://linde.de/impressum');
+  });
+
+  it('should coerce values by data type', () => {
+    expect(coerceExtractedValue('48,13', 'NUMBER')).toBe('48.13');
+    expect(coerceExtractedValue('Ja', 'BOOLEAN')).toBe('true');
+    expect(coerceExtractedValue('Info@Linde.de', 'EMAIL')).toBe('info@linde.de');
+    expect(coerceExtractedValue('keine Angabe', 'URL')).toBeNull();
+  });
+
+  it('should attach evidence and reject unknown sources', () => {
+    const values = validateExtraction(
+      {
+        fields: [
+          {
+            fieldName: 'openingHours',
+            value: 'Mo-Fr 11:00-22:00',
+            sourceUrl: 'https://linde.de/',
+            snippet: 'Geöffnet  Mo-Fr 11:00-22:00 Uhr',
+            confidence: 0.9,
+          },
+          {
+            fieldName: 'email',
+            value: 'info@linde.de',
+            sourceUrl: 'https://other.de/',
+            snippet: 'info@linde.de',
+            confidence: 0.9,
+          },
+          { fieldName: 'unknown', value: 'x', sourceUrl: 'https://linde.de/', snippet: 'x', confidence: 1 },
+        ],
+      },
+      FIELDS,
+      PAGES
+    );
+
+    expect(Object.keys(values)).toEqual(['openingHours']);
+    expect(values.openingHours.evidence).toEqual({
+      url: 'https://linde.de/',
+      snippet: 'Geöffnet  Mo-Fr 11:00-22:00 Uhr',
+      verified: true,
+    });
+  });
+
+  it('should flag snippets that are not on the page', () => {
+    const values = validateExtraction(
+      {
+        fields: [
+          { fieldName: 'email', value: 'info@linde.de', sourceUrl: 'https://linde.de/', snippet: 'Mail: info@linde.de', confidence: 0.8 },
+        ],
+      },
+      FIELDS,
+      PAGES
+    );
+
+    expect(values.email.evidence.verified).toBe(false);
+    expect(values.email.confidence).toBe(0.4);
+  });
+
+  it('should keep structured data values and record LLM sources', () => {
+    const merged = applyExtractedFields(
+      { email: 'booking@linde.de', fieldSources: { email: 'json-ld' } },
+      {
+        email: { value: 'info@linde.de', dataType: 'EMAIL', confidence: 1, evidence: { url: 'u', snippet: 's', verified: true } },
+        openingHours: { value: 'Mo-Fr 11:00-22:00', dataType: 'OPENING_HOURS', confidence: 1, evidence: { url: 'u', snippet: 's', verified: true } },
+      }
+    );
+
+    expect(merged.email).toBe('booking@linde.de');
+    expect(merged.openingHours).toBe('Mo-Fr 11:00-22:00');
+    expect(merged.fieldSources).toEqual({ email: 'json-ld', openingHours: 'llm' });
+  });
+});
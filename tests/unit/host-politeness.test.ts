@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { takeToken, acquireMemorySlot, releaseMemorySlot } from '../../src/lib/host-politeness';
+
+describe('Host Politeness', () => {
+  describe('takeToken', () => {
+    it('should allow one request per interval', () => {
+      const first = takeToken(undefined, 0, 1000, 1);
+      expect(first.waitMs).toBe(0);
+
+      const second = takeToken(first.state, 250, 1000, 1);
+      expect(second.waitMs).toBe(750);
+
+      const third = takeToken(second.state, 1000, 1000, 1);
+      expect(third.waitMs).toBe(0);
+    });
+
+    it('should allow bursts up to the bucket capacity', () => {
+      let state = takeToken(undefined, 0, 1000, 3).state;
+      state = takeToken(state, 0, 1000, 3).state;
+
+      const third = takeToken(state, 0, 1000, 3);
+      expect(third.waitMs).toBe(0);
+      expect(takeToken(third.state, 0, 1000, 3).waitMs).toBe(1000);
+    });
+
+    it('should not accumulate more tokens than the capacity', () => {
+      const idle = takeToken({ tokens: 0, ts: 0 }, 60_000, 1000, 2);
+      expect(idle.state.tokens).toBe(1);
+    });
+  });
+
+  describe('memory slots', () => {
+    it('should cap concurrent holders per host', () => {
+      expect(acquireMemorySlot('a.de', 'w1', 2, 60_000)).toBe(true);
+      expect(acquireMemorySlot('a.de', 'w2', 2, 60_000)).toBe(true);
+      expect(acquireMemorySlot('a.de', 'w3', 2, 60_000)).toBe(false);
+      expect(acquireMemorySlot('b.de', 'w3', 2, 60_000)).toBe(true);
+
+      releaseMemorySlot('a.de', 'w1');
+      expect(acquireMemorySlot('a.de', 'w3', 2, 60_000)).toBe(true);
+    });
+
+    it('should expire slots of crashed holders', () => {
+      expect(acquireMemorySlot('c.de', 'crashed', 1, -1)).toBe(true);
+      expect(acquireMemorySlot('c.de', 'w1', 1, 60_000)).toBe(true);
+    });
+  });
+});
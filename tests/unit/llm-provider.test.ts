@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  calculateLlmCost,
+  extractJson,
+  llmChain,
+  parseLlmChain,
+  parseStructuredOutput,
+  withLlmFallback,
+} from '../../src/lib/llm-provider';
+
+describe('LLM provider', () => {
+  it('should parse provider chains per task', () => {
+    expect(parseLlmChain('azure, anthropic:claude-sonnet-4-5,local:qwen2.5:14b,bogus')).toEqual([
+      { provider: 'azure', model: undefined },
+      { provider: 'anthropic', model: 'claude-sonnet-4-5' },
+      { provider: 'local', model: 'qwen2.5:14b' },
+    ]);
+
+    const env = { LLM_CHAIN: 'azure', LLM_CHAIN_EXTRACTION: 'local,openai:gpt-4o-mini' };
+    expect(llmChain('extraction', env).map((entry) => entry.provider)).toEqual(['local', 'openai']);
+    expect(llmChain('audit', env)).toEqual([{ provider: 'azure', model: undefined }]);
+    expect(llmChain('summary', {})).toEqual([{ provider: 'openai' }]);
+  });
+
+  it('should price tokens per provider and model', () => {
+    expect(calculateLlmCost('openai', 'gpt-4o-mini-2024-07-18', 1000, 1000)).toBeCloseTo(0.00075);
+    expect(calculateLlmCost('openai', 'gpt-4o-2024-08-06', 1000, 0)).toBeCloseTo(0.0025);
+    expect(calculateLlmCost('anthropic', 'claude-sonnet-4-5-20250929', 2000, 1000)).toBeCloseTo(0.021);
+    expect(calculateLlmCost('openai', 'some-new-model', 1000, 0)).toBeCloseTo(0.0025);
+    expect(calculateLlmCost('local', 'llama3.1', 50000, 10000)).toBe(0);
+  });
+
+  it('should extract and repair JSON from model output', () => {
+    expect(extractJson('Here you go:\n```json\n{"a": 1, "b": [1, 2,],}\n```')).toEqual({ a: 1, b: [1, 2] });
+    expect(extractJson('{"a": "x"} Hope this helps!')).toEqual({ a: 'x' });
+    expect(() => extractJson('Sorry, I cannot help with that.')).toThrow('No JSON found');
+  });
+
+  it('should validate structured output against the schema', () => {
+    const schema = z.object({ score: z.number(), tags: z.array(z.string()) });
+
+    expect(parseStructuredOutput(schema, '{"score": 1, "tags": []}')).toEqual({ success: true, data: { score: 1, tags: [] } });
+    expect(parseStructuredOutput(schema, '{"score": "high"}')).toEqual({
+      success: false,
+      error: 'score: Expected number, received string; tags: Required',
+    });
+    expect(parseStructuredOutput(schema, 'no json')).toMatchObject({ success: false, error: expect.stringContaining('Invalid JSON') });
+  });
+
+  it('should fail over on errors and timeouts', async () => {
+    const failed: string[] = [];
+    const chain = parseLlmChain('openai,azure,local');
+
+    const { result, entry } = await withLlmFallback(
+      chain,
+      async ({ provider }, signal) => {
+        if (provider === 'openai') throw new Error('429 Too Many Requests');
+        if (provider === 'azure') {
+          return new Promise<string>((_, reject) => signal.addEventListener('abort', () => reject(new Error('aborted'))));
+        }
+        return 'ok';
+      },
+      { timeoutMs: 20, onFailover: (failedEntry, error) => failed.push(`${failedEntry.provider}: ${error.message}`) }
+    );
+
+    expect(result).toBe('ok');
+    expect(entry.provider).toBe('local');
+    expect(failed).toEqual(['openai: 429 Too Many Requests', 'azure: azure timed out after 20 ms']);
+
+    await expect(withLlmFallback(chain, async () => { throw new Error('down'); }, { timeoutMs: 20 })).rejects.toThrow('down');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MAPS_PROVIDERS,
+  mergeMapsData,
+  parseMapsProviderConfig,
+  selectMapsProviders,
+} from '../../src/lib/maps-provider';
+import { nominatimToSearchResult, osmElementToMapsData } from '../../src/lib/openstreetmap';
+import { matchPlace } from '../../src/lib/place-matching';
+
+describe('Maps providers', () => {
+  const config = parseMapsProviderConfig({
+    default: ['google'],
+    regions: { Fichtelgebirge: ['osm'] },
+    categories: { Camping: ['osm', 'google'] },
+  });
+
+  it('should select providers by category, then region, then default', () => {
+    expect(selectMapsProviders(config, { region: 'Fichtelgebirge', category: 'camping' })).toEqual(['osm', 'google']);
+    expect(selectMapsProviders(config, { region: 'fichtelgebirge', category: 'Hotel' })).toEqual(['osm']);
+    expect(selectMapsProviders(config, { region: 'Spessart', category: null })).toEqual(['google']);
+  });
+
+  it('should fall back to the defaults on an invalid configuration', () => {
+    expect(parseMapsProviderConfig({ default: ['bing'] })).toEqual({});
+    expect(selectMapsProviders(parseMapsProviderConfig(null), {})).toEqual(DEFAULT_MAPS_PROVIDERS);
+  });
+
+  it('should merge provider results, first provider per field', () => {
+    const merged = mergeMapsData([
+      { provider: 'osm', placeId: 'node/1', name: 'Gasthof Post', phone: '', openingHours: 'Mo-Fr 11:00-22:00' },
+      {
+        provider: 'google',
+        placeId: 'g1',
+        name: 'Gasthof zur Post',
+        phone: '+49 9281 1234',
+        openingHours: ['Monday: 11:00 AM – 10:00 PM'],
+        openingHoursPeriods: [{ open: { day: 1, time: '1100' }, close: { day: 1, time: '2200' } }],
+        rating: 4.5,
+      },
+    ]);
+
+    expect(merged).toEqual({
+      name: 'Gasthof Post',
+      phone: '+49 9281 1234',
+      openingHours: 'Mo-Fr 11:00-22:00',
+      rating: 4.5,
+      providers: ['osm', 'google'],
+      placeIds: { osm: 'node/1', google: 'g1' },
+      sources: { name: 'osm', phone: 'google', openingHours: 'osm', rating: 'google' },
+    });
+  });
+
+  it('should normalize OSM features', () => {
+    const data = osmElementToMapsData({
+      type: 'way',
+      id: 42,
+      center: { lat: 50.1, lon: 11.9 },
+      tags: {
+        name: 'Gasthof Post',
+        tourism: 'hotel',
+        'addr:street': 'Marktplatz',
+        'addr:housenumber': '3',
+        'addr:postcode': '95028',
+        'addr:city': 'Hof',
+        'contact:phone': '+49 9281 1234',
+        website: 'https://post-hof.de',
+        opening_hours: 'Mo-Su 07:00-23:00',
+      },
+    });
+
+    expect(data).toMatchObject({
+      provider: 'osm',
+      placeId: 'way/42',
+      address: 'Marktplatz 3, 95028 Hof',
+      phone: '+49 9281 1234',
+      latitude: 50.1,
+      longitude: 11.9,
+      openingHours: 'Mo-Su 07:00-23:00',
+      mapUrl: 'https://www.openstreetmap.org/way/42',
+      types: ['lodging'],
+    });
+    expect(data.businessStatus).toBeUndefined();
+    expect(mergeMapsData([data, { provider: 'google', placeId: 'g1', businessStatus: 'CLOSED_PERMANENTLY' }]).businessStatus)
+      .toBe('CLOSED_PERMANENTLY');
+    expect(osmElementToMapsData({ type: 'node', id: 1, tags: { 'disused:amenity': 'restaurant' } }).businessStatus)
+      .toBe('CLOSED_PERMANENTLY');
+  });
+
+  it('should match Nominatim results like Google candidates', () => {
+    const candidate = nominatimToSearchResult({
+      osm_type: 'node',
+      osm_id: 7,
+      lat: '50.3201',
+      lon: '11.9170',
+      category: 'amenity',
+      type: 'restaurant',
+      name: 'Brauereigasthof Falter',
+      display_name: 'Brauereigasthof Falter, Ludwigstraße 5, 95028 Hof, Bayern, Deutschland',
+    });
+
+    expect(candidate).toMatchObject({ placeId: 'node/7', types: ['restaurant'] });
+    expect(matchPlace(
+      { name: 'Brauereigasthof Falter', category: 'Restaurant', street: 'Ludwigstraße 5', postalCode: '95028', city: 'Hof', latitude: 50.3202, longitude: 11.9171 },
+      [candidate]
+    ).status).toBe('matched');
+  });
+});
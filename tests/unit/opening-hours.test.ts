@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareOpeningHours,
+  compareOpeningHoursSources,
+  parseGooglePeriods,
+  parseOpeningHours,
+  parseOpeningHoursSpecification,
+  parseOpeningHoursText,
+  toOsmOpeningHours,
+  weeklySchedule,
+  type OpeningHours,
+} from '../../src/lib/opening-hours';
+
+function osm(value: unknown): string | null {
+  const hours = parseOpeningHours(value);
+  return hours ? toOsmOpeningHours(hours) : null;
+}
+
+describe('Opening hours', () => {
+  it('should parse schema.org and OSM notation', () => {
+    expect(osm('Mo-Fr 09:00-18:00; Sa 10:00-14:00')).toBe('Mo-Fr 09:00-18:00; Sa 10:00-14:00');
+  });
+
+  it('should parse German free text', () => {
+    expect(osm('Montag bis Freitag 9-12 und 14-18 Uhr, Samstag 9.00 - 13.00 Uhr, Sonntag Ruhetag'))
+      .toBe('Mo-Fr 09:00-12:00,14:00-18:00; Sa 09:00-13:00');
+    expect(osm('Täglich 10-18 Uhr, außer Montag')).toBe('Tu-Su 10:00-18:00');
+    expect(osm('Ruhetag: Montag\nDi-So 11:30-14:00, 17:30-22:00')).toBe('Tu-Su 11:30-14:00,17:30-22:00');
+    expect(osm('Fr, Sa 18-2 Uhr')).toBe('Fr,Sa 18:00-02:00');
+  });
+
+  it('should keep a short day code followed by "von", "from" or "geöffnet"', () => {
+    expect(osm('Mo-Fr von 9 bis 18 Uhr')).toBe('Mo-Fr 09:00-18:00');
+    expect(osm('Di bis So von 11 bis 22 Uhr')).toBe('Tu-Su 11:00-22:00');
+    expect(osm('Sa, So geöffnet 12-18 Uhr')).toBe('Sa,Su 12:00-18:00');
+    expect(osm('Mo-Fr from 9am to 5pm')).toBe('Mo-Fr 09:00-17:00');
+  });
+
+  it('should add disjoint spans and let overlapping ones replace', () => {
+    expect(osm('Mo-Fr: 9-12 Uhr\nMo-Do: 14-17 Uhr')).toBe('Mo-Th 09:00-12:00,14:00-17:00; Fr 09:00-12:00');
+    expect(osm('täglich 10-18; Sa 10-14')).toBe('Mo-Fr,Su 10:00-18:00; Sa 10:00-14:00');
+  });
+
+  it('should parse English text with am/pm and holidays', () => {
+    expect(osm('We are open Monday to Friday from 9 am to 5 pm. Closed on public holidays.'))
+      .toBe('Mo-Fr 09:00-17:00; PH off');
+  });
+
+  it('should parse seasons, exceptions, appointments and 24/7', () => {
+    expect(osm('April bis Oktober: täglich 10-18 Uhr; November - März: Sa, So 11-16 Uhr. Feiertags geschlossen'))
+      .toBe('Apr-Oct Mo-Su 10:00-18:00; Nov-Mar Sa,Su 11:00-16:00; PH off');
+    expect(osm('Mo-Fr 9-17 Uhr; 24.12. geschlossen')).toBe('Mo-Fr 09:00-17:00; Dec 24 off');
+    expect(osm('Nach Vereinbarung')).toBe('"by appointment"');
+    expect(osm('24/7')).toBe('24/7');
+    expect(osm('Hallo Welt')).toBeNull();
+  });
+
+  it('should parse Google weekday text', () => {
+    expect(osm([
+      'Monday: 9:00 AM – 2:00 PM, 5:00 – 10:00 PM',
+      'Tuesday: Closed',
+      'Wednesday: Open 24 hours',
+      'Thursday: 9:00 AM – 5:00 PM',
+      'Friday: 9:00 AM – 5:00 PM',
+      'Saturday: Closed',
+      'Sunday: Closed',
+    ])).toBe('Mo 09:00-14:00,17:00-22:00; We 00:00-24:00; Th,Fr 09:00-17:00');
+  });
+
+  it('should parse Google periods', () => {
+    const hours = parseGooglePeriods([
+      { open: { day: 1, time: '0900' }, close: { day: 1, time: '1800' } },
+      { open: { day: 5, time: '1800' }, close: { day: 6, time: '0200' } },
+    ]);
+
+    expect(toOsmOpeningHours(hours!)).toBe('Mo 09:00-18:00; Fr 18:00-02:00');
+    expect(weeklySchedule(hours!).Fr).toEqual([{ from: 1080, to: 1560 }]);
+    expect(toOsmOpeningHours(parseGooglePeriods([{ open: { day: 0, time: '0000' } }])!)).toBe('24/7');
+  });
+
+  it('should parse OpeningHoursSpecification objects', () => {
+    const hours = parseOpeningHoursSpecification([
+      { '@type': 'OpeningHoursSpecification', dayOfWeek: ['https://schema.org/Monday', 'Tuesday'], opens: '09:00:00', closes: '12:00:00' },
+      { dayOfWeek: 'https://schema.org/Monday', opens: '14:00', closes: '18:00' },
+      { dayOfWeek: 'Saturday', opens: '10:00', closes: '23:59' },
+      { opens: '00:00', closes: '00:00', validFrom: '2026-12-24', validThrough: '2026-12-24' },
+      { dayOfWeek: 'Sunday', opens: '10:00', closes: '16:00', validFrom: '2026-05-01', validThrough: '2026-09-30' },
+    ]);
+
+    expect(toOsmOpeningHours(hours!)).toBe(
+      'Mo 09:00-12:00,14:00-18:00; Tu 09:00-12:00; Sa 10:00-24:00; May-Sep Su 10:00-16:00; 2026 Dec 24 off'
+    );
+  });
+
+  it('should report the days that differ', () => {
+    const a = parseOpeningHoursText('Mo-Fr 9-18 Uhr, Sa 10-14 Uhr') as OpeningHours;
+    const b = parseOpeningHoursText('Mo-Fr 09:00-18:00') as OpeningHours;
+
+    expect(compareOpeningHours(a, a)).toEqual([]);
+    expect(compareOpeningHours(a, b)).toEqual([{ scope: 'Sa', a: '10:00-14:00', b: 'off' }]);
+  });
+
+  it('should compare a seasonal schedule in the season in effect', () => {
+    const seasonal = parseOpeningHoursText('Apr-Okt täglich 10-18 Uhr; Nov-Mär Sa, So 11-16 Uhr') as OpeningHours;
+    const google = parseOpeningHoursText('Sa, So 11-16 Uhr') as OpeningHours;
+
+    expect(compareOpeningHours(seasonal, google, new Date('2026-01-15'))).toEqual([]);
+    expect(compareOpeningHours(seasonal, google, new Date('2026-07-15'))).toHaveLength(7);
+  });
+
+  it('should compare all sources against TLDB', () => {
+    const result = compareOpeningHoursSources({
+      tldb: 'Mo-Fr 9-18 Uhr',
+      website: [{ dayOfWeek: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'], opens: '09:00', closes: '18:00' }],
+      maps: [1, 2, 3, 4, 5].map((day) => ({ open: { day, time: '0900' }, close: { day, time: '1700' } })),
+    });
+
+    expect(result.osm).toEqual({ tldb: 'Mo-Fr 09:00-18:00', website: 'Mo-Fr 09:00-18:00', maps: 'Mo-Fr 09:00-17:00' });
+    expect(result.comparisons[0]).toEqual({ sources: ['tldb', 'website'], differences: [] });
+    expect(result.comparisons[1].differences.map((d) => d.scope)).toEqual(['Mo', 'Tu', 'We', 'Th', 'Fr']);
+  });
+});
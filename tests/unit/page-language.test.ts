@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectPageLanguage,
+  detectTextLanguage,
+  extractAlternates,
+  groupLanguageVersions,
+  languageGroupKey,
+  languagePolicy,
+  pairLocalizedValues,
+  sortByLanguagePreference,
+  tldbValueForLanguage,
+} from '../../src/lib/page-language';
+import { applyExtractedFields } from '../../src/lib/field-extraction';
+import { scoreUrl } from '../../src/lib/crawl-frontier';
+
+const HEAD = `
+<html lang="de-DE"><head>
+  <link rel="alternate" hreflang="de-DE" href="https://a.de/speisekarte">
+  <link rel="alternate" hreflang="de-AT" href="https://a.de/at/speisekarte">
+  <link rel="alternate" hreflang="en" href="/en/menu">
+  <link rel="alternate" hreflang="x-default" href="https://a.de/">
+  <link rel="stylesheet" href="/style.css">
+</head><body>Speisekarte</body></html>`;
+
+describe('Page language', () => {
+  it('should detect the language from html lang, meta, URL and content', () => {
+    expect(detectPageLanguage(HEAD, 'https://a.de/speisekarte')).toEqual({ language: 'de', source: 'html_lang' });
+    expect(detectPageLanguage(
+      '<html><head><meta http-equiv="Content-Language" content="en-GB"></head></html>',
+      'https://a.de/'
+    )).toEqual({ language: 'en', source: 'content_language' });
+    expect(detectPageLanguage('<html><body>Menu</body></html>', 'https://a.de/fr/carte')).toEqual({ language: 'fr', source: 'url' });
+    expect(detectPageLanguage(
+      '<p>Wir sind für Sie da. Die Küche ist täglich ab 11 Uhr geöffnet und wir freuen uns auf Ihren Besuch mit der Familie.</p>',
+      'https://a.de/'
+    )).toEqual({ language: 'de', source: 'content' });
+    expect(detectPageLanguage('<p>Hallo</p>', 'https://a.de/')).toEqual({ language: null });
+  });
+
+  it('should need enough stopwords to guess a text language', () => {
+    expect(detectTextLanguage('Welcome to our restaurant. We are open for you and your family from the morning.')).toBe('en');
+    expect(detectTextLanguage('Schnitzel Pommes Salat')).toBeNull();
+  });
+
+  it('should extract one hreflang alternate per language', () => {
+    expect(extractAlternates(HEAD, 'https://a.de/speisekarte')).toEqual([
+      { language: 'de', url: 'https://a.de/speisekarte' },
+      { language: 'en', url: 'https://a.de/en/menu' },
+      { language: 'x-default', url: 'https://a.de' },
+    ]);
+  });
+
+  it('should give all language versions the same group key', () => {
+    const alternates = extractAlternates(HEAD, 'https://a.de/speisekarte');
+
+    expect(languageGroupKey('https://a.de/speisekarte', alternates)).toBe('https://a.de/en/menu');
+    expect(languageGroupKey('https://a.de/en/menu', alternates)).toBe('https://a.de/en/menu');
+    expect(languageGroupKey('https://a.de/impressum', [])).toBe('https://a.de/impressum');
+  });
+
+  it('should group crawled language versions', () => {
+    expect(groupLanguageVersions([
+      { url: 'https://a.de/speisekarte', language: 'de', languageGroup: 'g1' },
+      { url: 'https://a.de/en/menu', language: 'en', languageGroup: 'g1' },
+      { url: 'https://a.de/impressum', language: 'de', languageGroup: 'g2' },
+      { url: 'https://a.de/en/broken', language: 'en', languageGroup: 'g2', error: 'HTTP 404' },
+    ])).toEqual({ g1: { de: 'https://a.de/speisekarte', en: 'https://a.de/en/menu' } });
+  });
+
+  it('should sort pages by language preference', () => {
+    const pages = [{ language: 'fr' }, { language: 'en' }, { language: null }, { language: 'de' }];
+
+    expect(sortByLanguagePreference(pages, ['de', 'en']).map((p) => p.language)).toEqual(['de', 'en', 'fr', null]);
+  });
+
+  it('should decide the crawl policy by language', () => {
+    expect(languagePolicy('https://a.de/speisekarte', undefined, ['de', 'en'])).toBe('unknown');
+    expect(languagePolicy('https://a.de/de/speisekarte', undefined, ['de', 'en'])).toBe('primary');
+    expect(languagePolicy('https://a.de/en/menu', undefined, ['de', 'en'])).toBe('secondary');
+    expect(languagePolicy('https://a.de/fr/carte', undefined, ['de', 'en'])).toBe('skip');
+    expect(languagePolicy('https://a.de/', 'x-default', ['de', 'en'])).toBe('unknown');
+  });
+
+  it('should deprioritize alternate language versions in the frontier', () => {
+    const primary = scoreUrl('https://a.de/speisekarte', { source: 'link', depth: 1 });
+    const alternate = scoreUrl('https://a.de/en/menu', { source: 'link', depth: 1, alternateLanguage: true });
+
+    expect(alternate.reasons).toContain('penalty:alternate_language');
+    expect(alternate.score).toBeLessThan(primary.score);
+  });
+
+  it('should read TLDB values per language', () => {
+    expect(tldbValueForLanguage({ description: { de: 'Gasthaus', en: 'Inn' } }, 'description', 'en')).toBe('Inn');
+    expect(tldbValueForLanguage({ description: 'Gasthaus', description_en: 'Inn' }, 'description', 'en')).toBe('Inn');
+    expect(tldbValueForLanguage({ description: 'Gasthaus' }, 'description', 'de')).toBe('Gasthaus');
+    expect(tldbValueForLanguage({ description: 'Gasthaus' }, 'description', 'en')).toBeUndefined();
+  });
+
+  it('should pair localized values by language', () => {
+    const pairs = pairLocalizedValues(
+      ['description'],
+      { description: 'Gasthaus am See', description_en: 'Inn by the lake' },
+      { description: 'Gasthaus am See', byLanguage: { de: { description: 'Gasthaus am See' }, en: { description: 'Lakeside inn' } } }
+    );
+
+    expect(pairs).toEqual([
+      { field: 'description', language: 'de', tldbValue: 'Gasthaus am See', websiteValue: 'Gasthaus am See' },
+      { field: 'description', language: 'en', tldbValue: 'Inn by the lake', websiteValue: 'Lakeside inn' },
+    ]);
+  });
+
+  it('should file LLM values under the language of their evidence page', () => {
+    const merged = applyExtractedFields(
+      { byLanguage: { de: { name: 'Gasthaus' } } },
+      {
+        description: {
+          value: 'Lakeside inn',
+          dataType: 'STRING',
+          confidence: 0.9,
+          evidence: { url: 'https://a.de/en/', snippet: 'Lakeside inn', verified: true },
+        },
+      },
+      { 'https://a.de/en/': 'en' }
+    );
+
+    expect(merged.description).toBe('Lakeside inn');
+    expect(merged.byLanguage).toEqual({ de: { name: 'Gasthaus' }, en: { description: 'Lakeside inn' } });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  normalizeHtmlForHash,
+  contentHash,
+  conditionalHeaders,
+  checkFreshness,
+  isCrawlUnchanged,
+} from '../../src/lib/page-validators';
+
+const PAGE = '<html><head><script nonce="abc123">x()</script><link href="/app.css?v=17"></head><body><p>Öffnungszeiten</p></body></html>';
+
+describe('Page Validators', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should ignore per-request noise when hashing', async () => {
+    const reloaded = PAGE.replace('abc123', 'def456').replace('v=17', 'v=18').replace('<p>', '<!-- cached --><p>');
+
+    expect(normalizeHtmlForHash(reloaded)).toBe(normalizeHtmlForHash(PAGE));
+    expect(await contentHash(reloaded)).toBe(await contentHash(PAGE));
+    expect(await contentHash(PAGE.replace('Öffnungszeiten', 'Geschlossen'))).not.toBe(await contentHash(PAGE));
+  });
+
+  it('should build conditional headers from stored validators', () => {
+    expect(conditionalHeaders({ etag: '"v1"', lastModified: 'Mon, 01 Sep 2025 10:00:00 GMT' })).toEqual({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Mon, 01 Sep 2025 10:00:00 GMT',
+    });
+    expect(conditionalHeaders({ contentHash: 'abc' })).toEqual({});
+  });
+
+  it('should treat a vanished or failing known page as a changed crawl', () => {
+    const known = ['https://a.de/', 'https://a.de/speisekarte'];
+    const home = { url: 'https://a.de/', unchanged: true };
+    const menu = { url: 'https://a.de/speisekarte', unchanged: true };
+
+    expect(isCrawlUnchanged([home, menu], known)).toBe(true);
+    expect(isCrawlUnchanged([home, { ...menu, unchanged: false }], known)).toBe(false);
+    expect(isCrawlUnchanged([home, { url: menu.url, error: 'HTTP 404' }], known)).toBe(false);
+    expect(isCrawlUnchanged([home], known)).toBe(false);
+    expect(isCrawlUnchanged([home, menu, { url: 'https://a.de/neu', error: 'HTTP 404' }], known)).toBe(true);
+    expect(isCrawlUnchanged([home, menu], undefined)).toBe(false);
+  });
+
+  describe('checkFreshness', () => {
+    it('should treat 304 as unchanged', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 304 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const check = await checkFreshness('https://a.de/', { etag: '"v1"' }, { userAgent: 'test' });
+
+      expect(check.status).toBe('unchanged');
+      expect(check.validators.etag).toBe('"v1"');
+      expect(fetchMock.mock.calls[0][1].headers['If-None-Match']).toBe('"v1"');
+    });
+
+    it('should compare content hashes when the server has no validators', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockImplementation(async () => new Response(PAGE, { status: 200 })));
+
+      const previous = { contentHash: await contentHash(PAGE) };
+      expect((await checkFreshness('https://a.de/', previous, { userAgent: 'test' })).status).toBe('unchanged');
+      expect((await checkFreshness('https://a.de/', { contentHash: 'old' }, { userAgent: 'test' })).status).toBe('changed');
+    });
+
+    it('should report network errors as unknown', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('ECONNRESET')));
+
+      const check = await checkFreshness('https://a.de/', { etag: '"v1"' }, { userAgent: 'test' });
+
+      expect(check).toEqual({ status: 'unknown', statusCode: 0, validators: {} });
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  distanceMeters,
+  expectedPlaceTypes,
+  isPlaceSearchDue,
+  matchPlace,
+  nameSimilarity,
+  scorePlaceCandidate,
+} from '../../src/lib/place-matching';
+
+const HOTEL = {
+  name: 'Hotel Adler',
+  category: 'Hotel',
+  street: 'Hauptstraße 12',
+  postalCode: '79098',
+  city: 'Freiburg',
+  latitude: 47.9959,
+  longitude: 7.8522,
+};
+
+const hotelCandidate = {
+  placeId: 'hotel',
+  name: 'Hotel Adler',
+  address: 'Hauptstr. 12, 79098 Freiburg im Breisgau, Deutschland',
+  location: { lat: 47.99595, lng: 7.85225 },
+  types: ['lodging', 'point_of_interest', 'establishment'],
+};
+
+const restaurantCandidate = {
+  placeId: 'restaurant',
+  name: 'Restaurant Adlerstube im Hotel Adler',
+  address: 'Hauptstr. 12, 79098 Freiburg im Breisgau, Deutschland',
+  location: { lat: 47.99597, lng: 7.85231 },
+  types: ['restaurant', 'food', 'point_of_interest', 'establishment'],
+};
+
+describe('Place matching', () => {
+  it('should compare names regardless of case, umlauts and legal forms', () => {
+    expect(nameSimilarity('Café Müller GmbH', 'Cafe Mueller')).toBe(1);
+    expect(nameSimilarity('Hotel Adler', 'Restaurant Adlerstube im Hotel Adler')).toBeLessThan(0.7);
+    expect(nameSimilarity('Hotel Adler', '')).toBe(0);
+  });
+
+  it('should compute distances in meters', () => {
+    expect(distanceMeters({ lat: 48.1372, lng: 11.5756 }, { lat: 48.1372, lng: 11.5756 })).toBe(0);
+    expect(distanceMeters({ lat: 52.5200, lng: 13.4050 }, { lat: 48.1351, lng: 11.5820 })).toBeGreaterThan(500000);
+  });
+
+  it('should map POI categories to Google place types', () => {
+    expect(expectedPlaceTypes('Hotel')).toEqual(['lodging']);
+    expect(expectedPlaceTypes('Museum')).toContain('museum');
+    expect(expectedPlaceTypes('Sonstiges')).toEqual([]);
+  });
+
+  it('should prefer the hotel over the hotel restaurant', () => {
+    const match = matchPlace(HOTEL, [restaurantCandidate, hotelCandidate]);
+
+    expect(match.status).toBe('matched');
+    expect(match.best?.placeId).toBe('hotel');
+    expect(match.best?.signals.type).toBe(1);
+    expect(match.candidates[1].signals.type).toBe(0);
+  });
+
+  it('should score address overlap and distance', () => {
+    const scored = scorePlaceCandidate(HOTEL, hotelCandidate);
+
+    expect(scored.signals.address).toBe(1);
+    expect(scored.distanceMeters).toBeLessThan(10);
+    expect(scored.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('should send far away or ambiguous candidates to review', () => {
+    const farAway = { ...hotelCandidate, address: 'Marktplatz 1, 80331 München', location: { lat: 48.137, lng: 11.575 } };
+    expect(matchPlace(HOTEL, [farAway]).status).toBe('review');
+
+    const twin = { ...hotelCandidate, placeId: 'twin' };
+    expect(matchPlace(HOTEL, [hotelCandidate, twin]).status).toBe('review');
+  });
+
+  it('should use only the available signals', () => {
+    const scored = scorePlaceCandidate({ name: 'Hotel Adler' }, hotelCandidate);
+
+    expect(scored.signals).toEqual({ name: 1 });
+    expect(scored.confidence).toBe(1);
+  });
+
+  it('should report when nothing was found', () => {
+    expect(matchPlace(HOTEL, [])).toEqual({ status: 'not_found', best: null, candidates: [] });
+  });
+
+  it('should search a place not found again only after the backoff', () => {
+    const now = new Date('2025-09-30T10:00:00Z');
+
+    expect(isPlaceSearchDue(null, now)).toBe(true);
+    expect(isPlaceSearchDue(new Date('2025-09-20T10:00:00Z'), now, 30)).toBe(false);
+    expect(isPlaceSearchDue(new Date('2025-08-31T10:00:00Z'), now, 30)).toBe(true);
+  });
+});
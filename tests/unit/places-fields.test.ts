@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PLACE_FIELD_GROUPS,
+  mergeCachedPlace,
+  placeDetailsCost,
+  placeDetailsSkus,
+  placeFieldGroup,
+  placeFieldsForDataFields,
+  placeRefreshFields,
+  stalePlaceFields,
+} from '../../src/lib/places-fields';
+
+const TTL = { basic: 30, contact: 7, atmosphere: 3 };
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+describe('Places fields', () => {
+  it('should request only the fields of the audited data fields', () => {
+    const fields = placeFieldsForDataFields(['name', 'telephone', 'openingHours']);
+
+    expect(fields).toEqual(expect.arrayContaining([
+      ...PLACE_FIELD_GROUPS.basic,
+      'international_phone_number',
+      'formatted_phone_number',
+      'opening_hours',
+    ]));
+    expect(fields).not.toContain('website');
+    expect(fields).not.toContain('reviews');
+  });
+
+  it('should request every field without data fields', () => {
+    expect(placeFieldsForDataFields()).toContain('reviews');
+  });
+
+  it('should group fields', () => {
+    expect(placeFieldGroup('geometry')).toBe('basic');
+    expect(placeFieldGroup('website')).toBe('contact');
+    expect(placeFieldGroup('rating')).toBe('atmosphere');
+  });
+
+  it('should bill the SKUs of the field mask', () => {
+    expect(placeDetailsSkus(PLACE_FIELD_GROUPS.basic)).toEqual(['details']);
+    expect(placeDetailsCost(PLACE_FIELD_GROUPS.basic)).toBe(0.017);
+    expect(placeDetailsCost([...PLACE_FIELD_GROUPS.basic, 'website'])).toBe(0.02);
+    expect(placeDetailsCost(placeFieldsForDataFields())).toBe(0.025);
+  });
+
+  it('should find missing and expired fields by group TTL', () => {
+    const fetchedAt = {
+      name: daysAgo(10),
+      website: daysAgo(10),
+      opening_hours: daysAgo(2),
+      price_level: daysAgo(4),
+    };
+
+    expect(stalePlaceFields(['name', 'website', 'opening_hours', 'price_level', 'rating'], fetchedAt, NOW, TTL))
+      .toEqual(['website', 'price_level', 'rating']);
+  });
+
+  it('should refresh the business status sooner than the other basic fields', () => {
+    const fetchedAt = { name: daysAgo(2), business_status: daysAgo(2) };
+
+    expect(stalePlaceFields(['name', 'business_status'], fetchedAt, NOW, TTL, { business_status: 1 })).toEqual(['business_status']);
+    expect(stalePlaceFields(['business_status'], { business_status: daysAgo(0.5) }, NOW, TTL, { business_status: 1 })).toEqual([]);
+  });
+
+  it('should refresh stale fields together with the free basic fields', () => {
+    expect(placeRefreshFields(['website'])).toEqual([...PLACE_FIELD_GROUPS.basic, 'website']);
+  });
+
+  it('should merge fresh fields into the cache and drop absent ones', () => {
+    const merged = mergeCachedPlace(
+      { data: { name: 'Alt', website: 'https://alt.de', rating: 4.2 }, fetchedAt: { name: daysAgo(40), website: daysAgo(10), rating: daysAgo(1) } },
+      { name: 'Neu' },
+      ['name', 'website'],
+      NOW
+    );
+
+    expect(merged.data).toEqual({ name: 'Neu', rating: 4.2 });
+    expect(merged.fetchedAt).toEqual({ name: NOW.toISOString(), website: NOW.toISOString(), rating: daysAgo(1) });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import golden from '../golden/audit.json';
+import { auditPromptMessages, getAuditPrompt } from '../../src/lib/prompts';
+import {
+  checkPromotion,
+  evaluateAuditPrompt,
+  fakeLlmProvider,
+  goldenAuditSetSchema,
+  naiveAuditComparison,
+  promptHash,
+  replayLlmProvider,
+  type GoldenAuditCase,
+} from '../../src/lib/prompt-eval';
+
+describe('Prompt evaluation', () => {
+  const { cases } = goldenAuditSetSchema.parse(golden);
+  const prompt = getAuditPrompt('audit-v1');
+
+  // Answers exactly as labelled
+  const labelled = (goldenCase: GoldenAuditCase) => ({
+    ...naiveAuditComparison(goldenCase),
+    fieldComparisons: naiveAuditComparison(goldenCase).fieldComparisons.map((f) => ({
+      ...f,
+      matchStatus: goldenCase.expected[f.fieldName],
+    })),
+  });
+
+  it('should have a label for every field of the golden set', () => {
+    for (const goldenCase of cases) {
+      expect(Object.keys(goldenCase.expected).sort()).toEqual(goldenCase.fields.map((f) => f.name).sort());
+    }
+    expect(() => getAuditPrompt('audit-v0')).toThrow('Unknown audit prompt version');
+  });
+
+  it('should score a prompt by accuracy, cost and latency', async () => {
+    const report = await evaluateAuditPrompt({
+      cases,
+      prompt,
+      provider: (goldenCase) => fakeLlmProvider(() => labelled(goldenCase)),
+    });
+
+    expect(report).toMatchObject({ promptVersion: 'audit-v1', model: 'fake', cases: 10, fields: 19, ruleFields: 1, correct: 19, accuracy: 1, cost: 0 });
+    expect(report.byStatus.partial_match).toEqual({ expected: 2, correct: 2 });
+    expect(checkPromotion(report, { minAccuracy: 0.85 })).toEqual({ promotable: true, reasons: [] });
+  });
+
+  it('should keep the naive baseline below the promotion threshold', async () => {
+    const report = await evaluateAuditPrompt({
+      cases,
+      prompt,
+      provider: (goldenCase) => fakeLlmProvider(() => naiveAuditComparison(goldenCase)),
+    });
+
+    expect(report.accuracy).toBe(0.632); // 12 of 19, one of them settled by rules
+    expect(report.errors).toContainEqual({ caseId: 'gasthof-post-consistent', field: 'name', expected: 'match', actual: 'mismatch' });
+
+    const check = checkPromotion(report, { minAccuracy: 0.85, baseline: { ...report, promptVersion: 'audit-v0', accuracy: 0.9 } });
+    expect(check.promotable).toBe(false);
+    expect(check.reasons).toHaveLength(2);
+  });
+
+  it('should send only the fields the rules leave open to the model', async () => {
+    const phoneCase = cases.find((c) => c.id === 'pension-phone-formats')!;
+    const sent: string[] = [];
+
+    const report = await evaluateAuditPrompt({
+      cases: [phoneCase],
+      prompt,
+      provider: () => fakeLlmProvider((messages) => {
+        sent.push(messages.map((m) => m.content).join('\n'));
+        // Contradicts the rules on the phone; must be ignored
+        const answer = naiveAuditComparison(phoneCase);
+        return { ...answer, fieldComparisons: answer.fieldComparisons.map((f) => ({ ...f, matchStatus: f.fieldName === 'telephone' ? 'mismatch' : 'match' })) };
+      }),
+    });
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toContain('- name (Name)');
+    expect(sent[0]).not.toContain('9281');
+    expect(report).toMatchObject({ ruleFields: 1, correct: 2, accuracy: 1 });
+  });
+
+  it('should replay recordings and repair invalid output', async () => {
+    const [first] = cases;
+    const messages = auditPromptMessages(prompt, {
+      poiName: first.poiName,
+      tldbData: first.tldb,
+      websiteData: first.website,
+      mapsData: first.maps,
+      fields: first.fields,
+    });
+    const recording = {
+      provider: 'openai' as const,
+      promptHash: promptHash(messages),
+      content: JSON.stringify(labelled(first)),
+      model: 'gpt-4o-mini-2024-07-18',
+      inputTokens: 2000,
+      outputTokens: 500,
+      latencyMs: 1800,
+    };
+
+    const replayed = await evaluateAuditPrompt({
+      cases: [first, cases[1]],
+      prompt,
+      provider: (goldenCase, caseMessages) => replayLlmProvider(goldenCase === first ? recording : undefined, caseMessages),
+    });
+    expect(replayed).toMatchObject({ correct: 3, fields: 5, cost: 0.0006, latency: { meanMs: 1800 } });
+    expect(replayed.failures).toEqual([{ caseId: 'cafe-replaced', error: 'No recorded response' }]);
+
+    let calls = 0;
+    const repaired = await evaluateAuditPrompt({
+      cases: [first],
+      prompt,
+      provider: () => fakeLlmProvider(() => (++calls === 1 ? '{"fieldComparisons": "none"}' : labelled(first))),
+    });
+    expect(calls).toBe(2);
+    expect(repaired.accuracy).toBe(1);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { needsBrowserRendering } from '../../src/lib/render-mode';
+
+const ARTICLE = `<p>${'Das Gasthaus Zur Linde liegt mitten im Ortskern und bietet regionale Küche. '.repeat(4)}</p>`;
+
+describe('Render Mode', () => {
+  it('should keep server-rendered pages static', () => {
+    expect(needsBrowserRendering(`<html><body>${ARTICLE}<script src="/main.js"></script></body></html>`)).toEqual({
+      render: false,
+    });
+  });
+
+  it('should render empty bodies and empty SPA mount points', () => {
+    expect(needsBrowserRendering('   ')).toEqual({ render: true, reason: 'empty_body' });
+    expect(needsBrowserRendering('<body><div id="root"></div><script src="/static/js/main.3f2a.js"></script></body>')).toEqual({
+      render: true,
+      reason: 'empty_mount_point',
+    });
+    expect(needsBrowserRendering('<body><app-root></app-root></body>').reason).toBe('angular_client_only');
+  });
+
+  it('should render pages with framework markers and little content', () => {
+    const html = '<body><noscript>Bitte JavaScript aktivieren</noscript><div id="page">Laden…</div></body>';
+    expect(needsBrowserRendering(html)).toEqual({ render: true, reason: 'noscript_notice' });
+
+    const bundle = '<body><h1>Willkommen</h1><script src="/assets/app-4f1c.js"></script></body>';
+    expect(needsBrowserRendering(bundle)).toEqual({ render: true, reason: 'js_bundle' });
+  });
+
+  it('should not render short pages without scripts or non-HTML content', () => {
+    expect(needsBrowserRendering('<body><h1>Impressum</h1><p>Max Mustermann</p></body>').render).toBe(false);
+    expect(needsBrowserRendering('', 'application/pdf').render).toBe(false);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  parseRobotsTxt,
+  getProductToken,
+  selectGroup,
+  matchRules,
+  evaluateRobots,
+  fetchRobotsPolicy,
+  type RobotsPolicy,
+} from '../../src/lib/robots';
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; LDB-DataGuard/1.0; +https://ldb-dataguard.de/bot)';
+
+function policyFor(content: string, overrides: Partial<RobotsPolicy> = {}): RobotsPolicy {
+  return {
+    origin: 'https://example.de',
+    fetchedAt: new Date().toISOString(),
+    statusCode: 200,
+    unreachable: false,
+    robots: parseRobotsTxt(content),
+    ...overrides,
+  };
+}
+
+describe('robots.txt', () => {
+  describe('parseRobotsTxt', () => {
+    it('should group consecutive user-agent lines', () => {
+      const robots = parseRobotsTxt(`
+User-agent: googlebot
+User-agent: bingbot
+Disallow: /private
+
+User-agent: *
+Allow: /
+`);
+
+      expect(robots.groups).toHaveLength(2);
+      expect(robots.groups[0].userAgents).toEqual(['googlebot', 'bingbot']);
+      expect(robots.groups[0].rules).toEqual([{ allow: false, pattern: '/private' }]);
+    });
+
+    it('should parse crawl-delay, sitemaps and ignore comments', () => {
+      const robots = parseRobotsTxt(`
+# Our rules
+User-agent: *
+Crawl-delay: 5 # be nice
+Disallow:
+Sitemap: https://example.de/sitemap.xml
+`);
+
+      expect(robots.groups[0].crawlDelay).toBe(5);
+      expect(robots.groups[0].rules).toHaveLength(0);
+      expect(robots.sitemaps).toEqual(['https://example.de/sitemap.xml']);
+    });
+  });
+
+  describe('getProductToken', () => {
+    it('should extract the product token from a compatible user agent', () => {
+      expect(getProductToken(USER_AGENT)).toBe('ldb-dataguard');
+    });
+  });
+
+  describe('selectGroup', () => {
+    it('should prefer the group naming our product token', () => {
+      const robots = parseRobotsTxt(`
+User-agent: *
+Disallow: /
+
+User-agent: LDB-DataGuard
+Disallow: /intern
+`);
+
+      const group = selectGroup(robots, USER_AGENT);
+      expect(group?.rules).toEqual([{ allow: false, pattern: '/intern' }]);
+    });
+
+    it('should fall back to the wildcard group', () => {
+      const robots = parseRobotsTxt('User-agent: *\nDisallow: /admin');
+      expect(selectGroup(robots, USER_AGENT)?.rules).toHaveLength(1);
+    });
+  });
+
+  describe('matchRules', () => {
+    const rules = parseRobotsTxt(`
+User-agent: *
+Disallow: /shop
+Allow: /shop/impressum
+Disallow: /*.pdf$
+Disallow: /*?session=
+`).groups[0].rules;
+
+    it('should apply longest-match precedence', () => {
+      expect(matchRules(rules, '/shop/cart').allowed).toBe(false);
+      expect(matchRules(rules, '/shop/impressum').allowed).toBe(true);
+    });
+
+    it('should support * and $ wildcards', () => {
+      expect(matchRules(rules, '/files/menu.pdf').allowed).toBe(false);
+      expect(matchRules(rules, '/files/menu.pdf.html').allowed).toBe(true);
+      expect(matchRules(rules, '/kontakt?session=abc').allowed).toBe(false);
+    });
+
+    it('should prefer Allow on equal length', () => {
+      const tie = [
+        { allow: false, pattern: '/page' },
+        { allow: true, pattern: '/page' },
+      ];
+      expect(matchRules(tie, '/page').allowed).toBe(true);
+    });
+
+    it('should allow unmatched paths', () => {
+      expect(matchRules(rules, '/kontakt').allowed).toBe(true);
+    });
+  });
+
+  describe('evaluateRobots', () => {
+    it('should disallow everything when robots.txt was unreachable', () => {
+      const policy = policyFor('', { unreachable: true, statusCode: 503 });
+      expect(evaluateRobots(policy, 'https://example.de/kontakt', USER_AGENT).allowed).toBe(false);
+    });
+
+    it('should report the crawl delay of the matching group', () => {
+      const policy = policyFor('User-agent: *\nCrawl-delay: 2\nDisallow: /admin');
+      const decision = evaluateRobots(policy, 'https://example.de/kontakt', USER_AGENT);
+
+      expect(decision.allowed).toBe(true);
+      expect(decision.crawlDelay).toBe(2);
+    });
+  });
+
+  describe('fetchRobotsPolicy', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const statusPolicy = async (status: number) => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('', { status })));
+      return fetchRobotsPolicy('https://example.de', USER_AGENT);
+    };
+
+    it('should allow everything when robots.txt is missing', async () => {
+      expect((await statusPolicy(404)).unreachable).toBe(false);
+    });
+
+    it('should treat server errors and rate limiting as unreachable', async () => {
+      expect((await statusPolicy(503)).unreachable).toBe(true);
+      expect((await statusPolicy(429)).unreachable).toBe(true);
+    });
+  });
+});
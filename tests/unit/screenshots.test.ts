@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { LocalBlobStore, assertValidKey, type BlobStore } from '../../src/lib/blob-store';
+import { selectScreenshotUrls, screenshotKey, screenshotsByField } from '../../src/lib/screenshots';
+
+describe('Screenshots', () => {
+  describe('LocalBlobStore', () => {
+    let root: string;
+
+    beforeEach(async () => {
+      root = await mkdtemp(path.join(tmpdir(), 'blobs-'));
+    });
+
+    afterEach(async () => {
+      await rm(root, { recursive: true, force: true });
+    });
+
+    it('should store, read and delete blobs', async () => {
+      const store: BlobStore = new LocalBlobStore(root);
+      const key = 'screenshots/poi-1/home.jpg';
+
+      await store.put(key, Buffer.from('jpeg'), 'image/jpeg');
+      expect(await store.get(key)).toEqual({ data: Buffer.from('jpeg'), contentType: 'image/jpeg' });
+
+      await store.delete(key);
+      expect(await store.get(key)).toBeNull();
+    });
+
+    it('should reject keys outside the store', async () => {
+      const store = new LocalBlobStore(root);
+
+      await expect(store.get('../etc/passwd')).rejects.toThrow('Invalid blob key');
+      expect(() => assertValidKey('/screenshots/a.jpg')).toThrow();
+      expect(() => assertValidKey('screenshots//a.jpg')).toThrow();
+      expect(() => assertValidKey('screenshots/poi-1/a.jpg')).not.toThrow();
+    });
+  });
+
+  it('should capture the landing page first and each source page once', () => {
+    const urls = selectScreenshotUrls('https://linde.de/', {
+      email: 'https://linde.de/impressum/',
+      telephone: 'https://linde.de/impressum',
+      openingHours: 'https://linde.de/kontakt',
+    });
+
+    expect(urls).toEqual(['https://linde.de', 'https://linde.de/impressum', 'https://linde.de/kontakt']);
+    expect(selectScreenshotUrls('https://linde.de/', { email: 'https://linde.de/impressum' }, 1)).toEqual(['https://linde.de']);
+  });
+
+  it('should map fields to the screenshot of their source page', () => {
+    const screenshots = screenshotsByField(
+      { email: 'https://linde.de/impressum/', openingHours: 'https://linde.de/kontakt' },
+      { 'https://linde.de': 'screenshots/poi-1/a.jpg', 'https://linde.de/impressum': 'screenshots/poi-1/b.jpg' }
+    );
+
+    expect(screenshots).toEqual({ email: { url: 'https://linde.de/impressum/', key: 'screenshots/poi-1/b.jpg' } });
+  });
+
+  it('should build keys per POI, page and capture time', async () => {
+    const takenAt = new Date('2025-09-01T10:00:00.123Z');
+    const key = await screenshotKey('poi-1', 'https://linde.de/impressum', takenAt);
+
+    expect(key).toMatch(/^screenshots\/poi-1\/2025-09-01T10-00-00-123Z-[0-9a-f]{16}\.jpg$/);
+    expect(await screenshotKey('poi-1', 'https://linde.de/impressum/', takenAt)).toBe(key);
+    expect(await screenshotKey('poi-1', 'https://linde.de/kontakt', takenAt)).not.toBe(key);
+    expect(() => assertValidKey(key)).not.toThrow();
+  });
+});
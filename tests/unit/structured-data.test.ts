@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { parseHtml, textContent, findElements } from '../../src/lib/html';
+import {
+  extractJsonLdBlocks,
+  extractStructuredData,
+  summarizeStructuredData,
+  getFirstValue,
+  isSchemaNode,
+} from '../../src/lib/structured-data';
+
+const JSON_LD_HTML = `
+<html><head>
+<script type="application/ld+json">
+{"@context":"https://schema.org","@graph":[
+  {"@type":"WebSite","name":"Seeblick"},
+  {"@type":"Hotel","name":"Hotel Seeblick","telephone":"+49 431 123456",
+   "address":{"@type":"PostalAddress","streetAddress":"Strandweg 1","postalCode":"24103"}}
+]}
+</script>
+</head><body></body></html>`;
+
+const MICRODATA_HTML = `
+<div itemscope itemtype="https://schema.org/Restaurant">
+  <h1 itemprop="name">Gasthaus Zur Linde</h1>
+  <div itemprop="address" itemscope itemtype="https://schema.org/PostalAddress">
+    <span itemprop="streetAddress">Dorfstra&szlig;e 5</span>,
+    <span itemprop="postalCode">83022</span> <span itemprop="addressLocality">Rosenheim</span>
+  </div>
+  <meta itemprop="openingHours" content="Mo-Fr 11:00-22:00">
+  <a itemprop="url" href="/">Start</a>
+  <span itemprop="geo" itemscope itemtype="https://schema.org/GeoCoordinates">
+    <meta itemprop="latitude" content="47.856"><meta itemprop="longitude" content="12.128">
+  </span>
+</div>`;
+
+const RDFA_HTML = `
+<div vocab="https://schema.org/" typeof="Museum">
+  <span property="name">Stadtmuseum</span>
+  <a property="telephone" href="tel:+4989123">Anrufen</a>
+  <div property="address" typeof="PostalAddress">
+    <span property="addressLocality">München</span>
+  </div>
+</div>`;
+
+const OPENGRAPH_HTML = `
+<html><head>
+  <meta property="og:type" content="restaurant.restaurant">
+  <meta property="og:title" content="Café am Markt">
+  <meta property="place:location:latitude" content="48.137">
+  <meta property="place:location:longitude" content="11.575">
+  <meta name="geo.position" content="48.1;11.5">
+  <meta name="geo.region" content="DE-BY">
+</head><body></body></html>`;
+
+describe('Structured Data', () => {
+  describe('parseHtml', () => {
+    it('should build a tree and tolerate unclosed tags', () => {
+      const root = parseHtml('<div class="a"><p>One<p>Two<br>Three</div><span>Four</span>');
+      const div = findElements(root, (element) => element.tag === 'div')[0];
+
+      expect(div.attrs.class).toBe('a');
+      expect(textContent(div)).toBe('One Two Three');
+      expect(findElements(root, (element) => element.tag === 'span')).toHaveLength(1);
+    });
+
+    it('should keep script content raw', () => {
+      const root = parseHtml('<script>if (a < b) { x = "</div>"; }</script><p>ok</p>');
+      const script = findElements(root, (element) => element.tag === 'script')[0];
+
+      expect(script.children[0]).toContain('a < b');
+      expect(findElements(root, (element) => element.tag === 'p')).toHaveLength(1);
+    });
+  });
+
+  describe('JSON-LD', () => {
+    it('should parse blocks and flatten @graph', () => {
+      expect(extractJsonLdBlocks(JSON_LD_HTML)).toHaveLength(1);
+
+      const nodes = extractStructuredData(JSON_LD_HTML, 'https://seeblick.de/');
+      expect(nodes.map((node) => node.types[0])).toEqual(['WebSite', 'Hotel']);
+
+      const address = getFirstValue(nodes[1], 'address');
+      expect(isSchemaNode(address) && address.types).toEqual(['PostalAddress']);
+    });
+  });
+
+  describe('Microdata', () => {
+    it('should extract nested items with spec value rules', () => {
+      const [node] = extractStructuredData(MICRODATA_HTML, 'https://linde.de/speisekarte');
+
+      expect(node.syntax).toBe('microdata');
+      expect(node.types).toEqual(['Restaurant']);
+      expect(getFirstValue(node, 'url')).toBe('https://linde.de/');
+      expect(getFirstValue(node, 'openingHours')).toBe('Mo-Fr 11:00-22:00');
+
+      const address = getFirstValue(node, 'address');
+      expect(isSchemaNode(address) && getFirstValue(address, 'streetAddress')).toBe('Dorfstraße 5');
+    });
+  });
+
+  describe('RDFa', () => {
+    it('should extract typeof/property items', () => {
+      const [node] = extractStructuredData(RDFA_HTML);
+
+      expect(node.syntax).toBe('rdfa');
+      expect(node.types).toEqual(['Museum']);
+      expect(getFirstValue(node, 'telephone')).toBe('tel:+4989123');
+    });
+  });
+
+  describe('OpenGraph and meta', () => {
+    it('should map OpenGraph and geo tags to places', () => {
+      const nodes = extractStructuredData(OPENGRAPH_HTML);
+
+      expect(nodes.map((node) => [node.syntax, node.types[0]])).toEqual([
+        ['opengraph', 'Restaurant'],
+        ['meta', 'Place'],
+      ]);
+    });
+
+    it('should ignore plain website OpenGraph tags for POI data', () => {
+      const nodes = extractStructuredData('<meta property="og:title" content="Blog">');
+      const summary = summarizeStructuredData(nodes);
+
+      expect(nodes[0].types).toEqual(['WebPage']);
+      expect(summary.values).toEqual({});
+      expect(summary.syntaxes).toEqual(['opengraph']);
+    });
+  });
+
+  describe('summarizeStructuredData', () => {
+    it('should prefer JSON-LD and record the syntax of each value', () => {
+      const nodes = [
+        ...extractStructuredData(MICRODATA_HTML, 'https://linde.de/'),
+        ...extractStructuredData(JSON_LD_HTML, 'https://linde.de/hotel'),
+      ];
+      const { values, sources, syntaxes } = summarizeStructuredData(nodes);
+
+      expect(values.name).toBe('Hotel Seeblick');
+      expect(sources.name).toBe('json-ld');
+      expect(values.addressLocality).toBe('Rosenheim');
+      expect(sources.addressLocality).toBe('microdata');
+      expect(values.latitude).toBe('47.856');
+      expect(syntaxes).toEqual(['json-ld', 'microdata']);
+    });
+
+    it('should fill coordinates from OpenGraph when nothing else is present', () => {
+      const { values, sources } = summarizeStructuredData(extractStructuredData(OPENGRAPH_HTML));
+
+      expect(values.latitude).toBe('48.137');
+      expect(sources.latitude).toBe('opengraph');
+      expect(values.addressRegion).toBe('BY');
+      expect(sources.addressRegion).toBe('meta');
+    });
+  });
+});
@@ -14,6 +14,7 @@ import {
   normalizeUrl,
   extractDomain,
   chunk,
+  readBodyLimited,
 } from '@/lib/utils';
 
 describe('cn (className merge)', () => {
@@ -154,3 +155,23 @@ describe('sleep', () => {
     expect(elapsed).toBeGreaterThanOrEqual(90);
   });
 });
+
+describe('readBodyLimited', () => {
+  it('should read bodies up to the limit', async () => {
+    const body = await readBodyLimited(new Response('Speisekarte'), 100);
+    expect(new TextDecoder().decode(body!)).toBe('Speisekarte');
+  });
+
+  it('should stop reading a larger chunked body', async () => {
+    let pulled = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(new Uint8Array(1024));
+      },
+    });
+
+    expect(await readBodyLimited(new Response(stream), 4096)).toBeNull();
+    expect(pulled).toBeLessThan(10);
+  });
+});
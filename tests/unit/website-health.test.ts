@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  detectParkedDomain,
+  collectBrokenLinks,
+  scoreWebsiteHealth,
+  summarizeAvailability,
+  probeWebsite,
+  type WebsiteHealthFacts,
+} from '../../src/lib/website-health';
+
+const HEALTHY: WebsiteHealthFacts = {
+  url: 'https://gasthof-post.de/',
+  finalUrl: 'https://www.gasthof-post.de/',
+  reachable: true,
+  statusCode: 200,
+  redirects: [{ url: 'https://gasthof-post.de/', statusCode: 301 }],
+  crossDomainRedirect: false,
+  parkedReason: null,
+  tls: { valid: true, daysRemaining: 60 },
+  brokenLinks: [],
+  pagesChecked: 5,
+};
+
+describe('Website Health', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('detectParkedDomain', () => {
+    it('should detect for-sale and placeholder pages', () => {
+      expect(detectParkedDomain('<h1>Diese Domain steht zum Verkauf</h1>', 'https://a.de/')).toBe('for_sale');
+      expect(detectParkedDomain('<p>Hier entsteht eine neue Internetpräsenz</p>', 'https://a.de/')).toBe('placeholder');
+      expect(detectParkedDomain('<html></html>', 'https://www.sedo.com/search?domain=a.de')).toBe('parking_redirect');
+    });
+
+    it('should not flag regular pages', () => {
+      expect(detectParkedDomain('<h1>Gasthof Post</h1><p>Willkommen</p>', 'https://a.de/')).toBeNull();
+    });
+  });
+
+  it('should collect broken internal links but not the start page or skipped URLs', () => {
+    const broken = collectBrokenLinks([
+      { url: 'https://a.de/', statusCode: 200, selection: { source: 'start' } },
+      { url: 'https://a.de/alt', statusCode: 404, selection: { source: 'link', parentUrl: 'https://a.de/' } },
+      { url: 'https://a.de/privat', statusCode: 0, error: 'Disallowed by robots.txt' },
+      { url: 'https://a.de/timeout', statusCode: 0, error: 'net::ERR_TIMED_OUT' },
+    ]);
+
+    expect(broken).toEqual([
+      { url: 'https://a.de/alt', statusCode: 404, parentUrl: 'https://a.de/' },
+      { url: 'https://a.de/timeout', statusCode: 0, parentUrl: undefined, error: 'net::ERR_TIMED_OUT' },
+    ]);
+  });
+
+  describe('scoreWebsiteHealth', () => {
+    it('should rate a reachable HTTPS site as healthy', () => {
+      expect(scoreWebsiteHealth(HEALTHY)).toEqual({ score: 100, status: 'healthy', issues: [] });
+    });
+
+    it('should rate unreachable and parked sites as down', () => {
+      expect(scoreWebsiteHealth({ ...HEALTHY, reachable: false, statusCode: 0, error: 'ENOTFOUND' })).toEqual({
+        score: 0,
+        status: 'down',
+        issues: ['unreachable:ENOTFOUND'],
+      });
+      expect(scoreWebsiteHealth({ ...HEALTHY, parkedReason: 'for_sale' }).status).toBe('down');
+    });
+
+    it('should deduct for TLS, redirects and broken links', () => {
+      const health = scoreWebsiteHealth({
+        ...HEALTHY,
+        tls: { valid: false, error: 'CERT_HAS_EXPIRED' },
+        crossDomainRedirect: true,
+        brokenLinks: [{ url: 'https://a.de/alt', statusCode: 404 }],
+      });
+
+      expect(health.score).toBe(45);
+      expect(health.status).toBe('degraded');
+      expect(health.issues).toEqual(['tls_invalid:CERT_HAS_EXPIRED', 'cross_domain_redirect', 'broken_links']);
+      expect(scoreWebsiteHealth({ ...HEALTHY, tls: { valid: true, daysRemaining: 3 } }).issues).toEqual(['tls_expiring']);
+    });
+  });
+
+  it('should summarize availability', () => {
+    expect(summarizeAvailability([
+      { reachable: true, checkedAt: '2025-09-03T10:00:00Z' },
+      { reachable: false, checkedAt: '2025-09-02T10:00:00Z' },
+      { reachable: true, checkedAt: '2025-09-01T10:00:00Z' },
+    ])).toEqual({ checks: 3, up: 2, uptime: 66.7, lastDownAt: '2025-09-02T10:00:00.000Z' });
+
+    expect(summarizeAvailability([]).uptime).toBeNull();
+  });
+
+  it('should follow redirects hop by hop', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(new Response(null, { status: 301, headers: { location: 'https://neu-domain.de/' } }))
+      .mockResolvedValueOnce(new Response('<h1>Gasthof Post</h1>', { status: 200 })));
+
+    const probe = await probeWebsite('http://gasthof-post.de/', { userAgent: 'test' });
+
+    expect(probe?.finalUrl).toBe('https://neu-domain.de/');
+    expect(probe?.redirects).toEqual([{ url: 'http://gasthof-post.de/', statusCode: 301 }]);
+    expect(probe?.crossDomainRedirect).toBe(true);
+    expect(probe?.reachable).toBe(true);
+  });
+
+  it('should not probe hops robots.txt disallows', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(new Response(null, { status: 301, headers: { location: 'https://neu-domain.de/' } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const probe = await probeWebsite('http://gasthof-post.de/', {
+      userAgent: 'test',
+      isAllowed: async (url) => !url.startsWith('https://neu-domain.de'),
+    });
+
+    expect(probe).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
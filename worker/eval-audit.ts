@@ -0,0 +1,136 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { anthropicLlmProvider } from '../src/lib/anthropic';
+import { azureLlmProvider, localLlmProvider, openaiLlmProvider } from '../src/lib/openai';
+import { LLM_PROVIDER_NAMES, type LlmProvider, type LlmProviderName } from '../src/lib/llm-provider';
+import { ACTIVE_AUDIT_PROMPT_VERSION, getAuditPrompt } from '../src/lib/prompts';
+import {
+  checkPromotion,
+  evaluateAuditPrompt,
+  fakeLlmProvider,
+  goldenAuditSetSchema,
+  naiveAuditComparison,
+  promptHash,
+  recordingKey,
+  replayLlmProvider,
+  type AuditEvalReport,
+  type AuditRecordings,
+} from '../src/lib/prompt-eval';
+
+/**
+ * Evaluate an audit prompt version against the golden set
+ *
+ *   npm run eval:audit -- --mode replay                    Recorded responses (offline)
+ *   npm run eval:audit -- --mode live --provider openai --model gpt-4o-mini --record
+ *   npm run eval:audit -- --mode fake                      Naive baseline, no model
+ *
+ * Fields the comparators settle are decided by rules, as in production;
+ * only the rest is sent to the model. Exits with 1 when the prompt/model
+ * must not be promoted.
+ */
+
+const PROVIDERS: Record<LlmProviderName, LlmProvider> = {
+  openai: openaiLlmProvider,
+  local: localLlmProvider,
+  azure: azureLlmProvider,
+  anthropic: anthropicLlmProvider,
+};
+
+const { values: args } = parseArgs({
+  options: {
+    prompt: { type: 'string', default: ACTIVE_AUDIT_PROMPT_VERSION },
+    mode: { type: 'string', default: 'replay' },
+    provider: { type: 'string', default: 'openai' },
+    model: { type: 'string' },
+    golden: { type: 'string', default: 'tests/golden/audit.json' },
+    recordings: { type: 'string', default: 'tests/golden/audit-recordings.json' },
+    record: { type: 'boolean', default: false },
+    baseline: { type: 'string' },
+    'min-accuracy': { type: 'string', default: '0.85' },
+    out: { type: 'string' },
+  },
+});
+
+function readJson<T>(path: string, fallback?: T): T {
+  if (!existsSync(path) && fallback !== undefined) return fallback;
+  return JSON.parse(readFileSync(path, 'utf8')) as T;
+}
+
+function printReport(report: AuditEvalReport): void {
+  console.log(`Prompt ${report.promptVersion} / ${report.model || 'n/a'}`);
+  console.log(`  Accuracy: ${(report.accuracy * 100).toFixed(1)}% (${report.correct}/${report.fields} fields, ${report.cases} cases)`);
+  console.log(`  Settled by rules: ${report.ruleFields} fields`);
+  for (const [status, { expected, correct }] of Object.entries(report.byStatus)) {
+    if (expected > 0) console.log(`    ${status}: ${correct}/${expected}`);
+  }
+  console.log(`  Cost: ${report.cost.toFixed(4)}`);
+  console.log(`  Latency: mean ${report.latency.meanMs} ms, p95 ${report.latency.p95Ms} ms`);
+  for (const failure of report.failures) console.log(`  ✗ ${failure.caseId}: ${failure.error}`);
+  for (const error of report.errors) console.log(`  ≠ ${error.caseId}.${error.field}: expected ${error.expected}, got ${error.actual ?? 'nothing'}`);
+}
+
+async function main(): Promise<void> {
+  const prompt = getAuditPrompt(args.prompt);
+  const golden = goldenAuditSetSchema.parse(readJson(args.golden!));
+  const recordings = readJson<AuditRecordings>(args.recordings!, {});
+
+  const mode = args.mode;
+  if (mode !== 'live' && mode !== 'replay' && mode !== 'fake') {
+    throw new Error(`Unknown mode: ${mode} (live, replay, fake)`);
+  }
+  if (mode === 'replay' && !Object.keys(recordings).some((key) => key.startsWith(`${prompt.version}/`))) {
+    throw new Error(
+      `No recorded responses for ${prompt.version} in ${args.recordings}. Record them once against a live provider:\n` +
+      `  npm run eval:audit -- --mode live --provider openai --prompt ${prompt.version} --record`
+    );
+  }
+  const providerName = LLM_PROVIDER_NAMES.find((name) => name === args.provider);
+  if (mode === 'live' && !providerName) {
+    throw new Error(`Unknown provider: ${args.provider} (${LLM_PROVIDER_NAMES.join(', ')})`);
+  }
+
+  const report = await evaluateAuditPrompt({
+    cases: golden.cases,
+    prompt,
+    model: mode === 'live' ? args.model : undefined,
+    provider: (goldenCase, messages) => {
+      if (mode === 'fake') return fakeLlmProvider(() => naiveAuditComparison(goldenCase));
+      if (mode === 'replay') return replayLlmProvider(recordings[recordingKey(prompt.version, goldenCase.id)], messages);
+      return PROVIDERS[providerName!];
+    },
+    onCompletion: (goldenCase, messages, completion) => {
+      if (mode !== 'live' || !args.record) return;
+      recordings[recordingKey(prompt.version, goldenCase.id)] = {
+        provider: providerName!,
+        promptHash: promptHash(messages),
+        content: completion.content,
+        model: completion.model,
+        inputTokens: completion.inputTokens,
+        outputTokens: completion.outputTokens,
+        latencyMs: completion.latencyMs ?? 0,
+      };
+    },
+  });
+
+  if (mode === 'live' && args.record) {
+    writeFileSync(args.recordings!, `${JSON.stringify(recordings, null, 2)}\n`);
+    console.log(`Recorded ${golden.cases.length} responses to ${args.recordings}`);
+  }
+  if (args.out) {
+    writeFileSync(args.out, `${JSON.stringify(report, null, 2)}\n`);
+  }
+
+  printReport(report);
+
+  const promotion = checkPromotion(report, {
+    minAccuracy: parseFloat(args['min-accuracy']!),
+    baseline: args.baseline ? readJson<AuditEvalReport>(args.baseline) : undefined,
+  });
+  console.log(promotion.promotable ? 'Promotable' : `Not promotable:\n  ${promotion.reasons.join('\n  ')}`);
+  process.exitCode = promotion.promotable ? 0 : 1;
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -1,6 +1,7 @@
 import { Job } from 'bullmq';
 import { createLogger } from '../../src/lib/logger';
 import { auditPoi } from '../../src/lib/auditor';
+import { detectClosure } from '../../src/lib/closure-monitor';
 import prisma from '../../src/lib/db';
 import { getMailQueue, addJob, type AuditJobData } from '../../src/lib/queue';
 import { auditsCompleted, auditDuration, queueCompleted, queueFailed } from '../../src/lib/metrics';
@@ -16,56 +17,69 @@ const NOTIFICATION_THRESHOLD = parseInt(process.env.AUDIT_NOTIFICATION_THRESHOLD
  * Handle audit job
  */
 export async function handleAuditJob(job: Job<AuditJobData>): Promise<void> {
-  const { poiId, tldbData, websiteData, mapsData } = job.data;
+  const { poiId, tldbData, websiteData, mapsData, replay = false } = job.data;
   const startTime = Date.now();
   
-  logger.info({ jobId: job.id, poiId }, 'Starting audit job');
+  logger.info({ jobId: job.id, poiId, replay }, 'Starting audit job');
   
   try {
-    // Update POI status
-    await prisma.pOI.update({
-      where: { id: poiId },
-      data: { auditStatus: 'IN_PROGRESS' },
-    });
+    // Update POI status (a replay leaves the POI as it is)
+    if (!replay) {
+      await prisma.pOI.update({
+        where: { id: poiId },
+        data: { auditStatus: 'IN_PROGRESS' },
+      });
+    }
     
     // Perform audit
-    const result = await auditPoi(poiId, tldbData, websiteData || {}, mapsData || {});
+    const result = await auditPoi(poiId, tldbData, websiteData || {}, mapsData || {}, { replay });
     
     const duration = (Date.now() - startTime) / 1000;
     auditDuration.observe(duration);
-    auditsCompleted.labels({ status: 'success' }).inc();
+    auditsCompleted.labels({ status: result.carriedForward ? 'carried_forward' : 'success' }).inc();
     queueCompleted.labels({ queue: 'audit' }).inc();
     
     logger.info(
-      { jobId: job.id, poiId, score: result.overallScore, duration },
+      { jobId: job.id, poiId, score: result.overallScore, duration, carriedForward: result.carriedForward, replay },
       'Audit job completed'
     );
     
-    // Send notification if score is below threshold
-    if (result.overallScore < NOTIFICATION_THRESHOLD && result.discrepancies.length > 0) {
+    // A replay only reports its result
+    if (replay) return;
+    
+    // Send notification if score is below threshold (a carried-forward
+    // result was already notified when it was first audited)
+    if (!result.carriedForward && result.overallScore < NOTIFICATION_THRESHOLD && result.discrepancies.length > 0) {
       await sendDiscrepancyNotification(poiId, result);
     }
+
+    // Website and maps data of this run are final now; a failure here must not fail the audit
+    await detectClosure(poiId).catch((error) => {
+      logger.error({ poiId, error: error instanceof Error ? error.message : error }, 'Closure detection failed');
+    });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     
     auditsCompleted.labels({ status: 'error' }).inc();
     queueFailed.labels({ queue: 'audit' }).inc();
     
-    // Update POI status
-    await prisma.pOI.update({
-      where: { id: poiId },
-      data: { auditStatus: 'FAILED' },
-    });
-    
-    // Create audit record with error
-    await prisma.audit.create({
-      data: {
-        poiId,
-        overallScore: 0,
-        status: 'FAILED',
-        errorMessage,
-      },
-    });
+    if (!replay) {
+      // Update POI status
+      await prisma.pOI.update({
+        where: { id: poiId },
+        data: { auditStatus: 'FAILED' },
+      });
+      
+      // Create audit record with error
+      await prisma.audit.create({
+        data: {
+          poiId,
+          overallScore: 0,
+          status: 'FAILED',
+          errorMessage,
+        },
+      });
+    }
     
     // Log failed job
     await prisma.failedJob.create({
@@ -101,8 +115,9 @@ async function sendDiscrepancyNotification(
       street: true,
       city: true,
       contacts: {
-        where: { trustLevel: 'HIGH' },
+        where: { trustLevel: 'HIGH', email: { not: null }, deletedAt: null },
         select: { email: true },
+        orderBy: { lastSeenAt: 'desc' },
         take: 1,
       },
     },
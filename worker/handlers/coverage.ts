@@ -0,0 +1,166 @@
+import { Job } from 'bullmq';
+import { createLogger } from '../../src/lib/logger';
+import { API_COSTS, nearbySearch } from '../../src/lib/google-places';
+import {
+  COVERAGE_SCAN_MAX_COST,
+  COVERAGE_SEARCH_RADIUS_METERS,
+  findKnownPoi,
+  isCoverageCandidate,
+  planCoverageSearches,
+  sampleAnchorPois,
+  suggestedCategory,
+} from '../../src/lib/coverage-gaps';
+import prisma from '../../src/lib/db';
+import { type CoverageJobData } from '../../src/lib/queue';
+import { queueCompleted, queueFailed, apiRequestsTotal } from '../../src/lib/metrics';
+
+const logger = createLogger('coverage-handler');
+
+/**
+ * Handle coverage gap scan job: nearby searches around the POIs of a
+ * region, stopping at the scan's cost cap
+ */
+export async function handleCoverageJob(job: Job<CoverageJobData>): Promise<void> {
+  const { scanId } = job.data;
+
+  logger.info({ jobId: job.id, scanId }, 'Starting coverage scan');
+
+  try {
+    const scan = await prisma.coverageScan.findUnique({ where: { id: scanId } });
+
+    if (!scan || scan.status === 'COMPLETED' || scan.status === 'CAPPED') {
+      logger.warn({ scanId }, 'Coverage scan not found or already finished');
+      return;
+    }
+
+    if (!process.env.GOOGLE_PLACES_API_KEY) {
+      await prisma.coverageScan.update({
+        where: { id: scanId },
+        data: { status: 'FAILED', error: 'Google Places API key not configured', completedAt: new Date() },
+      });
+      return;
+    }
+
+    const costCap = scan.costCap ?? COVERAGE_SCAN_MAX_COST;
+
+    const pois = await prisma.pOI.findMany({
+      where: { region: scan.region, deletedAt: null },
+      select: { id: true, name: true, latitude: true, longitude: true, placeId: true, mapsPlaceIds: true },
+      orderBy: { id: 'asc' },
+    });
+
+    // Places decided in earlier scans are not listed again
+    const decided = await prisma.coverageCandidate.findMany({
+      where: { status: { in: ['IMPORTED', 'DISMISSED'] } },
+      select: { placeId: true },
+    });
+    const skipped = new Set(decided.map((candidate) => candidate.placeId));
+
+    const anchors = sampleAnchorPois(pois);
+    const searches = planCoverageSearches(anchors, scan.types, { costCap, searchCost: API_COSTS.nearbySearch });
+
+    await prisma.coverageScan.update({
+      where: { id: scanId },
+      data: {
+        status: 'RUNNING',
+        costCap,
+        anchorPois: new Set(searches.map((search) => search.anchorPoiId)).size,
+        error: null,
+        completedAt: null,
+      },
+    });
+
+    // A retried job resumes after the searches already paid for
+    let cost = scan.cost;
+    let requests = scan.requests;
+    let placesSeen = scan.placesSeen;
+    let capped = searches.length < anchors.length * scan.types.length;
+    const seen = new Set<string>();
+
+    for (const search of searches.slice(requests)) {
+      if (cost + API_COSTS.nearbySearch > costCap) {
+        capped = true;
+        break;
+      }
+
+      const places = await nearbySearch(
+        search.location.lat,
+        search.location.lng,
+        COVERAGE_SEARCH_RADIUS_METERS,
+        search.type,
+        { scanId }
+      );
+      cost += API_COSTS.nearbySearch;
+      requests++;
+      apiRequestsTotal.labels({ service: 'google_maps', operation: 'nearbySearch', status: 'success' }).inc();
+
+      for (const place of places) {
+        if (seen.has(place.placeId)) continue;
+        seen.add(place.placeId);
+        placesSeen++;
+
+        if (skipped.has(place.placeId) || !isCoverageCandidate(place, scan.types)) continue;
+        if (findKnownPoi(place, pois)) continue;
+
+        await prisma.coverageCandidate.upsert({
+          where: { scanId_placeId: { scanId, placeId: place.placeId } },
+          create: {
+            scanId,
+            placeId: place.placeId,
+            name: place.name,
+            address: place.address || null,
+            latitude: place.location.lat,
+            longitude: place.location.lng,
+            types: place.types,
+            businessStatus: place.businessStatus,
+            suggestedCategory: suggestedCategory(place.types),
+            anchorPoiId: search.anchorPoiId,
+          },
+          update: {},
+        });
+      }
+
+      // Progress survives a crash of the worker
+      await prisma.coverageScan.update({
+        where: { id: scanId },
+        data: { cost, requests, placesSeen },
+      });
+    }
+
+    const candidates = await prisma.coverageCandidate.count({ where: { scanId } });
+
+    await prisma.coverageScan.update({
+      where: { id: scanId },
+      data: { status: capped ? 'CAPPED' : 'COMPLETED', cost, requests, placesSeen, completedAt: new Date() },
+    });
+
+    queueCompleted.labels({ queue: 'coverage' }).inc();
+
+    logger.info({ jobId: job.id, scanId, region: scan.region, requests, cost, placesSeen, candidates, capped }, 'Coverage scan completed');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    queueFailed.labels({ queue: 'coverage' }).inc();
+
+    await prisma.coverageScan.update({
+      where: { id: scanId },
+      data: { status: 'FAILED', error: errorMessage, completedAt: new Date() },
+    }).catch(() => undefined);
+
+    // Log failed job
+    await prisma.failedJob.create({
+      data: {
+        queue: 'coverage',
+        jobId: job.id || '',
+        jobData: JSON.parse(JSON.stringify(job.data)),
+        error: errorMessage,
+        stackTrace: error instanceof Error ? error.stack : undefined,
+        attempts: job.attemptsMade,
+        maxAttempts: job.opts.attempts || 3,
+      },
+    });
+
+    logger.error({ jobId: job.id, scanId, error: errorMessage }, 'Coverage scan failed');
+    throw error;
+  }
+}
@@ -1,52 +1,125 @@
 import { Job } from 'bullmq';
 import { createLogger } from '../../src/lib/logger';
-import { findPlace, getPlaceDetails, placeDetailsToPoiData } from '../../src/lib/google-places';
+import { googleMapsProvider } from '../../src/lib/google-places';
+import { osmMapsProvider } from '../../src/lib/openstreetmap';
+import {
+  MAPS_PROVIDER_CONFIG_KEY,
+  mergeMapsData,
+  parseMapsProviderConfig,
+  selectMapsProviders,
+  type MapsData,
+  type MapsPlaceQuery,
+  type MapsProvider,
+  type MapsProviderName,
+} from '../../src/lib/maps-provider';
+import { isPlaceSearchDue, matchPlace, type PlaceMatchInput } from '../../src/lib/place-matching';
 import prisma from '../../src/lib/db';
 import { getAuditQueue, addJob, type MapsJobData } from '../../src/lib/queue';
 import { queueCompleted, queueFailed, apiRequestsTotal } from '../../src/lib/metrics';
 
 const logger = createLogger('maps-handler');
 
+const MAPS_PROVIDERS: Record<MapsProviderName, MapsProvider> = {
+  google: googleMapsProvider,
+  osm: osmMapsProvider,
+};
+
+/**
+ * Service label of a provider in metrics
+ */
+const PROVIDER_SERVICES: Record<MapsProviderName, string> = {
+  google: 'google_maps',
+  osm: 'openstreetmap',
+};
+
+type MapsPoi = PlaceMatchInput & {
+  region: string | null;
+  placeId: string | null;
+  placeMatchStatus: string;
+  placeMatchedAt: Date | null;
+  mapsPlaceIds: unknown;
+};
+
 /**
- * Handle Google Maps job
+ * Handle map data job
  */
 export async function handleMapsJob(job: Job<MapsJobData>): Promise<void> {
-  const { poiId, name, address, latitude, longitude } = job.data;
+  const { poiId, name, address } = job.data;
   
   logger.info({ jobId: job.id, poiId, name }, 'Starting maps job');
   
   try {
-    // Find place
-    const place = await findPlace(name, address, poiId);
+    const poi = await prisma.pOI.findUnique({
+      where: { id: poiId },
+      select: {
+        name: true,
+        category: true,
+        street: true,
+        postalCode: true,
+        city: true,
+        region: true,
+        latitude: true,
+        longitude: true,
+        placeId: true,
+        placeMatchStatus: true,
+        placeMatchedAt: true,
+        mapsPlaceIds: true,
+      },
+    });
     
-    if (!place) {
-      logger.warn({ poiId, name }, 'Place not found on Google Maps');
-      apiRequestsTotal.labels({ service: 'google_maps', operation: 'findPlace', status: 'not_found' }).inc();
-      
-      // Still queue audit job with available data
-      await queueAuditJob(poiId);
+    if (!poi) {
+      logger.warn({ poiId }, 'POI not found for maps job');
       return;
     }
     
-    apiRequestsTotal.labels({ service: 'google_maps', operation: 'findPlace', status: 'success' }).inc();
+    const config = await prisma.appConfig.findUnique({ where: { key: MAPS_PROVIDER_CONFIG_KEY } });
+    const providers = selectMapsProviders(parseMapsProviderConfig(config?.value), poi);
+    const query = {
+      name,
+      address,
+      location: job.data.latitude && job.data.longitude
+        ? { lat: job.data.latitude, lng: job.data.longitude }
+        : undefined,
+    };
+    
+    // Only the fields the audit compares are requested
+    const dataFields = await prisma.dataField.findMany({
+      where: { isCore: true },
+      select: { name: true },
+    });
+    const fieldNames = dataFields.map((field) => field.name);
     
-    // Get place details
-    const details = await getPlaceDetails(place.placeId, poiId);
+    const results: MapsData[] = [];
     
-    if (!details) {
-      logger.warn({ poiId, placeId: place.placeId }, 'Failed to get place details');
-      apiRequestsTotal.labels({ service: 'google_maps', operation: 'placeDetails', status: 'error' }).inc();
+    for (const providerName of providers) {
+      const provider = MAPS_PROVIDERS[providerName];
+      const placeId = providerName === 'google'
+        ? await resolveGooglePlace(poiId, poi, query)
+        : await resolveProviderPlace(provider, poiId, poi, query);
       
+      if (!placeId) continue;
+      
+      const details = await provider.getDetails(placeId, poiId, fieldNames);
+      apiRequestsTotal
+        .labels({ service: PROVIDER_SERVICES[providerName], operation: 'placeDetails', status: details ? 'success' : 'error' })
+        .inc();
+      
+      if (!details) {
+        logger.warn({ poiId, placeId, provider: providerName }, 'Failed to get place details');
+        continue;
+      }
+      results.push(details);
+    }
+    
+    if (results.length === 0) {
+      logger.info({ poiId, providers }, 'No map data found, auditing with available data');
       await queueAuditJob(poiId);
       return;
     }
     
-    apiRequestsTotal.labels({ service: 'google_maps', operation: 'placeDetails', status: 'success' }).inc();
-    
-    // Convert to POI data format
-    const mapsData = placeDetailsToPoiData(details);
+    // Merge provider results into one mapsData object
+    const mapsData = mergeMapsData(results);
     
-    // Update POI with maps data
     await prisma.pOI.update({
       where: { id: poiId },
       data: {
@@ -56,7 +129,7 @@ export async function handleMapsJob(job: Job<MapsJobData>): Promise<void> {
     
     queueCompleted.labels({ queue: 'maps' }).inc();
     
-    logger.info({ jobId: job.id, poiId, placeId: place.placeId }, 'Maps job completed');
+    logger.info({ jobId: job.id, poiId, providers: mapsData.providers }, 'Maps job completed');
     
     // Queue audit job
     await queueAuditJob(poiId);
@@ -83,6 +156,115 @@ export async function handleMapsJob(job: Job<MapsJobData>): Promise<void> {
   }
 }
 
+/**
+ * Google place of a POI. Matched and confirmed places are not searched
+ * again; low-confidence matches skip Google until they are confirmed, and
+ * places not found are searched again only after a backoff.
+ */
+async function resolveGooglePlace(poiId: string, poi: MapsPoi, query: MapsPlaceQuery): Promise<string | null> {
+  if (poi.placeMatchStatus === 'PENDING_REVIEW') {
+    logger.info({ poiId }, 'Place match awaiting confirmation, skipping Google');
+    return null;
+  }
+  
+  if (poi.placeMatchStatus === 'REJECTED') {
+    logger.info({ poiId }, 'No Google place for POI, skipping Google');
+    return null;
+  }
+  
+  if (poi.placeMatchStatus === 'NOT_FOUND' && !isPlaceSearchDue(poi.placeMatchedAt)) {
+    logger.info({ poiId, lastSearchAt: poi.placeMatchedAt }, 'Place not found recently, skipping Google');
+    return null;
+  }
+  
+  if (poi.placeId && (poi.placeMatchStatus === 'MATCHED' || poi.placeMatchStatus === 'CONFIRMED')) {
+    return poi.placeId;
+  }
+  
+  const candidates = await googleMapsProvider.findCandidates(query, poiId);
+  const match = matchPlace(poi, candidates);
+  
+  if (match.status === 'not_found') {
+    logger.warn({ poiId, name: poi.name }, 'Place not found on Google Maps');
+    apiRequestsTotal.labels({ service: 'google_maps', operation: 'findPlace', status: 'not_found' }).inc();
+    
+    await prisma.pOI.update({
+      where: { id: poiId },
+      data: { placeMatchStatus: 'NOT_FOUND', placeMatchedAt: new Date() },
+    });
+    return null;
+  }
+  
+  if (match.status === 'review') {
+    logger.info(
+      { poiId, name: poi.name, placeId: match.best?.placeId, confidence: match.best?.confidence, candidates: match.candidates.length },
+      'Low-confidence place match, waiting for confirmation'
+    );
+    apiRequestsTotal.labels({ service: 'google_maps', operation: 'findPlace', status: 'review' }).inc();
+    
+    await prisma.pOI.update({
+      where: { id: poiId },
+      data: {
+        placeMatchStatus: 'PENDING_REVIEW',
+        placeMatchConfidence: match.best?.confidence,
+        placeMatchedAt: new Date(),
+        placeCandidates: JSON.parse(JSON.stringify(match.candidates)),
+      },
+    });
+    return null;
+  }
+  
+  apiRequestsTotal.labels({ service: 'google_maps', operation: 'findPlace', status: 'success' }).inc();
+  
+  const placeId = match.best!.placeId;
+  await prisma.pOI.update({
+    where: { id: poiId },
+    data: {
+      placeId,
+      placeMatchStatus: 'MATCHED',
+      placeMatchConfidence: match.best!.confidence,
+      placeMatchedAt: new Date(),
+      placeCandidates: JSON.parse(JSON.stringify(match.candidates)),
+    },
+  });
+  
+  logger.info({ poiId, placeId, confidence: match.best!.confidence }, 'Place matched');
+  return placeId;
+}
+
+/**
+ * Place of a POI at another provider. Without a manual review queue only
+ * confident matches are used.
+ */
+async function resolveProviderPlace(
+  provider: MapsProvider,
+  poiId: string,
+  poi: MapsPoi,
+  query: MapsPlaceQuery
+): Promise<string | null> {
+  const placeIds = (poi.mapsPlaceIds as Record<string, string> | null) ?? {};
+  if (placeIds[provider.name]) return placeIds[provider.name];
+  
+  const match = matchPlace(poi, await provider.findCandidates(query, poiId));
+  apiRequestsTotal
+    .labels({ service: PROVIDER_SERVICES[provider.name], operation: 'findPlace', status: match.status === 'matched' ? 'success' : match.status })
+    .inc();
+  
+  if (match.status !== 'matched') {
+    logger.info({ poiId, provider: provider.name, status: match.status, confidence: match.best?.confidence }, 'No confident place match, provider skipped');
+    return null;
+  }
+  
+  const placeId = match.best!.placeId;
+  await prisma.pOI.update({
+    where: { id: poiId },
+    data: { mapsPlaceIds: { ...placeIds, [provider.name]: placeId } },
+  });
+  
+  logger.info({ poiId, provider: provider.name, placeId, confidence: match.best!.confidence }, 'Place matched');
+  return placeId;
+}
+
 /**
  * Queue audit job for POI
  */
@@ -1,6 +1,17 @@
 import { Job } from 'bullmq';
 import { createLogger } from '../../src/lib/logger';
-import { createCrawler, WebCrawler } from '../../src/lib/crawler';
+import { createCrawler, WebCrawler, type CrawlResult } from '../../src/lib/crawler';
+import { extractContactsFromPages } from '../../src/lib/contact-extractor';
+import { syncPoiContacts } from '../../src/lib/contacts';
+import { summarizeStructuredData, type SchemaNode } from '../../src/lib/structured-data';
+import { extractFieldsFromPages } from '../../src/lib/field-extractor';
+import { applyExtractedFields } from '../../src/lib/field-extraction';
+import { recordWebsiteHealth } from '../../src/lib/website-monitor';
+import { selectScreenshotUrls } from '../../src/lib/screenshots';
+import { findMenuDocument } from '../../src/lib/documents';
+import { groupLanguageVersions, sortByLanguagePreference } from '../../src/lib/page-language';
+import { loadCrawlArchive, saveCrawlArchive } from '../../src/lib/crawl-archive';
+import { isCrawlUnchanged } from '../../src/lib/page-validators';
 import prisma from '../../src/lib/db';
 import { getAuditQueue, getMapsQueue, addJob, type ScraperJobData } from '../../src/lib/queue';
 import { scraperRequestsTotal, scraperDuration, queueCompleted, queueFailed } from '../../src/lib/metrics';
@@ -11,26 +22,128 @@ const logger = createLogger('scraper-handler');
  * Handle scraper job
  */
 export async function handleScraperJob(job: Job<ScraperJobData>): Promise<void> {
-  const { poiId, url, maxDepth = 3 } = job.data;
+  const { poiId, url, maxDepth = 3, budget, force = false, replay } = job.data;
   const startTime = Date.now();
   
-  logger.info({ jobId: job.id, poiId, url }, 'Starting scraper job');
+  logger.info({ jobId: job.id, poiId, url, replay }, 'Starting scraper job');
   
   let crawler: WebCrawler | null = null;
   
   try {
     // Create crawler
-    crawler = createCrawler({ maxDepth });
-    await crawler.init();
+    // The browser is launched lazily, only for pages that need rendering
+    crawler = createCrawler({
+      maxDepth,
+      budget,
+      conditional: !force,
+      replay: replay ? await loadCrawlArchive(replay) : undefined,
+    });
+    
+    // Crawl website (a replay stores nothing and never touches the network)
+    const results = await crawler.crawl(url, replay ? undefined : poiId);
+    
+    const crawlStats = crawler.getStats();
+    
+    const archive = crawler.getArchive();
+    const archiveKey = archive && await saveCrawlArchive(poiId, archive).catch((error) => {
+      logger.warn({ poiId, url, error: error instanceof Error ? error.message : String(error) }, 'Saving crawl archive failed');
+      return null;
+    });
+    
+    // Record website health on every crawl, including unchanged ones
+    const health = replay ? null : await recordWebsiteHealth(poiId, url, results, crawler.getUserAgent()).catch((error) => {
+      logger.warn({ poiId, url, error: error instanceof Error ? error.message : String(error) }, 'Website health check failed');
+      return null;
+    });
+    
+    const poi = await prisma.pOI.findUnique({
+      where: { id: poiId },
+      select: {
+        name: true,
+        street: true,
+        city: true,
+        latitude: true,
+        longitude: true,
+        websiteData: true,
+        tldbData: true,
+        mapsData: true,
+      },
+    });
+    
+    // Nothing changed since the last crawl: keep website data and skip extraction.
+    // Maps data, website health and closure signals can still change, so maps
+    // and audit run anyway; the audit fingerprint keeps that audit cheap.
+    const knownUrls = (poi?.websiteData as { pageUrls?: string[] } | null)?.pageUrls;
+    if (!force && poi?.websiteData && isCrawlUnchanged(results, knownUrls)) {
+      await queueMapsJob(poiId, poi);
+      
+      scraperDuration.observe((Date.now() - startTime) / 1000);
+      scraperRequestsTotal.labels({ status: 'unchanged' }).inc();
+      queueCompleted.labels({ queue: 'scraper' }).inc();
+      
+      logger.info(
+        { jobId: job.id, poiId, pagesUnchanged: crawlStats?.pagesUnchanged, stopReason: crawlStats?.stopReason, archiveKey },
+        'Scraper job completed, no source pages changed'
+      );
+      return;
+    }
     
-    // Crawl website
-    const results = await crawler.crawl(url, poiId);
+    // Primary language pages first, so their values win over translations
+    const orderedResults = sortByLanguagePreference(results);
     
-    // Aggregate JSON-LD data
-    const jsonLdData = WebCrawler.aggregateJsonLd(results);
+    // Aggregate structured data (JSON-LD, Microdata, RDFa, OpenGraph, meta)
+    const structuredData = WebCrawler.aggregateStructuredData(orderedResults);
     
     // Extract structured data
-    const websiteData = extractWebsiteData(jsonLdData, results);
+    const structuredWebsiteData = extractWebsiteData(structuredData, orderedResults);
+    
+    // Extract remaining fields from page text with the LLM
+    const extractedFields = await extractFieldsFromPages(poiId, poi?.name || url, orderedResults, structuredWebsiteData);
+    
+    const pageLanguages = Object.fromEntries(
+      results.filter(r => r.language).map(r => [r.url, r.language as string])
+    );
+    const mergedData = applyExtractedFields(structuredWebsiteData, extractedFields, pageLanguages);
+    
+    // Screenshot the landing page and the pages values were taken from
+    const startUrl = results.find(r => r.selection.source === 'start')?.url ?? url;
+    const screenshots = replay ? {} : await crawler.captureScreenshots(
+      poiId,
+      selectScreenshotUrls(startUrl, (mergedData.fieldPages as Record<string, string>) ?? {})
+    );
+    
+    const websiteData = {
+      ...mergedData,
+      screenshots,
+      crawlStats,
+      health: health && {
+        score: health.score,
+        status: health.status,
+        issues: health.issues,
+        finalUrl: health.finalUrl,
+      },
+      ...(archiveKey && { crawlArchive: archiveKey }),
+      ...(replay && { replayedFrom: replay }),
+    };
+    
+    // Replay: audit the replayed website data directly, leaving the POI,
+    // its contacts, maps data and audits as they are
+    if (replay) {
+      await addJob(getAuditQueue(), {
+        poiId,
+        tldbData: (poi?.tldbData as Record<string, unknown>) || {},
+        websiteData: JSON.parse(JSON.stringify(websiteData)),
+        mapsData: (poi?.mapsData as Record<string, unknown>) || {},
+        replay: true,
+      });
+      
+      scraperDuration.observe((Date.now() - startTime) / 1000);
+      scraperRequestsTotal.labels({ status: 'replay' }).inc();
+      queueCompleted.labels({ queue: 'scraper' }).inc();
+      
+      logger.info({ jobId: job.id, poiId, replay, pagesReplayed: results.length }, 'Scraper replay completed, audit queued');
+      return;
+    }
     
     // Update POI with website data
     await prisma.pOI.update({
@@ -40,22 +153,12 @@ export async function handleScraperJob(job: Job<ScraperJobData>): Promise<void>
       },
     });
     
-    // Queue maps job for additional data
-    const poi = await prisma.pOI.findUnique({
-      where: { id: poiId },
-      select: { name: true, street: true, city: true, latitude: true, longitude: true },
-    });
+    // Extract contacts from Impressum, Kontakt and Team pages
+    const contacts = extractContactsFromPages(results);
+    await syncPoiContacts(poiId, contacts, results);
     
-    if (poi) {
-      const mapsQueue = getMapsQueue();
-      await addJob(mapsQueue, {
-        poiId,
-        name: poi.name,
-        address: `${poi.street || ''}, ${poi.city || ''}`.trim(),
-        latitude: poi.latitude || undefined,
-        longitude: poi.longitude || undefined,
-      });
-    }
+    // Queue maps job for additional data
+    await queueMapsJob(poiId, poi);
     
     const duration = (Date.now() - startTime) / 1000;
     scraperDuration.observe(duration);
@@ -63,7 +166,14 @@ export async function handleScraperJob(job: Job<ScraperJobData>): Promise<void>
     queueCompleted.labels({ queue: 'scraper' }).inc();
     
     logger.info(
-      { jobId: job.id, poiId, pagesScraped: results.length, duration },
+      {
+        jobId: job.id,
+        poiId,
+        pagesScraped: results.length,
+        pagesUnchanged: crawlStats?.pagesUnchanged,
+        duration,
+        stopReason: crawlStats?.stopReason,
+      },
       'Scraper job completed'
     );
   } catch (error) {
@@ -94,62 +204,65 @@ export async function handleScraperJob(job: Job<ScraperJobData>): Promise<void>
   }
 }
 
+/**
+ * Queue the maps job, which queues the audit
+ */
+async function queueMapsJob(
+  poiId: string,
+  poi: { name: string; street: string | null; city: string | null; latitude: number | null; longitude: number | null } | null
+): Promise<void> {
+  if (!poi) return;
+  
+  await addJob(getMapsQueue(), {
+    poiId,
+    name: poi.name,
+    address: `${poi.street || ''}, ${poi.city || ''}`.trim(),
+    latitude: poi.latitude || undefined,
+    longitude: poi.longitude || undefined,
+  });
+}
+
 /**
  * Extract structured data from crawl results
  */
 function extractWebsiteData(
-  jsonLdData: Record<string, unknown>[],
-  results: { url: string; html: string; jsonLd: Record<string, unknown>[] }[]
+  structuredData: SchemaNode[],
+  results: CrawlResult[]
 ): Record<string, unknown> {
-  const data: Record<string, unknown> = {
-    scrapedAt: new Date().toISOString(),
-    pagesScraped: results.length,
-    hasJsonLd: jsonLdData.length > 0,
-  };
+  const { values, sources, pages, syntaxes } = summarizeStructuredData(structuredData);
+  const fieldSources: Record<string, string> = { ...sources };
   
-  // Extract from JSON-LD
-  for (const item of jsonLdData) {
-    const type = item['@type'] as string | string[] | undefined;
-    
-    if (!type) continue;
-    
-    const types = Array.isArray(type) ? type : [type];
-    
-    // Check for relevant Schema.org types
-    if (types.some(t => ['LocalBusiness', 'Restaurant', 'Hotel', 'TouristAttraction', 'Place'].includes(t))) {
-      // Extract fields
-      if (item.name && !data.name) data.name = item.name;
-      if (item.telephone && !data.telephone) data.telephone = item.telephone;
-      if (item.email && !data.email) data.email = item.email;
-      if (item.url && !data.url) data.url = item.url;
-      if (item.description && !data.description) data.description = item.description;
-      if (item.priceRange && !data.priceRange) data.priceRange = item.priceRange;
-      if (item.servesCuisine && !data.servesCuisine) data.servesCuisine = item.servesCuisine;
-      if (item.openingHoursSpecification && !data.openingHours) {
-        data.openingHours = item.openingHoursSpecification;
-      }
-      if (item.paymentAccepted && !data.paymentAccepted) {
-        data.paymentAccepted = item.paymentAccepted;
-      }
-      
-      // Address
-      const address = item.address as Record<string, unknown> | undefined;
-      if (address && typeof address === 'object') {
-        if (address.streetAddress && !data.streetAddress) data.streetAddress = address.streetAddress;
-        if (address.postalCode && !data.postalCode) data.postalCode = address.postalCode;
-        if (address.addressLocality && !data.addressLocality) data.addressLocality = address.addressLocality;
-        if (address.addressRegion && !data.addressRegion) data.addressRegion = address.addressRegion;
-        if (address.addressCountry && !data.addressCountry) data.addressCountry = address.addressCountry;
-      }
-      
-      // Geo
-      const geo = item.geo as Record<string, unknown> | undefined;
-      if (geo && typeof geo === 'object') {
-        if (geo.latitude && !data.latitude) data.latitude = geo.latitude;
-        if (geo.longitude && !data.longitude) data.longitude = geo.longitude;
-      }
-    }
+  // A linked menu document (PDF/DOCX) counts as the menu
+  const menuDocument = values.hasMenu === undefined ? findMenuDocument(results) : null;
+  if (menuDocument) {
+    values.hasMenu = menuDocument;
+    fieldSources.hasMenu = 'document';
+    pages.hasMenu = menuDocument;
+  }
+  
+  // Values per page language, compared against the matching TLDB language
+  const byLanguage: Record<string, Record<string, unknown>> = {};
+  for (const language of new Set(results.map(r => r.language).filter(Boolean) as string[])) {
+    const languagePages = results.filter(r => r.language === language && !r.error);
+    byLanguage[language] = summarizeStructuredData(WebCrawler.aggregateStructuredData(languagePages)).values;
   }
   
-  return data;
+  return {
+    scrapedAt: new Date().toISOString(),
+    pagesScraped: results.length,
+    // Pages crawled without error, to tell a vanished page on the next crawl
+    pageUrls: results.filter(r => !r.error).map(r => r.url),
+    documentsScraped: results.filter(r => r.documentType && !r.error).length,
+    hasJsonLd: syntaxes.includes('json-ld'),
+    structuredDataSyntaxes: syntaxes,
+    ...values,
+    // Which syntax (json-ld, microdata, rdfa, opengraph, meta) or 'document' each value came from
+    fieldSources,
+    // Page URL each value was found on
+    fieldPages: pages,
+    languages: Object.keys(byLanguage),
+    byLanguage,
+    // hreflang versions of the same page: { groupKey: { de: url, en: url } }
+    languageGroups: groupLanguageVersions(results),
+  };
 }
@@ -6,11 +6,13 @@ import {
   type MapsJobData,
   type AuditJobData,
   type MailJobData,
+  type CoverageJobData,
 } from '../src/lib/queue';
 import { handleScraperJob } from './handlers/scraper';
 import { handleMapsJob } from './handlers/maps';
 import { handleAuditJob } from './handlers/audit';
 import { handleMailJob } from './handlers/mail';
+import { handleCoverageJob } from './handlers/coverage';
 import { AutoScaler } from './auto-scaler';
 import { Scheduler } from './scheduler';
 
@@ -20,6 +22,7 @@ const logger = createLogger('worker');
  * Worker Configuration
  */
 const WORKER_CONCURRENCY = parseInt(process.env.WORKER_CONCURRENCY || '5', 10);
+const SCRAPER_JOBS_PER_SECOND = parseInt(process.env.SCRAPER_JOBS_PER_SECOND || '10', 10);
 
 /**
  * Graceful shutdown handler
@@ -38,6 +41,7 @@ async function shutdown(signal: string) {
     mapsWorker?.close(),
     auditWorker?.close(),
     mailWorker?.close(),
+    coverageWorker?.close(),
   ]);
   
   // Stop scheduler
@@ -62,8 +66,9 @@ const scraperWorker = createWorker<ScraperJobData>(
   handleScraperJob,
   { 
     concurrency: WORKER_CONCURRENCY,
+    // Per-host politeness is enforced by the crawler; this only caps overall throughput
     limiter: {
-      max: 1, // 1 request per second (rate limiting)
+      max: SCRAPER_JOBS_PER_SECOND,
       duration: 1000,
     },
   }
@@ -87,6 +92,12 @@ const mailWorker = createWorker<MailJobData>(
   { concurrency: WORKER_CONCURRENCY }
 );
 
+const coverageWorker = createWorker<CoverageJobData>(
+  QUEUE_NAMES.COVERAGE,
+  handleCoverageJob,
+  { concurrency: 1 } // Scans are long and each has its own cost cap
+);
+
 /**
  * Auto-scaler for dynamic worker management
  */
@@ -126,4 +137,4 @@ main().catch((error) => {
   process.exit(1);
 });
 
-export { scraperWorker, mapsWorker, auditWorker, mailWorker, autoScaler, scheduler };
+export { scraperWorker, mapsWorker, auditWorker, mailWorker, coverageWorker, autoScaler, scheduler };